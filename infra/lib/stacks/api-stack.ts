@@ -45,6 +45,7 @@ export class ApiStack extends cdk.Stack {
       DATABASE_SECRET_ARN: databaseSecret.secretArn,
       DATABASE_NAME: 'sportsage',
       SETTLEMENT_QUEUE_URL: settlementQueue.queueUrl,
+      ENVIRONMENT: config.environment,
     };
 
     // Default Lambda props
@@ -88,7 +89,7 @@ export class ApiStack extends cdk.Stack {
     this.api = new apigatewayv2.HttpApi(this, 'HttpApi', {
       apiName: `sport-sage-${config.environment}-api`,
       corsPreflight: {
-        allowHeaders: ['Authorization', 'Content-Type', 'X-Amz-Date', 'X-Api-Key'],
+        allowHeaders: ['Authorization', 'Content-Type', 'X-Amz-Date', 'X-Api-Key', 'Idempotency-Key'],
         allowMethods: [
           apigatewayv2.CorsHttpMethod.GET,
           apigatewayv2.CorsHttpMethod.POST,
@@ -135,6 +136,14 @@ export class ApiStack extends cdk.Stack {
       });
     }
 
+    // Rewarded-ad callbacks come from the ad network's servers, not a signed-in user.
+    // The handler verifies the callback's signature instead. AdMob sends a GET.
+    this.api.addRoutes({
+      path: '/api/wallet/ad-reward',
+      methods: [apigatewayv2.HttpMethod.GET, apigatewayv2.HttpMethod.POST],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration('adRewardIntegration', handlers['wallet']),
+    });
+
     // Outputs
     new cdk.CfnOutput(this, 'ApiUrl', {
       value: this.api.url || '',
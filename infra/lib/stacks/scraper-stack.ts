@@ -9,6 +9,8 @@
  * - sync-live-scores: Every 1 min, uses free APIs
  * - sync-odds: Every 15 min, uses free OddsPortal
  * - transition-events: Every 1 min, DB only
+ * - close-leaderboards: Hourly, DB only
+ * - subscription-lifecycle: Hourly, DB only
  * - settlement: SQS triggered
  */
 import * as cdk from 'aws-cdk-lib';
@@ -172,6 +174,56 @@ export class ScraperStack extends cdk.Stack {
       enabled: false, // Disabled - using VPS scraper instead
     });
 
+    // Close Leaderboards - hourly (snapshots ended weekly/monthly/season leaderboards and pays prizes)
+    const closeLeaderboardsHandler = new NodejsFunction(this, 'CloseLeaderboards', {
+      ...defaultScraperProps,
+      functionName: `sport-sage-${config.environment}-close-leaderboards`,
+      entry: path.join(__dirname, '../../../packages/scraper/src/jobs/close-leaderboards.ts'),
+      handler: 'handler',
+      memorySize: 256, // Lightweight - no browser needed
+      timeout: cdk.Duration.minutes(2),
+      // Override bundling to exclude playwright
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    databaseSecret.grantRead(closeLeaderboardsHandler);
+    databaseCluster.grantDataApiAccess(closeLeaderboardsHandler);
+
+    new events.Rule(this, 'CloseLeaderboardsSchedule', {
+      ruleName: `sport-sage-${config.environment}-close-leaderboards`,
+      schedule: events.Schedule.rate(cdk.Duration.hours(1)),
+      targets: [new targets.LambdaFunction(closeLeaderboardsHandler)],
+    });
+
+    // Subscription Lifecycle - hourly (downgrades expired subscriptions and pays monthly bonuses)
+    const subscriptionLifecycleHandler = new NodejsFunction(this, 'SubscriptionLifecycle', {
+      ...defaultScraperProps,
+      functionName: `sport-sage-${config.environment}-subscription-lifecycle`,
+      entry: path.join(__dirname, '../../../packages/scraper/src/jobs/subscription-lifecycle.ts'),
+      handler: 'handler',
+      memorySize: 256, // Lightweight - no browser needed
+      timeout: cdk.Duration.minutes(2),
+      // Override bundling to exclude playwright
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    databaseSecret.grantRead(subscriptionLifecycleHandler);
+    databaseCluster.grantDataApiAccess(subscriptionLifecycleHandler);
+
+    new events.Rule(this, 'SubscriptionLifecycleSchedule', {
+      ruleName: `sport-sage-${config.environment}-subscription-lifecycle`,
+      schedule: events.Schedule.rate(cdk.Duration.hours(1)),
+      targets: [new targets.LambdaFunction(subscriptionLifecycleHandler)],
+    });
+
     // Sync Odds - every 15 minutes
     const syncOddsHandler = new NodejsFunction(this, 'SyncOdds', {
       ...defaultScraperProps,
@@ -4,6 +4,7 @@ import { Link, router } from 'expo-router';
 import { MotiView } from 'moti';
 import * as Haptics from 'expo-haptics';
 import { useAuth, usePredictions, useChallenges, useFriends } from '@/lib/store';
+import { isFeatureEnabled } from '@/lib/features';
 import { useEventsStore } from '@/lib/stores/events';
 import { canClaimTopup } from '@/lib/mock-data';
 import { Card, Button, Badge } from '@/components/ui';
@@ -50,7 +51,7 @@ function getActivityIcon(type: FriendActivity['type']): React.ReactElement {
 }
 
 export default function HomeScreen(): React.ReactElement {
-  const { user, stats, updateUser, updateStats } = useAuth();
+  const { user, stats, loginStreak, updateUser, updateStats } = useAuth();
   const { getPendingPredictions } = usePredictions();
   const { getActiveChallenges, claimChallenge } = useChallenges();
   const { friendActivity } = useFriends();
@@ -81,9 +82,9 @@ export default function HomeScreen(): React.ReactElement {
   // Check if user is low on coins (for rescue prompt)
   const isLowOnCoins = (user?.coins ?? 0) < 100;
 
-  const handleClaimChallenge = (challengeId: string): void => {
+  const handleClaimChallenge = async (challengeId: string): Promise<void> => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    const rewards = claimChallenge(challengeId);
+    const rewards = await claimChallenge(challengeId);
     if (rewards) {
       setShowCoinBurst(true);
       const rewardParts: string[] = [];
@@ -170,6 +171,22 @@ export default function HomeScreen(): React.ReactElement {
         </MotiView>
       )}
 
+      {/* Login Streak */}
+      {isFeatureEnabled('streakBonuses') && loginStreak && loginStreak.currentStreak > 0 && (
+        <MotiView
+          from={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ type: 'spring', damping: 15, delay: 150 }}
+          style={styles.streakContainer}
+        >
+          <StreakIndicator
+            type="login"
+            currentStreak={loginStreak.currentStreak}
+            bestStreak={loginStreak.bestStreak}
+          />
+        </MotiView>
+      )}
+
       {/* Top-up Banner */}
       {canTopup && (
         <MotiView
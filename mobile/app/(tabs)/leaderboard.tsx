@@ -30,7 +30,7 @@ export default function LeaderboardScreen(): React.ReactElement {
   const [showAddFriend, setShowAddFriend] = useState(false);
   const [friendUsername, setFriendUsername] = useState('');
 
-  const { friends, friendActivity, addFriend, getFriendLeaderboard, isFriend } = useFriends();
+  const { friends, friendActivity, addFriend, getFriendLeaderboard, refreshFriendLeaderboard, isFriend } = useFriends();
 
   // Find current user's entry
   const currentUserEntry = LEADERBOARD.find((e) => e.isCurrentUser);
@@ -47,7 +47,7 @@ export default function LeaderboardScreen(): React.ReactElement {
 
   const onRefresh = async (): Promise<void> => {
     setRefreshing(true);
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await refreshFriendLeaderboard();
     setRefreshing(false);
   };
 
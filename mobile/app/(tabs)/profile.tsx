@@ -22,9 +22,9 @@ export default function ProfileScreen(): React.ReactElement {
   const unclaimedAchievements = getUnclaimedAchievements();
   const recentAchievements = achievements.slice(0, 4);
 
-  const handleClaimAchievement = (achievementId: string): void => {
+  const handleClaimAchievement = async (achievementId: string): Promise<void> => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    const rewards = claimAchievement(achievementId);
+    const rewards = await claimAchievement(achievementId);
     if (rewards) {
       const rewardParts: string[] = [];
       if (rewards.coins > 0) rewardParts.push(`${rewards.coins} coins`);
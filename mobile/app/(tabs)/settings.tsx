@@ -25,7 +25,7 @@ import { layout } from '@/constants/layout';
 export default function SettingsScreen(): React.ReactElement {
   const { user, logout, stats } = useAuth();
   const { settings, updateNotifications, updatePrivacy } = useSettings();
-  const { activeShields, purchaseShield, hasShield } = useStreakShields();
+  const { activeShields, autoUse, purchaseShield, setAutoUse, hasShield } = useStreakShields();
   const { stats: referralStats, shareReferralCode } = useReferrals();
 
   const [showShieldShop, setShowShieldShop] = useState(false);
@@ -64,10 +64,12 @@ export default function SettingsScreen(): React.ReactElement {
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Buy',
-          onPress: () => {
-            const success = purchaseShield(shieldId);
+          onPress: async () => {
+            const success = await purchaseShield(shieldId);
             if (success) {
               Alert.alert('Success', `You now have ${activeShields + shield.shieldsProvided} streak shields!`);
+            } else {
+              Alert.alert('Purchase Failed', 'Your shields could not be purchased. Please try again.');
             }
           },
         },
@@ -162,6 +164,14 @@ export default function SettingsScreen(): React.ReactElement {
             transition={{ type: 'timing', duration: 200 }}
           >
             <View style={styles.shieldShop}>
+              <SettingToggle
+                icon={<ShieldIcon size={20} color={colors.textSecondary} />}
+                title="Auto-use shields"
+                subtitle="Spend a shield instead of losing your win streak"
+                value={autoUse}
+                onValueChange={setAutoUse}
+                isLast
+              />
               {STREAK_SHIELDS.map((shield) => (
                 <Pressable
                   key={shield.id}
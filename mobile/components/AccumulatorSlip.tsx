@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, Pressable, ScrollView, TextInput, Alert } from 'react-native';
 import { MotiView, AnimatePresence } from 'moti';
 import * as Haptics from 'expo-haptics';
-import { useAccumulator, useAuth } from '@/lib/store';
+import { useAccumulator, useAuth, useWallet } from '@/lib/store';
 import { Card, Button, Badge } from '@/components/ui';
 import {
   CloseIcon,
@@ -32,6 +32,7 @@ export function AccumulatorSlip({ onPlaced }: AccumulatorSlipProps): React.React
     placeAccumulator,
   } = useAccumulator();
   const { user } = useAuth();
+  const { maxAccumulatorStake } = useWallet();
 
   const [isExpanded, setIsExpanded] = useState(false);
   const [stake, setStake] = useState('50');
@@ -44,14 +45,14 @@ export function AccumulatorSlip({ onPlaced }: AccumulatorSlipProps): React.React
   const potentialReturn = Math.floor(stakeNum * totalOdds * bonusMultiplier);
   const potentialProfit = potentialReturn - stakeNum;
   const canAfford = (user?.coins ?? 0) >= stakeNum;
-  const isValidStake = stakeNum >= ACCUMULATOR_LIMITS.minStake && stakeNum <= ACCUMULATOR_LIMITS.maxStake;
+  const isValidStake = stakeNum >= ACCUMULATOR_LIMITS.minStake && stakeNum <= maxAccumulatorStake;
 
   const handlePlaceBet = (): void => {
     if (!canPlace || !isValidStake || !canAfford) {
       if (!canAfford) {
         Alert.alert('Insufficient Coins', 'You don\'t have enough coins for this stake.');
       } else if (!isValidStake) {
-        Alert.alert('Invalid Stake', `Stake must be between ${ACCUMULATOR_LIMITS.minStake} and ${ACCUMULATOR_LIMITS.maxStake} coins.`);
+        Alert.alert('Invalid Stake', `Stake must be between ${ACCUMULATOR_LIMITS.minStake} and ${maxAccumulatorStake} coins.`);
       }
       return;
     }
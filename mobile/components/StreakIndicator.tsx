@@ -8,9 +8,10 @@ import { layout } from '@/constants/layout';
 interface StreakIndicatorProps {
   currentStreak: number;
   bestStreak: number;
+  type?: 'win' | 'login';
 }
 
-export function StreakIndicator({ currentStreak, bestStreak }: StreakIndicatorProps): React.ReactElement | null {
+export function StreakIndicator({ currentStreak, bestStreak, type = 'win' }: StreakIndicatorProps): React.ReactElement | null {
   if (currentStreak < 1) return null;
 
   const isOnFire = currentStreak >= 3;
@@ -37,7 +38,9 @@ export function StreakIndicator({ currentStreak, bestStreak }: StreakIndicatorPr
       </MotiView>
 
       <View style={styles.info}>
-        <Text style={styles.streakCount}>{currentStreak} Win Streak</Text>
+        <Text style={styles.streakCount}>
+          {currentStreak} {type === 'login' ? 'Day Login' : 'Win'} Streak
+        </Text>
         {isNewBest && (
           <MotiView
             from={{ opacity: 0, scale: 0.8 }}
@@ -24,6 +24,7 @@ export interface User {
   isOver18: boolean;
   showAffiliates: boolean;
   avatarUrl: string | null;
+  timezone: string;
   referralCode: string | null;
   createdAt: string;
   updatedAt: string;
@@ -101,6 +102,34 @@ export interface Event {
   } | null;
 }
 
+export interface OddsPoint {
+  at: string;
+  odds: number;
+}
+
+export interface OutcomeOddsHistory {
+  marketId: string;
+  marketType: string;
+  line: number | null;
+  outcomeId: string;
+  name: string;
+  opening: number;
+  current: number;
+  high: number;
+  low: number;
+  changePercent: number; // Opening to current
+  steamMove: { from: OddsPoint; to: OddsPoint; changePercent: number } | null; // Sharp recent shortening
+  points: OddsPoint[];
+}
+
+export interface StarsMultiplierBreakdown {
+  baseStars: number;
+  components: Array<{ source: 'sponsor' | 'subscription' | 'boost'; label: string; multiplier: number }>;
+  uncappedMultiplier: number;
+  maxMultiplier: number;
+  isCapped: boolean;
+}
+
 export interface Prediction {
   id: string;
   type: 'single' | 'accumulator';
@@ -109,6 +138,8 @@ export interface Prediction {
   totalOdds: number;
   potentialCoins: number;
   potentialStars: number;
+  starsMultiplier: number;
+  starsMultiplierBreakdown?: StarsMultiplierBreakdown; // Only on the create response
   status: 'pending' | 'won' | 'lost' | 'void' | 'cashout';
   settledCoins: number | null;
   settledStars: number | null;
@@ -168,18 +199,58 @@ export interface Pagination {
 // AUTH
 // ============================================================================
 
-export async function register(username: string): Promise<{ user: User; stats: UserStats }> {
-  return httpClient.post('/api/auth/register', { username });
+export async function register(
+  username: string,
+  referralCode?: string
+): Promise<{ user: User; stats: UserStats; referral?: { referrerUsername: string } | null }> {
+  return httpClient.post('/api/auth/register', { username, referralCode });
 }
 
-export async function getMe(): Promise<{ user: User; stats: UserStats }> {
+export interface LoginStreak {
+  currentStreak: number;
+  bestStreak: number;
+  checkedInToday: boolean;
+  lastCheckInAt: string | null;
+  nextCheckInAt: string;
+  nextBonusCoins: number;
+  nextMilestone: { day: number; reward: { coins: number; stars: number; gems: number } } | null;
+  timezone: string;
+}
+
+export interface LoginCheckInResponse {
+  checkedIn: boolean;
+  message: string;
+  bonusCoins?: number;
+  milestoneReward?: { coins: number; stars: number; gems: number } | null;
+  newCoinsBalance?: number;
+  newStarsBalance?: number;
+  newGemsBalance?: number;
+  loginStreak: LoginStreak;
+}
+
+export async function getMe(): Promise<{ user: User; stats: UserStats; loginStreak: LoginStreak }> {
   return httpClient.get('/api/auth/me');
 }
 
-export async function updateProfile(updates: Partial<Pick<User, 'isOver18' | 'showAffiliates' | 'avatarUrl'>>): Promise<{ user: User; stats: UserStats }> {
+export async function updateProfile(updates: Partial<Pick<User, 'isOver18' | 'showAffiliates' | 'avatarUrl' | 'timezone'>>): Promise<{ user: User; stats: UserStats }> {
   return httpClient.patch('/api/auth/me', updates);
 }
 
+export async function redeemReferralCode(code: string): Promise<{
+  message: string;
+  referrerUsername: string;
+  status: 'pending' | 'completed' | 'rewarded';
+  rewardCoins: number;
+  rewardStars: number;
+}> {
+  return httpClient.post('/api/auth/referral', { code });
+}
+
+// timezone is the device's IANA zone; the streak day rolls over at the user's midnight
+export async function checkIn(timezone?: string): Promise<LoginCheckInResponse> {
+  return httpClient.post('/api/auth/check-in', { timezone });
+}
+
 export async function checkUsername(username: string): Promise<{ username: string; available: boolean }> {
   return httpClient.get(`/api/auth/check-username/${username}`, { requiresAuth: false });
 }
@@ -204,6 +275,10 @@ export async function getEventById(id: string): Promise<{ data: Event }> {
   return httpClient.get(`/api/events/${id}`);
 }
 
+export async function getEventOddsHistory(id: string, points?: number): Promise<{ data: { eventId: string; outcomes: OutcomeOddsHistory[] } }> {
+  return httpClient.get(`/api/events/${id}/odds-history`, { params: { points } });
+}
+
 export async function getEventsBySport(sportSlug: string): Promise<{ data: Event[]; pagination: Pagination }> {
   return getEvents({ sport: sportSlug });
 }
@@ -227,7 +302,16 @@ export interface CreatePredictionParams {
 }
 
 export async function createPrediction(params: CreatePredictionParams): Promise<{ prediction: Prediction; newBalance: number }> {
-  return httpClient.post('/api/predictions', params);
+  return httpClient.post('/api/predictions', params, { idempotent: true });
+}
+
+export interface CreateAccumulatorParams {
+  stake: number;
+  selections: Array<{ eventId: string; outcomeId: string }>;
+}
+
+export async function createAccumulator(params: CreateAccumulatorParams): Promise<{ prediction: Prediction; newBalance: number }> {
+  return httpClient.post('/api/predictions/accumulator', params, { idempotent: true });
 }
 
 export async function getPredictions(params?: { status?: string; page?: number; pageSize?: number }): Promise<{ data: Prediction[]; pagination: Pagination }> {
@@ -246,6 +330,29 @@ export async function getPredictionStats(): Promise<UserStats> {
   return httpClient.get('/api/predictions/stats');
 }
 
+export interface CashoutQuote {
+  quoteId: string;
+  predictionId: string;
+  coins: number;
+  currentOdds: number;
+  isLive: boolean;
+  expiresAt: string; // Quotes last a few seconds - accept before this or ask again
+}
+
+export async function getCashoutQuote(predictionId: string): Promise<CashoutQuote> {
+  return httpClient.post(`/api/predictions/${predictionId}/cashout`);
+}
+
+export async function acceptCashout(predictionId: string, quoteId: string): Promise<{
+  message: string;
+  predictionId: string;
+  status: 'cashout';
+  settledCoins: number;
+  newBalance: number;
+}> {
+  return httpClient.post(`/api/predictions/${predictionId}/cashout`, { quoteId });
+}
+
 // ============================================================================
 // WALLET
 // ============================================================================
@@ -255,18 +362,66 @@ export interface Wallet {
   stars: number;
   gems: number;
   subscriptionTier: 'free' | 'pro' | 'elite';
+  entitlements: Entitlements;
   canClaimDailyTopup: boolean;
   nextTopupAt: string | null;
+  adRewards: AdRewardStatus;
+}
+
+// What the user's active subscription tier allows (free once a subscription expires)
+export interface Entitlements {
+  tier: 'free' | 'pro' | 'elite';
+  maxStake: number;
+  maxAccumulatorStake: number;
+  dailyTopupCoins: number;
+  adFree: boolean;
+  starsMultiplier: number;
+}
+
+export interface AdRewardStatus {
+  watchedToday: number;
+  dailyLimit: number;
+  remainingToday: number;
+  rewardCoins: number;
+  resetsAt: string; // The user's next local midnight
+}
+
+// Dates are ISO strings; a date-only `to` includes that whole day
+export interface TransactionFilters {
+  type?: string;
+  currency?: 'coins' | 'stars' | 'gems';
+  from?: string;
+  to?: string;
+}
+
+export interface TransactionsSummary {
+  from: string | null;
+  to: string | null;
+  timezone: string;
+  weeklyNetCoins: { weekStart: string; credited: number; debited: number; net: number }[];
+  bySport: {
+    sportId: string | null; // null for accumulators
+    sportName: string;
+    predictions: number;
+    staked: number;
+    won: number;
+    refunded: number;
+    net: number;
+  }[];
 }
 
 export async function getWallet(): Promise<Wallet> {
   return httpClient.get('/api/wallet');
 }
 
-export async function getTransactions(params?: { page?: number; pageSize?: number }): Promise<{ data: Transaction[]; pagination: Pagination }> {
+export async function getTransactions(params?: { page?: number; pageSize?: number } & TransactionFilters): Promise<{ data: Transaction[]; pagination: Pagination }> {
   return httpClient.get('/api/wallet/transactions', { params: params as Record<string, string | number | undefined> });
 }
 
+export async function getTransactionsSummary(params?: Pick<TransactionFilters, 'from' | 'to'>): Promise<TransactionsSummary> {
+  return httpClient.get('/api/wallet/transactions/summary', { params: params as Record<string, string | number | undefined> });
+}
+
 export async function getTopupStatus(): Promise<{ canClaim: boolean; amount: number; lastClaimedAt: string | null; nextClaimAt: string | null; hoursUntilNextClaim: number }> {
   return httpClient.get('/api/wallet/topup/status');
 }
@@ -275,15 +430,58 @@ export async function claimDailyTopup(): Promise<{ message: string; coinsAdded:
   return httpClient.post('/api/wallet/topup');
 }
 
+// Rewarded ads are paid by the ad network's server-to-server callback, not the app.
+// After an ad finishes, refresh this (or the wallet) to pick up the credit.
+export async function getAdRewardStatus(): Promise<AdRewardStatus> {
+  return httpClient.get('/api/wallet/ad-reward/status');
+}
+
 // ============================================================================
 // LEADERBOARD
 // ============================================================================
 
-export async function getLeaderboard(params?: { page?: number; pageSize?: number; sortBy?: 'stars' | 'wins' | 'streak' }): Promise<{ data: LeaderboardEntry[]; pagination: Pagination; sortBy: string }> {
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'season';
+
+export interface LeaderboardPrize {
+  coins: number;
+  stars: number;
+  gems: number;
+}
+
+export interface PeriodLeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  stars: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  currentStreak: number;
+  bestStreak: number;
+  isCurrentUser: boolean;
+  prize: LeaderboardPrize | null;
+}
+
+export interface LeaderboardPeriodInfo {
+  period: LeaderboardPeriod;
+  periodKey: string;
+  startsAt: string | null;
+  endsAt: string | null;
+}
+
+export type LeaderboardScope = 'global' | 'friends';
+
+export async function getLeaderboard(params?: { page?: number; pageSize?: number; sortBy?: 'stars' | 'wins' | 'streak'; scope?: LeaderboardScope }): Promise<{ data: LeaderboardEntry[]; pagination: Pagination; sortBy: string; scope: LeaderboardScope }> {
   return httpClient.get('/api/leaderboard', { params: params as Record<string, string | number | undefined> });
 }
 
-export async function getLeaderboardPosition(): Promise<{
+// Omit periodKey for the current period; pass a past one (e.g. '2026-W42') for its final standings
+export async function getPeriodLeaderboard(params: { period: LeaderboardPeriod; periodKey?: string; page?: number; pageSize?: number; scope?: LeaderboardScope }): Promise<{ data: PeriodLeaderboardEntry[]; pagination: Pagination; isClosed: boolean; scope: LeaderboardScope } & LeaderboardPeriodInfo> {
+  return httpClient.get('/api/leaderboard', { params: params as Record<string, string | number | undefined> });
+}
+
+export async function getLeaderboardPosition(scope?: LeaderboardScope): Promise<{
   rank: number | null;
   totalUsers: number;
   stars: number;
@@ -295,25 +493,438 @@ export async function getLeaderboardPosition(): Promise<{
   percentile: number;
   percentileMessage: string;
 }> {
-  return httpClient.get('/api/leaderboard/position');
+  return httpClient.get('/api/leaderboard/position', { params: { scope } });
+}
+
+export async function getPeriodLeaderboardPosition(period: LeaderboardPeriod, scope?: LeaderboardScope): Promise<{
+  rank: number | null;
+  totalUsers?: number;
+  stars: number;
+  wins?: number;
+  losses?: number;
+  winRate?: number;
+  percentile: number | null;
+  prize?: LeaderboardPrize | null;
+} & LeaderboardPeriodInfo> {
+  return httpClient.get('/api/leaderboard/position', { params: { period, scope } });
+}
+
+export interface League {
+  id: string;
+  name: string;
+  ownerId: string;
+  isOwner: boolean;
+  inviteCode: string;
+  startsAt: string;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface LeagueStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  stars: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  currentStreak: number;
+  bestStreak: number;
+  isCurrentUser: boolean;
+}
+
+export async function getLeagues(): Promise<{ leagues: League[] }> {
+  return httpClient.get('/api/leaderboard/leagues');
+}
+
+export async function createLeague(name: string, startsAt?: string): Promise<{ league: League }> {
+  return httpClient.post('/api/leaderboard/leagues', { name, startsAt });
+}
+
+export async function joinLeague(code: string): Promise<{ league: League }> {
+  return httpClient.post('/api/leaderboard/leagues/join', { code });
+}
+
+export async function getLeague(leagueId: string, params?: { page?: number; pageSize?: number }): Promise<{ league: League; data: LeagueStanding[]; pagination: Pagination }> {
+  return httpClient.get(`/api/leaderboard/leagues/${leagueId}`, { params: params as Record<string, string | number | undefined> });
+}
+
+export async function updateLeague(leagueId: string, updates: { name?: string; startsAt?: string }): Promise<{ league: League }> {
+  return httpClient.patch(`/api/leaderboard/leagues/${leagueId}`, updates);
+}
+
+export async function deleteLeague(leagueId: string): Promise<{ success: boolean }> {
+  return httpClient.delete(`/api/leaderboard/leagues/${leagueId}`);
+}
+
+export async function leaveLeague(leagueId: string): Promise<{ success: boolean }> {
+  return httpClient.post(`/api/leaderboard/leagues/${leagueId}/leave`);
+}
+
+export async function removeLeagueMember(leagueId: string, userId: string): Promise<{ success: boolean }> {
+  return httpClient.delete(`/api/leaderboard/leagues/${leagueId}/members/${userId}`);
 }
 
 // ============================================================================
-// COMING SOON - Placeholder functions that return errors
+// SOCIAL
 // ============================================================================
 
-export async function purchaseGemPack(_packId: string): Promise<never> {
-  throw new Error('Shop is coming soon!');
+export interface FriendProfile {
+  userId: string;
+  username: string;
+  avatarUrl?: string;
+  subscriptionTier: 'free' | 'pro' | 'elite';
+  stats: {
+    totalPredictions: number;
+    winRate: number;
+    currentStreak: number;
+    bestStreak: number;
+  };
+  isOnline: boolean;
+  lastActiveAt?: string;
+}
+
+export interface Friendship {
+  id: string;
+  requesterId: string;
+  addresseeId: string;
+  status: 'pending' | 'accepted' | 'blocked';
+  createdAt: string;
+  acceptedAt?: string;
+}
+
+export interface FriendsList {
+  friends: FriendProfile[];
+  pendingRequests: Array<{ friendship: Friendship; user: FriendProfile }>;
+  sentRequests: Array<{ friendship: Friendship; user: FriendProfile }>;
+}
+
+export interface UserSearchResult {
+  userId: string;
+  username: string;
+  avatarUrl?: string;
+  subscriptionTier: 'free' | 'pro' | 'elite';
+  isFriend: boolean;
+  hasPendingRequest: boolean;
 }
 
-export async function purchaseCosmetic(_cosmeticId: string, _currency: 'stars' | 'gems'): Promise<never> {
-  throw new Error('Shop is coming soon!');
+export interface ActivityFeedItem {
+  id: string;
+  userId: string;
+  username: string;
+  avatarUrl?: string;
+  type:
+    | 'prediction_placed'
+    | 'prediction_won'
+    | 'accumulator_won'
+    | 'achievement_unlocked'
+    | 'challenge_completed'
+    | 'streak_milestone'
+    | 'leaderboard_rank'
+    | 'friend_joined'
+    | 'streak_shield_used';
+  title: string;
+  description?: string;
+  predictionId?: string;
+  achievementId?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
 }
 
-export async function watchRewardedAd(_adType: string): Promise<never> {
-  throw new Error('Ads & rewards are coming soon!');
+export async function getActivityFeed(params?: { cursor?: string; limit?: number }): Promise<{ items: ActivityFeedItem[]; nextCursor?: string; hasMore: boolean }> {
+  return httpClient.get('/api/social/feed', { params });
 }
 
+export async function getFriends(): Promise<FriendsList> {
+  return httpClient.get('/api/social/friends');
+}
+
+export async function searchUsers(query: string): Promise<{ results: UserSearchResult[]; total: number }> {
+  return httpClient.get('/api/social/search', { params: { q: query } });
+}
+
+export async function sendFriendRequest(target: { userId: string } | { username: string }): Promise<{ friendship: Friendship }> {
+  return httpClient.post('/api/social/friends/requests', target);
+}
+
+export async function acceptFriendRequest(friendshipId: string): Promise<{ friendship: Friendship }> {
+  return httpClient.post(`/api/social/friends/requests/${friendshipId}/accept`);
+}
+
+export async function declineFriendRequest(friendshipId: string): Promise<{ message: string }> {
+  return httpClient.post(`/api/social/friends/requests/${friendshipId}/decline`);
+}
+
+export async function removeFriend(userId: string): Promise<{ message: string }> {
+  return httpClient.delete(`/api/social/friends/${userId}`);
+}
+
+export async function blockUser(userId: string): Promise<{ message: string }> {
+  return httpClient.post(`/api/social/blocks/${userId}`);
+}
+
+export async function unblockUser(userId: string): Promise<{ message: string }> {
+  return httpClient.delete(`/api/social/blocks/${userId}`);
+}
+
+// ============================================================================
+// SHOP
+// ============================================================================
+
+export type CosmeticCategory =
+  | 'avatar_frame'
+  | 'background'
+  | 'card_skin'
+  | 'victory_animation'
+  | 'username_color'
+  | 'emote'
+  | 'badge';
+
+export interface Cosmetic {
+  id: string;
+  name: string;
+  description: string;
+  category: CosmeticCategory;
+  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+  priceStars: number | null;
+  priceGems: number | null;
+  imageUrl: string | null;
+  animationUrl: string | null;
+  iconName: string | null;
+  colorValue: string | null;
+  isPremiumOnly: boolean;
+  isLimitedTime: boolean;
+  isExclusive: boolean;
+  limitPerUser: number | null;
+  availableUntil: string | null;
+}
+
+export interface ShopCosmetic extends Cosmetic {
+  isOwned: boolean;
+  ownedCount: number;
+  isEquipped: boolean;
+  isLocked: boolean;
+  canPurchase: boolean;
+  canAffordWithStars: boolean;
+  canAffordWithGems: boolean;
+}
+
+export interface Inventory {
+  items: Array<{ itemId: string; item: Cosmetic; purchasedAt: string; expiresAt?: string; isActive: boolean }>;
+  equipped: Partial<Record<CosmeticCategory, string | null>>;
+  streakShields: number;
+  autoUseStreakShields: boolean;
+}
+
+export async function getCosmetics(category?: CosmeticCategory): Promise<{ data: ShopCosmetic[]; balances: { stars: number; gems: number } }> {
+  return httpClient.get('/api/shop/cosmetics', { params: { category } });
+}
+
+export async function getInventory(): Promise<Inventory> {
+  return httpClient.get('/api/shop/inventory');
+}
+
+export async function purchaseCosmetic(cosmeticId: string, currency: 'stars' | 'gems'): Promise<{
+  success: boolean;
+  transactionId: string;
+  newStarsBalance: number;
+  newGemsBalance: number;
+  unlockedItemId: string;
+}> {
+  return httpClient.post(`/api/shop/cosmetics/${cosmeticId}/purchase`, { currency });
+}
+
+export async function equipCosmetic(cosmeticId: string): Promise<{ message: string; slot: CosmeticCategory; cosmeticId: string }> {
+  return httpClient.post(`/api/shop/cosmetics/${cosmeticId}/equip`);
+}
+
+export async function unequipCosmetic(cosmeticId: string): Promise<{ message: string; slot: CosmeticCategory }> {
+  return httpClient.post(`/api/shop/cosmetics/${cosmeticId}/unequip`);
+}
+
+export type StreakShieldPack = 'single' | 'triple' | 'weekly';
+
+export interface StreakShieldStatus {
+  shields: number;
+  autoUse: boolean;
+  packs: Array<{ id: StreakShieldPack; shields: number; priceGems: number; canAfford: boolean }>;
+}
+
+export async function getStreakShields(): Promise<StreakShieldStatus> {
+  return httpClient.get('/api/shop/streak-shields');
+}
+
+// With auto-use on, settlement burns a shield instead of resetting the win streak on a loss
+export async function setStreakShieldAutoUse(autoUse: boolean): Promise<{ shields: number; autoUse: boolean }> {
+  return httpClient.patch('/api/shop/streak-shields', { autoUse });
+}
+
+export async function purchaseStreakShields(pack: StreakShieldPack): Promise<{
+  success: boolean;
+  pack: StreakShieldPack;
+  shields: number;
+  newGemsBalance: number;
+}> {
+  return httpClient.post('/api/shop/streak-shields/purchase', { pack });
+}
+
+export interface StoreGemPack {
+  id: string;
+  name: string;
+  gems: number;
+  bonusPercent: number;
+  totalGems: number;
+  priceGbp: number;
+  priceUsd: number;
+  appleProductId: string | null;
+  googleProductId: string | null;
+  isPopular: boolean;
+  isBestValue: boolean;
+}
+
+export interface PurchaseGemPackParams {
+  platform: 'apple' | 'google';
+  productId: string;
+  // Apple: base64 app receipt. Google: purchase token.
+  receipt: string;
+  transactionId?: string;
+}
+
+export async function getGemPacks(): Promise<{ data: StoreGemPack[] }> {
+  return httpClient.get('/api/shop/gem-packs');
+}
+
+export async function purchaseGemPack(params: PurchaseGemPackParams): Promise<{
+  success: boolean;
+  alreadyCredited: boolean;
+  gemsCredited: number;
+  newGemsBalance: number;
+}> {
+  return httpClient.post('/api/shop/gems/purchase', params);
+}
+
+// ============================================================================
+// CHALLENGES
+// ============================================================================
+
+export interface Challenge {
+  id: string;
+  type:
+    | 'win_predictions'
+    | 'place_predictions'
+    | 'win_accumulator'
+    | 'predict_sport'
+    | 'predict_live'
+    | 'win_streak'
+    | 'odds_range'
+    | 'specific_market';
+  difficulty: 'easy' | 'medium' | 'hard';
+  title: string;
+  description: string;
+  iconName: string;
+  targetValue: number;
+  sportSlug?: string;
+  marketType?: string;
+  minOdds?: number;
+  maxOdds?: number;
+  requireLive: boolean;
+  requireAccumulator: boolean;
+  rewardCoins: number;
+  rewardStars: number;
+  rewardGems: number;
+  startsAt: string;
+  expiresAt: string;
+  isWeekly: boolean;
+  sortOrder: number;
+}
+
+export interface ChallengeProgress {
+  challengeId: string;
+  challenge: Challenge;
+  userId: string;
+  currentValue: number;
+  targetValue: number;
+  isCompleted: boolean;
+  isClaimed: boolean;
+  completedAt?: string;
+  claimedAt?: string;
+}
+
+export interface ClaimRewardResponse {
+  success: boolean;
+  coinsEarned: number;
+  starsEarned: number;
+  gemsEarned: number;
+  newCoinsBalance: number;
+  newStarsBalance: number;
+  newGemsBalance: number;
+}
+
+export async function getChallenges(): Promise<{ challenges: ChallengeProgress[]; refreshesAt: string | null }> {
+  return httpClient.get('/api/challenges');
+}
+
+export async function claimChallenge(challengeId: string): Promise<ClaimRewardResponse> {
+  return httpClient.post(`/api/challenges/${challengeId}/claim`);
+}
+
+// ============================================================================
+// ACHIEVEMENTS
+// ============================================================================
+
+export interface Achievement {
+  id: string;
+  category: 'predictions' | 'wins' | 'streaks' | 'sports' | 'accumulators' | 'social' | 'collector' | 'special';
+  tier: 'bronze' | 'silver' | 'gold' | 'platinum' | 'diamond';
+  name: string;
+  description: string;
+  iconName: string;
+  requirement: {
+    type: string;
+    value: number;
+    sportSlug?: string;
+    additionalCriteria?: Record<string, unknown>;
+  };
+  rewardCoins: number;
+  rewardStars: number;
+  rewardGems: number;
+  nextTierId?: string;
+  previousTierId?: string;
+  isHidden: boolean;
+  sortOrder: number;
+}
+
+export interface AchievementProgress {
+  achievementId: string;
+  achievement: Achievement;
+  userId: string;
+  currentProgress: number;
+  targetProgress: number;
+  progressPercentage: number;
+  isUnlocked: boolean;
+  unlockedAt?: string;
+  isClaimed: boolean;
+  claimedAt?: string;
+}
+
+export async function getAchievements(): Promise<{
+  achievements: AchievementProgress[];
+  totalUnlocked: number;
+  totalAchievements: number;
+  recentUnlocks: AchievementProgress[];
+}> {
+  return httpClient.get('/api/achievements');
+}
+
+export async function claimAchievement(achievementId: string): Promise<ClaimRewardResponse & { nextTierAchievement?: Achievement }> {
+  return httpClient.post(`/api/achievements/${achievementId}/claim`);
+}
+
+// ============================================================================
+// COMING SOON - Placeholder functions that return errors
+// ============================================================================
+
 // These will remain for backwards compatibility but should be updated when used
 export async function login(_email: string, _password: string): Promise<{ user: User; stats: UserStats }> {
   throw new Error('Use cognitoAuth.signIn() directly instead of api.login()');
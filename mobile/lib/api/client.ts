@@ -2,6 +2,7 @@
 
 import { API_CONFIG } from '../auth/config';
 import { cognitoAuth } from '../auth/cognito';
+import { generateId } from '../utils';
 
 // Debug logging for development
 const DEBUG = __DEV__;
@@ -32,6 +33,8 @@ interface RequestOptions extends Omit<RequestInit, 'body'> {
   body?: unknown;
   requiresAuth?: boolean;
   retries?: number;
+  // Send an Idempotency-Key so retries of this request can't be applied twice
+  idempotent?: boolean;
 }
 
 class HttpClient {
@@ -89,6 +92,7 @@ class HttpClient {
       body,
       requiresAuth = true,
       retries = this.maxRetries,
+      idempotent = false,
       headers: customHeaders,
       ...fetchOptions
     } = options;
@@ -116,6 +120,11 @@ class HttpClient {
       ...(customHeaders as Record<string, string>),
     };
 
+    // One key per logical request, reused across every retry attempt below
+    if (idempotent && !headers['Idempotency-Key']) {
+      headers['Idempotency-Key'] = generateId('idem');
+    }
+
     // Add auth token if required
     if (requiresAuth) {
       log('Getting auth token...');
@@ -11,6 +11,7 @@ export const FEATURES = {
   wallet: true,
   leaderboard: true,
   dailyTopup: true,
+  streakBonuses: true,
 
   // ============================================================================
   // Coming Soon - Disabled Features
@@ -24,7 +25,6 @@ export const FEATURES = {
   socialLogin: false,
   pushNotifications: false,
   referrals: false,
-  streakBonuses: false,
   liveScores: false,
 } as const;
 
@@ -4,6 +4,7 @@ import {
   User,
   UserStats,
   AuthContextType,
+  LoginStreak,
   WalletContextType,
   Prediction,
   Transaction,
@@ -22,14 +23,13 @@ import {
   PredictionInsights,
   ReferralStats,
   Referral,
+  STREAK_SHIELDS,
 } from '@/types';
 import {
   mockUser,
   mockUserStats,
   mockPredictions,
   mockTransactions,
-  mockChallenges,
-  mockAchievements,
   mockFriends,
   mockFriendActivity,
   mockFriendPredictions,
@@ -65,6 +65,7 @@ const STORAGE_KEYS = {
   CURRENT_ACCA: '@sport_sage_current_acca',
   ONBOARDING_COMPLETE: '@sport_sage_onboarding',
   FRIENDS: '@sport_sage_friends',
+  FRIEND_LEADERBOARD: '@sport_sage_friend_leaderboard',
   SETTINGS: '@sport_sage_settings',
   STREAK_SHIELDS: '@sport_sage_streak_shields',
   REFERRALS: '@sport_sage_referrals',
@@ -78,6 +79,7 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps): React.ReactElement {
   const [user, setUser] = useState<User | null>(null);
   const [stats, setStats] = useState<UserStats | null>(null);
+  const [loginStreak, setLoginStreak] = useState<LoginStreak | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
   const [pendingSocialAuth, setPendingSocialAuth] = useState(false);
@@ -476,9 +478,48 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
     });
   }, []);
 
+  // Daily check-in - advances the login streak and pays the bonus once per local day
+  const checkIn = useCallback(async (): Promise<{ bonusCoins: number; milestoneReward: { coins: number; stars: number; gems: number } | null } | null> => {
+    try {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const result = await api.checkIn(timezone);
+      setLoginStreak(result.loginStreak);
+
+      if (!result.checkedIn) return null;
+
+      setUser(prev => {
+        if (!prev) return prev;
+        const updated = {
+          ...prev,
+          coins: result.newCoinsBalance ?? prev.coins,
+          stars: result.newStarsBalance ?? prev.stars,
+          gems: result.newGemsBalance ?? prev.gems,
+        };
+        AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(updated));
+        return updated;
+      });
+
+      return { bonusCoins: result.bonusCoins ?? 0, milestoneReward: result.milestoneReward ?? null };
+    } catch (error) {
+      console.error('Failed to check in:', error);
+      return null;
+    }
+  }, []);
+
+  // Check in once per session as soon as the user is known
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      checkIn();
+    } else {
+      setLoginStreak(null);
+    }
+  }, [userId, checkIn]);
+
   const value: AuthContextType = {
     user,
     stats,
+    loginStreak,
     isLoading,
     isAuthenticated: !!user,
     hasCompletedOnboarding,
@@ -503,6 +544,7 @@ export function AuthProvider({ children }: AuthProviderProps): React.ReactElemen
     logout,
     updateUser,
     updateStats,
+    checkIn,
     completeOnboarding,
     clearAuthError,
     resetAllData,
@@ -536,6 +578,7 @@ export function WalletProvider({ children }: WalletProviderProps): React.ReactEl
   const [error, setError] = useState<string | null>(null);
   const [canClaimDailyTopup, setCanClaimDailyTopup] = useState(false);
   const [nextTopupAt, setNextTopupAt] = useState<string | null>(null);
+  const [maxAccumulatorStake, setMaxAccumulatorStake] = useState<number>(ACCUMULATOR_LIMITS.maxStake);
 
   const coins = user?.coins ?? 0;
   const stars = user?.stars ?? 0;
@@ -557,6 +600,7 @@ export function WalletProvider({ children }: WalletProviderProps): React.ReactEl
       });
       setCanClaimDailyTopup(wallet.canClaimDailyTopup);
       setNextTopupAt(wallet.nextTopupAt);
+      setMaxAccumulatorStake(wallet.entitlements.maxAccumulatorStake);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to load wallet';
       setError(message);
@@ -636,6 +680,7 @@ export function WalletProvider({ children }: WalletProviderProps): React.ReactEl
     canClaimDailyTopup,
     nextTopupAt,
     claimDailyTopup,
+    maxAccumulatorStake,
     addCoins,
     deductCoins,
     addStars,
@@ -815,8 +860,10 @@ export function usePredictions(): PredictionsContextType {
 
 interface ChallengesContextType {
   challenges: UserChallengeProgress[];
-  claimChallenge: (challengeId: string) => { coins: number; stars: number; gems: number } | null;
-  updateChallengeProgress: (challengeId: string, newValue: number) => void;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  claimChallenge: (challengeId: string) => Promise<{ coins: number; stars: number; gems: number } | null>;
   getActiveChallenges: () => UserChallengeProgress[];
   getCompletedChallenges: () => UserChallengeProgress[];
 }
@@ -828,83 +875,76 @@ interface ChallengesProviderProps {
 }
 
 export function ChallengesProvider({ children }: ChallengesProviderProps): React.ReactElement {
-  const [challenges, setChallenges] = useState<UserChallengeProgress[]>(mockChallenges);
-  const { updateUser, user } = useAuth();
+  const { isAuthenticated, updateUser } = useAuth();
+  const [challenges, setChallenges] = useState<UserChallengeProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadChallenges();
-  }, []);
+  // Fetch active challenges and progress from API
+  const fetchChallenges = useCallback(async (): Promise<void> => {
+    if (!isAuthenticated) return;
 
-  const loadChallenges = async (): Promise<void> => {
-    try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CHALLENGES);
-      if (stored) {
-        setChallenges(JSON.parse(stored));
-      }
-    } catch (error) {
-      console.error('Failed to load challenges:', error);
-    }
-  };
+    setIsLoading(true);
+    setError(null);
 
-  const saveChallenges = async (data: UserChallengeProgress[]): Promise<void> => {
     try {
+      const result = await api.getChallenges();
+      const data = result.challenges as unknown as UserChallengeProgress[];
+      setChallenges(data);
+      // Cache challenges locally for offline access
       await AsyncStorage.setItem(STORAGE_KEYS.CHALLENGES, JSON.stringify(data));
-    } catch (error) {
-      console.error('Failed to save challenges:', error);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load challenges';
+      setError(message);
+      console.error('Failed to fetch challenges:', err);
+      // Try to load from cache on error
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.CHALLENGES);
+        if (stored) {
+          setChallenges(JSON.parse(stored));
+        }
+      } catch {}
+    } finally {
+      setIsLoading(false);
     }
-  };
+  }, [isAuthenticated]);
+
+  // Fetch challenges on mount when authenticated
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchChallenges();
+    }
+  }, [isAuthenticated, fetchChallenges]);
 
-  const claimChallenge = useCallback((challengeId: string): { coins: number; stars: number; gems: number } | null => {
+  const claimChallenge = useCallback(async (challengeId: string): Promise<{ coins: number; stars: number; gems: number } | null> => {
     const challenge = challenges.find(c => c.challengeId === challengeId);
     if (!challenge || !challenge.isCompleted || challenge.isClaimed) {
       return null;
     }
 
-    const rewards = {
-      coins: challenge.challenge.rewardCoins,
-      stars: challenge.challenge.rewardStars,
-      gems: challenge.challenge.rewardGems,
-    };
+    try {
+      const result = await api.claimChallenge(challengeId);
 
-    // Update user balance
-    if (user) {
+      // Use the balances the server credited
       updateUser({
-        coins: user.coins + rewards.coins,
-        stars: user.stars + rewards.stars,
-        gems: user.gems + rewards.gems,
+        coins: result.newCoinsBalance,
+        stars: result.newStarsBalance,
+        gems: result.newGemsBalance,
       });
-    }
 
-    // Mark as claimed
-    setChallenges(prev => {
-      const updated = prev.map(c =>
+      setChallenges(prev => prev.map(c =>
         c.challengeId === challengeId
           ? { ...c, isClaimed: true }
           : c
-      );
-      saveChallenges(updated);
-      return updated;
-    });
+      ));
 
-    return rewards;
-  }, [challenges, user, updateUser]);
-
-  const updateChallengeProgress = useCallback((challengeId: string, newValue: number): void => {
-    setChallenges(prev => {
-      const updated = prev.map(c => {
-        if (c.challengeId !== challengeId) return c;
-        const isCompleted = newValue >= c.challenge.targetValue;
-        return {
-          ...c,
-          currentValue: newValue,
-          isCompleted,
-          completedAt: isCompleted && !c.isCompleted ? new Date().toISOString() : c.completedAt,
-        };
-      });
-      saveChallenges(updated);
-      return updated;
-    });
-  }, []);
+      return { coins: result.coinsEarned, stars: result.starsEarned, gems: result.gemsEarned };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to claim challenge';
+      setError(message);
+      return null;
+    }
+  }, [challenges, updateUser]);
 
   const getActiveChallenges = useCallback((): UserChallengeProgress[] => {
     return challenges.filter(c => !c.isClaimed);
@@ -916,8 +956,10 @@ export function ChallengesProvider({ children }: ChallengesProviderProps): React
 
   const value: ChallengesContextType = {
     challenges,
+    isLoading,
+    error,
+    refresh: fetchChallenges,
     claimChallenge,
-    updateChallengeProgress,
     getActiveChallenges,
     getCompletedChallenges,
   };
@@ -943,7 +985,10 @@ export function useChallenges(): ChallengesContextType {
 
 interface AchievementsContextType {
   achievements: UserAchievement[];
-  claimAchievement: (achievementId: string) => { coins: number; stars: number; gems: number } | null;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  claimAchievement: (achievementId: string) => Promise<{ coins: number; stars: number; gems: number } | null>;
   getUnlockedAchievements: () => UserAchievement[];
   getUnclaimedAchievements: () => UserAchievement[];
   getProgressAchievements: () => UserAchievement[];
@@ -955,67 +1000,93 @@ interface AchievementsProviderProps {
   children: React.ReactNode;
 }
 
+// The app's achievement cards read the target straight off the achievement
+function toUserAchievement(progress: api.AchievementProgress): UserAchievement {
+  const { requirement, ...achievement } = progress.achievement;
+  return {
+    achievementId: progress.achievementId,
+    achievement: {
+      ...achievement,
+      targetValue: requirement.value,
+    } as UserAchievement['achievement'],
+    currentProgress: progress.currentProgress,
+    isUnlocked: progress.isUnlocked,
+    unlockedAt: progress.unlockedAt,
+    isClaimed: progress.isClaimed,
+  };
+}
+
 export function AchievementsProvider({ children }: AchievementsProviderProps): React.ReactElement {
-  const [achievements, setAchievements] = useState<UserAchievement[]>(mockAchievements);
-  const { updateUser, user } = useAuth();
+  const { isAuthenticated, updateUser } = useAuth();
+  const [achievements, setAchievements] = useState<UserAchievement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadAchievements();
-  }, []);
+  // Fetch achievements and progress from API
+  const fetchAchievements = useCallback(async (): Promise<void> => {
+    if (!isAuthenticated) return;
 
-  const loadAchievements = async (): Promise<void> => {
-    try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.ACHIEVEMENTS);
-      if (stored) {
-        setAchievements(JSON.parse(stored));
-      }
-    } catch (error) {
-      console.error('Failed to load achievements:', error);
-    }
-  };
+    setIsLoading(true);
+    setError(null);
 
-  const saveAchievements = async (data: UserAchievement[]): Promise<void> => {
     try {
+      const result = await api.getAchievements();
+      const data = result.achievements.map(toUserAchievement);
+      setAchievements(data);
+      // Cache achievements locally for offline access
       await AsyncStorage.setItem(STORAGE_KEYS.ACHIEVEMENTS, JSON.stringify(data));
-    } catch (error) {
-      console.error('Failed to save achievements:', error);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load achievements';
+      setError(message);
+      console.error('Failed to fetch achievements:', err);
+      // Try to load from cache on error
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.ACHIEVEMENTS);
+        if (stored) {
+          setAchievements(JSON.parse(stored));
+        }
+      } catch {}
+    } finally {
+      setIsLoading(false);
     }
-  };
+  }, [isAuthenticated]);
 
-  const claimAchievement = useCallback((achievementId: string): { coins: number; stars: number; gems: number } | null => {
+  // Fetch achievements on mount when authenticated
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchAchievements();
+    }
+  }, [isAuthenticated, fetchAchievements]);
+
+  const claimAchievement = useCallback(async (achievementId: string): Promise<{ coins: number; stars: number; gems: number } | null> => {
     const achievement = achievements.find(a => a.achievementId === achievementId);
     if (!achievement || !achievement.isUnlocked || achievement.isClaimed) {
       return null;
     }
 
-    const rewards = {
-      coins: achievement.achievement.rewardCoins,
-      stars: achievement.achievement.rewardStars,
-      gems: achievement.achievement.rewardGems,
-    };
+    try {
+      const result = await api.claimAchievement(achievementId);
 
-    // Update user balance
-    if (user) {
+      // Use the balances the server credited
       updateUser({
-        coins: user.coins + rewards.coins,
-        stars: user.stars + rewards.stars,
-        gems: user.gems + rewards.gems,
+        coins: result.newCoinsBalance,
+        stars: result.newStarsBalance,
+        gems: result.newGemsBalance,
       });
-    }
 
-    // Mark as claimed
-    setAchievements(prev => {
-      const updated = prev.map(a =>
+      setAchievements(prev => prev.map(a =>
         a.achievementId === achievementId
           ? { ...a, isClaimed: true }
           : a
-      );
-      saveAchievements(updated);
-      return updated;
-    });
+      ));
 
-    return rewards;
-  }, [achievements, user, updateUser]);
+      return { coins: result.coinsEarned, stars: result.starsEarned, gems: result.gemsEarned };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to claim achievement';
+      setError(message);
+      return null;
+    }
+  }, [achievements, updateUser]);
 
   const getUnlockedAchievements = useCallback((): UserAchievement[] => {
     return achievements.filter(a => a.isUnlocked);
@@ -1031,6 +1102,9 @@ export function AchievementsProvider({ children }: AchievementsProviderProps): R
 
   const value: AchievementsContextType = {
     achievements,
+    isLoading,
+    error,
+    refresh: fetchAchievements,
     claimAchievement,
     getUnlockedAchievements,
     getUnclaimedAchievements,
@@ -1089,6 +1163,7 @@ export function AccumulatorProvider({ children }: AccumulatorProviderProps): Rea
   const [currentSelections, setCurrentSelections] = useState<AccumulatorSelection[]>([]);
   const [accumulators, setAccumulators] = useState<Accumulator[]>([]);
   const { user, updateUser, stats, updateStats } = useAuth();
+  const { maxAccumulatorStake } = useWallet();
 
   useEffect(() => {
     loadAccumulatorData();
@@ -1192,7 +1267,7 @@ export function AccumulatorProvider({ children }: AccumulatorProviderProps): Rea
   const placeAccumulator = useCallback((stake: number): Accumulator | null => {
     if (!user || !stats) return null;
     if (!canPlace) return null;
-    if (stake < ACCUMULATOR_LIMITS.minStake || stake > ACCUMULATOR_LIMITS.maxStake) return null;
+    if (stake < ACCUMULATOR_LIMITS.minStake || stake > maxAccumulatorStake) return null;
     if (user.coins < stake) return null;
 
     // Calculate potential returns
@@ -1236,7 +1311,7 @@ export function AccumulatorProvider({ children }: AccumulatorProviderProps): Rea
     clearSelections();
 
     return newAccumulator;
-  }, [user, stats, canPlace, totalOdds, bonusMultiplier, currentSelections, updateUser, updateStats, clearSelections]);
+  }, [user, stats, canPlace, maxAccumulatorStake, totalOdds, bonusMultiplier, currentSelections, updateUser, updateStats, clearSelections]);
 
   const getPendingAccumulators = useCallback((): Accumulator[] => {
     return accumulators.filter(a => a.status === 'placed');
@@ -1291,6 +1366,7 @@ interface FriendsContextType {
   removeFriend: (friendId: string) => void;
   blockFriend: (friendId: string) => void;
   getFriendLeaderboard: () => Friend[];
+  refreshFriendLeaderboard: () => Promise<void>;
   getFriendPredictionsForEvent: (eventId: string) => FriendPrediction[];
   isFriend: (userId: string) => boolean;
 }
@@ -1302,7 +1378,9 @@ interface FriendsProviderProps {
 }
 
 export function FriendsProvider({ children }: FriendsProviderProps): React.ReactElement {
+  const { isAuthenticated } = useAuth();
   const [friends, setFriends] = useState<Friend[]>(mockFriends);
+  const [friendLeaderboard, setFriendLeaderboard] = useState<Friend[] | null>(null);
   const [friendActivity] = useState<FriendActivity[]>(mockFriendActivity);
   const [friendPredictions] = useState<FriendPrediction[]>(mockFriendPredictions);
 
@@ -1310,6 +1388,48 @@ export function FriendsProvider({ children }: FriendsProviderProps): React.React
     loadFriends();
   }, []);
 
+  // Fetch the friends leaderboard from API
+  const refreshFriendLeaderboard = useCallback(async (): Promise<void> => {
+    if (!isAuthenticated) return;
+
+    try {
+      const result = await api.getLeaderboard({ scope: 'friends', pageSize: 100 });
+      const data: Friend[] = result.data
+        .filter(entry => !entry.isCurrentUser)
+        .map(entry => ({
+          id: entry.userId,
+          userId: entry.userId,
+          friendId: entry.userId,
+          username: entry.username,
+          avatarUrl: entry.avatarUrl ?? undefined,
+          status: 'accepted' as const,
+          totalStarsEarned: entry.stars,
+          winRate: entry.winRate,
+          currentStreak: entry.currentStreak,
+          bestStreak: entry.bestStreak,
+          addedAt: '',
+        }));
+      setFriendLeaderboard(data);
+      // Cache leaderboard locally for offline access
+      await AsyncStorage.setItem(STORAGE_KEYS.FRIEND_LEADERBOARD, JSON.stringify(data));
+    } catch (err) {
+      console.error('Failed to fetch friend leaderboard:', err);
+      // Try to load from cache on error
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEYS.FRIEND_LEADERBOARD);
+        if (stored) {
+          setFriendLeaderboard(JSON.parse(stored));
+        }
+      } catch {}
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshFriendLeaderboard();
+    }
+  }, [isAuthenticated, refreshFriendLeaderboard]);
+
   const loadFriends = async (): Promise<void> => {
     try {
       const stored = await AsyncStorage.getItem(STORAGE_KEYS.FRIENDS);
@@ -1387,10 +1507,12 @@ export function FriendsProvider({ children }: FriendsProviderProps): React.React
   }, []);
 
   const getFriendLeaderboard = useCallback((): Friend[] => {
+    // Already ranked by the API; local friends are only used before it has loaded
+    if (friendLeaderboard) return friendLeaderboard;
     return friends
       .filter(f => f.status === 'accepted')
       .sort((a, b) => b.totalStarsEarned - a.totalStarsEarned);
-  }, [friends]);
+  }, [friends, friendLeaderboard]);
 
   const getFriendPredictionsForEvent = useCallback((eventId: string): FriendPrediction[] => {
     return friendPredictions.filter(fp => fp.eventId === eventId);
@@ -1410,6 +1532,7 @@ export function FriendsProvider({ children }: FriendsProviderProps): React.React
     removeFriend,
     blockFriend,
     getFriendLeaderboard,
+    refreshFriendLeaderboard,
     getFriendPredictionsForEvent,
     isFriend,
   };
@@ -1537,8 +1660,10 @@ export function useSettings(): SettingsContextType {
 
 interface StreakShieldsContextType {
   activeShields: number;
-  purchaseShield: (shieldId: string) => boolean;
-  useShield: () => boolean;
+  autoUse: boolean;
+  purchaseShield: (shieldId: string) => Promise<boolean>;
+  setAutoUse: (enabled: boolean) => Promise<void>;
+  refresh: () => Promise<void>;
   hasShield: boolean;
 }
 
@@ -1548,24 +1673,11 @@ interface StreakShieldsProviderProps {
   children: React.ReactNode;
 }
 
+// Shields are spent by settlement on the server; the app only buys them and sets auto-use
 export function StreakShieldsProvider({ children }: StreakShieldsProviderProps): React.ReactElement {
   const [activeShields, setActiveShields] = useState(0);
-  const { user, updateUser } = useAuth();
-
-  useEffect(() => {
-    loadShields();
-  }, []);
-
-  const loadShields = async (): Promise<void> => {
-    try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.STREAK_SHIELDS);
-      if (stored) {
-        setActiveShields(parseInt(stored, 10));
-      }
-    } catch (error) {
-      console.error('Failed to load shields:', error);
-    }
-  };
+  const [autoUse, setAutoUseState] = useState(false);
+  const { isAuthenticated, updateUser } = useAuth();
 
   const saveShields = async (count: number): Promise<void> => {
     try {
@@ -1575,49 +1687,65 @@ export function StreakShieldsProvider({ children }: StreakShieldsProviderProps):
     }
   };
 
-  const purchaseShield = useCallback((shieldId: string): boolean => {
-    if (!user) return false;
-
-    // Find shield price from types
-    const prices: Record<string, { gems: number; shields: number }> = {
-      'shield_1': { gems: 25, shields: 1 },
-      'shield_3': { gems: 60, shields: 3 },
-      'shield_7': { gems: 120, shields: 7 },
-    };
-
-    const shield = prices[shieldId];
-    if (!shield) return false;
-    if (user.gems < shield.gems) return false;
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!isAuthenticated) return;
 
-    // Deduct gems
-    updateUser({ gems: user.gems - shield.gems });
+    try {
+      const status = await api.getStreakShields();
+      setActiveShields(status.shields);
+      setAutoUseState(status.autoUse);
+      saveShields(status.shields);
+    } catch (error) {
+      console.error('Failed to fetch shields:', error);
+      // Fall back to the last known count
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.STREAK_SHIELDS);
+      if (stored) {
+        setActiveShields(parseInt(stored, 10));
+      }
+    }
+  }, [isAuthenticated]);
 
-    // Add shields
-    setActiveShields(prev => {
-      const updated = prev + shield.shields;
-      saveShields(updated);
-      return updated;
-    });
+  useEffect(() => {
+    if (isAuthenticated) {
+      refresh();
+    }
+  }, [isAuthenticated, refresh]);
 
-    return true;
-  }, [user, updateUser]);
+  const purchaseShield = useCallback(async (shieldId: string): Promise<boolean> => {
+    const shield = STREAK_SHIELDS.find((s) => s.id === shieldId);
+    if (!shield) return false;
 
-  const useShield = useCallback((): boolean => {
-    if (activeShields <= 0) return false;
+    try {
+      const result = await api.purchaseStreakShields(shield.pack);
+      updateUser({ gems: result.newGemsBalance });
+      setActiveShields(result.shields);
+      saveShields(result.shields);
+      return true;
+    } catch (error) {
+      console.error('Failed to purchase shield:', error);
+      return false;
+    }
+  }, [updateUser]);
 
-    setActiveShields(prev => {
-      const updated = prev - 1;
-      saveShields(updated);
-      return updated;
-    });
+  const setAutoUse = useCallback(async (enabled: boolean): Promise<void> => {
+    const previous = autoUse;
+    setAutoUseState(enabled);
 
-    return true;
-  }, [activeShields]);
+    try {
+      const result = await api.setStreakShieldAutoUse(enabled);
+      setAutoUseState(result.autoUse);
+    } catch (error) {
+      console.error('Failed to update shield auto-use:', error);
+      setAutoUseState(previous);
+    }
+  }, [autoUse]);
 
   const value: StreakShieldsContextType = {
     activeShields,
+    autoUse,
     purchaseShield,
-    useShield,
+    setAutoUse,
+    refresh,
     hasShield: activeShields > 0,
   };
 
@@ -361,6 +361,8 @@ export type ChallengeType =
   | 'predict_sport'
   | 'predict_live'
   | 'win_streak'
+  | 'odds_range'
+  | 'specific_market'
   | 'high_odds';
 
 export type ChallengeDifficulty = 'easy' | 'medium' | 'hard';
@@ -491,8 +493,11 @@ export interface FriendPrediction {
 // STREAK SHIELDS
 // ============================================================================
 
+export type StreakShieldPack = 'single' | 'triple' | 'weekly';
+
 export interface StreakShield {
   id: string;
+  pack: StreakShieldPack;
   name: string;
   description: string;
   gemPrice: number;
@@ -501,9 +506,9 @@ export interface StreakShield {
 }
 
 export const STREAK_SHIELDS: StreakShield[] = [
-  { id: 'shield_1', name: 'Single Shield', description: 'Protect your streak from 1 loss', gemPrice: 25, shieldsProvided: 1, iconName: 'shield' },
-  { id: 'shield_3', name: 'Triple Shield', description: 'Protect your streak from 3 losses', gemPrice: 60, shieldsProvided: 3, iconName: 'shield-star' },
-  { id: 'shield_7', name: 'Weekly Shield', description: 'Protect your streak for 7 losses', gemPrice: 120, shieldsProvided: 7, iconName: 'shield-crown' },
+  { id: 'shield_1', pack: 'single', name: 'Single Shield', description: 'Protect your streak from 1 loss', gemPrice: 25, shieldsProvided: 1, iconName: 'shield' },
+  { id: 'shield_3', pack: 'triple', name: 'Triple Shield', description: 'Protect your streak from 3 losses', gemPrice: 60, shieldsProvided: 3, iconName: 'shield-star' },
+  { id: 'shield_7', pack: 'weekly', name: 'Weekly Shield', description: 'Protect your streak for 7 losses', gemPrice: 120, shieldsProvided: 7, iconName: 'shield-crown' },
 ];
 
 // ============================================================================
@@ -664,7 +669,7 @@ export const ACCUMULATOR_LIMITS = {
   minSelections: 2,
   maxSelections: 10,
   minStake: 10,
-  maxStake: 500,
+  maxStake: 500, // Free tier - the wallet's entitlements carry the user's own limit
   bonusMultipliers: {
     2: 1.0,    // No bonus for 2-fold
     3: 1.05,   // 5% bonus for 3-fold
@@ -682,9 +687,21 @@ export const ACCUMULATOR_LIMITS = {
 // AUTH CONTEXT
 // ============================================================================
 
+export interface LoginStreak {
+  currentStreak: number;
+  bestStreak: number;
+  checkedInToday: boolean;
+  lastCheckInAt: string | null;
+  nextCheckInAt: string;
+  nextBonusCoins: number;
+  nextMilestone: { day: number; reward: { coins: number; stars: number; gems: number } } | null;
+  timezone: string;
+}
+
 export interface AuthContextType {
   user: User | null;
   stats: UserStats | null;
+  loginStreak: LoginStreak | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   hasCompletedOnboarding: boolean;
@@ -709,6 +726,7 @@ export interface AuthContextType {
   logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => void;
   updateStats: (updates: Partial<UserStats>) => void;
+  checkIn: () => Promise<{ bonusCoins: number; milestoneReward: { coins: number; stars: number; gems: number } | null } | null>;
   completeOnboarding: () => Promise<void>;
   clearAuthError: () => void;
   resetAllData: () => Promise<void>;
@@ -731,6 +749,8 @@ export interface WalletContextType {
   canClaimDailyTopup: boolean;
   nextTopupAt: string | null;
   claimDailyTopup: () => Promise<{ coinsAdded: number; newBalance: number } | null>;
+  // Subscription tier's accumulator stake limit (free tier's until the wallet loads)
+  maxAccumulatorStake: number;
   // Mutations (local only for optimistic updates)
   addCoins: (amount: number) => void;
   deductCoins: (amount: number) => boolean;
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createFakeAdRewardCallback,
+  createFakeAdNetworkVerifier,
+  getAdRewardVerifier,
+  InvalidAdRewardError,
+} from '../ads';
+
+describe('Fake Ad Network Verifier', () => {
+  const verifier = createFakeAdNetworkVerifier();
+  const userId = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+
+  afterEach(() => {
+    delete process.env.AD_REWARD_PROVIDER;
+  });
+
+  it('should verify a callback it issued', async () => {
+    const watchedAt = new Date('2026-01-15T12:00:00Z');
+    const callback = createFakeAdRewardCallback({
+      userId,
+      transactionId: 'fake-ad-1',
+      adUnit: 'rewarded-wallet',
+      watchedAt,
+    });
+
+    const reward = await verifier.verify(callback);
+
+    expect(reward).toEqual({
+      network: 'fake',
+      transactionId: 'fake-ad-1',
+      userId,
+      adUnit: 'rewarded-wallet',
+      rewardItem: 'coins',
+      rewardAmount: 1,
+      watchedAt,
+    });
+  });
+
+  it('should return the same transaction ID when a callback is replayed', async () => {
+    const callback = createFakeAdRewardCallback({ userId });
+
+    const first = await verifier.verify(callback);
+    const replay = await verifier.verify(callback);
+
+    expect(replay.transactionId).toBe(first.transactionId);
+  });
+
+  it('should reject a callback for a different user', async () => {
+    const callback = createFakeAdRewardCallback({ userId });
+    const tampered = callback.replace(`user_id=${userId}`, 'user_id=00000000-0000-4000-8000-000000000000');
+
+    await expect(verifier.verify(tampered)).rejects.toThrow(InvalidAdRewardError);
+  });
+
+  it('should reject a callback with its signature removed', async () => {
+    const callback = createFakeAdRewardCallback({ userId });
+    const unsigned = callback.slice(0, callback.indexOf('&signature='));
+
+    await expect(verifier.verify(unsigned)).rejects.toThrow(InvalidAdRewardError);
+  });
+
+  it('should verify percent-encoded values against the query string as sent', async () => {
+    const callback = createFakeAdRewardCallback({ userId, adUnit: 'wallet/rewarded video' });
+
+    expect(callback).toContain('ad_unit=wallet%2Frewarded+video');
+    await expect(verifier.verify(callback)).resolves.toMatchObject({ adUnit: 'wallet/rewarded video' });
+  });
+
+  it('should reject a callback with parameters after key_id', async () => {
+    const callback = `${createFakeAdRewardCallback({ userId })}&user_id=00000000-0000-4000-8000-000000000000`;
+
+    await expect(verifier.verify(callback)).rejects.toThrow('Callback must end with signature and key_id');
+  });
+
+  it('should reject a callback signed with an unknown key', async () => {
+    const callback = createFakeAdRewardCallback({ userId }).replace('key_id=fake', 'key_id=3335741209');
+
+    await expect(verifier.verify(callback)).rejects.toThrow(InvalidAdRewardError);
+  });
+
+  it('should only be selected when AD_REWARD_PROVIDER is fake', async () => {
+    expect(getAdRewardVerifier().network).toBe('admob');
+
+    process.env.AD_REWARD_PROVIDER = 'fake';
+    const callback = createFakeAdRewardCallback({ userId });
+    await expect(getAdRewardVerifier().verify(callback)).resolves.toMatchObject({ network: 'fake', userId });
+  });
+});
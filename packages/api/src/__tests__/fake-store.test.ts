@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createFakeReceipt,
+  createFakeStoreProvider,
+  getReceiptProvider,
+  acceptsSandboxPurchases,
+  InvalidReceiptError,
+} from '../iap';
+
+describe('Fake Store Provider', () => {
+  const apple = createFakeStoreProvider('apple');
+
+  afterEach(() => {
+    delete process.env.IAP_PROVIDER;
+  });
+
+  it('should verify a receipt it issued', async () => {
+    const purchasedAt = new Date('2026-01-15T12:00:00Z');
+    const receipt = createFakeReceipt({
+      platform: 'apple',
+      productId: 'gems_275',
+      transactionId: 'fake-txn-1',
+      purchasedAt,
+    });
+
+    const purchase = await apple.verify({ productId: 'gems_275', receipt });
+
+    expect(purchase).toEqual({
+      platform: 'apple',
+      productId: 'gems_275',
+      transactionId: 'fake-txn-1',
+      purchasedAt,
+      isSandbox: true,
+    });
+  });
+
+  it('should give every receipt a unique transaction ID by default', async () => {
+    const first = await apple.verify({
+      productId: 'gems_100',
+      receipt: createFakeReceipt({ platform: 'apple', productId: 'gems_100' }),
+    });
+    const second = await apple.verify({
+      productId: 'gems_100',
+      receipt: createFakeReceipt({ platform: 'apple', productId: 'gems_100' }),
+    });
+
+    expect(first.transactionId).not.toBe(second.transactionId);
+  });
+
+  it('should return the same transaction ID when a receipt is replayed', async () => {
+    const receipt = createFakeReceipt({ platform: 'apple', productId: 'gems_100' });
+
+    const first = await apple.verify({ productId: 'gems_100', receipt });
+    const replay = await apple.verify({ productId: 'gems_100', receipt });
+
+    expect(replay.transactionId).toBe(first.transactionId);
+  });
+
+  it('should reject a tampered receipt', async () => {
+    const receipt = createFakeReceipt({ platform: 'apple', productId: 'gems_100' });
+    const [prefix, encoded, signature] = receipt.split('.');
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const tampered = Buffer.from(JSON.stringify({ ...payload, productId: 'gems_3500' })).toString('base64url');
+
+    await expect(
+      apple.verify({ productId: 'gems_3500', receipt: `${prefix}.${tampered}.${signature}` })
+    ).rejects.toThrow(InvalidReceiptError);
+  });
+
+  it('should reject a receipt for a different product', async () => {
+    const receipt = createFakeReceipt({ platform: 'apple', productId: 'gems_100' });
+
+    await expect(apple.verify({ productId: 'gems_3500', receipt })).rejects.toThrow(InvalidReceiptError);
+  });
+
+  it('should reject a receipt issued for the other platform', async () => {
+    const receipt = createFakeReceipt({ platform: 'google', productId: 'gems_100' });
+
+    await expect(apple.verify({ productId: 'gems_100', receipt })).rejects.toThrow(InvalidReceiptError);
+  });
+
+  it('should reject a malformed receipt', async () => {
+    await expect(apple.verify({ productId: 'gems_100', receipt: 'not-a-receipt' })).rejects.toThrow(
+      InvalidReceiptError
+    );
+  });
+
+  it('should only be selected when IAP_PROVIDER is fake', async () => {
+    const receipt = createFakeReceipt({ platform: 'google', productId: 'gems_600' });
+
+    expect(getReceiptProvider('google').acknowledge).toBeDefined();
+
+    process.env.IAP_PROVIDER = 'fake';
+    const provider = getReceiptProvider('google');
+    await expect(provider.verify({ productId: 'gems_600', receipt })).resolves.toMatchObject({
+      platform: 'google',
+      productId: 'gems_600',
+    });
+  });
+});
+
+describe('Apple Receipt Provider', () => {
+  afterEach(() => {
+    delete process.env.APPLE_BUNDLE_ID;
+  });
+
+  it('should refuse to verify without a bundle ID to check', async () => {
+    delete process.env.APPLE_BUNDLE_ID;
+
+    await expect(
+      getReceiptProvider('apple').verify({ productId: 'gems_100', receipt: 'any-receipt' })
+    ).rejects.toThrow('APPLE_BUNDLE_ID is not configured');
+  });
+});
+
+describe('Sandbox purchases', () => {
+  afterEach(() => {
+    delete process.env.ENVIRONMENT;
+  });
+
+  it('should only be accepted outside production', () => {
+    process.env.ENVIRONMENT = 'dev';
+    expect(acceptsSandboxPurchases()).toBe(true);
+    process.env.ENVIRONMENT = 'staging';
+    expect(acceptsSandboxPurchases()).toBe(true);
+    process.env.ENVIRONMENT = 'prod';
+    expect(acceptsSandboxPurchases()).toBe(false);
+  });
+
+  it('should be refused when the environment is not set', () => {
+    delete process.env.ENVIRONMENT;
+    expect(acceptsSandboxPurchases()).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * AdMob reward verification
+ *
+ * Checks the ECDSA signature on an AdMob server-side verification callback
+ * against Google's published verifier keys. Keys rotate, so an unknown key_id
+ * triggers one refetch before the callback is rejected.
+ */
+
+import { verify } from 'crypto';
+import type { AdRewardVerifier, VerifiedAdReward } from './types';
+import { InvalidAdRewardError } from './types';
+import { parseSignedCallback, toVerifiedReward } from './callback';
+
+const VERIFIER_KEYS_URL = 'https://www.gstatic.com/admob/reward/verifier-keys.json';
+const KEYS_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface VerifierKeys {
+  keys: Array<{ keyId: number; pem: string; base64: string }>;
+}
+
+// Reuse keys across warm invocations
+let cachedKeys: { byId: Map<string, string>; expiresAt: number } | null = null;
+
+async function getVerifierKeys(refresh = false): Promise<Map<string, string>> {
+  if (!refresh && cachedKeys && cachedKeys.expiresAt > Date.now()) {
+    return cachedKeys.byId;
+  }
+
+  const res = await fetch(VERIFIER_KEYS_URL);
+  if (!res.ok) {
+    throw new Error(`AdMob verifier keys returned HTTP ${res.status}`);
+  }
+
+  const body = (await res.json()) as VerifierKeys;
+  cachedKeys = {
+    byId: new Map(body.keys.map((key) => [String(key.keyId), key.pem])),
+    expiresAt: Date.now() + KEYS_TTL_MS,
+  };
+  return cachedKeys.byId;
+}
+
+export const admobRewardVerifier: AdRewardVerifier = {
+  network: 'admob',
+
+  async verify(callback: string): Promise<VerifiedAdReward> {
+    const signed = parseSignedCallback(callback);
+
+    let pem = (await getVerifierKeys()).get(signed.keyId);
+    if (!pem) {
+      pem = (await getVerifierKeys(true)).get(signed.keyId);
+    }
+    if (!pem) {
+      throw new InvalidAdRewardError(`Unknown verifier key ${signed.keyId}`);
+    }
+
+    const valid = verify('sha256', Buffer.from(signed.content), { key: pem, dsaEncoding: 'der' }, signed.signature);
+    if (!valid) {
+      throw new InvalidAdRewardError('Callback signature does not match');
+    }
+
+    return toVerifiedReward('admob', signed.params);
+  },
+};
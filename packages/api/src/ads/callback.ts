@@ -0,0 +1,71 @@
+/**
+ * Reward callback parsing
+ *
+ * Callbacks follow AdMob's server-side verification format: a query string whose
+ * last two parameters are signature and key_id. The signature covers everything
+ * before "&signature=", exactly as sent, so the raw string is kept for verifying.
+ * Anything after key_id would be unsigned, so such callbacks are rejected.
+ */
+
+import type { VerifiedAdReward } from './types';
+import { InvalidAdRewardError } from './types';
+
+export interface SignedCallback {
+  content: string; // The signed part of the query string
+  signature: Buffer;
+  keyId: string;
+  params: URLSearchParams;
+}
+
+export function parseSignedCallback(callback: string): SignedCallback {
+  const query = callback.startsWith('?') ? callback.slice(1) : callback;
+  const signatureAt = query.indexOf('&signature=');
+  if (signatureAt <= 0) {
+    throw new InvalidAdRewardError('Callback is not signed');
+  }
+
+  const trailer = new URLSearchParams(query.slice(signatureAt + 1));
+  if ([...trailer.keys()].join('&') !== 'signature&key_id') {
+    throw new InvalidAdRewardError('Callback must end with signature and key_id');
+  }
+
+  const params = new URLSearchParams(query);
+  const signature = trailer.get('signature');
+  const keyId = trailer.get('key_id');
+  if (!signature || !keyId) {
+    throw new InvalidAdRewardError('Callback is missing signature or key_id');
+  }
+
+  return {
+    content: query.slice(0, signatureAt),
+    signature: Buffer.from(signature, 'base64url'),
+    keyId,
+    params,
+  };
+}
+
+/**
+ * Read the reward out of a callback whose signature has already been checked
+ */
+export function toVerifiedReward(network: string, params: URLSearchParams): VerifiedAdReward {
+  const transactionId = params.get('transaction_id');
+  const userId = params.get('user_id');
+  const adUnit = params.get('ad_unit');
+  const timestamp = Number(params.get('timestamp'));
+
+  if (!transactionId || !userId || !adUnit || !Number.isFinite(timestamp) || timestamp <= 0) {
+    throw new InvalidAdRewardError('Callback is missing transaction_id, user_id, ad_unit or timestamp');
+  }
+
+  const rewardAmount = params.get('reward_amount');
+
+  return {
+    network,
+    transactionId,
+    userId,
+    adUnit,
+    rewardItem: params.get('reward_item') || null,
+    rewardAmount: rewardAmount ? parseInt(rewardAmount, 10) : null,
+    watchedAt: new Date(timestamp),
+  };
+}
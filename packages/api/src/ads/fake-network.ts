@@ -0,0 +1,68 @@
+/**
+ * Local fake ad network
+ *
+ * Stands in for AdMob in local development and tests. Callbacks use AdMob's
+ * query string format but are HMAC-signed by createFakeAdRewardCallback, so the
+ * reward flow (including tampered and replayed callbacks) can be exercised
+ * without a real ad network. Only used when AD_REWARD_PROVIDER=fake.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { AdRewardVerifier, VerifiedAdReward } from './types';
+import { InvalidAdRewardError } from './types';
+import { parseSignedCallback, toVerifiedReward } from './callback';
+
+const KEY_ID = 'fake';
+const DEFAULT_SECRET = 'sport-sage-local-fake-ad-network';
+
+export interface FakeAdRewardOptions {
+  userId: string;
+  transactionId?: string;
+  adUnit?: string;
+  watchedAt?: Date;
+}
+
+function getSecret(): string {
+  return process.env.FAKE_AD_NETWORK_SECRET || DEFAULT_SECRET;
+}
+
+function sign(content: string): Buffer {
+  return createHmac('sha256', getSecret()).update(content).digest();
+}
+
+/**
+ * Issue a callback the fake network will accept, as the network's server would after an ad is watched
+ */
+export function createFakeAdRewardCallback(options: FakeAdRewardOptions): string {
+  const content = new URLSearchParams({
+    ad_network: 'fake',
+    ad_unit: options.adUnit ?? 'fake-rewarded',
+    reward_amount: '1',
+    reward_item: 'coins',
+    timestamp: String((options.watchedAt ?? new Date()).getTime()),
+    transaction_id: options.transactionId ?? `fake-${randomUUID()}`,
+    user_id: options.userId,
+  }).toString();
+
+  return `${content}&signature=${sign(content).toString('base64url')}&key_id=${KEY_ID}`;
+}
+
+export function createFakeAdNetworkVerifier(): AdRewardVerifier {
+  return {
+    network: 'fake',
+
+    async verify(callback: string): Promise<VerifiedAdReward> {
+      const signed = parseSignedCallback(callback);
+      if (signed.keyId !== KEY_ID) {
+        throw new InvalidAdRewardError(`Unknown verifier key ${signed.keyId}`);
+      }
+
+      const expected = sign(signed.content);
+      if (expected.length !== signed.signature.length || !timingSafeEqual(expected, signed.signature)) {
+        throw new InvalidAdRewardError('Callback signature does not match');
+      }
+
+      return toVerifiedReward('fake', signed.params);
+    },
+  };
+}
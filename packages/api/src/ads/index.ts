@@ -0,0 +1,20 @@
+/**
+ * Rewarded Ad Verification
+ *
+ * Picks the verifier for reward callbacks. Set AD_REWARD_PROVIDER=fake to
+ * accept callbacks from the local fake network instead of AdMob.
+ */
+
+import type { AdRewardVerifier } from './types';
+import { admobRewardVerifier } from './admob';
+import { createFakeAdNetworkVerifier } from './fake-network';
+
+export * from './types';
+export { createFakeAdRewardCallback, createFakeAdNetworkVerifier } from './fake-network';
+
+export function getAdRewardVerifier(): AdRewardVerifier {
+  if (process.env.AD_REWARD_PROVIDER === 'fake') {
+    return createFakeAdNetworkVerifier();
+  }
+  return admobRewardVerifier;
+}
@@ -0,0 +1,32 @@
+/**
+ * Rewarded Ad Types
+ *
+ * Common interfaces for verifying server-to-server reward callbacks from ad networks.
+ */
+
+export interface VerifiedAdReward {
+  network: string;
+  transactionId: string; // Unique per reward on the network, used to dedupe callbacks
+  userId: string; // Our user ID, passed to the ad SDK as the callback's user_id
+  adUnit: string;
+  rewardItem: string | null;
+  rewardAmount: number | null;
+  watchedAt: Date;
+}
+
+export interface AdRewardVerifier {
+  network: string;
+  // callback is the signed query string the network sends
+  verify(callback: string): Promise<VerifiedAdReward>;
+}
+
+/**
+ * The callback is malformed, unsigned, or its signature doesn't match.
+ * Anything else thrown by a verifier is treated as the network being unavailable.
+ */
+export class InvalidAdRewardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAdRewardError';
+  }
+}
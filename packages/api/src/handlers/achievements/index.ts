@@ -1,16 +1,202 @@
-import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import {
+  getDb,
+  users,
+  achievements,
+  userAchievements,
+  creditReward,
+  isAchievementVisible,
+  getPreviousTiers,
+} from '@sport-sage/database';
+import { eq, and, asc } from 'drizzle-orm';
 
-export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-  const { httpMethod, path } = event;
+const db = getDb();
 
+// CORS headers
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+};
+
+function response(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
+  };
+}
+
+function getCognitoId(event: APIGatewayProxyEventV2): string | null {
+  // HTTP API v2 format - JWT authorizer puts claims here
+  const jwt = (event.requestContext as any).authorizer?.jwt?.claims;
+  if (jwt?.sub) return jwt.sub as string;
+  return null;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// How many recent unlocks to return alongside the full list
+const RECENT_UNLOCKS_LIMIT = 5;
+
+type Achievement = typeof achievements.$inferSelect;
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const httpMethod = event.requestContext.http.method;
+  const path = event.rawPath;
+  const route = path.replace(/^\/api\/achievements\/?/, '').replace(/\/$/, '') || '';
+  const segments = route.split('/');
+
+  const cognitoId = getCognitoId(event);
+  if (!cognitoId) {
+    return response(401, { error: 'Unauthorized' });
+  }
+
+  // Get user
+  const userResult = await db.select().from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (userResult.length === 0) {
+    return response(404, { error: 'User not found. Please complete registration.' });
+  }
+  const user = userResult[0];
+
+  try {
+    // GET /api/achievements - Achievements with progress (hidden ones once unlocked)
+    if (httpMethod === 'GET' && route === '') {
+      return handleGetAchievements(user.id);
+    }
+
+    // POST /api/achievements/:id/claim - Claim an unlocked achievement's rewards
+    if (httpMethod === 'POST' && segments.length === 2 && segments[1] === 'claim') {
+      const achievementId = segments[0];
+      if (!UUID_REGEX.test(achievementId)) {
+        return response(400, { error: 'Invalid achievement ID format' });
+      }
+      return handleClaimAchievement(user.id, achievementId);
+    }
+
+    return response(404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Achievements handler error:', error);
+    return response(500, { error: 'Internal server error' });
+  }
+}
+
+function formatAchievement(achievement: Achievement, previousTierId: string | undefined) {
   return {
-    statusCode: 200,
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      message: 'uachievements handler operational',
-      path,
-      method: httpMethod,
-      timestamp: new Date().toISOString(),
-    }),
+    id: achievement.id,
+    category: achievement.category,
+    tier: achievement.tier,
+    name: achievement.name,
+    description: achievement.description,
+    iconName: achievement.iconName,
+    requirement: {
+      type: achievement.requirementType,
+      value: achievement.requirementValue,
+      sportSlug: achievement.requirementSportSlug || undefined,
+      additionalCriteria: achievement.additionalCriteria || undefined,
+    },
+    rewardCoins: achievement.rewardCoins,
+    rewardStars: achievement.rewardStars,
+    rewardGems: achievement.rewardGems,
+    nextTierId: achievement.nextTierId || undefined,
+    previousTierId,
+    isHidden: achievement.isHidden,
+    sortOrder: achievement.sortOrder,
   };
 }
+
+async function handleGetAchievements(userId: string): Promise<APIGatewayProxyResultV2> {
+  const all = await db.select().from(achievements).orderBy(asc(achievements.sortOrder));
+  const progressRows = await db.select().from(userAchievements).where(eq(userAchievements.userId, userId));
+
+  const progressById = new Map(progressRows.map((row) => [row.achievementId, row]));
+  const previousTiers = getPreviousTiers(all);
+
+  const data = all
+    .map((achievement) => {
+      const progress = progressById.get(achievement.id);
+      const isUnlocked = progress?.isUnlocked ?? false;
+      const currentProgress = progress?.currentProgress ?? 0;
+
+      return {
+        achievementId: achievement.id,
+        achievement: formatAchievement(achievement, previousTiers.get(achievement.id)),
+        userId,
+        currentProgress,
+        targetProgress: achievement.requirementValue,
+        progressPercentage: Math.min(100, Math.round((currentProgress / achievement.requirementValue) * 100)),
+        isUnlocked,
+        unlockedAt: progress?.unlockedAt || undefined,
+        isClaimed: progress?.isClaimed ?? false,
+        claimedAt: progress?.claimedAt || undefined,
+      };
+    })
+    .filter((row) => isAchievementVisible(row.achievement, row.isUnlocked));
+
+  const unlocked = data.filter((row) => row.isUnlocked);
+  const recentUnlocks = [...unlocked]
+    .sort((a, b) => new Date(b.unlockedAt!).getTime() - new Date(a.unlockedAt!).getTime())
+    .slice(0, RECENT_UNLOCKS_LIMIT);
+
+  return response(200, {
+    achievements: data,
+    totalUnlocked: unlocked.length,
+    totalAchievements: all.length,
+    recentUnlocks,
+  });
+}
+
+async function handleClaimAchievement(userId: string, achievementId: string): Promise<APIGatewayProxyResultV2> {
+  const [achievement] = await db.select().from(achievements).where(eq(achievements.id, achievementId)).limit(1);
+  if (!achievement) {
+    return response(404, { error: 'Achievement not found' });
+  }
+
+  const reward = {
+    coins: achievement.rewardCoins,
+    stars: achievement.rewardStars,
+    gems: achievement.rewardGems,
+  };
+
+  const balances = await db.transaction(async (tx) => {
+    // Only an unlocked, unclaimed achievement can be claimed - guards against double claims
+    const [claimed] = await tx
+      .update(userAchievements)
+      .set({ isClaimed: true, claimedAt: new Date() })
+      .where(and(
+        eq(userAchievements.userId, userId),
+        eq(userAchievements.achievementId, achievementId),
+        eq(userAchievements.isUnlocked, true),
+        eq(userAchievements.isClaimed, false)
+      ))
+      .returning();
+
+    if (!claimed) return null;
+
+    return creditReward(tx, userId, reward, {
+      type: 'achievement_reward',
+      description: `Achievement reward: ${achievement.name}`,
+      referenceId: achievement.id,
+      referenceType: 'achievement',
+    });
+  });
+
+  if (!balances) {
+    return response(400, { error: 'Achievement is not unlocked or has already been claimed' });
+  }
+
+  const [nextTier] = achievement.nextTierId
+    ? await db.select().from(achievements).where(eq(achievements.id, achievement.nextTierId)).limit(1)
+    : [];
+
+  return response(200, {
+    success: true,
+    coinsEarned: reward.coins,
+    starsEarned: reward.stars,
+    gemsEarned: reward.gems,
+    newCoinsBalance: balances.coins,
+    newStarsBalance: balances.stars,
+    newGemsBalance: balances.gems,
+    nextTierAchievement: nextTier && !nextTier.isHidden ? formatAchievement(nextTier, achievement.id) : undefined,
+  });
+}
@@ -1,5 +1,19 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import { getDb, users, userStats, transactions, WELCOME_BONUS_COINS } from '@sport-sage/database';
+import {
+  getDb,
+  users,
+  userStats,
+  transactions,
+  WELCOME_BONUS_COINS,
+  findReferrer,
+  redeemReferralCode,
+  REFERRAL_ERROR_MESSAGES,
+  checkInDailyLogin,
+  getLoginStreakStatus,
+  isValidTimeZone,
+  changeTimeZone,
+  TIMEZONE_CHANGE_ERROR_MESSAGES,
+} from '@sport-sage/database';
 import { eq, sql } from 'drizzle-orm';
 
 const db = getDb();
@@ -81,6 +95,16 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       return handleUpdateMe(event);
     }
 
+    // POST /api/auth/referral - Redeem a referral code after registering
+    if (httpMethod === 'POST' && route === 'referral') {
+      return handleRedeemReferral(event);
+    }
+
+    // POST /api/auth/check-in - Daily login check-in, pays the streak bonus
+    if (httpMethod === 'POST' && route === 'check-in') {
+      return handleCheckIn(event);
+    }
+
     // GET /api/auth/check-username/:username - Check if username is available
     if (httpMethod === 'GET' && route.startsWith('check-username')) {
       const username = pathParameters?.proxy?.replace('check-username/', '') ||
@@ -110,8 +134,8 @@ async function handleRegister(event: APIGatewayProxyEventV2): Promise<APIGateway
     return response(400, { error: 'Email not found in token' });
   }
 
-  // Parse body for username
-  let body: { username?: string };
+  // Parse body for username and optional referral code
+  let body: { username?: string; referralCode?: string };
   try {
     body = event.body ? JSON.parse(event.body) : {};
   } catch {
@@ -152,6 +176,12 @@ async function handleRegister(event: APIGatewayProxyEventV2): Promise<APIGateway
     return response(409, { error: 'Email is already registered' });
   }
 
+  // Validate the referral code up front so a typo doesn't create the account without it
+  const redeemCode = typeof body.referralCode === 'string' ? body.referralCode.trim() : '';
+  if (redeemCode && !(await findReferrer(db, redeemCode))) {
+    return response(400, { error: REFERRAL_ERROR_MESSAGES.invalid_code });
+  }
+
   // Generate referral code
   const referralCode = generateReferralCode();
 
@@ -188,9 +218,20 @@ async function handleRegister(event: APIGatewayProxyEventV2): Promise<APIGateway
     description: 'Welcome to Sport Sage! Here are your starting coins.',
   });
 
+  let user = newUser;
+  let referral: { referrerUsername: string } | null = null;
+  if (redeemCode) {
+    const redemption = await redeemReferralCode(db, newUser.id, redeemCode);
+    if (redemption.status === 'redeemed') {
+      referral = { referrerUsername: redemption.referrerUsername };
+      user = { ...newUser, referredById: redemption.referral.referrerId };
+    }
+  }
+
   return response(201, {
-    user: newUser,
+    user,
     stats: formatStats(newStats),
+    referral,
     message: 'Registration successful',
   });
 }
@@ -214,6 +255,7 @@ async function handleGetMe(event: APIGatewayProxyEventV2): Promise<APIGatewayPro
   return response(200, {
     user,
     stats: statsResult[0] ? formatStats(statsResult[0]) : null,
+    loginStreak: getLoginStreakStatus(statsResult[0] ?? null, user.timezone),
   });
 }
 
@@ -237,7 +279,7 @@ async function handleUpdateMe(event: APIGatewayProxyEventV2): Promise<APIGateway
     return response(401, { error: 'Unauthorized' });
   }
 
-  let body: { isOver18?: boolean; showAffiliates?: boolean; avatarUrl?: string };
+  let body: { isOver18?: boolean; showAffiliates?: boolean; avatarUrl?: string; timezone?: string };
   try {
     body = event.body ? JSON.parse(event.body) : {};
   } catch {
@@ -249,17 +291,33 @@ async function handleUpdateMe(event: APIGatewayProxyEventV2): Promise<APIGateway
   if (typeof body.isOver18 === 'boolean') allowedUpdates.isOver18 = body.isOver18;
   if (typeof body.showAffiliates === 'boolean') allowedUpdates.showAffiliates = body.showAffiliates;
   if (typeof body.avatarUrl === 'string') allowedUpdates.avatarUrl = body.avatarUrl;
+  if (body.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) {
+    return response(400, { error: 'timezone must be an IANA timezone name, e.g. Europe/London' });
+  }
 
-  if (Object.keys(allowedUpdates).length === 0) {
+  if (Object.keys(allowedUpdates).length === 0 && body.timezone === undefined) {
     return response(400, { error: 'No valid updates provided' });
   }
 
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (!user) {
+    return response(404, { error: 'User not found' });
+  }
+
+  // Timezone changes are rate-limited, since the timezone sets the user's day boundaries
+  if (body.timezone !== undefined) {
+    const change = await changeTimeZone(db, user.id, body.timezone);
+    if (change.status === 'rejected') {
+      return response(429, { error: TIMEZONE_CHANGE_ERROR_MESSAGES[change.error], code: change.error });
+    }
+  }
+
   allowedUpdates.updatedAt = new Date();
 
   const [updated] = await db
     .update(users)
     .set(allowedUpdates)
-    .where(eq(users.cognitoId, cognitoId))
+    .where(eq(users.id, user.id))
     .returning();
 
   if (!updated) {
@@ -274,6 +332,98 @@ async function handleUpdateMe(event: APIGatewayProxyEventV2): Promise<APIGateway
   });
 }
 
+async function handleRedeemReferral(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const cognitoId = getCognitoId(event);
+
+  if (!cognitoId) {
+    return response(401, { error: 'Unauthorized' });
+  }
+
+  let body: { code?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    return response(400, { error: 'Referral code is required' });
+  }
+
+  const userResult = await db.select().from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (userResult.length === 0) {
+    return response(404, { error: 'User not found. Please complete registration.' });
+  }
+
+  const redemption = await redeemReferralCode(db, userResult[0].id, body.code);
+  if (redemption.status === 'rejected') {
+    const statusCode = redemption.error === 'invalid_code' ? 404 : redemption.error === 'already_referred' ? 409 : 400;
+    return response(statusCode, { error: REFERRAL_ERROR_MESSAGES[redemption.error] });
+  }
+
+  return response(200, {
+    message: `Referral from ${redemption.referrerUsername} applied. You'll both get a bonus when your first prediction settles.`,
+    referrerUsername: redemption.referrerUsername,
+    status: redemption.referral.status,
+    rewardCoins: redemption.referral.referredRewardCoins,
+    rewardStars: redemption.referral.referredRewardStars,
+  });
+}
+
+async function handleCheckIn(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const cognitoId = getCognitoId(event);
+
+  if (!cognitoId) {
+    return response(401, { error: 'Unauthorized' });
+  }
+
+  // The device's timezone can come with the check-in so the day boundary follows the user
+  let body: { timezone?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  if (body.timezone !== undefined && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) {
+    return response(400, { error: 'timezone must be an IANA timezone name, e.g. Europe/London' });
+  }
+
+  const userResult = await db.select().from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (userResult.length === 0) {
+    return response(404, { error: 'User not found. Please complete registration.' });
+  }
+  const user = userResult[0];
+
+  // A change too soon after the last one is ignored and the check-in uses the stored timezone
+  let timezone = user.timezone;
+  if (body.timezone && body.timezone !== user.timezone) {
+    const change = await changeTimeZone(db, user.id, body.timezone);
+    if (change.status === 'ok') timezone = change.timezone;
+  }
+
+  const result = await checkInDailyLogin(db, user.id, timezone);
+
+  if (result.status === 'already_checked_in') {
+    return response(200, {
+      checkedIn: false,
+      message: 'Already checked in today',
+      loginStreak: result.streak,
+    });
+  }
+
+  return response(200, {
+    checkedIn: true,
+    message: `Day ${result.streak.currentStreak} login bonus claimed!`,
+    bonusCoins: result.bonusCoins,
+    milestoneReward: result.milestoneReward,
+    newCoinsBalance: result.balances.coins,
+    newStarsBalance: result.balances.stars,
+    newGemsBalance: result.balances.gems,
+    loginStreak: result.streak,
+  });
+}
+
 async function handleCheckUsername(username: string): Promise<APIGatewayProxyResultV2> {
   if (!username || username.length < 3 || username.length > 20) {
     return response(400, { error: 'Username must be between 3 and 20 characters' });
@@ -1,16 +1,193 @@
-import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import {
+  getDb,
+  users,
+  challenges,
+  userChallenges,
+  creditReward,
+} from '@sport-sage/database';
+import { eq, and, lte, gt, asc } from 'drizzle-orm';
 
-export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-  const { httpMethod, path } = event;
+const db = getDb();
 
+// CORS headers
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+};
+
+function response(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
+  };
+}
+
+function getCognitoId(event: APIGatewayProxyEventV2): string | null {
+  // HTTP API v2 format - JWT authorizer puts claims here
+  const jwt = (event.requestContext as any).authorizer?.jwt?.claims;
+  if (jwt?.sub) return jwt.sub as string;
+  return null;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const httpMethod = event.requestContext.http.method;
+  const path = event.rawPath;
+  const route = path.replace(/^\/api\/challenges\/?/, '').replace(/\/$/, '') || '';
+  const segments = route.split('/');
+
+  const cognitoId = getCognitoId(event);
+  if (!cognitoId) {
+    return response(401, { error: 'Unauthorized' });
+  }
+
+  // Get user
+  const userResult = await db.select().from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (userResult.length === 0) {
+    return response(404, { error: 'User not found. Please complete registration.' });
+  }
+  const user = userResult[0];
+
+  try {
+    // GET /api/challenges - Active daily and weekly challenges with progress
+    if (httpMethod === 'GET' && route === '') {
+      return handleGetChallenges(user.id);
+    }
+
+    // POST /api/challenges/:id/claim - Claim a completed challenge's rewards
+    if (httpMethod === 'POST' && segments.length === 2 && segments[1] === 'claim') {
+      const challengeId = segments[0];
+      if (!UUID_REGEX.test(challengeId)) {
+        return response(400, { error: 'Invalid challenge ID format' });
+      }
+      return handleClaimChallenge(user.id, challengeId);
+    }
+
+    return response(404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Challenges handler error:', error);
+    return response(500, { error: 'Internal server error' });
+  }
+}
+
+// Challenge odds are stored as decimal odds x 100
+function toDecimalOdds(value: number | null): number | undefined {
+  return value === null ? undefined : value / 100;
+}
+
+function formatChallenge(challenge: typeof challenges.$inferSelect) {
   return {
-    statusCode: 200,
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      message: 'uchallenges handler operational',
-      path,
-      method: httpMethod,
-      timestamp: new Date().toISOString(),
-    }),
+    id: challenge.id,
+    type: challenge.type,
+    difficulty: challenge.difficulty,
+    title: challenge.title,
+    description: challenge.description,
+    iconName: challenge.iconName,
+    targetValue: challenge.targetValue,
+    sportSlug: challenge.sportSlug || undefined,
+    marketType: challenge.marketType || undefined,
+    minOdds: toDecimalOdds(challenge.minOdds),
+    maxOdds: toDecimalOdds(challenge.maxOdds),
+    requireLive: challenge.requireLive || false,
+    requireAccumulator: challenge.requireAccumulator || false,
+    rewardCoins: challenge.rewardCoins,
+    rewardStars: challenge.rewardStars,
+    rewardGems: challenge.rewardGems,
+    startsAt: challenge.startsAt,
+    expiresAt: challenge.expiresAt,
+    isWeekly: challenge.isWeekly,
+    sortOrder: challenge.sortOrder,
+  };
+}
+
+async function handleGetChallenges(userId: string): Promise<APIGatewayProxyResultV2> {
+  const now = new Date();
+
+  const rows = await db
+    .select({ challenge: challenges, progress: userChallenges })
+    .from(challenges)
+    .leftJoin(userChallenges, and(
+      eq(userChallenges.challengeId, challenges.id),
+      eq(userChallenges.userId, userId)
+    ))
+    .where(and(lte(challenges.startsAt, now), gt(challenges.expiresAt, now)))
+    .orderBy(asc(challenges.isWeekly), asc(challenges.sortOrder));
+
+  const data = rows.map(({ challenge, progress }) => ({
+    challengeId: challenge.id,
+    challenge: formatChallenge(challenge),
+    userId,
+    currentValue: progress?.currentValue ?? 0,
+    targetValue: challenge.targetValue,
+    isCompleted: progress?.isCompleted ?? false,
+    isClaimed: progress?.isClaimed ?? false,
+    completedAt: progress?.completedAt || undefined,
+    claimedAt: progress?.claimedAt || undefined,
+  }));
+
+  // Daily challenges roll over first; fall back to the weekly set if there are none
+  const expiries = rows
+    .filter(({ challenge }) => !challenge.isWeekly)
+    .map(({ challenge }) => new Date(challenge.expiresAt).getTime());
+  const fallback = rows.map(({ challenge }) => new Date(challenge.expiresAt).getTime());
+  const nextExpiry = Math.min(...(expiries.length > 0 ? expiries : fallback));
+
+  return response(200, {
+    challenges: data,
+    refreshesAt: Number.isFinite(nextExpiry) ? new Date(nextExpiry).toISOString() : null,
+  });
+}
+
+async function handleClaimChallenge(userId: string, challengeId: string): Promise<APIGatewayProxyResultV2> {
+  const [challenge] = await db.select().from(challenges).where(eq(challenges.id, challengeId)).limit(1);
+  if (!challenge) {
+    return response(404, { error: 'Challenge not found' });
+  }
+
+  const reward = {
+    coins: challenge.rewardCoins,
+    stars: challenge.rewardStars,
+    gems: challenge.rewardGems,
   };
+
+  const balances = await db.transaction(async (tx) => {
+    // Only a completed, unclaimed challenge can be claimed - guards against double claims
+    const [claimed] = await tx
+      .update(userChallenges)
+      .set({ isClaimed: true, claimedAt: new Date() })
+      .where(and(
+        eq(userChallenges.userId, userId),
+        eq(userChallenges.challengeId, challengeId),
+        eq(userChallenges.isCompleted, true),
+        eq(userChallenges.isClaimed, false)
+      ))
+      .returning();
+
+    if (!claimed) return null;
+
+    return creditReward(tx, userId, reward, {
+      type: 'challenge_reward',
+      description: `Challenge reward: ${challenge.title}`,
+      referenceId: challenge.id,
+      referenceType: 'challenge',
+    });
+  });
+
+  if (!balances) {
+    return response(400, { error: 'Challenge is not completed or has already been claimed' });
+  }
+
+  return response(200, {
+    success: true,
+    coinsEarned: reward.coins,
+    starsEarned: reward.stars,
+    gemsEarned: reward.gems,
+    newCoinsBalance: balances.coins,
+    newStarsBalance: balances.stars,
+    newGemsBalance: balances.gems,
+  });
 }
@@ -1,5 +1,5 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import { getDb, events, markets, outcomes, sports } from '@sport-sage/database';
+import { getDb, events, markets, outcomes, sports, getEventOddsHistory, ODDS_HISTORY_LIMITS } from '@sport-sage/database';
 import { eq, and, gte, lte, desc, asc, sql, SQL } from 'drizzle-orm';
 
 const db = getDb();
@@ -42,6 +42,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       return handleFeaturedEvents();
     }
 
+    // GET /api/events/:id/odds-history - Price movement per outcome
+    if (httpMethod === 'GET' && /^[^/]+\/odds-history$/.test(route)) {
+      return handleOddsHistory(route.split('/')[0], queryStringParameters?.points);
+    }
+
     // GET /api/events/:id - Single event with markets
     if (httpMethod === 'GET' && route && !route.includes('/')) {
       const eventId = pathParameters?.proxy || route;
@@ -256,6 +261,34 @@ async function handleGetEvent(eventId: string): Promise<APIGatewayProxyResultV2>
   });
 }
 
+async function handleOddsHistory(eventId: string, points?: string): Promise<APIGatewayProxyResultV2> {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(eventId)) {
+    return response(400, { error: 'Invalid event ID format' });
+  }
+
+  const maxPoints = Math.min(
+    ODDS_HISTORY_LIMITS.maxPoints,
+    Math.max(2, parseInt(points || String(ODDS_HISTORY_LIMITS.defaultPoints), 10) || ODDS_HISTORY_LIMITS.defaultPoints)
+  );
+
+  const [eventData] = await db
+    .select({ id: events.id })
+    .from(events)
+    .where(eq(events.id, eventId))
+    .limit(1);
+
+  if (!eventData) {
+    return response(404, { error: 'Event not found' });
+  }
+
+  const history = await getEventOddsHistory(db, eventId, maxPoints);
+
+  return response(200, {
+    data: { eventId, outcomes: history },
+  });
+}
+
 function formatEventResponse(event: any) {
   return {
     id: event.id,
@@ -1,6 +1,30 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import { getDb, users, userStats } from '@sport-sage/database';
-import { eq, desc, sql } from 'drizzle-orm';
+import {
+  getDb,
+  users,
+  userStats,
+  userSettings,
+  leaderboardSnapshots,
+  leagues,
+  leagueMembers,
+  getFriendIds,
+  createLeague,
+  joinLeague,
+  getLeagueWindow,
+  getLeagueMemberIds,
+  isLeagueMember,
+  LEAGUE_ERROR_MESSAGES,
+  isLeaderboardPeriod,
+  getLeaderboardWindow,
+  getLeaderboardStandings,
+  getLeaderboardStanding,
+  countLeaderboardStandings,
+  getLeaderboardPrize,
+  type LeaderboardPeriod,
+  type LeaderboardStanding,
+  type League,
+} from '@sport-sage/database';
+import { eq, and, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
 
 const db = getDb();
 
@@ -26,11 +50,14 @@ function getCognitoId(event: APIGatewayProxyEventV2): string | null {
   return null;
 }
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const httpMethod = event.requestContext.http.method;
   const path = event.rawPath;
   const queryStringParameters = event.queryStringParameters;
   const route = path.replace(/^\/api\/leaderboard\/?/, '').replace(/\/$/, '') || '';
+  const segments = route.split('/');
 
   const cognitoId = getCognitoId(event);
   if (!cognitoId) {
@@ -44,15 +71,86 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
   }
   const currentUser = userResult[0];
 
+  const params = queryStringParameters || {};
+
+  // period=weekly|monthly|season ranks stars earned in that period; omitted means all-time
+  const period = params.period;
+  if (period !== undefined && !isLeaderboardPeriod(period)) {
+    return response(400, { error: 'Invalid period. Use weekly, monthly or season' });
+  }
+
+  // scope=friends ranks the user against their accepted friends
+  const scope = params.scope || 'global';
+  if (scope !== 'global' && scope !== 'friends') {
+    return response(400, { error: 'Invalid scope. Use global or friends' });
+  }
+
   try {
-    // GET /api/leaderboard - Global rankings
+    const userIds = scope === 'friends'
+      ? [currentUser.id, ...(await getFriendIds(db, currentUser.id))]
+      : undefined;
+
+    // GET /api/leaderboard - Global or friends rankings
     if (httpMethod === 'GET' && route === '') {
-      return handleGetLeaderboard(currentUser.id, queryStringParameters || {});
+      if (period) {
+        return handleGetPeriodLeaderboard(currentUser.id, period, params, userIds);
+      }
+      return handleGetLeaderboard(currentUser.id, params, userIds);
     }
 
     // GET /api/leaderboard/position - Current user's rank
     if (httpMethod === 'GET' && route === 'position') {
-      return handleGetPosition(currentUser.id);
+      if (period) {
+        return handleGetPeriodPosition(currentUser.id, period, userIds);
+      }
+      return handleGetPosition(currentUser.id, userIds);
+    }
+
+    // GET /api/leaderboard/leagues - Leagues the user belongs to
+    if (httpMethod === 'GET' && route === 'leagues') {
+      return handleGetLeagues(currentUser.id);
+    }
+
+    // POST /api/leaderboard/leagues - Create a private league
+    if (httpMethod === 'POST' && route === 'leagues') {
+      return handleCreateLeague(event, currentUser.id);
+    }
+
+    // POST /api/leaderboard/leagues/join - Join a league by invite code
+    if (httpMethod === 'POST' && route === 'leagues/join') {
+      return handleJoinLeague(event, currentUser.id);
+    }
+
+    if (segments[0] === 'leagues' && segments.length >= 2) {
+      const leagueId = segments[1];
+      if (!UUID_REGEX.test(leagueId)) {
+        return response(400, { error: 'Invalid league ID format' });
+      }
+
+      // GET /api/leaderboard/leagues/:id - League details and standings
+      if (httpMethod === 'GET' && segments.length === 2) {
+        return handleGetLeague(currentUser.id, leagueId, params);
+      }
+
+      // PATCH /api/leaderboard/leagues/:id - Rename or reschedule (owner only)
+      if (httpMethod === 'PATCH' && segments.length === 2) {
+        return handleUpdateLeague(event, currentUser.id, leagueId);
+      }
+
+      // DELETE /api/leaderboard/leagues/:id - Delete a league (owner only)
+      if (httpMethod === 'DELETE' && segments.length === 2) {
+        return handleDeleteLeague(currentUser.id, leagueId);
+      }
+
+      // POST /api/leaderboard/leagues/:id/leave - Leave a league
+      if (httpMethod === 'POST' && segments.length === 3 && segments[2] === 'leave') {
+        return handleLeaveLeague(currentUser.id, leagueId);
+      }
+
+      // DELETE /api/leaderboard/leagues/:id/members/:userId - Remove a member (owner only)
+      if (httpMethod === 'DELETE' && segments.length === 4 && segments[2] === 'members') {
+        return handleRemoveMember(currentUser.id, leagueId, segments[3]);
+      }
     }
 
     return response(404, { error: 'Not found' });
@@ -66,11 +164,45 @@ interface GetLeaderboardParams {
   page?: string;
   pageSize?: string;
   sortBy?: string;
+  period?: string;
+  periodKey?: string;
+  scope?: string;
+}
+
+function winRate(wins: number, losses: number): number {
+  return wins + losses > 0 ? Math.round((wins / (wins + losses)) * 100) : 0;
+}
+
+function formatStanding(entry: LeaderboardStanding, currentUserId: string) {
+  return {
+    rank: entry.rank,
+    userId: entry.userId,
+    username: entry.username,
+    avatarUrl: entry.avatarUrl,
+    stars: entry.stars,
+    wins: entry.wins,
+    losses: entry.losses,
+    winRate: winRate(entry.wins, entry.losses),
+    currentStreak: entry.currentStreak,
+    bestStreak: entry.bestStreak,
+    isCurrentUser: entry.userId === currentUserId,
+  };
+}
+
+/**
+ * Users who show on the leaderboard, optionally narrowed to a set of users
+ */
+function visibleOnLeaderboard(userIds?: string[]): SQL | undefined {
+  return and(
+    sql`COALESCE(${userSettings.showOnLeaderboard}, true)`,
+    userIds ? inArray(userStats.userId, userIds) : undefined
+  );
 }
 
 async function handleGetLeaderboard(
   currentUserId: string,
-  params: GetLeaderboardParams
+  params: GetLeaderboardParams,
+  userIds?: string[]
 ): Promise<APIGatewayProxyResultV2> {
   const page = Math.max(1, parseInt(params.page || '1', 10));
   const pageSize = Math.min(100, Math.max(1, parseInt(params.pageSize || '50', 10)));
@@ -94,7 +226,9 @@ async function handleGetLeaderboard(
   // Count total users with stats
   const countResult = await db
     .select({ count: sql<number>`count(*)::int` })
-    .from(userStats);
+    .from(userStats)
+    .leftJoin(userSettings, eq(userSettings.userId, userStats.userId))
+    .where(visibleOnLeaderboard(userIds));
   const total = countResult[0]?.count || 0;
 
   // Fetch leaderboard with user info
@@ -112,6 +246,8 @@ async function handleGetLeaderboard(
     })
     .from(userStats)
     .innerJoin(users, eq(users.id, userStats.userId))
+    .leftJoin(userSettings, eq(userSettings.userId, userStats.userId))
+    .where(visibleOnLeaderboard(userIds))
     .orderBy(desc(orderColumn))
     .limit(pageSize)
     .offset(offset);
@@ -142,10 +278,11 @@ async function handleGetLeaderboard(
       hasMore: offset + data.length < total,
     },
     sortBy,
+    scope: userIds ? 'friends' : 'global',
   });
 }
 
-async function handleGetPosition(userId: string): Promise<APIGatewayProxyResultV2> {
+async function handleGetPosition(userId: string, userIds?: string[]): Promise<APIGatewayProxyResultV2> {
   // Get user's stats
   const statsResult = await db.select().from(userStats).where(eq(userStats.userId, userId)).limit(1);
 
@@ -164,13 +301,19 @@ async function handleGetPosition(userId: string): Promise<APIGatewayProxyResultV
   const higherRankedResult = await db
     .select({ count: sql<number>`count(*)::int` })
     .from(userStats)
-    .where(sql`${userStats.totalStarsEarned} > ${stats.totalStarsEarned}`);
+    .leftJoin(userSettings, eq(userSettings.userId, userStats.userId))
+    .where(and(
+      visibleOnLeaderboard(userIds),
+      sql`${userStats.totalStarsEarned} > ${stats.totalStarsEarned}`
+    ));
   const higherRanked = higherRankedResult[0]?.count || 0;
 
   // Count total users
   const totalResult = await db
     .select({ count: sql<number>`count(*)::int` })
-    .from(userStats);
+    .from(userStats)
+    .leftJoin(userSettings, eq(userSettings.userId, userStats.userId))
+    .where(visibleOnLeaderboard(userIds));
   const totalUsers = totalResult[0]?.count || 0;
 
   const rank = higherRanked + 1;
@@ -199,3 +342,418 @@ async function handleGetPosition(userId: string): Promise<APIGatewayProxyResultV
             : 'Keep making predictions to climb the ranks!',
   });
 }
+
+/**
+ * Standings for the current weekly/monthly/season period, or a closed one via periodKey
+ */
+async function handleGetPeriodLeaderboard(
+  currentUserId: string,
+  period: LeaderboardPeriod,
+  params: GetLeaderboardParams,
+  userIds?: string[]
+): Promise<APIGatewayProxyResultV2> {
+  const page = Math.max(1, parseInt(params.page || '1', 10));
+  const pageSize = Math.min(100, Math.max(1, parseInt(params.pageSize || '50', 10)));
+  const offset = (page - 1) * pageSize;
+
+  const window = getLeaderboardWindow(period);
+
+  // A past period is served from its snapshot, so it matches what was paid out
+  if (params.periodKey && params.periodKey !== window.key) {
+    return handleGetClosedPeriod(currentUserId, period, params.periodKey, page, pageSize, userIds);
+  }
+
+  const { standings, total } = await getLeaderboardStandings(db, window, { limit: pageSize, offset, userIds });
+
+  return response(200, {
+    data: standings.map((entry) => ({
+      ...formatStanding(entry, currentUserId),
+      // Prizes follow the global rank, so a friends rank doesn't map to one
+      prize: userIds ? null : getLeaderboardPrize(period, entry.rank),
+    })),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      hasMore: offset + standings.length < total,
+    },
+    period,
+    periodKey: window.key,
+    startsAt: window.startsAt.toISOString(),
+    endsAt: window.endsAt.toISOString(),
+    isClosed: false,
+    scope: userIds ? 'friends' : 'global',
+  });
+}
+
+async function handleGetClosedPeriod(
+  currentUserId: string,
+  period: LeaderboardPeriod,
+  periodKey: string,
+  page: number,
+  pageSize: number,
+  userIds?: string[]
+): Promise<APIGatewayProxyResultV2> {
+  const offset = (page - 1) * pageSize;
+  const inPeriod = and(
+    eq(leaderboardSnapshots.period, period),
+    eq(leaderboardSnapshots.periodKey, periodKey),
+    userIds ? inArray(leaderboardSnapshots.userId, userIds) : undefined
+  );
+
+  // Re-rank so a friends view of a closed period is numbered among friends
+  const rows = await db
+    .select({
+      snapshot: leaderboardSnapshots,
+      username: users.username,
+      avatarUrl: users.avatarUrl,
+      currentStreak: sql<number>`COALESCE(${userStats.currentStreak}, 0)::int`,
+      bestStreak: sql<number>`COALESCE(${userStats.bestStreak}, 0)::int`,
+      rank: sql<number>`(RANK() OVER (ORDER BY ${leaderboardSnapshots.rank}))::int`,
+    })
+    .from(leaderboardSnapshots)
+    .innerJoin(users, eq(users.id, leaderboardSnapshots.userId))
+    .leftJoin(userStats, eq(userStats.userId, leaderboardSnapshots.userId))
+    .where(inPeriod)
+    .orderBy(asc(leaderboardSnapshots.rank), asc(users.username))
+    .limit(pageSize)
+    .offset(offset);
+
+  const [count] = await db
+    .select({
+      count: sql<number>`count(*)::int`,
+      startsAt: sql<Date | null>`min(${leaderboardSnapshots.periodStart})`,
+      endsAt: sql<Date | null>`max(${leaderboardSnapshots.periodEnd})`,
+    })
+    .from(leaderboardSnapshots)
+    .where(inPeriod);
+  const total = count?.count || 0;
+
+  if (total === 0) {
+    return response(404, { error: 'No closed leaderboard for that period' });
+  }
+
+  return response(200, {
+    data: rows.map(({ snapshot, username, avatarUrl, currentStreak, bestStreak, rank }) => ({
+      ...formatStanding({ ...snapshot, username, avatarUrl, currentStreak, bestStreak, rank }, currentUserId),
+      prize: {
+        coins: snapshot.rewardCoins,
+        stars: snapshot.rewardStars,
+        gems: snapshot.rewardGems,
+      },
+    })),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      hasMore: offset + rows.length < total,
+    },
+    period,
+    periodKey,
+    startsAt: count?.startsAt ? new Date(count.startsAt).toISOString() : null,
+    endsAt: count?.endsAt ? new Date(count.endsAt).toISOString() : null,
+    isClosed: true,
+    scope: userIds ? 'friends' : 'global',
+  });
+}
+
+async function handleGetPeriodPosition(
+  userId: string,
+  period: LeaderboardPeriod,
+  userIds?: string[]
+): Promise<APIGatewayProxyResultV2> {
+  const window = getLeaderboardWindow(period);
+  const periodInfo = {
+    period,
+    periodKey: window.key,
+    startsAt: window.startsAt.toISOString(),
+    endsAt: window.endsAt.toISOString(),
+  };
+
+  const standing = await getLeaderboardStanding(db, window, userId, userIds);
+  if (!standing) {
+    return response(200, {
+      rank: null,
+      stars: 0,
+      percentile: null,
+      message: 'No settled predictions this period yet',
+      ...periodInfo,
+    });
+  }
+
+  const totalUsers = await countLeaderboardStandings(db, window, userIds);
+  const percentile = totalUsers > 0 ? Math.round(((totalUsers - standing.rank) / totalUsers) * 100) : 0;
+
+  return response(200, {
+    rank: standing.rank,
+    totalUsers,
+    stars: standing.stars,
+    wins: standing.wins,
+    losses: standing.losses,
+    winRate: winRate(standing.wins, standing.losses),
+    percentile,
+    prize: userIds ? null : getLeaderboardPrize(period, standing.rank),
+    ...periodInfo,
+  });
+}
+
+// ============================================================================
+// Private leagues
+// ============================================================================
+
+const LEAGUE_NAME_MIN = 3;
+const LEAGUE_NAME_MAX = 50;
+
+function formatLeague(league: League, currentUserId: string, memberCount: number) {
+  return {
+    id: league.id,
+    name: league.name,
+    ownerId: league.ownerId,
+    isOwner: league.ownerId === currentUserId,
+    inviteCode: league.inviteCode,
+    startsAt: league.startsAt,
+    memberCount,
+    createdAt: league.createdAt,
+  };
+}
+
+function validateLeagueName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim();
+  return trimmed.length >= LEAGUE_NAME_MIN && trimmed.length <= LEAGUE_NAME_MAX ? trimmed : null;
+}
+
+function parseStartsAt(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function countLeagueMembers(leagueId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(leagueMembers)
+    .where(eq(leagueMembers.leagueId, leagueId));
+  return row?.count || 0;
+}
+
+/**
+ * A league the user belongs to; non-members get a 404 so private leagues can't be probed
+ */
+async function findMemberLeague(userId: string, leagueId: string): Promise<League | null> {
+  const [league] = await db.select().from(leagues).where(eq(leagues.id, leagueId)).limit(1);
+  if (!league || !(await isLeagueMember(db, leagueId, userId))) return null;
+  return league;
+}
+
+async function handleGetLeagues(userId: string): Promise<APIGatewayProxyResultV2> {
+  const rows = await db
+    .select({
+      league: leagues,
+      memberCount: sql<number>`(SELECT count(*) FROM league_members m WHERE m.league_id = ${leagues.id})::int`,
+    })
+    .from(leagueMembers)
+    .innerJoin(leagues, eq(leagues.id, leagueMembers.leagueId))
+    .where(eq(leagueMembers.userId, userId))
+    .orderBy(asc(leagues.createdAt));
+
+  return response(200, {
+    leagues: rows.map(({ league, memberCount }) => formatLeague(league, userId, memberCount)),
+  });
+}
+
+async function handleCreateLeague(event: APIGatewayProxyEventV2, userId: string): Promise<APIGatewayProxyResultV2> {
+  let body: { name?: string; startsAt?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  const name = validateLeagueName(body.name);
+  if (!name) {
+    return response(400, { error: `League name must be ${LEAGUE_NAME_MIN}-${LEAGUE_NAME_MAX} characters` });
+  }
+
+  const startsAt = body.startsAt === undefined ? undefined : parseStartsAt(body.startsAt);
+  if (startsAt === null) {
+    return response(400, { error: 'startsAt must be an ISO date' });
+  }
+
+  const result = await createLeague(db, userId, { name, startsAt });
+  if (result.status === 'rejected') {
+    return response(400, { error: LEAGUE_ERROR_MESSAGES[result.error], code: result.error });
+  }
+
+  return response(201, { league: formatLeague(result.league, userId, 1) });
+}
+
+async function handleJoinLeague(event: APIGatewayProxyEventV2, userId: string): Promise<APIGatewayProxyResultV2> {
+  let body: { code?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    return response(400, { error: 'Invite code is required' });
+  }
+
+  const result = await joinLeague(db, userId, body.code);
+  if (result.status === 'rejected') {
+    const status = result.error === 'invalid_code' ? 404 : result.error === 'already_member' ? 409 : 400;
+    return response(status, { error: LEAGUE_ERROR_MESSAGES[result.error], code: result.error });
+  }
+
+  return response(200, {
+    league: formatLeague(result.league, userId, await countLeagueMembers(result.league.id)),
+  });
+}
+
+async function handleGetLeague(
+  currentUserId: string,
+  leagueId: string,
+  params: GetLeaderboardParams
+): Promise<APIGatewayProxyResultV2> {
+  const league = await findMemberLeague(currentUserId, leagueId);
+  if (!league) {
+    return response(404, { error: 'League not found' });
+  }
+
+  const page = Math.max(1, parseInt(params.page || '1', 10));
+  const pageSize = Math.min(100, Math.max(1, parseInt(params.pageSize || '50', 10)));
+  const offset = (page - 1) * pageSize;
+
+  const memberIds = await getLeagueMemberIds(db, league.id);
+  const { standings, total } = await getLeaderboardStandings(db, getLeagueWindow(league), {
+    limit: pageSize,
+    offset,
+    userIds: memberIds,
+  });
+
+  return response(200, {
+    league: formatLeague(league, currentUserId, memberIds.length),
+    data: standings.map((entry) => formatStanding(entry, currentUserId)),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      hasMore: offset + standings.length < total,
+    },
+  });
+}
+
+async function handleUpdateLeague(
+  event: APIGatewayProxyEventV2,
+  userId: string,
+  leagueId: string
+): Promise<APIGatewayProxyResultV2> {
+  let body: { name?: string; startsAt?: string };
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  const updates: Partial<Pick<League, 'name' | 'startsAt'>> = {};
+
+  if (body.name !== undefined) {
+    const name = validateLeagueName(body.name);
+    if (!name) {
+      return response(400, { error: `League name must be ${LEAGUE_NAME_MIN}-${LEAGUE_NAME_MAX} characters` });
+    }
+    updates.name = name;
+  }
+
+  if (body.startsAt !== undefined) {
+    const startsAt = parseStartsAt(body.startsAt);
+    if (!startsAt) {
+      return response(400, { error: 'startsAt must be an ISO date' });
+    }
+    updates.startsAt = startsAt;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return response(400, { error: 'Nothing to update' });
+  }
+
+  const league = await findMemberLeague(userId, leagueId);
+  if (!league) {
+    return response(404, { error: 'League not found' });
+  }
+  if (league.ownerId !== userId) {
+    return response(403, { error: 'Only the league owner can change it' });
+  }
+
+  const [updated] = await db
+    .update(leagues)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(leagues.id, leagueId))
+    .returning();
+
+  return response(200, { league: formatLeague(updated, userId, await countLeagueMembers(leagueId)) });
+}
+
+async function handleDeleteLeague(userId: string, leagueId: string): Promise<APIGatewayProxyResultV2> {
+  const league = await findMemberLeague(userId, leagueId);
+  if (!league) {
+    return response(404, { error: 'League not found' });
+  }
+  if (league.ownerId !== userId) {
+    return response(403, { error: 'Only the league owner can delete it' });
+  }
+
+  // Members are removed by the cascade
+  await db.delete(leagues).where(eq(leagues.id, leagueId));
+
+  return response(200, { success: true });
+}
+
+async function handleLeaveLeague(userId: string, leagueId: string): Promise<APIGatewayProxyResultV2> {
+  const league = await findMemberLeague(userId, leagueId);
+  if (!league) {
+    return response(404, { error: 'League not found' });
+  }
+  if (league.ownerId === userId) {
+    return response(400, { error: 'League owners cannot leave. Delete the league instead' });
+  }
+
+  await db
+    .delete(leagueMembers)
+    .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, userId)));
+
+  return response(200, { success: true });
+}
+
+async function handleRemoveMember(
+  userId: string,
+  leagueId: string,
+  memberId: string
+): Promise<APIGatewayProxyResultV2> {
+  if (!UUID_REGEX.test(memberId)) {
+    return response(400, { error: 'Invalid user ID format' });
+  }
+
+  const league = await findMemberLeague(userId, leagueId);
+  if (!league) {
+    return response(404, { error: 'League not found' });
+  }
+  if (league.ownerId !== userId) {
+    return response(403, { error: 'Only the league owner can remove members' });
+  }
+  if (memberId === userId) {
+    return response(400, { error: 'League owners cannot remove themselves' });
+  }
+
+  const removed = await db
+    .delete(leagueMembers)
+    .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, memberId)))
+    .returning();
+
+  if (removed.length === 0) {
+    return response(404, { error: 'User is not in this league' });
+  }
+
+  return response(200, { success: true });
+}
@@ -1,4 +1,3 @@
-// Force rebuild v2
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
 import {
   getDb,
@@ -9,8 +8,23 @@ import {
   markets,
   outcomes,
   transactions,
+  accumulatorSelections,
+  ACCUMULATOR_BONUSES,
+  ACCUMULATOR_LIMITS,
+  recordActivity,
+  updateChallengeProgress,
+  getActiveSponsorBonuses,
+  calculateStarsMultiplier,
+  calculatePotentialStars,
+  MAX_STARS_MULTIPLIER,
+  getEntitlements,
+  quoteCashout,
+  acceptCashout,
+  CASHOUT_ERROR_MESSAGES,
+  type CashoutError,
+  type StarsMultiplier,
 } from '@sport-sage/database';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, gte, inArray, sql } from 'drizzle-orm';
 
 const db = getDb();
 
@@ -18,7 +32,7 @@ const db = getDb();
 const corsHeaders = {
   'Content-Type': 'application/json',
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,Idempotency-Key',
 };
 
 function response(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
@@ -36,6 +50,14 @@ function getCognitoId(event: APIGatewayProxyEventV2): string | null {
   return null;
 }
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 100;
+
+function getIdempotencyKey(event: APIGatewayProxyEventV2): string | undefined {
+  // HTTP API v2 lowercases header names
+  const key = event.headers?.['idempotency-key']?.trim();
+  return key || undefined;
+}
+
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const httpMethod = event.requestContext.http.method;
   const path = event.rawPath;
@@ -61,6 +83,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       return handleCreatePrediction(event, user);
     }
 
+    // POST /api/predictions/accumulator - Create accumulator
+    if (httpMethod === 'POST' && route === 'accumulator') {
+      return handleCreateAccumulator(event, user);
+    }
+
     // GET /api/predictions - List user's predictions
     if (httpMethod === 'GET' && route === '') {
       return handleListPredictions(user.id, queryStringParameters || {});
@@ -71,6 +98,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       return handleGetStats(user.id);
     }
 
+    // POST /api/predictions/:id/cashout - Quote a cash-out, or accept one with { quoteId }
+    if (httpMethod === 'POST' && /^[^/]+\/cashout$/.test(route)) {
+      return handleCashout(event, route.split('/')[0], user.id);
+    }
+
     // GET /api/predictions/:id - Get single prediction
     if (httpMethod === 'GET' && route && !route.includes('/')) {
       const predictionId = pathParameters?.proxy || route;
@@ -108,11 +140,22 @@ async function handleCreatePrediction(
     return response(400, { error: 'eventId, outcomeId, and stake are required' });
   }
 
-  // Validate stake
+  const idempotencyKey = getIdempotencyKey(event);
+  if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return response(400, { error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+  }
+
+  // A retry of a request that already succeeded returns the original prediction
+  if (idempotencyKey) {
+    const replay = await replayIdempotentRequest(user, idempotencyKey, { type: 'single', outcomeId, stake });
+    if (replay) return replay;
+  }
+
+  // Validate stake - the maximum depends on the user's subscription
   const MIN_STAKE = 10;
-  const MAX_STAKE = 1000;
-  if (stake < MIN_STAKE || stake > MAX_STAKE) {
-    return response(400, { error: `Stake must be between ${MIN_STAKE} and ${MAX_STAKE} coins` });
+  const { maxStake } = getEntitlements(user);
+  if (!Number.isInteger(stake) || stake < MIN_STAKE || stake > maxStake) {
+    return response(400, { error: `Stake must be between ${MIN_STAKE} and ${maxStake} coins` });
   }
 
   if (stake > user.coins) {
@@ -153,83 +196,120 @@ async function handleCreatePrediction(
   }
   const marketData = marketResult[0];
 
+  if (marketData.eventId !== eventData.id) {
+    return response(400, { error: 'Outcome does not belong to this event' });
+  }
+
   if (marketData.isSuspended) {
     return response(400, { error: 'This market is currently suspended' });
   }
 
+  const now = new Date();
+
   // Calculate potential winnings
   const odds = parseFloat(outcomeData.odds);
   const potentialCoins = Math.floor(stake * odds);
-  const potentialStars = Math.floor(potentialCoins - stake);
-
-  // Create prediction and deduct coins in a transaction
-  const newCoins = user.coins - stake;
-
-  // Deduct coins from user
-  await db
-    .update(users)
-    .set({ coins: newCoins, updatedAt: new Date() })
-    .where(eq(users.id, user.id));
-
-  // Create prediction
-  // Note: Using sql template to cast enum values for RDS Data API compatibility
-  const [newPrediction] = await db
-    .insert(predictions)
-    .values({
-      userId: user.id,
-      type: sql`'single'::prediction_type` as unknown as 'single',
-      eventId,
-      marketId: marketData.id,
-      outcomeId,
-      stake,
-      odds: outcomeData.odds,
-      totalOdds: outcomeData.odds,
-      potentialCoins,
-      potentialStars,
-      starsMultiplier: '1.0',
-    })
-    .returning();
-
-  // Create transaction record
-  // Note: Using sql template to cast enum values for RDS Data API compatibility
-  await db.insert(transactions).values({
-    userId: user.id,
-    type: sql`'prediction_stake'::transaction_type` as unknown as 'prediction_stake',
-    currency: sql`'coins'::currency_type` as unknown as 'coins',
-    amount: -stake,
-    balanceAfter: newCoins,
-    description: `Prediction on ${eventData.homeTeamName || eventData.player1Name} vs ${eventData.awayTeamName || eventData.player2Name}`,
-    referenceId: newPrediction.id,
-    referenceType: 'prediction',
-  });
+  const starsMultiplier = await getStarsMultiplier(user, [eventData.id], now);
+  const potentialStars = calculatePotentialStars(potentialCoins, stake, starsMultiplier.multiplier);
+
+  // Debit, prediction, ledger and stats all land together or not at all
+  let placed: { prediction: typeof predictions.$inferSelect; newBalance: number } | null;
+  try {
+    placed = await db.transaction(async (tx) => {
+      // Conditional decrement - fails if a concurrent request already spent the coins
+      const [debited] = await tx
+        .update(users)
+        .set({ coins: sql`${users.coins} - ${stake}`, updatedAt: now })
+        .where(and(eq(users.id, user.id), gte(users.coins, stake)))
+        .returning({ coins: users.coins });
+
+      if (!debited) {
+        return null;
+      }
+
+      // Note: Using sql template to cast enum values for RDS Data API compatibility
+      const [newPrediction] = await tx
+        .insert(predictions)
+        .values({
+          userId: user.id,
+          type: sql`'single'::prediction_type` as unknown as 'single',
+          eventId,
+          marketId: marketData.id,
+          outcomeId,
+          stake,
+          odds: outcomeData.odds,
+          totalOdds: outcomeData.odds,
+          potentialCoins,
+          potentialStars,
+          starsMultiplier: starsMultiplier.multiplier.toFixed(2),
+          idempotencyKey,
+        })
+        .returning();
+
+      await tx.insert(transactions).values({
+        userId: user.id,
+        type: sql`'prediction_stake'::transaction_type` as unknown as 'prediction_stake',
+        currency: sql`'coins'::currency_type` as unknown as 'coins',
+        amount: -stake,
+        balanceAfter: debited.coins,
+        description: `Prediction on ${eventData.homeTeamName || eventData.player1Name} vs ${eventData.awayTeamName || eventData.player2Name}`,
+        referenceId: newPrediction.id,
+        referenceType: 'prediction',
+      });
+
+      await tx
+        .update(userStats)
+        .set({
+          totalPredictions: sql`${userStats.totalPredictions} + 1`,
+          totalCoinsWagered: sql`${userStats.totalCoinsWagered} + ${stake}`,
+          updatedAt: now,
+        })
+        .where(eq(userStats.userId, user.id));
+
+      await tx
+        .update(events)
+        .set({
+          predictionCount: sql`${events.predictionCount} + 1`,
+          updatedAt: now,
+        })
+        .where(eq(events.id, eventId));
+
+      await recordActivity(tx, {
+        userId: user.id,
+        type: 'prediction_placed',
+        title: 'Made a prediction',
+        description: `${outcomeData.name} in ${eventData.homeTeamName || eventData.player1Name} vs ${eventData.awayTeamName || eventData.player2Name}`,
+        predictionId: newPrediction.id,
+        metadata: { stake, odds },
+      });
+
+      await updateChallengeProgress(tx, newPrediction.id, 'placed');
+
+      return { prediction: newPrediction, newBalance: debited.coins };
+    });
+  } catch (error) {
+    // A concurrent request with the same key won the unique index race - return its prediction
+    const replay = idempotencyKey
+      ? await replayIdempotentRequest(user, idempotencyKey, { type: 'single', outcomeId, stake })
+      : null;
+    if (replay) return replay;
+    throw error;
+  }
 
-  // Update user stats
-  await db
-    .update(userStats)
-    .set({
-      totalPredictions: sql`${userStats.totalPredictions} + 1`,
-      totalCoinsWagered: sql`${userStats.totalCoinsWagered} + ${stake}`,
-      updatedAt: new Date(),
-    })
-    .where(eq(userStats.userId, user.id));
-
-  // Increment event prediction count
-  await db
-    .update(events)
-    .set({
-      predictionCount: sql`${events.predictionCount} + 1`,
-      updatedAt: new Date(),
-    })
-    .where(eq(events.id, eventId));
+  if (!placed) {
+    return response(400, { error: 'Insufficient coins' });
+  }
 
   return response(201, {
     prediction: {
-      id: newPrediction.id,
+      id: placed.prediction.id,
       type: 'single',
       stake,
       odds,
       potentialCoins,
       potentialStars,
+      starsMultiplier: starsMultiplier.multiplier,
+      starsMultiplierBreakdown: formatStarsMultiplier(starsMultiplier, potentialCoins, stake),
       status: 'pending',
       event: {
         id: eventData.id,
@@ -244,9 +324,413 @@ async function handleCreatePrediction(
         name: outcomeData.name,
         odds,
       },
-      createdAt: newPrediction.createdAt,
+      createdAt: placed.prediction.createdAt,
+    },
+    newBalance: placed.newBalance,
+  });
+}
+
+/**
+ * Stars multiplier for a new prediction. An accumulator takes its best sponsored leg.
+ */
+async function getStarsMultiplier(
+  user: typeof users.$inferSelect,
+  eventIds: string[],
+  at: Date
+): Promise<StarsMultiplier> {
+  const [sponsors, [stats]] = await Promise.all([
+    getActiveSponsorBonuses(db, eventIds, at),
+    db
+      .select({
+        hasPredictionBoost: userStats.hasPredictionBoost,
+        predictionBoostExpiresAt: userStats.predictionBoostExpiresAt,
+      })
+      .from(userStats)
+      .where(eq(userStats.userId, user.id))
+      .limit(1),
+  ]);
+
+  const sponsor = [...sponsors.values()].sort((a, b) => b.multiplier - a.multiplier)[0] ?? null;
+
+  return calculateStarsMultiplier({ sponsor, user, stats, at });
+}
+
+// Itemised multiplier for the create response
+function formatStarsMultiplier(starsMultiplier: StarsMultiplier, potentialCoins: number, stake: number) {
+  return {
+    baseStars: calculatePotentialStars(potentialCoins, stake, 1),
+    components: starsMultiplier.components,
+    uncappedMultiplier: starsMultiplier.uncappedMultiplier,
+    maxMultiplier: MAX_STARS_MULTIPLIER,
+    isCapped: starsMultiplier.isCapped,
+  };
+}
+
+// What a request asked for, to check a reused Idempotency-Key is for the same request
+type IdempotentRequest =
+  | { type: 'single'; outcomeId: string; stake: number }
+  | { type: 'accumulator'; outcomeIds: string[]; stake: number };
+
+/**
+ * If this user already placed a prediction with the given Idempotency-Key,
+ * return it (200) instead of placing another. A key reused for a different
+ * stake, outcome or legs is rejected (422). Returns null when the key is new.
+ */
+async function replayIdempotentRequest(
+  user: typeof users.$inferSelect,
+  idempotencyKey: string,
+  request: IdempotentRequest
+): Promise<APIGatewayProxyResultV2 | null> {
+  const existing = await db.query.predictions.findFirst({
+    where: and(eq(predictions.userId, user.id), eq(predictions.idempotencyKey, idempotencyKey)),
+    with: {
+      event: true,
+      outcome: true,
+      selections: {
+        with: { event: true, market: true, outcome: true },
+      },
+    },
+  });
+
+  if (!existing) {
+    return null;
+  }
+
+  const sameRequest = request.type === 'single'
+    ? existing.type === 'single' && existing.outcomeId === request.outcomeId && existing.stake === request.stake
+    : existing.type === 'accumulator' &&
+      existing.stake === request.stake &&
+      existing.selections.map((s) => s.outcomeId).sort().join(',') === [...request.outcomeIds].sort().join(',');
+
+  if (!sameRequest) {
+    return response(422, {
+      error: 'This Idempotency-Key was already used for a different prediction',
+      code: 'idempotency_key_reused',
+    });
+  }
+
+  const [balance] = await db.select({ coins: users.coins }).from(users).where(eq(users.id, user.id)).limit(1);
+
+  const formatEvent = (e: typeof events.$inferSelect) => ({
+    id: e.id,
+    homeTeamName: e.homeTeamName,
+    awayTeamName: e.awayTeamName,
+    player1Name: e.player1Name,
+    player2Name: e.player2Name,
+    startTime: e.startTime,
+  });
+
+  return response(200, {
+    prediction: {
+      id: existing.id,
+      type: existing.type,
+      stake: existing.stake,
+      odds: parseFloat(existing.odds),
+      totalOdds: parseFloat(existing.totalOdds),
+      potentialCoins: existing.potentialCoins,
+      potentialStars: existing.potentialStars,
+      starsMultiplier: parseFloat(existing.starsMultiplier),
+      status: existing.status,
+      event: existing.event ? formatEvent(existing.event) : undefined,
+      outcome: existing.outcome
+        ? { id: existing.outcome.id, name: existing.outcome.name, odds: parseFloat(existing.odds) }
+        : undefined,
+      selections: existing.type === 'accumulator'
+        ? existing.selections.map((s) => ({
+            id: s.id,
+            odds: parseFloat(s.odds),
+            status: s.status,
+            event: formatEvent(s.event),
+            market: { id: s.market.id, type: s.market.type, name: s.market.name },
+            outcome: { id: s.outcome.id, name: s.outcome.name, odds: parseFloat(s.odds) },
+          }))
+        : undefined,
+      createdAt: existing.createdAt,
+    },
+    newBalance: balance?.coins ?? user.coins,
+  });
+}
+
+interface CreateAccumulatorBody {
+  stake: number;
+  selections: Array<{
+    eventId: string;
+    outcomeId: string;
+  }>;
+}
+
+async function handleCreateAccumulator(
+  event: APIGatewayProxyEventV2,
+  user: typeof users.$inferSelect
+): Promise<APIGatewayProxyResultV2> {
+  let body: CreateAccumulatorBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  const { stake, selections } = body;
+
+  // Validate inputs
+  if (!stake || !Array.isArray(selections)) {
+    return response(400, { error: 'stake and selections are required' });
+  }
+
+  if (
+    selections.length < ACCUMULATOR_LIMITS.minSelections ||
+    selections.length > ACCUMULATOR_LIMITS.maxSelections
+  ) {
+    return response(400, {
+      error: `Accumulators need between ${ACCUMULATOR_LIMITS.minSelections} and ${ACCUMULATOR_LIMITS.maxSelections} selections`,
+    });
+  }
+
+  if (selections.some((s) => !s?.eventId || !s?.outcomeId)) {
+    return response(400, { error: 'Every selection needs an eventId and outcomeId' });
+  }
+
+  const idempotencyKey = getIdempotencyKey(event);
+  if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return response(400, { error: `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+  }
+
+  // A retry of a request that already succeeded returns the original accumulator
+  const idempotentRequest: IdempotentRequest = {
+    type: 'accumulator',
+    outcomeIds: selections.map((s) => s.outcomeId),
+    stake,
+  };
+  if (idempotencyKey) {
+    const replay = await replayIdempotentRequest(user, idempotencyKey, idempotentRequest);
+    if (replay) return replay;
+  }
+
+  // Validate stake - the maximum depends on the user's subscription
+  const { maxAccumulatorStake } = getEntitlements(user);
+  if (
+    !Number.isInteger(stake) ||
+    stake < ACCUMULATOR_LIMITS.minStake ||
+    stake > maxAccumulatorStake
+  ) {
+    return response(400, {
+      error: `Stake must be between ${ACCUMULATOR_LIMITS.minStake} and ${maxAccumulatorStake} coins`,
+    });
+  }
+
+  if (stake > user.coins) {
+    return response(400, { error: 'Insufficient coins' });
+  }
+
+  // One leg per event - correlated legs can't be combined
+  const eventIds = selections.map((s) => s.eventId);
+  if (new Set(eventIds).size !== eventIds.length) {
+    return response(400, { error: 'An accumulator cannot contain two selections from the same event' });
+  }
+
+  // Load every leg's event, outcome and market in bulk
+  const outcomeIds = selections.map((s) => s.outcomeId);
+  const [eventRows, outcomeRows] = await Promise.all([
+    db.select().from(events).where(inArray(events.id, eventIds)),
+    db.select().from(outcomes).where(inArray(outcomes.id, outcomeIds)),
+  ]);
+  const marketRows = outcomeRows.length > 0
+    ? await db
+        .select()
+        .from(markets)
+        .where(inArray(markets.id, outcomeRows.map((o) => o.marketId)))
+    : [];
+
+  const eventsById = new Map(eventRows.map((e) => [e.id, e]));
+  const outcomesById = new Map(outcomeRows.map((o) => [o.id, o]));
+  const marketsById = new Map(marketRows.map((m) => [m.id, m]));
+
+  const now = new Date();
+  const legs: Array<{
+    event: typeof events.$inferSelect;
+    market: typeof markets.$inferSelect;
+    outcome: typeof outcomes.$inferSelect;
+    odds: number;
+  }> = [];
+
+  for (const selection of selections) {
+    const eventData = eventsById.get(selection.eventId);
+    if (!eventData) {
+      return response(404, { error: `Event not found: ${selection.eventId}` });
+    }
+
+    if (eventData.status !== 'scheduled' || new Date(eventData.startTime) <= now) {
+      return response(400, {
+        error: `Event is no longer open for predictions: ${eventData.homeTeamName || eventData.player1Name} vs ${eventData.awayTeamName || eventData.player2Name}`,
+      });
+    }
+
+    const outcomeData = outcomesById.get(selection.outcomeId);
+    if (!outcomeData) {
+      return response(404, { error: `Outcome not found: ${selection.outcomeId}` });
+    }
+
+    const marketData = marketsById.get(outcomeData.marketId);
+    if (!marketData || marketData.eventId !== eventData.id) {
+      return response(400, { error: `Outcome ${selection.outcomeId} does not belong to event ${selection.eventId}` });
+    }
+
+    if (marketData.isSuspended) {
+      return response(400, { error: `Market is currently suspended: ${marketData.name || marketData.type}` });
+    }
+
+    if (outcomeData.isSuspended) {
+      return response(400, { error: `Selection is currently suspended: ${outcomeData.name}` });
+    }
+
+    legs.push({ event: eventData, market: marketData, outcome: outcomeData, odds: parseFloat(outcomeData.odds) });
+  }
+
+  // Calculate combined odds and potential winnings
+  const totalOdds = Math.round(legs.reduce((acc, leg) => acc * leg.odds, 1) * 100) / 100;
+  const bonusMultiplier = ACCUMULATOR_BONUSES[legs.length] ?? 1.0;
+  const potentialCoins = Math.floor(stake * totalOdds * bonusMultiplier);
+  const starsMultiplier = await getStarsMultiplier(user, eventIds, now);
+  const potentialStars = calculatePotentialStars(potentialCoins, stake, starsMultiplier.multiplier);
+
+  // Debit, prediction, selections, ledger and stats all land together or not at all
+  let placed: {
+    prediction: typeof predictions.$inferSelect;
+    selections: Array<typeof accumulatorSelections.$inferSelect>;
+    newBalance: number;
+  } | null;
+  try {
+    placed = await db.transaction(async (tx) => {
+      // Conditional decrement - fails if a concurrent request already spent the coins
+      const [debited] = await tx
+        .update(users)
+        .set({ coins: sql`${users.coins} - ${stake}`, updatedAt: now })
+        .where(and(eq(users.id, user.id), gte(users.coins, stake)))
+        .returning({ coins: users.coins });
+
+      if (!debited) {
+        return null;
+      }
+
+      // Note: Using sql template to cast enum values for RDS Data API compatibility
+      const [newPrediction] = await tx
+        .insert(predictions)
+        .values({
+          userId: user.id,
+          type: sql`'accumulator'::prediction_type` as unknown as 'accumulator',
+          stake,
+          odds: totalOdds.toFixed(2),
+          totalOdds: totalOdds.toFixed(2),
+          potentialCoins,
+          potentialStars,
+          starsMultiplier: starsMultiplier.multiplier.toFixed(2),
+          idempotencyKey,
+        })
+        .returning();
+
+      const newSelections = await tx
+        .insert(accumulatorSelections)
+        .values(
+          legs.map((leg) => ({
+            predictionId: newPrediction.id,
+            eventId: leg.event.id,
+            marketId: leg.market.id,
+            outcomeId: leg.outcome.id,
+            odds: leg.outcome.odds,
+          }))
+        )
+        .returning();
+
+      await tx.insert(transactions).values({
+        userId: user.id,
+        type: sql`'prediction_stake'::transaction_type` as unknown as 'prediction_stake',
+        currency: sql`'coins'::currency_type` as unknown as 'coins',
+        amount: -stake,
+        balanceAfter: debited.coins,
+        description: `${legs.length}-fold accumulator`,
+        referenceId: newPrediction.id,
+        referenceType: 'prediction',
+      });
+
+      await tx
+        .update(userStats)
+        .set({
+          totalPredictions: sql`${userStats.totalPredictions} + 1`,
+          totalCoinsWagered: sql`${userStats.totalCoinsWagered} + ${stake}`,
+          updatedAt: now,
+        })
+        .where(eq(userStats.userId, user.id));
+
+      await tx
+        .update(events)
+        .set({
+          predictionCount: sql`${events.predictionCount} + 1`,
+          updatedAt: now,
+        })
+        .where(inArray(events.id, eventIds));
+
+      await recordActivity(tx, {
+        userId: user.id,
+        type: 'prediction_placed',
+        title: 'Placed an accumulator',
+        description: `${legs.length}-fold at ${totalOdds.toFixed(2)}`,
+        predictionId: newPrediction.id,
+        metadata: { stake, totalOdds, selections: legs.length },
+      });
+
+      await updateChallengeProgress(tx, newPrediction.id, 'placed');
+
+      return { prediction: newPrediction, selections: newSelections, newBalance: debited.coins };
+    });
+  } catch (error) {
+    // A concurrent request with the same key won the unique index race - return its accumulator
+    const replay = idempotencyKey ? await replayIdempotentRequest(user, idempotencyKey, idempotentRequest) : null;
+    if (replay) return replay;
+    throw error;
+  }
+
+  if (!placed) {
+    return response(400, { error: 'Insufficient coins' });
+  }
+
+  return response(201, {
+    prediction: {
+      id: placed.prediction.id,
+      type: 'accumulator',
+      stake,
+      totalOdds,
+      bonusMultiplier,
+      potentialCoins,
+      potentialStars,
+      starsMultiplier: starsMultiplier.multiplier,
+      starsMultiplierBreakdown: formatStarsMultiplier(starsMultiplier, potentialCoins, stake),
+      status: 'pending',
+      selections: legs.map((leg) => ({
+        id: placed.selections.find((s) => s.outcomeId === leg.outcome.id)?.id,
+        odds: leg.odds,
+        status: 'pending',
+        event: {
+          id: leg.event.id,
+          homeTeamName: leg.event.homeTeamName,
+          awayTeamName: leg.event.awayTeamName,
+          player1Name: leg.event.player1Name,
+          player2Name: leg.event.player2Name,
+          startTime: leg.event.startTime,
+        },
+        market: {
+          id: leg.market.id,
+          type: leg.market.type,
+          name: leg.market.name,
+        },
+        outcome: {
+          id: leg.outcome.id,
+          name: leg.outcome.name,
+          odds: leg.odds,
+        },
+      })),
+      createdAt: placed.prediction.createdAt,
     },
-    newBalance: newCoins,
+    newBalance: placed.newBalance,
   });
 }
 
@@ -303,6 +787,7 @@ async function handleListPredictions(
     totalOdds: parseFloat(p.totalOdds),
     potentialCoins: p.potentialCoins,
     potentialStars: p.potentialStars,
+    starsMultiplier: parseFloat(p.starsMultiplier),
     status: p.status,
     settledCoins: p.settledCoins,
     settledStars: p.settledStars,
@@ -405,6 +890,7 @@ async function handleGetPrediction(predictionId: string, userId: string): Promis
       totalOdds: parseFloat(predictionData.totalOdds),
       potentialCoins: predictionData.potentialCoins,
       potentialStars: predictionData.potentialStars,
+      starsMultiplier: parseFloat(predictionData.starsMultiplier),
       status: predictionData.status,
       settledCoins: predictionData.settledCoins,
       settledStars: predictionData.settledStars,
@@ -441,3 +927,66 @@ async function handleGetPrediction(predictionId: string, userId: string): Promis
     },
   });
 }
+
+interface CashoutBody {
+  quoteId?: string;
+}
+
+const CASHOUT_ERROR_STATUS: Partial<Record<CashoutError, number>> = {
+  not_found: 404,
+  quote_not_found: 404,
+  not_pending: 409,
+  quote_used: 409,
+  quote_expired: 409,
+};
+
+async function handleCashout(
+  event: APIGatewayProxyEventV2,
+  predictionId: string,
+  userId: string
+): Promise<APIGatewayProxyResultV2> {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(predictionId)) {
+    return response(400, { error: 'Invalid prediction ID format' });
+  }
+
+  let body: CashoutBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  const rejected = (error: CashoutError) =>
+    response(CASHOUT_ERROR_STATUS[error] ?? 400, { error: CASHOUT_ERROR_MESSAGES[error], code: error });
+
+  // No quote yet - price one
+  if (body.quoteId === undefined) {
+    const result = await quoteCashout(db, userId, predictionId);
+    if (result.status === 'rejected') return rejected(result.error);
+
+    return response(200, {
+      quoteId: result.quote.id,
+      predictionId,
+      coins: result.quote.coins,
+      currentOdds: parseFloat(result.quote.currentOdds),
+      isLive: result.quote.isLive,
+      expiresAt: result.quote.expiresAt,
+    });
+  }
+
+  if (typeof body.quoteId !== 'string' || !uuidRegex.test(body.quoteId)) {
+    return response(400, { error: 'Invalid quote ID format' });
+  }
+
+  const result = await acceptCashout(db, userId, predictionId, body.quoteId);
+  if (result.status === 'rejected') return rejected(result.error);
+
+  return response(200, {
+    message: `Cashed out for ${result.coins} coins`,
+    predictionId,
+    status: result.prediction.status,
+    settledCoins: result.coins,
+    newBalance: result.coinsBalanceAfter,
+  });
+}
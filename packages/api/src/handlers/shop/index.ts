@@ -1,16 +1,690 @@
-import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import {
+  getDb,
+  users,
+  transactions,
+  cosmetics,
+  userCosmetics,
+  userInventory,
+  gemPacks,
+  calculatePackGems,
+  creditGemPurchase,
+  purchaseStreakShields,
+  isStreakShieldPack,
+  STREAK_SHIELD_PACKS,
+  getActiveSubscriptionTier,
+} from '@sport-sage/database';
+import { eq, and, gte, gt, or, isNull, asc, sql, TransactionRollbackError, type SQL } from 'drizzle-orm';
+import {
+  getReceiptProvider,
+  isStorePlatform,
+  acceptsSandboxPurchases,
+  InvalidReceiptError,
+  type ReceiptRequest,
+  type StorePlatform,
+} from '../../iap';
 
-export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-  const { httpMethod, path } = event;
+const db = getDb();
 
+// CORS headers
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+};
+
+function response(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
   return {
-    statusCode: 200,
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      message: 'ushop handler operational',
-      path,
-      method: httpMethod,
-      timestamp: new Date().toISOString(),
-    }),
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
   };
 }
+
+function getCognitoId(event: APIGatewayProxyEventV2): string | null {
+  // HTTP API v2 format - JWT authorizer puts claims here
+  const jwt = (event.requestContext as any).authorizer?.jwt?.claims;
+  if (jwt?.sub) return jwt.sub as string;
+  return null;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Cosmetic = typeof cosmetics.$inferSelect;
+type CosmeticCategory = Cosmetic['category'];
+
+// Which userInventory column each equippable category goes into (emotes aren't equipped)
+const EQUIP_SLOTS: Partial<Record<CosmeticCategory, keyof typeof userInventory.$inferInsert>> = {
+  avatar_frame: 'equippedAvatarFrameId',
+  background: 'equippedBackgroundId',
+  card_skin: 'equippedCardSkinId',
+  badge: 'equippedBadgeId',
+  victory_animation: 'equippedVictoryAnimationId',
+  username_color: 'equippedUsernameColorId',
+};
+
+const COSMETIC_CATEGORIES: CosmeticCategory[] = [
+  'avatar_frame',
+  'background',
+  'card_skin',
+  'victory_animation',
+  'username_color',
+  'emote',
+  'badge',
+];
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const httpMethod = event.requestContext.http.method;
+  const path = event.rawPath;
+  const queryStringParameters = event.queryStringParameters;
+  const route = path.replace(/^\/api\/shop\/?/, '').replace(/\/$/, '') || '';
+  const segments = route.split('/');
+
+  const cognitoId = getCognitoId(event);
+  if (!cognitoId) {
+    return response(401, { error: 'Unauthorized' });
+  }
+
+  // Get user
+  const userResult = await db.select().from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (userResult.length === 0) {
+    return response(404, { error: 'User not found. Please complete registration.' });
+  }
+  const user = userResult[0];
+
+  try {
+    // GET /api/shop/cosmetics - Catalogue with ownership flags
+    if (httpMethod === 'GET' && route === 'cosmetics') {
+      return handleListCosmetics(user, queryStringParameters || {});
+    }
+
+    // GET /api/shop/inventory - Owned cosmetics and equipped slots
+    if (httpMethod === 'GET' && route === 'inventory') {
+      return handleGetInventory(user.id);
+    }
+
+    // POST /api/shop/cosmetics/:id/purchase|equip|unequip
+    if (httpMethod === 'POST' && segments.length === 3 && segments[0] === 'cosmetics') {
+      const cosmeticId = segments[1];
+      if (!UUID_REGEX.test(cosmeticId)) {
+        return response(400, { error: 'Invalid cosmetic ID format' });
+      }
+
+      switch (segments[2]) {
+        case 'purchase':
+          return handlePurchaseCosmetic(event, user, cosmeticId);
+        case 'equip':
+          return handleEquipCosmetic(user.id, cosmeticId);
+        case 'unequip':
+          return handleUnequipCosmetic(user.id, cosmeticId);
+      }
+    }
+
+    // GET /api/shop/streak-shields - Shield count, auto-use setting and packs
+    if (httpMethod === 'GET' && route === 'streak-shields') {
+      return handleGetStreakShields(user);
+    }
+
+    // PATCH /api/shop/streak-shields - Turn auto-use on or off
+    if (httpMethod === 'PATCH' && route === 'streak-shields') {
+      return handleUpdateStreakShields(event, user.id);
+    }
+
+    // POST /api/shop/streak-shields/purchase - Buy a shield pack with gems
+    if (httpMethod === 'POST' && route === 'streak-shields/purchase') {
+      return handlePurchaseStreakShields(event, user);
+    }
+
+    // GET /api/shop/gem-packs - Gem packs with store product IDs
+    if (httpMethod === 'GET' && route === 'gem-packs') {
+      return handleListGemPacks();
+    }
+
+    // POST /api/shop/gems/purchase - Verify a store receipt and credit gems
+    if (httpMethod === 'POST' && route === 'gems/purchase') {
+      return handlePurchaseGems(event, user);
+    }
+
+    return response(404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Shop handler error:', error);
+    return response(500, { error: 'Internal server error' });
+  }
+}
+
+function hasActiveSubscription(user: typeof users.$inferSelect, now: Date): boolean {
+  return getActiveSubscriptionTier(user, now) !== 'free';
+}
+
+function isOnSale(cosmetic: Cosmetic, now: Date): boolean {
+  return cosmetic.isAvailable && (!cosmetic.availableUntil || new Date(cosmetic.availableUntil) > now);
+}
+
+// Cosmetics are single unlocks unless the item sets its own limit
+function purchaseLimit(cosmetic: Cosmetic): number {
+  return cosmetic.limitPerUser ?? 1;
+}
+
+/**
+ * Owned, unexpired copies of each cosmetic for a user
+ */
+async function getOwnedCounts(userId: string, now: Date): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      cosmeticId: userCosmetics.cosmeticId,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(userCosmetics)
+    .where(and(
+      eq(userCosmetics.userId, userId),
+      eq(userCosmetics.isActive, true),
+      or(isNull(userCosmetics.expiresAt), gt(userCosmetics.expiresAt, now))
+    ))
+    .groupBy(userCosmetics.cosmeticId);
+
+  return new Map(rows.map((row) => [row.cosmeticId, row.count]));
+}
+
+async function getEquippedIds(userId: string): Promise<Set<string>> {
+  const [inventory] = await db.select().from(userInventory).where(eq(userInventory.userId, userId)).limit(1);
+  if (!inventory) return new Set();
+
+  return new Set(
+    Object.values(EQUIP_SLOTS)
+      .map((slot) => inventory[slot as keyof typeof inventory])
+      .filter((id): id is string => typeof id === 'string')
+  );
+}
+
+function formatCosmetic(cosmetic: Cosmetic) {
+  return {
+    id: cosmetic.id,
+    name: cosmetic.name,
+    description: cosmetic.description,
+    category: cosmetic.category,
+    rarity: cosmetic.rarity,
+    priceStars: cosmetic.priceStars,
+    priceGems: cosmetic.priceGems,
+    imageUrl: cosmetic.imageUrl,
+    animationUrl: cosmetic.animationUrl,
+    iconName: cosmetic.iconName,
+    colorValue: cosmetic.colorValue,
+    isPremiumOnly: cosmetic.isPremiumOnly,
+    isLimitedTime: cosmetic.isLimitedTime,
+    isExclusive: cosmetic.isExclusive,
+    limitPerUser: cosmetic.limitPerUser,
+    availableUntil: cosmetic.availableUntil,
+  };
+}
+
+interface ListCosmeticsParams {
+  category?: string;
+}
+
+async function handleListCosmetics(
+  user: typeof users.$inferSelect,
+  params: ListCosmeticsParams
+): Promise<APIGatewayProxyResultV2> {
+  const now = new Date();
+
+  const conditions: SQL[] = [
+    eq(cosmetics.isAvailable, true),
+    or(isNull(cosmetics.availableUntil), gt(cosmetics.availableUntil, now))!,
+  ];
+
+  if (params.category) {
+    if (!COSMETIC_CATEGORIES.includes(params.category as CosmeticCategory)) {
+      return response(400, { error: `Invalid category. Must be one of: ${COSMETIC_CATEGORIES.join(', ')}` });
+    }
+    conditions.push(sql`${cosmetics.category}::text = ${params.category}`);
+  }
+
+  const [catalogue, ownedCounts, equippedIds] = await Promise.all([
+    db
+      .select()
+      .from(cosmetics)
+      .where(and(...conditions))
+      .orderBy(asc(cosmetics.sortOrder), asc(cosmetics.name)),
+    getOwnedCounts(user.id, now),
+    getEquippedIds(user.id),
+  ]);
+
+  const premium = hasActiveSubscription(user, now);
+
+  const data = catalogue.map((cosmetic) => {
+    const ownedCount = ownedCounts.get(cosmetic.id) || 0;
+    const locked = cosmetic.isPremiumOnly && !premium;
+    const limitReached = ownedCount >= purchaseLimit(cosmetic);
+
+    return {
+      ...formatCosmetic(cosmetic),
+      isOwned: ownedCount > 0,
+      ownedCount,
+      isEquipped: equippedIds.has(cosmetic.id),
+      isLocked: locked,
+      canPurchase: !locked && !limitReached,
+      canAffordWithStars: cosmetic.priceStars !== null && user.stars >= cosmetic.priceStars,
+      canAffordWithGems: cosmetic.priceGems !== null && user.gems >= cosmetic.priceGems,
+    };
+  });
+
+  return response(200, {
+    data,
+    balances: { stars: user.stars, gems: user.gems },
+  });
+}
+
+async function handleGetInventory(userId: string): Promise<APIGatewayProxyResultV2> {
+  const now = new Date();
+
+  const owned = await db
+    .select({ ownership: userCosmetics, cosmetic: cosmetics })
+    .from(userCosmetics)
+    .innerJoin(cosmetics, eq(userCosmetics.cosmeticId, cosmetics.id))
+    .where(and(
+      eq(userCosmetics.userId, userId),
+      eq(userCosmetics.isActive, true),
+      or(isNull(userCosmetics.expiresAt), gt(userCosmetics.expiresAt, now))
+    ))
+    .orderBy(asc(userCosmetics.purchasedAt));
+
+  const [inventory] = await db.select().from(userInventory).where(eq(userInventory.userId, userId)).limit(1);
+
+  const equipped = Object.fromEntries(
+    Object.entries(EQUIP_SLOTS).map(([category, slot]) => [
+      category,
+      inventory ? (inventory[slot as keyof typeof inventory] as string | null) : null,
+    ])
+  );
+
+  return response(200, {
+    items: owned.map(({ ownership, cosmetic }) => ({
+      itemId: cosmetic.id,
+      item: formatCosmetic(cosmetic),
+      purchasedAt: ownership.purchasedAt,
+      expiresAt: ownership.expiresAt || undefined,
+      isActive: ownership.isActive,
+    })),
+    equipped,
+    streakShields: inventory?.streakShields || 0,
+    autoUseStreakShields: inventory?.autoUseStreakShields ?? false,
+  });
+}
+
+interface PurchaseCosmeticBody {
+  currency: 'stars' | 'gems';
+}
+
+async function handlePurchaseCosmetic(
+  event: APIGatewayProxyEventV2,
+  user: typeof users.$inferSelect,
+  cosmeticId: string
+): Promise<APIGatewayProxyResultV2> {
+  let body: PurchaseCosmeticBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  const { currency } = body;
+  if (currency !== 'stars' && currency !== 'gems') {
+    return response(400, { error: 'currency must be "stars" or "gems"' });
+  }
+
+  const [cosmetic] = await db.select().from(cosmetics).where(eq(cosmetics.id, cosmeticId)).limit(1);
+  if (!cosmetic) {
+    return response(404, { error: 'Cosmetic not found' });
+  }
+
+  const now = new Date();
+
+  if (!isOnSale(cosmetic, now)) {
+    return response(400, { error: 'This item is no longer available' });
+  }
+
+  if (cosmetic.isPremiumOnly && !hasActiveSubscription(user, now)) {
+    return response(403, { error: 'This item is only available to Pro and Elite subscribers' });
+  }
+
+  const price = currency === 'stars' ? cosmetic.priceStars : cosmetic.priceGems;
+  if (price === null) {
+    return response(400, { error: `This item cannot be bought with ${currency}` });
+  }
+
+  const balanceColumn = currency === 'stars' ? users.stars : users.gems;
+  const limit = purchaseLimit(cosmetic);
+
+  // Debit, ownership and ledger land together or not at all
+  let result:
+    | { error: string }
+    | { balances: { stars: number; gems: number }; transactionId: string };
+  try {
+    result = await db.transaction(async (tx) => {
+      // Conditional decrement - also serialises concurrent purchases by the same user
+      const [debited] = await tx
+        .update(users)
+        .set({ [currency]: sql`${balanceColumn} - ${price}`, updatedAt: now })
+        .where(and(eq(users.id, user.id), gte(balanceColumn, price)))
+        .returning();
+
+      if (!debited) {
+        return { error: `Insufficient ${currency}` };
+      }
+
+      // Counted after the debit so a concurrent purchase can't slip past the limit
+      const [owned] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(userCosmetics)
+        .where(and(
+          eq(userCosmetics.userId, user.id),
+          eq(userCosmetics.cosmeticId, cosmetic.id),
+          eq(userCosmetics.isActive, true),
+          or(isNull(userCosmetics.expiresAt), gt(userCosmetics.expiresAt, now))
+        ));
+
+      if ((owned?.count || 0) >= limit) {
+        tx.rollback();
+      }
+
+      await tx.insert(userCosmetics).values({
+        userId: user.id,
+        cosmeticId: cosmetic.id,
+        currencyUsed: currency,
+        pricePaid: price,
+      });
+
+      // Note: Using sql template to cast enum values for RDS Data API compatibility
+      const [ledgerEntry] = await tx
+        .insert(transactions)
+        .values({
+          userId: user.id,
+          type: sql`'shop_purchase'::transaction_type` as unknown as 'shop_purchase',
+          currency: sql`${currency}::currency_type` as unknown as 'stars' | 'gems',
+          amount: -price,
+          balanceAfter: debited[currency],
+          description: `Purchased ${cosmetic.name}`,
+          referenceId: cosmetic.id,
+          referenceType: 'cosmetic',
+        })
+        .returning({ id: transactions.id });
+
+      return { balances: { stars: debited.stars, gems: debited.gems }, transactionId: ledgerEntry.id };
+    });
+  } catch (error) {
+    // Raised by tx.rollback() when the purchase limit is already reached
+    if (error instanceof TransactionRollbackError) {
+      return response(400, { error: limit === 1 ? 'You already own this item' : `You can only own ${limit} of this item` });
+    }
+    throw error;
+  }
+
+  if ('error' in result) {
+    return response(400, { error: result.error });
+  }
+
+  return response(200, {
+    success: true,
+    transactionId: result.transactionId,
+    newStarsBalance: result.balances.stars,
+    newGemsBalance: result.balances.gems,
+    unlockedItemId: cosmetic.id,
+  });
+}
+
+async function handleEquipCosmetic(userId: string, cosmeticId: string): Promise<APIGatewayProxyResultV2> {
+  const [cosmetic] = await db.select().from(cosmetics).where(eq(cosmetics.id, cosmeticId)).limit(1);
+  if (!cosmetic) {
+    return response(404, { error: 'Cosmetic not found' });
+  }
+
+  const slot = EQUIP_SLOTS[cosmetic.category];
+  if (!slot) {
+    return response(400, { error: 'This item cannot be equipped' });
+  }
+
+  const ownedCounts = await getOwnedCounts(userId, new Date());
+  if (!ownedCounts.has(cosmeticId)) {
+    return response(403, { error: 'You do not own this item' });
+  }
+
+  const now = new Date();
+  await db
+    .insert(userInventory)
+    .values({ userId, [slot]: cosmeticId, updatedAt: now })
+    .onConflictDoUpdate({
+      target: userInventory.userId,
+      set: { [slot]: cosmeticId, updatedAt: now },
+    });
+
+  return response(200, { message: `${cosmetic.name} equipped`, slot: cosmetic.category, cosmeticId });
+}
+
+async function handleUnequipCosmetic(userId: string, cosmeticId: string): Promise<APIGatewayProxyResultV2> {
+  const [cosmetic] = await db.select().from(cosmetics).where(eq(cosmetics.id, cosmeticId)).limit(1);
+  if (!cosmetic) {
+    return response(404, { error: 'Cosmetic not found' });
+  }
+
+  const slot = EQUIP_SLOTS[cosmetic.category];
+  if (!slot) {
+    return response(400, { error: 'This item cannot be equipped' });
+  }
+
+  const slotColumn = userInventory[slot as keyof typeof userInventory.$inferSelect];
+
+  // Only clear the slot if this item is the one in it
+  const cleared = await db
+    .update(userInventory)
+    .set({ [slot]: null, updatedAt: new Date() })
+    .where(and(eq(userInventory.userId, userId), eq(slotColumn, cosmeticId)))
+    .returning();
+
+  if (cleared.length === 0) {
+    return response(400, { error: 'This item is not equipped' });
+  }
+
+  return response(200, { message: `${cosmetic.name} unequipped`, slot: cosmetic.category });
+}
+
+async function handleGetStreakShields(user: typeof users.$inferSelect): Promise<APIGatewayProxyResultV2> {
+  const [inventory] = await db.select().from(userInventory).where(eq(userInventory.userId, user.id)).limit(1);
+
+  return response(200, {
+    shields: inventory?.streakShields || 0,
+    autoUse: inventory?.autoUseStreakShields ?? false,
+    packs: Object.entries(STREAK_SHIELD_PACKS).map(([id, pack]) => ({
+      id,
+      shields: pack.shields,
+      priceGems: pack.price,
+      canAfford: user.gems >= pack.price,
+    })),
+  });
+}
+
+interface UpdateStreakShieldsBody {
+  autoUse: boolean;
+}
+
+async function handleUpdateStreakShields(
+  event: APIGatewayProxyEventV2,
+  userId: string
+): Promise<APIGatewayProxyResultV2> {
+  let body: UpdateStreakShieldsBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  if (typeof body.autoUse !== 'boolean') {
+    return response(400, { error: 'autoUse must be a boolean' });
+  }
+
+  const now = new Date();
+  const [inventory] = await db
+    .insert(userInventory)
+    .values({ userId, autoUseStreakShields: body.autoUse, updatedAt: now })
+    .onConflictDoUpdate({
+      target: userInventory.userId,
+      set: { autoUseStreakShields: body.autoUse, updatedAt: now },
+    })
+    .returning();
+
+  return response(200, {
+    shields: inventory.streakShields,
+    autoUse: inventory.autoUseStreakShields,
+  });
+}
+
+interface PurchaseStreakShieldsBody {
+  pack: string;
+}
+
+async function handlePurchaseStreakShields(
+  event: APIGatewayProxyEventV2,
+  user: typeof users.$inferSelect
+): Promise<APIGatewayProxyResultV2> {
+  let body: PurchaseStreakShieldsBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  if (!isStreakShieldPack(body.pack)) {
+    return response(400, { error: `pack must be one of: ${Object.keys(STREAK_SHIELD_PACKS).join(', ')}` });
+  }
+
+  const result = await purchaseStreakShields(db, user.id, body.pack);
+  if (result.status === 'rejected') {
+    return response(400, { error: 'Insufficient gems' });
+  }
+
+  return response(200, {
+    success: true,
+    pack: result.pack,
+    shields: result.shields,
+    newGemsBalance: result.gemsBalanceAfter,
+  });
+}
+
+async function handleListGemPacks(): Promise<APIGatewayProxyResultV2> {
+  const packs = await db
+    .select()
+    .from(gemPacks)
+    .where(eq(gemPacks.isActive, true))
+    .orderBy(asc(gemPacks.sortOrder));
+
+  return response(200, {
+    data: packs.map((pack) => ({
+      id: pack.id,
+      name: pack.name,
+      gems: pack.gems,
+      bonusPercent: pack.bonusPercent,
+      totalGems: calculatePackGems(pack),
+      priceGbp: parseFloat(pack.priceGbp),
+      priceUsd: parseFloat(pack.priceUsd),
+      appleProductId: pack.appleProductId,
+      googleProductId: pack.googleProductId,
+      isPopular: pack.isPopular,
+      isBestValue: pack.isBestValue,
+    })),
+  });
+}
+
+interface PurchaseGemsBody {
+  platform: StorePlatform;
+  productId: string;
+  receipt: string;
+  transactionId?: string;
+}
+
+async function handlePurchaseGems(
+  event: APIGatewayProxyEventV2,
+  user: typeof users.$inferSelect
+): Promise<APIGatewayProxyResultV2> {
+  let body: PurchaseGemsBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  const { platform, productId, receipt, transactionId } = body;
+  if (!isStorePlatform(platform)) {
+    return response(400, { error: 'platform must be "apple" or "google"' });
+  }
+  if (typeof productId !== 'string' || !productId || typeof receipt !== 'string' || !receipt) {
+    return response(400, { error: 'productId and receipt are required' });
+  }
+
+  const productColumn = platform === 'apple' ? gemPacks.appleProductId : gemPacks.googleProductId;
+  const [pack] = await db
+    .select()
+    .from(gemPacks)
+    .where(and(eq(productColumn, productId), eq(gemPacks.isActive, true)))
+    .limit(1);
+
+  if (!pack) {
+    return response(404, { error: 'Gem pack not found' });
+  }
+
+  const provider = getReceiptProvider(platform);
+  const request: ReceiptRequest = { productId, receipt, transactionId };
+
+  let verified;
+  try {
+    verified = await provider.verify(request);
+  } catch (error) {
+    if (error instanceof InvalidReceiptError) {
+      return response(400, { error: error.message });
+    }
+    console.error('Receipt verification failed:', error);
+    return response(502, { error: 'Could not verify purchase with the store. Please try again.' });
+  }
+
+  if (verified.isSandbox && !acceptsSandboxPurchases()) {
+    return response(400, { error: 'Test purchases cannot be redeemed', code: 'sandbox_purchase' });
+  }
+
+  const result = await creditGemPurchase(db, {
+    userId: user.id,
+    platform,
+    storeTransactionId: verified.transactionId,
+    productId: verified.productId,
+    purchasedAt: verified.purchasedAt,
+    isSandbox: verified.isSandbox,
+  }, pack);
+
+  if (result.status === 'duplicate' && result.userId !== user.id) {
+    return response(409, { error: 'This purchase has already been redeemed' });
+  }
+
+  // Acknowledge on retries too, in case the first attempt failed after crediting
+  if (provider.acknowledge) {
+    try {
+      await provider.acknowledge(request, verified);
+    } catch (error) {
+      console.error('Failed to acknowledge purchase:', error);
+    }
+  }
+
+  if (result.status === 'duplicate') {
+    // The client is retrying a purchase we already credited
+    const [current] = await db.select({ gems: users.gems }).from(users).where(eq(users.id, user.id)).limit(1);
+    return response(200, {
+      success: true,
+      alreadyCredited: true,
+      gemsCredited: result.gemsCredited,
+      newGemsBalance: current?.gems ?? user.gems,
+    });
+  }
+
+  return response(200, {
+    success: true,
+    alreadyCredited: false,
+    gemsCredited: result.gemsCredited,
+    newGemsBalance: result.gemsBalanceAfter,
+  });
+}
@@ -1,16 +1,575 @@
-import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import {
+  getDb,
+  users,
+  userStats,
+  userSettings,
+  friendships,
+  activityFeed,
+  findFriendship,
+  getFriendIds,
+  acceptFriendship,
+  blockUser,
+} from '@sport-sage/database';
+import { eq, and, or, ilike, inArray, ne, lt, desc, sql, type SQL } from 'drizzle-orm';
 
-export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-  const { httpMethod, path } = event;
+const db = getDb();
 
+// CORS headers
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+};
+
+function response(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
+  };
+}
+
+function getCognitoId(event: APIGatewayProxyEventV2): string | null {
+  // HTTP API v2 format - JWT authorizer puts claims here
+  const jwt = (event.requestContext as any).authorizer?.jwt?.claims;
+  if (jwt?.sub) return jwt.sub as string;
+  return null;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const httpMethod = event.requestContext.http.method;
+  const path = event.rawPath;
+  const queryStringParameters = event.queryStringParameters;
+  const route = path.replace(/^\/api\/social\/?/, '').replace(/\/$/, '') || '';
+  const segments = route.split('/');
+
+  const cognitoId = getCognitoId(event);
+  if (!cognitoId) {
+    return response(401, { error: 'Unauthorized' });
+  }
+
+  // Get user
+  const userResult = await db.select().from(users).where(eq(users.cognitoId, cognitoId)).limit(1);
+  if (userResult.length === 0) {
+    return response(404, { error: 'User not found. Please complete registration.' });
+  }
+  const user = userResult[0];
+
+  try {
+    // GET /api/social/friends - Friends, incoming and sent requests
+    if (httpMethod === 'GET' && route === 'friends') {
+      return handleGetFriends(user.id);
+    }
+
+    // GET /api/social/feed - Friends' activity, newest first
+    if (httpMethod === 'GET' && route === 'feed') {
+      return handleGetFeed(user.id, queryStringParameters || {});
+    }
+
+    // GET /api/social/search?q= - Search users by username
+    if (httpMethod === 'GET' && route === 'search') {
+      return handleSearchUsers(user.id, queryStringParameters || {});
+    }
+
+    // POST /api/social/friends/requests - Send a friend request
+    if (httpMethod === 'POST' && route === 'friends/requests') {
+      return handleSendRequest(event, user);
+    }
+
+    // POST /api/social/friends/requests/:id/accept|decline - Respond to a request
+    if (
+      httpMethod === 'POST' &&
+      segments.length === 4 &&
+      segments[0] === 'friends' &&
+      segments[1] === 'requests' &&
+      (segments[3] === 'accept' || segments[3] === 'decline')
+    ) {
+      return handleRespondToRequest(user.id, segments[2], segments[3]);
+    }
+
+    // DELETE /api/social/friends/:userId - Remove a friend or cancel a sent request
+    if (httpMethod === 'DELETE' && segments.length === 2 && segments[0] === 'friends') {
+      return handleRemoveFriend(user.id, segments[1]);
+    }
+
+    // POST /api/social/blocks/:userId - Block a user
+    if (httpMethod === 'POST' && segments.length === 2 && segments[0] === 'blocks') {
+      return handleBlockUser(user.id, segments[1]);
+    }
+
+    // DELETE /api/social/blocks/:userId - Unblock a user
+    if (httpMethod === 'DELETE' && segments.length === 2 && segments[0] === 'blocks') {
+      return handleUnblockUser(user.id, segments[1]);
+    }
+
+    return response(404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Social handler error:', error);
+    return response(500, { error: 'Internal server error' });
+  }
+}
+
+/**
+ * Load FriendProfile-shaped records for a set of users
+ */
+async function getFriendProfiles(userIds: string[]) {
+  if (userIds.length === 0) {
+    return new Map<string, ReturnType<typeof toFriendProfile>>();
+  }
+
+  const rows = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      avatarUrl: users.avatarUrl,
+      subscriptionTier: users.subscriptionTier,
+      totalPredictions: userStats.totalPredictions,
+      totalWins: userStats.totalWins,
+      totalLosses: userStats.totalLosses,
+      currentStreak: userStats.currentStreak,
+      bestStreak: userStats.bestStreak,
+      lastActiveAt: userStats.updatedAt,
+    })
+    .from(users)
+    .leftJoin(userStats, eq(users.id, userStats.userId))
+    .where(inArray(users.id, userIds));
+
+  return new Map(rows.map((row) => [row.id, toFriendProfile(row)]));
+}
+
+function toFriendProfile(row: {
+  id: string;
+  username: string;
+  avatarUrl: string | null;
+  subscriptionTier: string;
+  totalPredictions: number | null;
+  totalWins: number | null;
+  totalLosses: number | null;
+  currentStreak: number | null;
+  bestStreak: number | null;
+  lastActiveAt: Date | null;
+}) {
+  const wins = row.totalWins || 0;
+  const losses = row.totalLosses || 0;
+
+  return {
+    userId: row.id,
+    username: row.username,
+    avatarUrl: row.avatarUrl || undefined,
+    subscriptionTier: row.subscriptionTier,
+    stats: {
+      totalPredictions: row.totalPredictions || 0,
+      winRate: wins + losses > 0 ? Math.round((wins / (wins + losses)) * 100) : 0,
+      currentStreak: row.currentStreak || 0,
+      bestStreak: row.bestStreak || 0,
+    },
+    isOnline: false,
+    lastActiveAt: row.lastActiveAt || undefined,
+  };
+}
+
+function toFriendship(row: typeof friendships.$inferSelect) {
   return {
-    statusCode: 200,
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      message: 'usocial handler operational',
-      path,
-      method: httpMethod,
-      timestamp: new Date().toISOString(),
-    }),
+    id: row.id,
+    requesterId: row.requesterId,
+    addresseeId: row.addresseeId,
+    status: row.status,
+    createdAt: row.createdAt,
+    acceptedAt: row.acceptedAt || undefined,
   };
 }
+
+async function allowsFriendRequests(userId: string): Promise<boolean> {
+  const [settings] = await db
+    .select({ allowFriendRequests: userSettings.allowFriendRequests })
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+
+  // No settings row = defaults, which allow requests
+  return settings?.allowFriendRequests ?? true;
+}
+
+async function handleGetFriends(userId: string): Promise<APIGatewayProxyResultV2> {
+  const rows = await db
+    .select()
+    .from(friendships)
+    .where(and(
+      or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId)),
+      sql`${friendships.status}::text <> 'blocked'`
+    ));
+
+  // Incoming requests are hidden while the user isn't accepting them
+  const acceptingRequests = await allowsFriendRequests(userId);
+
+  const accepted = rows.filter((f) => f.status === 'accepted');
+  const incoming = acceptingRequests
+    ? rows.filter((f) => f.status === 'pending' && f.addresseeId === userId)
+    : [];
+  const sent = rows.filter((f) => f.status === 'pending' && f.requesterId === userId);
+
+  const otherId = (f: typeof friendships.$inferSelect) => (f.requesterId === userId ? f.addresseeId : f.requesterId);
+  const profiles = await getFriendProfiles([...accepted, ...incoming, ...sent].map(otherId));
+
+  const withUser = (list: Array<typeof friendships.$inferSelect>) =>
+    list
+      .filter((f) => profiles.has(otherId(f)))
+      .map((f) => ({ friendship: toFriendship(f), user: profiles.get(otherId(f))! }));
+
+  return response(200, {
+    friends: accepted
+      .map((f) => profiles.get(otherId(f)))
+      .filter((p): p is NonNullable<typeof p> => !!p)
+      .sort((a, b) => a.username.localeCompare(b.username)),
+    pendingRequests: withUser(incoming),
+    sentRequests: withUser(sent),
+  });
+}
+
+interface GetFeedParams {
+  cursor?: string;
+  limit?: string;
+}
+
+// Cursor = base64url("<createdAt ISO>|<id>") of the last item returned
+function encodeFeedCursor(item: { createdAt: Date; id: string }): string {
+  return Buffer.from(`${new Date(item.createdAt).toISOString()}|${item.id}`).toString('base64url');
+}
+
+function decodeFeedCursor(cursor: string): { createdAt: Date; id: string } | null {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  if (!createdAt || !id || !UUID_REGEX.test(id) || isNaN(Date.parse(createdAt))) {
+    return null;
+  }
+  return { createdAt: new Date(createdAt), id };
+}
+
+async function handleGetFeed(userId: string, params: GetFeedParams): Promise<APIGatewayProxyResultV2> {
+  const limit = Math.min(50, Math.max(1, parseInt(params.limit || '20', 10)));
+
+  const cursor = params.cursor ? decodeFeedCursor(params.cursor) : null;
+  if (params.cursor && !cursor) {
+    return response(400, { error: 'Invalid cursor' });
+  }
+
+  const friendIds = await getFriendIds(db, userId);
+  if (friendIds.length === 0) {
+    return response(200, { items: [], hasMore: false });
+  }
+
+  const conditions: SQL[] = [
+    inArray(activityFeed.userId, friendIds),
+    // Authors who hide their activity are left out (no settings row = default, visible)
+    sql`COALESCE(${userSettings.showActivityToFriends}, true)`,
+  ];
+
+  if (cursor) {
+    conditions.push(or(
+      lt(activityFeed.createdAt, cursor.createdAt),
+      and(eq(activityFeed.createdAt, cursor.createdAt), lt(activityFeed.id, cursor.id))
+    )!);
+  }
+
+  // Fetch one extra row to know whether there's another page
+  const rows = await db
+    .select({
+      id: activityFeed.id,
+      userId: activityFeed.userId,
+      username: users.username,
+      avatarUrl: users.avatarUrl,
+      type: activityFeed.type,
+      title: activityFeed.title,
+      description: activityFeed.description,
+      predictionId: activityFeed.predictionId,
+      achievementId: activityFeed.achievementId,
+      metadata: activityFeed.metadata,
+      createdAt: activityFeed.createdAt,
+    })
+    .from(activityFeed)
+    .innerJoin(users, eq(activityFeed.userId, users.id))
+    .leftJoin(userSettings, eq(activityFeed.userId, userSettings.userId))
+    .where(and(...conditions))
+    .orderBy(desc(activityFeed.createdAt), desc(activityFeed.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  const items = page.map((row) => ({
+    id: row.id,
+    userId: row.userId,
+    username: row.username,
+    avatarUrl: row.avatarUrl || undefined,
+    type: row.type,
+    title: row.title,
+    description: row.description || undefined,
+    predictionId: row.predictionId || undefined,
+    achievementId: row.achievementId || undefined,
+    metadata: (row.metadata as Record<string, unknown>) || undefined,
+    createdAt: row.createdAt,
+  }));
+
+  return response(200, {
+    items,
+    nextCursor: hasMore ? encodeFeedCursor(page[page.length - 1]) : undefined,
+    hasMore,
+  });
+}
+
+interface SearchUsersParams {
+  q?: string;
+  limit?: string;
+}
+
+async function handleSearchUsers(userId: string, params: SearchUsersParams): Promise<APIGatewayProxyResultV2> {
+  const query = (params.q || '').trim();
+  if (query.length < 2) {
+    return response(400, { error: 'Search query must be at least 2 characters' });
+  }
+
+  const limit = Math.min(50, Math.max(1, parseInt(params.limit || '20', 10)));
+
+  // Escape LIKE wildcards so they match literally
+  const pattern = `${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+  const matches = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      avatarUrl: users.avatarUrl,
+      subscriptionTier: users.subscriptionTier,
+      allowFriendRequests: userSettings.allowFriendRequests,
+    })
+    .from(users)
+    .leftJoin(userSettings, eq(users.id, userSettings.userId))
+    .where(and(ilike(users.username, pattern), ne(users.id, userId)))
+    .orderBy(users.username)
+    .limit(limit + 1);
+
+  const matchIds = matches.map((m) => m.id);
+  const relationships = matchIds.length > 0
+    ? await db
+        .select()
+        .from(friendships)
+        .where(or(
+          and(eq(friendships.requesterId, userId), inArray(friendships.addresseeId, matchIds)),
+          and(eq(friendships.addresseeId, userId), inArray(friendships.requesterId, matchIds))
+        ))
+    : [];
+
+  const relationshipByUser = new Map(
+    relationships.map((f) => [f.requesterId === userId ? f.addresseeId : f.requesterId, f])
+  );
+
+  const results = matches
+    .filter((m) => {
+      const relationship = relationshipByUser.get(m.id);
+      // Blocked users never appear, in either direction
+      if (relationship?.status === 'blocked') return false;
+      // Users who don't accept requests only show up if there's already a relationship
+      return relationship !== undefined || (m.allowFriendRequests ?? true);
+    })
+    .slice(0, limit)
+    .map((m) => {
+      const relationship = relationshipByUser.get(m.id);
+      return {
+        userId: m.id,
+        username: m.username,
+        avatarUrl: m.avatarUrl || undefined,
+        subscriptionTier: m.subscriptionTier,
+        isFriend: relationship?.status === 'accepted',
+        hasPendingRequest: relationship?.status === 'pending',
+      };
+    });
+
+  return response(200, {
+    results,
+    total: results.length,
+  });
+}
+
+interface SendRequestBody {
+  userId?: string;
+  username?: string;
+}
+
+async function handleSendRequest(
+  event: APIGatewayProxyEventV2,
+  user: typeof users.$inferSelect
+): Promise<APIGatewayProxyResultV2> {
+  let body: SendRequestBody;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return response(400, { error: 'Invalid JSON body' });
+  }
+
+  if (!body.userId && !body.username) {
+    return response(400, { error: 'userId or username is required' });
+  }
+
+  if (body.userId && !UUID_REGEX.test(body.userId)) {
+    return response(400, { error: 'Invalid user ID format' });
+  }
+
+  const [target] = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    // Exact, case-insensitive username match - not ilike, where % and _ are wildcards
+    .where(body.userId ? eq(users.id, body.userId) : eq(sql`lower(${users.username})`, body.username!.toLowerCase()))
+    .limit(1);
+
+  if (!target) {
+    return response(404, { error: 'User not found' });
+  }
+
+  if (target.id === user.id) {
+    return response(400, { error: 'You cannot send a friend request to yourself' });
+  }
+
+  const existing = await findFriendship(db, user.id, target.id);
+
+  if (existing?.status === 'blocked') {
+    // Don't reveal which side blocked
+    return response(403, { error: 'Unable to send a friend request to this user' });
+  }
+
+  if (existing?.status === 'accepted') {
+    return response(409, { error: 'You are already friends' });
+  }
+
+  if (existing?.status === 'pending') {
+    if (existing.requesterId === user.id) {
+      return response(409, { error: 'Friend request already sent' });
+    }
+
+    // They already asked us - sending one back accepts it
+    const accepted = await acceptFriendship(db, existing.id);
+    if (!accepted) {
+      return response(409, { error: 'Friend request is no longer pending' });
+    }
+
+    return response(200, { friendship: toFriendship(accepted) });
+  }
+
+  if (!(await allowsFriendRequests(target.id))) {
+    return response(403, { error: `${target.username} is not accepting friend requests` });
+  }
+
+  // Status defaults to pending
+  const [friendship] = await db
+    .insert(friendships)
+    .values({
+      requesterId: user.id,
+      addresseeId: target.id,
+    })
+    .returning();
+
+  return response(201, { friendship: toFriendship(friendship) });
+}
+
+async function handleRespondToRequest(
+  userId: string,
+  friendshipId: string,
+  action: 'accept' | 'decline'
+): Promise<APIGatewayProxyResultV2> {
+  if (!UUID_REGEX.test(friendshipId)) {
+    return response(400, { error: 'Invalid friend request ID format' });
+  }
+
+  const [request] = await db
+    .select()
+    .from(friendships)
+    .where(and(
+      eq(friendships.id, friendshipId),
+      eq(friendships.addresseeId, userId),
+      sql`${friendships.status}::text = 'pending'`
+    ))
+    .limit(1);
+
+  if (!request) {
+    return response(404, { error: 'Friend request not found' });
+  }
+
+  if (action === 'decline') {
+    await db.delete(friendships).where(eq(friendships.id, request.id));
+    return response(200, { message: 'Friend request declined' });
+  }
+
+  const accepted = await acceptFriendship(db, request.id);
+  if (!accepted) {
+    return response(404, { error: 'Friend request not found' });
+  }
+
+  return response(200, { friendship: toFriendship(accepted) });
+}
+
+async function handleRemoveFriend(userId: string, otherUserId: string): Promise<APIGatewayProxyResultV2> {
+  if (!UUID_REGEX.test(otherUserId)) {
+    return response(400, { error: 'Invalid user ID format' });
+  }
+
+  const existing = await findFriendship(db, userId, otherUserId);
+
+  // A block can only be lifted by unblocking
+  if (!existing || existing.status === 'blocked') {
+    return response(404, { error: 'Friendship not found' });
+  }
+
+  await db.delete(friendships).where(eq(friendships.id, existing.id));
+
+  return response(200, {
+    message: existing.status === 'accepted' ? 'Friend removed' : 'Friend request cancelled',
+  });
+}
+
+async function handleBlockUser(userId: string, otherUserId: string): Promise<APIGatewayProxyResultV2> {
+  if (!UUID_REGEX.test(otherUserId)) {
+    return response(400, { error: 'Invalid user ID format' });
+  }
+
+  if (otherUserId === userId) {
+    return response(400, { error: 'You cannot block yourself' });
+  }
+
+  const [target] = await db.select({ id: users.id }).from(users).where(eq(users.id, otherUserId)).limit(1);
+  if (!target) {
+    return response(404, { error: 'User not found' });
+  }
+
+  const existing = await findFriendship(db, userId, otherUserId);
+
+  // Already blocked by either side - keep the existing block in place
+  if (existing?.status === 'blocked') {
+    return response(200, { message: 'User blocked' });
+  }
+
+  // Replaces any friendship or pending request between the pair
+  await blockUser(db, userId, otherUserId);
+
+  return response(200, { message: 'User blocked' });
+}
+
+async function handleUnblockUser(userId: string, otherUserId: string): Promise<APIGatewayProxyResultV2> {
+  if (!UUID_REGEX.test(otherUserId)) {
+    return response(400, { error: 'Invalid user ID format' });
+  }
+
+  const deleted = await db
+    .delete(friendships)
+    .where(and(
+      eq(friendships.requesterId, userId),
+      eq(friendships.addresseeId, otherUserId),
+      sql`${friendships.status}::text = 'blocked'`
+    ))
+    .returning();
+
+  if (deleted.length === 0) {
+    return response(404, { error: 'User is not blocked' });
+  }
+
+  return response(200, { message: 'User unblocked' });
+}
@@ -1,6 +1,24 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import { getDb, users, userStats, transactions, DAILY_TOPUP_AMOUNT } from '@sport-sage/database';
+import {
+  getDb,
+  users,
+  userStats,
+  transactions,
+  getEntitlements,
+  creditAdReward,
+  getAdRewardStatus,
+  AD_REWARD_ERROR_MESSAGES,
+  parseLedgerFilters,
+  getLedgerCondition,
+  getWeeklyNetCoins,
+  getStakesBySport,
+  iterateLedger,
+  formatLedgerCsv,
+  LEDGER_CSV_HEADER,
+  LEDGER_FILTER_ERROR_MESSAGES,
+} from '@sport-sage/database';
 import { eq, desc, sql } from 'drizzle-orm';
+import { getAdRewardVerifier, InvalidAdRewardError, type VerifiedAdReward } from '../../ads';
 
 const db = getDb();
 
@@ -26,12 +44,30 @@ function getCognitoId(event: APIGatewayProxyEventV2): string | null {
   return null;
 }
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Lambda responses are capped at 6 MB; leave room for the headers
+const EXPORT_MAX_BYTES = 5 * 1024 * 1024;
+
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const httpMethod = event.requestContext.http.method;
   const path = event.rawPath;
   const queryStringParameters = event.queryStringParameters;
   const route = path.replace(/^\/api\/wallet\/?/, '').replace(/\/$/, '') || '';
 
+  // GET /api/wallet/ad-reward - Server-to-server callback from the ad network.
+  // AdMob sends it as a GET with the signed payload in the query string; the local
+  // fake network can also POST it as the body. Authenticated by the callback's
+  // signature rather than a user token.
+  if ((httpMethod === 'GET' || httpMethod === 'POST') && route === 'ad-reward') {
+    try {
+      return await handleAdRewardCallback(event);
+    } catch (error) {
+      console.error('Ad reward callback error:', error);
+      return response(500, { error: 'Internal server error' });
+    }
+  }
+
   const cognitoId = getCognitoId(event);
   if (!cognitoId) {
     return response(401, { error: 'Unauthorized' });
@@ -50,14 +86,29 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       return handleGetWallet(user);
     }
 
+    // GET /api/wallet/ad-reward/status - Rewarded ads left today
+    if (httpMethod === 'GET' && route === 'ad-reward/status') {
+      return handleAdRewardStatus(user);
+    }
+
     // GET /api/wallet/transactions - Transaction history
     if (httpMethod === 'GET' && route === 'transactions') {
       return handleGetTransactions(user.id, queryStringParameters || {});
     }
 
+    // GET /api/wallet/transactions/summary - Net coins per week and stakes vs winnings per sport
+    if (httpMethod === 'GET' && route === 'transactions/summary') {
+      return handleGetTransactionsSummary(user, queryStringParameters || {});
+    }
+
+    // GET /api/wallet/transactions/export - Ledger as CSV, up to EXPORT_MAX_BYTES
+    if (httpMethod === 'GET' && route === 'transactions/export') {
+      return handleExportTransactions(user, queryStringParameters || {});
+    }
+
     // GET /api/wallet/topup/status - Check if can claim daily topup
     if (httpMethod === 'GET' && route === 'topup/status') {
-      return handleTopupStatus(user.id);
+      return handleTopupStatus(user);
     }
 
     // POST /api/wallet/topup - Claim daily topup
@@ -86,18 +137,34 @@ async function handleGetWallet(user: typeof users.$inferSelect): Promise<APIGate
     stars: user.stars,
     gems: user.gems,
     subscriptionTier: user.subscriptionTier,
+    entitlements: formatEntitlements(user),
     canClaimDailyTopup: canClaimTopup,
     nextTopupAt: stats?.lastTopupDate
       ? new Date(new Date(stats.lastTopupDate).getTime() + 24 * 60 * 60 * 1000).toISOString()
       : null,
+    adRewards: getAdRewardStatus(stats ?? null, user.timezone),
   });
 }
 
+function formatEntitlements(user: typeof users.$inferSelect) {
+  const entitlements = getEntitlements(user);
+  return {
+    tier: entitlements.tier,
+    maxStake: entitlements.maxStake,
+    maxAccumulatorStake: entitlements.maxAccumulatorStake,
+    dailyTopupCoins: entitlements.dailyTopupCoins,
+    adFree: entitlements.adFree,
+    starsMultiplier: entitlements.starsMultiplier,
+  };
+}
+
 interface GetTransactionsParams {
   page?: string;
   pageSize?: string;
   type?: string;
   currency?: string;
+  from?: string;
+  to?: string;
 }
 
 async function handleGetTransactions(
@@ -108,18 +175,24 @@ async function handleGetTransactions(
   const pageSize = Math.min(50, Math.max(1, parseInt(params.pageSize || '20', 10)));
   const offset = (page - 1) * pageSize;
 
+  const { filters, error } = parseLedgerFilters(params);
+  if (error) {
+    return response(400, { error: LEDGER_FILTER_ERROR_MESSAGES[error], code: error });
+  }
+  const condition = getLedgerCondition(userId, filters);
+
   // Count total
   const countResult = await db
     .select({ count: sql<number>`count(*)::int` })
     .from(transactions)
-    .where(eq(transactions.userId, userId));
+    .where(condition);
   const total = countResult[0]?.count || 0;
 
   // Fetch transactions
   const txns = await db
     .select()
     .from(transactions)
-    .where(eq(transactions.userId, userId))
+    .where(condition)
     .orderBy(desc(transactions.createdAt))
     .limit(pageSize)
     .offset(offset);
@@ -145,8 +218,70 @@ async function handleGetTransactions(
   });
 }
 
-async function handleTopupStatus(userId: string): Promise<APIGatewayProxyResultV2> {
-  const statsResult = await db.select().from(userStats).where(eq(userStats.userId, userId)).limit(1);
+async function handleGetTransactionsSummary(
+  user: typeof users.$inferSelect,
+  params: GetTransactionsParams
+): Promise<APIGatewayProxyResultV2> {
+  const { filters, error } = parseLedgerFilters(params);
+  if (error) {
+    return response(400, { error: LEDGER_FILTER_ERROR_MESSAGES[error], code: error });
+  }
+
+  const range = { from: filters.from, to: filters.to };
+  const [weeklyNetCoins, bySport] = await Promise.all([
+    getWeeklyNetCoins(db, user.id, user.timezone, range),
+    getStakesBySport(db, user.id, range),
+  ]);
+
+  return response(200, {
+    from: filters.from?.toISOString() ?? null,
+    to: filters.to?.toISOString() ?? null,
+    timezone: user.timezone,
+    weeklyNetCoins,
+    bySport,
+  });
+}
+
+async function handleExportTransactions(
+  user: typeof users.$inferSelect,
+  params: GetTransactionsParams
+): Promise<APIGatewayProxyResultV2> {
+  const { filters, error } = parseLedgerFilters(params);
+  if (error) {
+    return response(400, { error: LEDGER_FILTER_ERROR_MESSAGES[error], code: error });
+  }
+
+  // Read the ledger in keyset batches, so no single query has to return the whole history.
+  // The response can't be streamed, so stop once the file would be too big to send.
+  const chunks = [LEDGER_CSV_HEADER + '\n'];
+  let bytes = Buffer.byteLength(chunks[0]!);
+  for await (const batch of iterateLedger(db, user.id, filters)) {
+    const csv = formatLedgerCsv(batch);
+    bytes += Buffer.byteLength(csv);
+    if (bytes > EXPORT_MAX_BYTES) {
+      return response(413, {
+        error: 'Too many transactions to export at once - choose a shorter date range',
+        code: 'export_too_large',
+      });
+    }
+    chunks.push(csv);
+  }
+
+  const filename = `sport-sage-transactions-${user.username}-${new Date().toISOString().split('T')[0]}.csv`;
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+    body: chunks.join(''),
+  };
+}
+
+async function handleTopupStatus(user: typeof users.$inferSelect): Promise<APIGatewayProxyResultV2> {
+  const statsResult = await db.select().from(userStats).where(eq(userStats.userId, user.id)).limit(1);
   const stats = statsResult[0];
 
   const now = new Date();
@@ -160,7 +295,7 @@ async function handleTopupStatus(userId: string): Promise<APIGatewayProxyResultV
 
   return response(200, {
     canClaim,
-    amount: DAILY_TOPUP_AMOUNT,
+    amount: getEntitlements(user).dailyTopupCoins,
     lastClaimedAt: lastTopup?.toISOString() || null,
     nextClaimAt: canClaim ? null : nextTopupAt?.toISOString(),
     hoursUntilNextClaim: canClaim ? 0 : Math.max(0, 24 - hoursElapsed),
@@ -184,8 +319,9 @@ async function handleClaimTopup(user: typeof users.$inferSelect): Promise<APIGat
     });
   }
 
-  // Add coins
-  const newCoins = user.coins + DAILY_TOPUP_AMOUNT;
+  // Add coins - subscribers get a bigger top-up
+  const topupCoins = getEntitlements(user, now).dailyTopupCoins;
+  const newCoins = user.coins + topupCoins;
 
   await db
     .update(users)
@@ -204,15 +340,69 @@ async function handleClaimTopup(user: typeof users.$inferSelect): Promise<APIGat
     userId: user.id,
     type: sql`'daily_topup'::transaction_type` as unknown as 'daily_topup',
     currency: sql`'coins'::currency_type` as unknown as 'coins',
-    amount: DAILY_TOPUP_AMOUNT,
+    amount: topupCoins,
     balanceAfter: newCoins,
     description: 'Daily coin top-up',
   });
 
   return response(200, {
     message: 'Daily top-up claimed successfully!',
-    coinsAdded: DAILY_TOPUP_AMOUNT,
+    coinsAdded: topupCoins,
     newBalance: newCoins,
     nextClaimAt: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(),
   });
 }
+
+async function handleAdRewardCallback(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  // The network's signed query string, byte for byte - rawQueryString is kept as
+  // received, where queryStringParameters would be decoded and reordered
+  const callback = event.requestContext.http.method === 'GET'
+    ? event.rawQueryString
+    : event.body
+      ? (event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body)
+      : '';
+  if (!callback) {
+    return response(400, { error: 'Callback payload is required' });
+  }
+
+  let reward: VerifiedAdReward;
+  try {
+    reward = await getAdRewardVerifier().verify(callback);
+  } catch (error) {
+    if (error instanceof InvalidAdRewardError) {
+      return response(403, { error: error.message });
+    }
+    throw error;
+  }
+
+  if (!UUID_REGEX.test(reward.userId)) {
+    return response(400, { error: 'Invalid user_id in callback' });
+  }
+
+  const result = await creditAdReward(db, {
+    userId: reward.userId,
+    network: reward.network,
+    networkTransactionId: reward.transactionId,
+    adUnit: reward.adUnit,
+    watchedAt: reward.watchedAt,
+  });
+
+  if (result.status === 'rejected') {
+    const statusCode = result.error === 'user_not_found' ? 404 : result.error === 'duplicate' ? 409 : 429;
+    return response(statusCode, { error: AD_REWARD_ERROR_MESSAGES[result.error] });
+  }
+
+  return response(200, {
+    success: true,
+    adRewardId: result.adRewardId,
+    coinsCredited: result.coinsCredited,
+    newBalance: result.balances.coins,
+    adRewards: result.ads,
+  });
+}
+
+async function handleAdRewardStatus(user: typeof users.$inferSelect): Promise<APIGatewayProxyResultV2> {
+  const [stats] = await db.select().from(userStats).where(eq(userStats.userId, user.id)).limit(1);
+
+  return response(200, getAdRewardStatus(stats ?? null, user.timezone));
+}
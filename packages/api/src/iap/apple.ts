@@ -0,0 +1,95 @@
+/**
+ * Apple App Store receipt verification
+ *
+ * Uses the verifyReceipt endpoint. Production is tried first and sandbox
+ * receipts (TestFlight, review) are retried against the sandbox, as Apple recommends.
+ */
+
+import type { ReceiptProvider, ReceiptRequest, VerifiedPurchase } from './types';
+import { InvalidReceiptError } from './types';
+
+const PRODUCTION_URL = 'https://buy.itunes.apple.com/verifyReceipt';
+const SANDBOX_URL = 'https://sandbox.itunes.apple.com/verifyReceipt';
+
+// verifyReceipt status codes
+const STATUS_OK = 0;
+const STATUS_SANDBOX_RECEIPT = 21007;
+
+interface AppleInAppPurchase {
+  product_id: string;
+  transaction_id: string;
+  purchase_date_ms: string;
+  cancellation_date_ms?: string;
+}
+
+interface AppleVerifyResponse {
+  status: number;
+  environment?: 'Production' | 'Sandbox';
+  receipt?: {
+    bundle_id: string;
+    in_app?: AppleInAppPurchase[];
+  };
+}
+
+async function callVerifyReceipt(url: string, receipt: string): Promise<AppleVerifyResponse> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      'receipt-data': receipt,
+      password: process.env.APPLE_SHARED_SECRET,
+      'exclude-old-transactions': true,
+    }),
+  });
+
+  if (!res.ok) {
+    throw new Error(`Apple verifyReceipt returned HTTP ${res.status}`);
+  }
+
+  return (await res.json()) as AppleVerifyResponse;
+}
+
+export const appleReceiptProvider: ReceiptProvider = {
+  platform: 'apple',
+
+  async verify(request: ReceiptRequest): Promise<VerifiedPurchase> {
+    // Without a bundle ID to check against, a receipt from any app would be accepted
+    const bundleId = process.env.APPLE_BUNDLE_ID;
+    if (!bundleId) {
+      throw new Error('APPLE_BUNDLE_ID is not configured');
+    }
+
+    let result = await callVerifyReceipt(PRODUCTION_URL, request.receipt);
+    if (result.status === STATUS_SANDBOX_RECEIPT) {
+      result = await callVerifyReceipt(SANDBOX_URL, request.receipt);
+    }
+
+    if (result.status !== STATUS_OK || !result.receipt) {
+      throw new InvalidReceiptError(`Apple rejected receipt (status ${result.status})`);
+    }
+
+    if (result.receipt.bundle_id !== bundleId) {
+      throw new InvalidReceiptError('Receipt belongs to a different app');
+    }
+
+    // A receipt lists every unfinished consumable, so pick the requested transaction
+    // or fall back to the most recent purchase of the product
+    const candidates = (result.receipt.in_app || [])
+      .filter((p) => p.product_id === request.productId && !p.cancellation_date_ms)
+      .filter((p) => !request.transactionId || p.transaction_id === request.transactionId)
+      .sort((a, b) => Number(b.purchase_date_ms) - Number(a.purchase_date_ms));
+
+    const purchase = candidates[0];
+    if (!purchase) {
+      throw new InvalidReceiptError('Receipt does not contain this product');
+    }
+
+    return {
+      platform: 'apple',
+      productId: purchase.product_id,
+      transactionId: purchase.transaction_id,
+      purchasedAt: new Date(Number(purchase.purchase_date_ms)),
+      isSandbox: result.environment === 'Sandbox',
+    };
+  },
+};
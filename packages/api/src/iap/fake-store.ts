@@ -0,0 +1,91 @@
+/**
+ * Local fake store
+ *
+ * Stands in for Apple and Google in local development and tests. Receipts are
+ * HMAC-signed JSON issued by createFakeReceipt, so the purchase flow (including
+ * tampered and replayed receipts) can be exercised without contacting either store.
+ * Only used when IAP_PROVIDER=fake.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { ReceiptProvider, ReceiptRequest, StorePlatform, VerifiedPurchase } from './types';
+import { InvalidReceiptError } from './types';
+
+const RECEIPT_PREFIX = 'fake';
+const DEFAULT_SECRET = 'sport-sage-local-fake-store';
+
+interface FakeReceiptPayload {
+  platform: StorePlatform;
+  productId: string;
+  transactionId: string;
+  purchasedAt: string;
+}
+
+export interface FakeReceiptOptions {
+  platform: StorePlatform;
+  productId: string;
+  transactionId?: string;
+  purchasedAt?: Date;
+}
+
+function getSecret(): string {
+  return process.env.FAKE_STORE_SECRET || DEFAULT_SECRET;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a receipt the fake store will accept, as a device would after a purchase
+ */
+export function createFakeReceipt(options: FakeReceiptOptions): string {
+  const payload: FakeReceiptPayload = {
+    platform: options.platform,
+    productId: options.productId,
+    transactionId: options.transactionId ?? `fake-${randomUUID()}`,
+    purchasedAt: (options.purchasedAt ?? new Date()).toISOString(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${RECEIPT_PREFIX}.${encoded}.${sign(encoded)}`;
+}
+
+function decodeReceipt(receipt: string): FakeReceiptPayload {
+  const [prefix, encoded, signature] = receipt.split('.');
+  if (prefix !== RECEIPT_PREFIX || !encoded || !signature) {
+    throw new InvalidReceiptError('Malformed receipt');
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidReceiptError('Receipt signature does not match');
+  }
+
+  return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as FakeReceiptPayload;
+}
+
+export function createFakeStoreProvider(platform: StorePlatform): ReceiptProvider {
+  return {
+    platform,
+
+    async verify(request: ReceiptRequest): Promise<VerifiedPurchase> {
+      const payload = decodeReceipt(request.receipt);
+
+      if (payload.platform !== platform) {
+        throw new InvalidReceiptError(`Receipt was issued for ${payload.platform}`);
+      }
+      if (payload.productId !== request.productId) {
+        throw new InvalidReceiptError('Receipt does not contain this product');
+      }
+
+      return {
+        platform,
+        productId: payload.productId,
+        transactionId: payload.transactionId,
+        purchasedAt: new Date(payload.purchasedAt),
+        isSandbox: true,
+      };
+    },
+  };
+}
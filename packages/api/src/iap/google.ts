@@ -0,0 +1,128 @@
+/**
+ * Google Play purchase verification
+ *
+ * Looks up the purchase token with the Android Publisher API using a service
+ * account, then acknowledges it so Play doesn't refund it after three days.
+ */
+
+import { createSign } from 'crypto';
+import type { ReceiptProvider, ReceiptRequest, VerifiedPurchase } from './types';
+import { InvalidReceiptError } from './types';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const PUBLISHER_SCOPE = 'https://www.googleapis.com/auth/androidpublisher';
+const PUBLISHER_URL = 'https://androidpublisher.googleapis.com/androidpublisher/v3/applications';
+
+// purchases.products purchaseState / purchaseType values
+const PURCHASE_STATE_PURCHASED = 0;
+const PURCHASE_TYPE_TEST = 0;
+
+interface ProductPurchase {
+  purchaseState: number;
+  purchaseTimeMillis: string;
+  orderId?: string;
+  acknowledgementState?: number;
+  purchaseType?: number;
+}
+
+// Access tokens last an hour; reuse across warm invocations
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) {
+    return cachedToken.value;
+  }
+
+  const email = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  const privateKey = process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!email || !privateKey) {
+    throw new Error('Google Play service account is not configured');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64url(JSON.stringify({
+    iss: email,
+    scope: PUBLISHER_SCOPE,
+    aud: TOKEN_URL,
+    iat: now,
+    exp: now + 3600,
+  }));
+  const signature = createSign('RSA-SHA256').update(`${header}.${claims}`).sign(privateKey);
+  const assertion = `${header}.${claims}.${base64url(signature)}`;
+
+  const res = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }).toString(),
+  });
+
+  if (!res.ok) {
+    throw new Error(`Google token exchange returned HTTP ${res.status}`);
+  }
+
+  const body = (await res.json()) as { access_token: string; expires_in: number };
+  cachedToken = { value: body.access_token, expiresAt: Date.now() + body.expires_in * 1000 };
+  return cachedToken.value;
+}
+
+function purchaseUrl(request: ReceiptRequest): string {
+  const packageName = process.env.GOOGLE_PLAY_PACKAGE_NAME;
+  if (!packageName) {
+    throw new Error('GOOGLE_PLAY_PACKAGE_NAME is not configured');
+  }
+
+  return `${PUBLISHER_URL}/${encodeURIComponent(packageName)}/purchases/products/` +
+    `${encodeURIComponent(request.productId)}/tokens/${encodeURIComponent(request.receipt)}`;
+}
+
+export const googleReceiptProvider: ReceiptProvider = {
+  platform: 'google',
+
+  async verify(request: ReceiptRequest): Promise<VerifiedPurchase> {
+    const res = await fetch(purchaseUrl(request), {
+      headers: { Authorization: `Bearer ${await getAccessToken()}` },
+    });
+
+    // Unknown token or product
+    if (res.status === 400 || res.status === 404 || res.status === 410) {
+      throw new InvalidReceiptError('Google Play does not recognise this purchase');
+    }
+    if (!res.ok) {
+      throw new Error(`Google Play purchases.products.get returned HTTP ${res.status}`);
+    }
+
+    const purchase = (await res.json()) as ProductPurchase;
+    if (purchase.purchaseState !== PURCHASE_STATE_PURCHASED) {
+      throw new InvalidReceiptError('Purchase is pending or was cancelled');
+    }
+
+    return {
+      platform: 'google',
+      productId: request.productId,
+      // Test purchases may not carry an order ID; the token is unique either way
+      transactionId: purchase.orderId || request.receipt,
+      purchasedAt: new Date(Number(purchase.purchaseTimeMillis)),
+      isSandbox: purchase.purchaseType === PURCHASE_TYPE_TEST,
+    };
+  },
+
+  async acknowledge(request: ReceiptRequest): Promise<void> {
+    const res = await fetch(`${purchaseUrl(request)}:acknowledge`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await getAccessToken()}` },
+    });
+
+    // Already acknowledged purchases return 400; the purchase is still ours
+    if (!res.ok && res.status !== 400) {
+      throw new Error(`Google Play acknowledge returned HTTP ${res.status}`);
+    }
+  },
+};
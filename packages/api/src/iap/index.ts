@@ -0,0 +1,43 @@
+/**
+ * In-App Purchase Verification
+ *
+ * Picks the receipt provider for a store platform. Set IAP_PROVIDER=fake to
+ * route both platforms through the local fake store instead of Apple/Google.
+ */
+
+import type { ReceiptProvider, StorePlatform } from './types';
+import { appleReceiptProvider } from './apple';
+import { googleReceiptProvider } from './google';
+import { createFakeStoreProvider } from './fake-store';
+
+export * from './types';
+export { createFakeReceipt, createFakeStoreProvider } from './fake-store';
+
+export const STORE_PLATFORMS: StorePlatform[] = ['apple', 'google'];
+
+// Sandbox and TestFlight purchases cost nothing, so they only credit gems in these environments
+const SANDBOX_ENVIRONMENTS = ['dev', 'staging'];
+
+const storeProviders: Record<StorePlatform, ReceiptProvider> = {
+  apple: appleReceiptProvider,
+  google: googleReceiptProvider,
+};
+
+export function isStorePlatform(value: unknown): value is StorePlatform {
+  return typeof value === 'string' && (STORE_PLATFORMS as string[]).includes(value);
+}
+
+export function getReceiptProvider(platform: StorePlatform): ReceiptProvider {
+  if (process.env.IAP_PROVIDER === 'fake') {
+    return createFakeStoreProvider(platform);
+  }
+  return storeProviders[platform];
+}
+
+/**
+ * Whether sandbox receipts can be redeemed here. Fails closed: an unset
+ * ENVIRONMENT counts as production.
+ */
+export function acceptsSandboxPurchases(): boolean {
+  return SANDBOX_ENVIRONMENTS.includes(process.env.ENVIRONMENT ?? '');
+}
@@ -0,0 +1,41 @@
+/**
+ * In-App Purchase Types
+ *
+ * Common interfaces for verifying store receipts with Apple and Google.
+ */
+
+export type StorePlatform = 'apple' | 'google';
+
+export interface ReceiptRequest {
+  productId: string;
+  // Apple: base64 app receipt. Google: purchase token.
+  receipt: string;
+  // Apple: the transaction in the receipt being claimed (defaults to the latest for the product)
+  transactionId?: string;
+}
+
+export interface VerifiedPurchase {
+  platform: StorePlatform;
+  productId: string;
+  transactionId: string; // Unique per purchase on the store, used to dedupe receipts
+  purchasedAt: Date;
+  isSandbox: boolean;
+}
+
+export interface ReceiptProvider {
+  platform: StorePlatform;
+  verify(request: ReceiptRequest): Promise<VerifiedPurchase>;
+  // Tell the store the purchase was delivered, where the store requires it
+  acknowledge?(request: ReceiptRequest, purchase: VerifiedPurchase): Promise<void>;
+}
+
+/**
+ * The store rejected the receipt, or it doesn't cover the requested product.
+ * Anything else thrown by a provider is treated as the store being unavailable.
+ */
+export class InvalidReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidReceiptError';
+  }
+}
@@ -6,7 +6,7 @@
  * - Previously flagged events
  */
 
-import { getDb, predictions, events, users, outcomes, markets } from '@sport-sage/database';
+import { getDb, predictions, events, users, outcomes, markets, settlePrediction } from '@sport-sage/database';
 import { eq, sql, and, desc, isNotNull } from 'drizzle-orm';
 import { layout, timeAgo, tooltip } from '../ui/layout.js';
 
@@ -139,7 +139,7 @@ export async function handleBulkSettle(query: URLSearchParams, environment: stri
   `).join('');
 
   const content = `
-    <h1>Bulk Settle Predictions ${tooltip('<strong>Prediction Settlement</strong>Settles pending predictions for finished events.<br><br><strong>Process:</strong><ol style="margin: 8px 0 0 16px;"><li>Event finishes → status becomes "finished"</li><li>Outcomes marked as winner/loser on event page</li><li>Predictions matched to winning outcomes</li><li>User coins updated (stake × 2 for wins)</li></ol>', 'right')}</h1>
+    <h1>Bulk Settle Predictions ${tooltip('<strong>Prediction Settlement</strong>Settles pending predictions for finished events.<br><br><strong>Process:</strong><ol style="margin: 8px 0 0 16px;"><li>Event finishes → status becomes "finished"</li><li>Outcomes marked as winner/loser on event page</li><li>Predictions matched to winning outcomes</li><li>User coins updated (locked-in payout for wins, stake refunded for voids)</li></ol>', 'right')}</h1>
 
     ${flash ? `<div class="flash flash-success">${flash}</div>` : ''}
 
@@ -155,7 +155,7 @@ export async function handleBulkSettle(query: URLSearchParams, environment: stri
       </div>
       <div class="stat">
         <div class="stat-value" style="color: var(--success);">${willWin}</div>
-        <div class="stat-label">Will Win ${tooltip('<strong>Winning Predictions</strong>Predictions on outcomes marked as winners. Users will receive stake × 2 payout.', 'bottom')}</div>
+        <div class="stat-label">Will Win ${tooltip('<strong>Winning Predictions</strong>Predictions on outcomes marked as winners. Users receive the payout locked in at the odds they took.', 'bottom')}</div>
       </div>
       <div class="stat">
         <div class="stat-value" style="color: var(--error);">${willLose}</div>
@@ -291,7 +291,7 @@ export async function executeBulkSettle(): Promise<{ success: boolean; message:
       }
 
       const result = outcome.isWinner ? 'won' : 'lost';
-      const payout = result === 'won' ? prediction.stake * 2 : 0;
+      const payout = result === 'won' ? prediction.potentialCoins : 0;
 
       // Check if this should be held for review
       let shouldHold = false;
@@ -335,18 +335,10 @@ export async function executeBulkSettle(): Promise<{ success: boolean; message:
           heldCount++;
         } else {
           // Settle normally
-          await db.update(predictions)
-            .set({ status: result, settledAt: new Date() })
-            .where(eq(predictions.id, prediction.predictionId));
-
-          // Update user coins if won
-          if (result === 'won') {
-            await db.update(users)
-              .set({ coins: sql`${users.coins} + ${payout}` })
-              .where(eq(users.id, prediction.userId));
+          const settlement = await settlePrediction(db, prediction.predictionId, result);
+          if (settlement) {
+            settledCount++;
           }
-
-          settledCount++;
         }
       } catch (err: any) {
         errors.push(`Failed to settle ${prediction.predictionId}: ${err.message}`);
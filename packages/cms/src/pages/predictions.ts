@@ -2,7 +2,7 @@
  * Predictions Page - Monitor and manually settle user predictions
  */
 
-import { getDb, predictions, users, events, userStats } from '@sport-sage/database';
+import { getDb, predictions, users, events, settlePrediction as applySettlement } from '@sport-sage/database';
 import { desc, eq, sql, and, gte, count } from 'drizzle-orm';
 import { layout, timeAgo } from '../ui/layout.js';
 
@@ -203,62 +203,10 @@ export async function settlePrediction(predictionId: string, result: 'won' | 'lo
       return { success: false, message: 'Prediction already settled' };
     }
 
-    // Calculate settled amounts
-    let settledCoins = 0;
-    let settledStars = 0;
-
-    if (result === 'won') {
-      settledCoins = prediction.potentialCoins || 0;
-      settledStars = prediction.potentialStars || 0;
-    } else if (result === 'void') {
-      // Return stake on void
-      settledCoins = prediction.stake;
-      settledStars = 0;
-    }
-    // Lost = 0 coins, 0 stars
-
-    // Update prediction
-    await db.update(predictions)
-      .set({
-        status: result,
-        settledCoins,
-        settledStars,
-        settledAt: new Date(),
-      })
-      .where(eq(predictions.id, predictionId));
-
-    // Update user coins if won or void
-    if (settledCoins > 0) {
-      await db.update(users)
-        .set({
-          coins: sql`${users.coins} + ${settledCoins}`,
-          stars: sql`${users.stars} + ${settledStars}`,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, prediction.userId));
-    }
-
-    // Update user stats
-    if (result === 'won' || result === 'lost') {
-      const statsUpdate = result === 'won'
-        ? {
-            totalWins: sql`${userStats.totalWins} + 1`,
-            currentStreak: sql`${userStats.currentStreak} + 1`,
-            bestStreak: sql`GREATEST(${userStats.bestStreak}, ${userStats.currentStreak} + 1)`,
-            totalStarsEarned: sql`${userStats.totalStarsEarned} + ${settledStars}`,
-            biggestWin: sql`GREATEST(${userStats.biggestWin}, ${settledCoins})`,
-          }
-        : {
-            totalLosses: sql`${userStats.totalLosses} + 1`,
-            currentStreak: 0,
-          };
-
-      await db.update(userStats)
-        .set({
-          ...statsUpdate,
-          updatedAt: new Date(),
-        })
-        .where(eq(userStats.userId, prediction.userId));
+    // Payout, stars, streaks and ledger entries are handled by the shared settlement service
+    const settlement = await applySettlement(db, predictionId, result);
+    if (!settlement) {
+      return { success: false, message: 'Prediction already settled' };
     }
 
     return { success: true, message: `Prediction settled as ${result}` };
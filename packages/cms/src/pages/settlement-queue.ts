@@ -7,8 +7,8 @@
  * - Score instability
  */
 
-import { getDb, predictions, events, users, outcomes, auditLog } from '@sport-sage/database';
-import { eq, desc, and, sql, count } from 'drizzle-orm';
+import { getDb, predictions, events, users, outcomes, auditLog, settlePrediction } from '@sport-sage/database';
+import { eq, desc, and, count } from 'drizzle-orm';
 import { layout, timeAgo, tooltip } from '../ui/layout.js';
 
 interface HeldPrediction {
@@ -264,26 +264,9 @@ export async function releasePrediction(predictionId: string, userId?: string):
     const result = isWinner ? 'won' : 'lost';
 
     // Release the hold and settle the prediction
-    await db
-      .update(predictions)
-      .set({
-        isHeld: false,
-        status: result,
-        settledAt: new Date(),
-        settledCoins: isWinner ? pred.potentialCoins : 0,
-        reviewedBy: userId || null,
-        reviewedAt: new Date(),
-      })
-      .where(eq(predictions.id, predictionId));
-
-    // Pay out winnings if won
-    if (isWinner) {
-      await db
-        .update(users)
-        .set({
-          coins: sql`${users.coins} + ${pred.potentialCoins}`,
-        })
-        .where(eq(users.id, pred.predUserId));
+    const settlement = await settlePrediction(db, predictionId, result, { reviewedBy: userId || null });
+    if (!settlement) {
+      return { success: false, message: 'Prediction already settled' };
     }
 
     // Log the action
@@ -292,15 +275,15 @@ export async function releasePrediction(predictionId: string, userId?: string):
       recordId: predictionId,
       action: 'release',
       oldValues: { isHeld: true, holdReason: pred.holdReason },
-      newValues: { isHeld: false, status: result, settledCoins: isWinner ? pred.potentialCoins : 0 },
-      reason: `Released by admin. ${isWinner ? `Paid out ${pred.potentialCoins} coins.` : 'Lost - no payout.'}`,
+      newValues: { isHeld: false, status: result, settledCoins: settlement.settledCoins },
+      reason: `Released by admin. ${isWinner ? `Paid out ${settlement.settledCoins} coins.` : 'Lost - no payout.'}`,
       changedBy: userId || null,
     });
 
     return {
       success: true,
       message: isWinner
-        ? `Released and paid out ${pred.potentialCoins} coins`
+        ? `Released and paid out ${settlement.settledCoins} coins`
         : 'Released - prediction lost, no payout',
     };
   } catch (error: any) {
@@ -331,25 +314,11 @@ export async function voidPrediction(predictionId: string, userId?: string): Pro
       return { success: false, message: 'Prediction not found' };
     }
 
-    // Void the prediction
-    await db
-      .update(predictions)
-      .set({
-        isHeld: false,
-        status: 'void',
-        settledAt: new Date(),
-        reviewedBy: userId || null,
-        reviewedAt: new Date(),
-      })
-      .where(eq(predictions.id, predictionId));
-
-    // Refund the stake
-    await db
-      .update(users)
-      .set({
-        coins: sql`${users.coins} + ${pred.stake}`,
-      })
-      .where(eq(users.id, pred.predUserId));
+    // Void the prediction and refund the stake
+    const settlement = await settlePrediction(db, predictionId, 'void', { reviewedBy: userId || null });
+    if (!settlement) {
+      return { success: false, message: 'Prediction already settled' };
+    }
 
     // Log the action
     await db.insert(auditLog).values({
@@ -2,9 +2,21 @@
  * Teams Page - Browse and edit teams
  */
 
-import { getDb, teams, teamAliases, events } from '@sport-sage/database';
-import { desc, eq, count, ilike, sql } from 'drizzle-orm';
-import { layout, timeAgo, tooltip } from '../ui/layout.js';
+import {
+  getDb,
+  teams,
+  teamAliases,
+  events,
+  normalizeTeamName,
+  combinedSimilarity,
+  previewTeamMerge,
+  mergeTeams,
+  TEAM_MERGE_ERROR_MESSAGES,
+} from '@sport-sage/database';
+import { desc, eq, ne, and, count, ilike, sql } from 'drizzle-orm';
+import { layout, timeAgo, tooltip, escapeHtml } from '../ui/layout.js';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export async function handleTeams(query: URLSearchParams, environment: string): Promise<string> {
   const db = getDb();
@@ -74,7 +86,7 @@ export async function handleTeams(query: URLSearchParams, environment: string):
   return layout('Teams', content, environment);
 }
 
-export async function handleTeamDetail(id: string, environment: string, flash?: string): Promise<string> {
+export async function handleTeamDetail(id: string, environment: string, flash?: string, mergeFrom?: string): Promise<string> {
   const db = getDb();
 
   const team = await db.query.teams.findFirst({ where: eq(teams.id, id) });
@@ -116,6 +128,8 @@ export async function handleTeamDetail(id: string, environment: string, flash?:
     </tr>
   `).join('');
 
+  const mergeCard = await renderMergeCard(team, mergeFrom);
+
   const content = `
     <h1>Team: ${team.name}</h1>
 
@@ -206,6 +220,8 @@ export async function handleTeamDetail(id: string, environment: string, flash?:
       </div>
     </div>
 
+    ${mergeCard}
+
     <div style="margin-top: 20px;">
       <a href="/teams" class="btn btn-secondary">Back to Teams</a>
     </div>
@@ -214,6 +230,113 @@ export async function handleTeamDetail(id: string, environment: string, flash?:
   return layout(team.name, content, environment);
 }
 
+/**
+ * Merge card for the team detail page: pick a duplicate (suggested by name
+ * similarity, or by ID), preview what the merge touches, then confirm
+ */
+async function renderMergeCard(team: { id: string; name: string }, mergeFrom?: string): Promise<string> {
+  const db = getDb();
+  const help = tooltip('<strong>Merge Duplicate Team</strong>Folds another team record into this one, in a single transaction.<br><br><strong>What happens:</strong><ul><li>Events are repointed here and their team names rewritten</li><li>Aliases and competitions move here</li><li>Fixtures that become duplicates are collapsed, keeping this team\'s event</li><li>The other team is deleted and the merge is audit logged</li></ul>', 'right');
+
+  if (mergeFrom) {
+    const result = UUID_REGEX.test(mergeFrom)
+      ? await previewTeamMerge(db, team.id, mergeFrom)
+      : { status: 'rejected' as const, error: 'source_not_found' as const };
+    if (result.status === 'rejected') {
+      return `
+        <div class="card" style="margin-top: 20px;">
+          <h2 style="margin-top: 0;">Merge Duplicate Team ${help}</h2>
+          <div class="flash flash-error">${TEAM_MERGE_ERROR_MESSAGES[result.error]}</div>
+          <a href="/teams/${team.id}" class="btn btn-sm btn-secondary">Cancel</a>
+        </div>
+      `;
+    }
+
+    const { preview } = result;
+    const duplicateRows = preview.duplicates.map(d => `
+      <tr>
+        <td>${d.startTime.toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' })}</td>
+        <td><a href="/events/${d.removedEventId}">${escapeHtml(d.homeTeamName ?? '')} vs ${escapeHtml(d.awayTeamName ?? '')}</a></td>
+        <td><a href="/events/${d.keptEventId}">Kept event</a></td>
+        <td>${d.predictions}</td>
+      </tr>
+    `).join('');
+    const eventRows = preview.events.slice(0, 20).map(e => `
+      <tr>
+        <td>${e.startTime.toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' })}</td>
+        <td><a href="/events/${e.id}">${escapeHtml(e.homeTeamName ?? '')} vs ${escapeHtml(e.awayTeamName ?? '')}</a></td>
+        <td><span class="badge badge-info">${e.status}</span></td>
+      </tr>
+    `).join('');
+
+    return `
+      <div class="card" style="margin-top: 20px; border-color: var(--warning);">
+        <h2 style="margin-top: 0;">Merge "${escapeHtml(preview.source.name)}" into "${escapeHtml(preview.target.name)}" ${help}</h2>
+        <div class="stats-grid">
+          <div class="stat"><div class="stat-value">${preview.events.length}</div><div class="stat-label">Events Repointed</div></div>
+          <div class="stat"><div class="stat-value" style="color: var(--warning);">${preview.duplicates.length}</div><div class="stat-label">Duplicate Events Collapsed</div></div>
+          <div class="stat"><div class="stat-value">${preview.aliases}</div><div class="stat-label">Aliases Moved</div></div>
+          <div class="stat"><div class="stat-value">${preview.competitions}</div><div class="stat-label">Competitions Added</div></div>
+        </div>
+
+        <h3 style="font-size: 1em; margin: 20px 0 10px;">Duplicate Events</h3>
+        <table>
+          <thead><tr><th>Date</th><th>Removed Event</th><th>Merged Into</th><th>Predictions Moved</th></tr></thead>
+          <tbody>${duplicateRows || '<tr><td colspan="4" class="empty">No duplicate events</td></tr>'}</tbody>
+        </table>
+
+        <h3 style="font-size: 1em; margin: 20px 0 10px;">Events Repointed${preview.events.length > 20 ? ' (first 20)' : ''}</h3>
+        <table>
+          <thead><tr><th>Date</th><th>Match</th><th>Status</th></tr></thead>
+          <tbody>${eventRows || '<tr><td colspan="3" class="empty">No events</td></tr>'}</tbody>
+        </table>
+
+        <div style="margin-top: 20px; display: flex; gap: 10px;">
+          <form method="POST" action="/teams/${team.id}/merge" style="display: inline;">
+            <input type="hidden" name="sourceTeamId" value="${preview.source.id}">
+            <button type="submit" class="btn btn-danger" onclick="return confirm(${escapeHtml(JSON.stringify(`Merge and delete ${preview.source.name}? This cannot be undone.`))})">Confirm Merge</button>
+          </form>
+          <a href="/teams/${team.id}" class="btn btn-secondary">Cancel</a>
+        </div>
+      </div>
+    `;
+  }
+
+  // Suggest teams with similar names
+  const firstWord = normalizeTeamName(team.name).split(' ')[0] || team.name;
+  const candidates = await db
+    .select({ id: teams.id, name: teams.name })
+    .from(teams)
+    .where(and(ne(teams.id, team.id), ilike(teams.name, `%${firstWord}%`)))
+    .limit(50);
+  const suggestions = candidates
+    .map(c => ({ ...c, similarity: combinedSimilarity(team.name, c.name) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, 5);
+
+  const suggestionRows = suggestions.map(s => `
+    <tr>
+      <td><a href="/teams/${s.id}">${escapeHtml(s.name)}</a></td>
+      <td>${Math.round(s.similarity * 100)}%</td>
+      <td><a href="/teams/${team.id}?mergeFrom=${s.id}" class="btn btn-sm btn-secondary">Preview Merge</a></td>
+    </tr>
+  `).join('');
+
+  return `
+    <div class="card" style="margin-top: 20px;">
+      <h2 style="margin-top: 0;">Merge Duplicate Team ${help}</h2>
+      <table>
+        <thead><tr><th>Similar Team</th><th>Similarity</th><th>Actions</th></tr></thead>
+        <tbody>${suggestionRows || '<tr><td colspan="3" class="empty">No similar teams found</td></tr>'}</tbody>
+      </table>
+      <form method="GET" action="/teams/${team.id}" style="display: flex; gap: 10px; margin-top: 15px;">
+        <input type="text" name="mergeFrom" placeholder="Duplicate team ID" style="flex: 1;" required>
+        <button type="submit" class="btn">Preview Merge</button>
+      </form>
+    </div>
+  `;
+}
+
 export async function updateTeam(id: string, data: { name: string; shortName?: string; logoUrl?: string }): Promise<{ success: boolean; message: string }> {
   const db = getDb();
   try {
@@ -253,3 +376,22 @@ export async function deleteTeamAlias(aliasId: string): Promise<{ success: boole
     return { success: false, message: error.message };
   }
 }
+
+export async function mergeTeamInto(targetTeamId: string, sourceTeamId: string): Promise<{ success: boolean; message: string }> {
+  const db = getDb();
+  if (!UUID_REGEX.test(sourceTeamId)) {
+    return { success: false, message: TEAM_MERGE_ERROR_MESSAGES.source_not_found };
+  }
+  try {
+    const result = await mergeTeams(db, targetTeamId, sourceTeamId);
+    if (result.status === 'rejected') {
+      return { success: false, message: TEAM_MERGE_ERROR_MESSAGES[result.error] };
+    }
+    return {
+      success: true,
+      message: `Teams merged: ${result.eventsRepointed} events repointed, ${result.eventsCollapsed} duplicates collapsed, ${result.aliasesMoved} aliases moved`,
+    };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
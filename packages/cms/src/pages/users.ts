@@ -2,7 +2,18 @@
  * Users Page - Manage users, view stats, edit coins
  */
 
-import { getDb, users, userStats, predictions } from '@sport-sage/database';
+import {
+  getDb,
+  users,
+  userStats,
+  predictions,
+  getEntitlements,
+  parseLedgerFilters,
+  iterateLedger,
+  formatLedgerCsv,
+  LEDGER_CSV_HEADER,
+  LEDGER_FILTER_ERROR_MESSAGES,
+} from '@sport-sage/database';
 import { desc, eq, ilike, sql, count, gte } from 'drizzle-orm';
 import { layout, timeAgo } from '../ui/layout.js';
 
@@ -235,6 +246,10 @@ export async function handleUserDetail(userId: string, environment: string, flas
               <option value="elite" ${user.subscriptionTier === 'elite' ? 'selected' : ''}>Elite</option>
             </select>
           </div>
+          <div style="margin-bottom: 15px;">
+            <label style="display: block; margin-bottom: 5px; color: var(--text-muted);">Subscription Expires (blank = never)</label>
+            <input type="date" name="subscriptionExpiresAt" value="${user.subscriptionExpiresAt ? new Date(user.subscriptionExpiresAt).toISOString().slice(0, 10) : ''}" style="width: 100%;">
+          </div>
           <button type="submit" class="btn">Save Changes</button>
         </form>
 
@@ -252,6 +267,7 @@ export async function handleUserDetail(userId: string, environment: string, flas
             <form method="POST" action="/users/${userId}/reset-coins" style="display: inline;">
               <button type="submit" class="btn btn-sm btn-danger" onclick="return confirm('Reset to 1000 coins?')">Reset Coins</button>
             </form>
+            <a href="/users/${userId}/transactions.csv" class="btn btn-sm btn-secondary">Export Transactions (CSV)</a>
           </div>
         </div>
       </div>
@@ -349,20 +365,70 @@ export async function handleUserDetail(userId: string, environment: string, flas
   return layout(user.username, content, environment);
 }
 
+/**
+ * Full transaction ledger for a user as CSV, for disputes. Optional type, currency,
+ * from and to query params narrow it. Rows are produced a batch at a time so the
+ * server can write them out as they're read.
+ */
+export async function exportUserTransactions(
+  userId: string,
+  query: URLSearchParams
+): Promise<{ filename: string; rows: AsyncIterable<string> } | { error: string }> {
+  const db = getDb();
+
+  const [user] = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) return { error: 'User not found' };
+
+  const parsed = parseLedgerFilters({
+    type: query.get('type') || undefined,
+    currency: query.get('currency') || undefined,
+    from: query.get('from') || undefined,
+    to: query.get('to') || undefined,
+  });
+  if (parsed.error) return { error: LEDGER_FILTER_ERROR_MESSAGES[parsed.error] };
+  const { filters } = parsed;
+
+  async function* rows() {
+    yield LEDGER_CSV_HEADER + '\n';
+    for await (const batch of iterateLedger(db, userId, filters)) {
+      yield formatLedgerCsv(batch);
+    }
+  }
+
+  return {
+    filename: `transactions-${user.username}-${new Date().toISOString().split('T')[0]}.csv`,
+    rows: rows(),
+  };
+}
+
 export async function updateUser(userId: string, data: {
   coins: number;
   stars: number;
   gems: number;
   subscriptionTier: string;
+  subscriptionExpiresAt?: string;
 }): Promise<{ success: boolean; message: string }> {
   const db = getDb();
   try {
+    const subscriptionTier = data.subscriptionTier as 'free' | 'pro' | 'elite';
+    const subscriptionExpiresAt = subscriptionTier !== 'free' && data.subscriptionExpiresAt
+      ? new Date(`${data.subscriptionExpiresAt}T23:59:59Z`)
+      : null;
+
     await db.update(users)
       .set({
         coins: data.coins,
         stars: data.stars,
         gems: data.gems,
-        subscriptionTier: data.subscriptionTier as 'free' | 'pro' | 'elite',
+        subscriptionTier,
+        subscriptionExpiresAt,
+        // Ads follow the tier's entitlement
+        isAdsEnabled: !getEntitlements({ subscriptionTier, subscriptionExpiresAt }).adFree,
         updatedAt: new Date(),
       })
       .where(eq(users.id, userId));
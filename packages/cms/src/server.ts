@@ -28,10 +28,10 @@ import { handleEvents } from './pages/events.js';
 import { handleEventDetail, updateEvent, toggleMarketSuspension, toggleOutcomeWinner } from './pages/event-detail.js';
 import { handleLiveScores } from './pages/live-scores.js';
 import { handlePredictions, settlePrediction } from './pages/predictions.js';
-import { handleTeams, handleTeamDetail, updateTeam, addTeamAlias, deleteTeamAlias } from './pages/teams.js';
+import { handleTeams, handleTeamDetail, updateTeam, addTeamAlias, deleteTeamAlias, mergeTeamInto } from './pages/teams.js';
 import { handleCompetitions, handleCompetitionDetail, updateCompetition } from './pages/competitions.js';
 import { handleQuery } from './pages/query.js';
-import { handleUsers, handleUserDetail, updateUser, addCoinsToUser, resetUserCoins } from './pages/users.js';
+import { handleUsers, handleUserDetail, updateUser, addCoinsToUser, resetUserCoins, exportUserTransactions } from './pages/users.js';
 import { handleLogs, handleRunDetail } from './pages/logs.js';
 import { handleAnalytics, handleAnalyticsExport } from './pages/analytics.js';
 import { handleHealth } from './pages/health.js';
@@ -101,6 +101,15 @@ const server = http.createServer(async (req, res) => {
       return;
     }
 
+    // Merge a duplicate team into this one
+    if (path.match(/^\/teams\/[^/]+\/merge$/)) {
+      const teamId = path.split('/')[2]!;
+      const result = await mergeTeamInto(teamId, formData.sourceTeamId || '');
+      res.writeHead(302, { Location: `/teams/${teamId}?flash=${encodeURIComponent(result.message)}` });
+      res.end();
+      return;
+    }
+
     // Delete team alias
     if (path.match(/^\/teams\/[^/]+\/alias\/[^/]+\/delete$/)) {
       const parts = path.split('/');
@@ -186,6 +195,7 @@ const server = http.createServer(async (req, res) => {
         stars: parseInt(formData.stars),
         gems: parseInt(formData.gems),
         subscriptionTier: formData.subscriptionTier,
+        subscriptionExpiresAt: formData.subscriptionExpiresAt,
       });
       res.writeHead(302, { Location: `/users/${userId}?flash=${encodeURIComponent(result.message)}` });
       res.end();
@@ -353,6 +363,33 @@ const server = http.createServer(async (req, res) => {
     }
   }
 
+  // User transaction ledger export (CSV), written out batch by batch
+  if (path.match(/^\/users\/[^/]+\/transactions\.csv$/) && dbConfig.configured) {
+    try {
+      const result = await exportUserTransactions(path.split('/')[2]!, query);
+      if ('error' in result) {
+        res.statusCode = 400;
+        res.end(`Error: ${result.error}`);
+        return;
+      }
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+      for await (const chunk of result.rows) {
+        res.write(chunk);
+      }
+      res.end();
+      return;
+    } catch (error: any) {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.statusCode = 500;
+      res.end(`Error: ${error.message}`);
+      return;
+    }
+  }
+
   // Database not configured
   if (!dbConfig.configured) {
     res.end(layout('Database Required', `
@@ -435,7 +472,7 @@ pnpm --filter @sport-sage/cms start</pre>
 
       case path.match(/^\/teams\/[^/]+$/) !== null:
         const teamId = path.split('/')[2]!;
-        body = await handleTeamDetail(teamId, ENVIRONMENT, query.get('flash') || undefined);
+        body = await handleTeamDetail(teamId, ENVIRONMENT, query.get('flash') || undefined, query.get('mergeFrom') || undefined);
         break;
 
       case path === '/sports':
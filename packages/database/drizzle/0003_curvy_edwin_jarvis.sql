@@ -0,0 +1,2 @@
+ALTER TABLE "predictions" ADD COLUMN "idempotency_key" varchar(100);--> statement-breakpoint
+CREATE UNIQUE INDEX "predictions_user_idempotency_key_idx" ON "predictions" USING btree ("user_id","idempotency_key");
\ No newline at end of file
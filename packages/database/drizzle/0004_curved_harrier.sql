@@ -0,0 +1,17 @@
+CREATE TABLE "store_receipts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"store_transaction_id" varchar(255) NOT NULL,
+	"product_id" varchar(100) NOT NULL,
+	"gem_pack_id" uuid,
+	"gems_credited" integer DEFAULT 0 NOT NULL,
+	"is_sandbox" boolean DEFAULT false NOT NULL,
+	"purchased_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "store_receipts" ADD CONSTRAINT "store_receipts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "store_receipts" ADD CONSTRAINT "store_receipts_gem_pack_id_gem_packs_id_fk" FOREIGN KEY ("gem_pack_id") REFERENCES "public"."gem_packs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "store_receipts_platform_transaction_idx" ON "store_receipts" USING btree ("platform","store_transaction_id");--> statement-breakpoint
+CREATE INDEX "store_receipts_user_id_idx" ON "store_receipts" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "user_challenges_user_challenge_idx" ON "user_challenges" USING btree ("user_id","challenge_id");
\ No newline at end of file
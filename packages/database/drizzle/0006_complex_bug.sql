@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "user_achievements_user_achievement_idx" ON "user_achievements" USING btree ("user_id","achievement_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "referrals_referred_user_id_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "referrals_referred_user_id_idx" ON "referrals" USING btree ("referred_user_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "leaderboard_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"period" varchar(20) NOT NULL,
+	"period_key" varchar(20) NOT NULL,
+	"period_start" timestamp with time zone NOT NULL,
+	"period_end" timestamp with time zone NOT NULL,
+	"user_id" uuid NOT NULL,
+	"rank" integer NOT NULL,
+	"stars" integer DEFAULT 0 NOT NULL,
+	"wins" integer DEFAULT 0 NOT NULL,
+	"losses" integer DEFAULT 0 NOT NULL,
+	"reward_coins" integer DEFAULT 0 NOT NULL,
+	"reward_stars" integer DEFAULT 0 NOT NULL,
+	"reward_gems" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "leaderboard_snapshots" ADD CONSTRAINT "leaderboard_snapshots_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "leaderboard_snapshots_period_user_idx" ON "leaderboard_snapshots" USING btree ("period","period_key","user_id");--> statement-breakpoint
+CREATE INDEX "leaderboard_snapshots_period_rank_idx" ON "leaderboard_snapshots" USING btree ("period","period_key","rank");--> statement-breakpoint
+CREATE INDEX "leaderboard_snapshots_user_id_idx" ON "leaderboard_snapshots" USING btree ("user_id");
\ No newline at end of file
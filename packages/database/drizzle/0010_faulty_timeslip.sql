@@ -0,0 +1,2 @@
+ALTER TABLE "user_stats" ADD COLUMN "best_login_streak" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "timezone" varchar(64) DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."transaction_type" ADD VALUE 'streak_shield';--> statement-breakpoint
+ALTER TYPE "public"."activity_type" ADD VALUE 'streak_shield_used';--> statement-breakpoint
+ALTER TABLE "user_inventory" ADD COLUMN "auto_use_streak_shields" boolean DEFAULT false NOT NULL;
\ No newline at end of file
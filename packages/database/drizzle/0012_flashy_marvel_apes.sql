@@ -0,0 +1,15 @@
+CREATE TABLE "ad_rewards" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"network" varchar(50) NOT NULL,
+	"network_transaction_id" varchar(255) NOT NULL,
+	"ad_unit" varchar(255) NOT NULL,
+	"coins_credited" integer DEFAULT 0 NOT NULL,
+	"watched_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_stats" ADD COLUMN "last_ad_watched_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "ad_rewards" ADD CONSTRAINT "ad_rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "ad_rewards_network_transaction_idx" ON "ad_rewards" USING btree ("network","network_transaction_id");--> statement-breakpoint
+CREATE INDEX "ad_rewards_user_id_idx" ON "ad_rewards" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TYPE "public"."transaction_type" ADD VALUE 'prediction_cashout' BEFORE 'daily_topup';--> statement-breakpoint
+CREATE TABLE "cashout_quotes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"prediction_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"coins" integer NOT NULL,
+	"current_odds" numeric(8, 2) NOT NULL,
+	"is_live" boolean DEFAULT false NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"accepted_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cashout_quotes" ADD CONSTRAINT "cashout_quotes_prediction_id_predictions_id_fk" FOREIGN KEY ("prediction_id") REFERENCES "public"."predictions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cashout_quotes" ADD CONSTRAINT "cashout_quotes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "cashout_quotes_prediction_id_idx" ON "cashout_quotes" USING btree ("prediction_id");
\ No newline at end of file
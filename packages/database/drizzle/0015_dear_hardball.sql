@@ -0,0 +1 @@
+ALTER TYPE "public"."audit_action" ADD VALUE 'merge';
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "outcomes" ADD COLUMN "odds_sources" jsonb;--> statement-breakpoint
+ALTER TABLE "outcomes" ADD COLUMN "odds_spread" numeric(6, 4);--> statement-breakpoint
+ALTER TABLE "odds_history" ADD COLUMN "sources" jsonb;--> statement-breakpoint
+ALTER TABLE "odds_history" ADD COLUMN "spread" varchar(20);
\ No newline at end of file
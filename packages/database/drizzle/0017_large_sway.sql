@@ -0,0 +1,9 @@
+CREATE TABLE "leaderboard_period_closures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"period" varchar(20) NOT NULL,
+	"period_key" varchar(20) NOT NULL,
+	"participants" integer DEFAULT 0 NOT NULL,
+	"closed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "leaderboard_period_closures_period_key_idx" ON "leaderboard_period_closures" USING btree ("period","period_key");
\ No newline at end of file
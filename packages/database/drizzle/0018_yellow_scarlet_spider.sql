@@ -0,0 +1,2 @@
+ALTER TABLE "user_stats" ADD COLUMN "last_login_local_day" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "timezone_changed_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_stats" ADD COLUMN "ad_count_resets_at" timestamp with time zone;
\ No newline at end of file
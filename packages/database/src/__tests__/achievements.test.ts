@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '../index.js';
+import { evaluateAchievements, isAchievementVisible } from '../services/achievements.js';
+import { achievements, userAchievements, type Achievement } from '../schema/gamification.js';
+import { userStats, type UserStats } from '../schema/users.js';
+
+interface ProgressRow {
+  achievementId: string;
+  currentProgress: number;
+  isUnlocked: boolean;
+}
+
+/**
+ * Just enough of a database for evaluateAchievements: user_achievements keeps
+ * one row per achievement, unlocked rows keep their progress, and activity
+ * rows are collected. An unlock always follows the upsert for the same
+ * achievement, so it applies to the last row written.
+ */
+function createFakeDb(all: Achievement[], stats: Partial<UserStats>, existing: ProgressRow[] = []) {
+  const progress = new Map(existing.map((row) => [row.achievementId, { ...row }]));
+  const activity: Array<Record<string, unknown>> = [];
+  let lastWritten: string | null = null;
+
+  const select = () => ({
+    from: (table: unknown) => {
+      if (table === achievements) return Promise.resolve(all);
+      if (table === userStats) return { where: () => ({ limit: async () => [stats] }) };
+      if (table === userAchievements) return { where: async () => [...progress.values()] };
+      throw new Error('Unexpected table');
+    },
+  });
+
+  const insert = (table: unknown) => ({
+    values: (values: Record<string, unknown>) => {
+      if (table !== userAchievements) {
+        activity.push(values);
+        return Promise.resolve();
+      }
+      return {
+        onConflictDoUpdate: async () => {
+          const id = values.achievementId as string;
+          const row = progress.get(id);
+          lastWritten = id;
+          if (row?.isUnlocked) return;
+          progress.set(id, { achievementId: id, currentProgress: values.currentProgress as number, isUnlocked: false });
+        },
+      };
+    },
+  });
+
+  const update = () => ({
+    set: () => ({
+      where: () => ({
+        returning: async () => {
+          const row = lastWritten ? progress.get(lastWritten) : undefined;
+          if (!row || row.isUnlocked) return [];
+          row.isUnlocked = true;
+          return [row];
+        },
+      }),
+    }),
+  });
+
+  return { db: { select, insert, update } as unknown as Database, progress, activity };
+}
+
+function achievement(id: string, tier: Achievement['tier'], requirementValue: number, nextTierId: string | null = null): Achievement {
+  return {
+    id,
+    category: 'wins',
+    tier,
+    name: `Winner (${tier})`,
+    description: `Win ${requirementValue} predictions`,
+    iconName: 'trophy',
+    requirementType: 'total_wins',
+    requirementValue,
+    requirementSportSlug: null,
+    additionalCriteria: null,
+    rewardCoins: 0,
+    rewardStars: 0,
+    rewardGems: 0,
+    nextTierId,
+    isHidden: false,
+    sortOrder: 0,
+  };
+}
+
+// Listed top tier first, so the evaluator has to put them in order itself
+const tiers = [
+  achievement('gold', 'gold', 25),
+  achievement('silver', 'silver', 10, 'gold'),
+  achievement('bronze', 'bronze', 5, 'silver'),
+];
+
+describe('evaluateAchievements', () => {
+  it('unlocks a tier and the one it opens in the same pass', async () => {
+    const { db, progress, activity } = createFakeDb(tiers, { totalWins: 12 });
+
+    expect(await evaluateAchievements(db, 'user-1')).toEqual(['bronze', 'silver']);
+    expect(progress.get('gold')).toEqual({ achievementId: 'gold', currentProgress: 12, isUnlocked: false });
+    expect(activity.map((a) => a.achievementId)).toEqual(['bronze', 'silver']);
+  });
+
+  it('does not track a tier until the one before it unlocks', async () => {
+    const { db, progress } = createFakeDb(tiers, { totalWins: 3 });
+
+    expect(await evaluateAchievements(db, 'user-1')).toEqual([]);
+    expect(progress.get('bronze')?.currentProgress).toBe(3);
+    expect(progress.has('silver')).toBe(false);
+  });
+
+  it('announces nothing when run again', async () => {
+    const { db, activity } = createFakeDb(tiers, { totalWins: 12 }, [
+      { achievementId: 'bronze', currentProgress: 5, isUnlocked: true },
+      { achievementId: 'silver', currentProgress: 10, isUnlocked: true },
+      { achievementId: 'gold', currentProgress: 12, isUnlocked: false },
+    ]);
+
+    expect(await evaluateAchievements(db, 'user-1')).toEqual([]);
+    expect(activity).toEqual([]);
+  });
+
+  it('leaves requirement types it cannot measure alone', async () => {
+    const unknown = { ...achievement('mystery', 'bronze', 1), requirementType: 'perfect_weekend' };
+    const { db, progress } = createFakeDb([unknown], { totalWins: 100 });
+
+    expect(await evaluateAchievements(db, 'user-1')).toEqual([]);
+    expect(progress.size).toBe(0);
+  });
+});
+
+describe('isAchievementVisible', () => {
+  it('hides a hidden achievement until it is unlocked', () => {
+    expect(isAchievementVisible({ isHidden: true }, false)).toBe(false);
+    expect(isAchievementVisible({ isHidden: true }, true)).toBe(true);
+    expect(isAchievementVisible({ isHidden: false }, false)).toBe(true);
+  });
+});
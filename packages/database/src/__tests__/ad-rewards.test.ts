@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '../index.js';
+import { creditAdReward, getAdRewardStatus, type VerifiedAdWatch } from '../services/ad-rewards.js';
+import { users, userStats, type UserStats } from '../schema/users.js';
+import { adRewards, transactions, AD_REWARD_DAILY_LIMIT } from '../schema/transactions.js';
+
+type AdStats = Pick<UserStats, 'adsWatchedToday' | 'lastAdWatchedAt' | 'adCountResetsAt'>;
+
+/**
+ * Just enough of a database for creditAdReward: ad_rewards keeps its unique
+ * (network, networkTransactionId) index, and the user's timezone, stats row
+ * and ledger rows are kept.
+ */
+function createFakeDb(timezone: string, stats: AdStats = { adsWatchedToday: 0, lastAdWatchedAt: null, adCountResetsAt: null }) {
+  const user = { id: 'user-1', timezone };
+  const row = { userId: user.id, ...stats } as UserStats;
+  const watches: Array<Record<string, unknown>> = [];
+  const ledger: Array<Record<string, unknown>> = [];
+
+  const select = () => ({
+    from: (table: unknown) => ({
+      where: () => ({
+        limit: () => {
+          if (table === users) return Promise.resolve([user]);
+          if (table === userStats) return { for: async () => [row] };
+          throw new Error('Unexpected table');
+        },
+      }),
+    }),
+  });
+
+  const insert = (table: unknown) => ({
+    values: (values: Record<string, unknown>) => {
+      if (table === transactions) {
+        ledger.push(values);
+        return Promise.resolve();
+      }
+      if (table !== adRewards) throw new Error('Unexpected table');
+      return {
+        onConflictDoNothing: () => ({
+          returning: async () => {
+            const taken = watches.some(
+              (w) => w.network === values.network && w.networkTransactionId === values.networkTransactionId
+            );
+            if (taken) return [];
+            const watch = { id: `ad-${watches.length + 1}`, ...values };
+            watches.push(watch);
+            return [watch];
+          },
+        }),
+      };
+    },
+  });
+
+  const update = (table: unknown) => ({
+    set: (values: Record<string, unknown>) => ({
+      where: () => ({
+        returning: async () => (table === userStats ? [Object.assign(row, values)] : [{ coins: 0, stars: 0, gems: 0 }]),
+      }),
+    }),
+  });
+
+  const db = { transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn({ select, insert, update }) };
+
+  return { db: db as unknown as Database, row, watches, ledger };
+}
+
+function watch(networkTransactionId: string, at: Date): VerifiedAdWatch {
+  return { userId: 'user-1', network: 'admob', networkTransactionId, adUnit: 'rewarded', watchedAt: at };
+}
+
+describe('creditAdReward', () => {
+  const at = new Date('2026-03-01T12:00:00Z');
+
+  it('credits a replayed callback only once', async () => {
+    const { db, ledger } = createFakeDb('Europe/London');
+
+    expect((await creditAdReward(db, watch('tx-1', at), at)).status).toBe('credited');
+    expect(await creditAdReward(db, watch('tx-1', at), at)).toEqual({ status: 'rejected', error: 'duplicate' });
+    expect(ledger).toHaveLength(1);
+  });
+
+  it('records capped watches without paying them', async () => {
+    const { db, watches, ledger } = createFakeDb('Europe/London');
+
+    for (let i = 0; i < AD_REWARD_DAILY_LIMIT; i++) {
+      expect((await creditAdReward(db, watch(`tx-${i}`, at), at)).status).toBe('credited');
+    }
+
+    expect(await creditAdReward(db, watch('tx-over', at), at)).toEqual({ status: 'rejected', error: 'daily_limit' });
+    expect(watches.at(-1)?.coinsCredited).toBe(0);
+    expect(ledger).toHaveLength(AD_REWARD_DAILY_LIMIT);
+  });
+
+  it('does not bring the reset forward when the user moves east', async () => {
+    const { db, row } = createFakeDb('Europe/London');
+    const late = new Date('2026-03-01T23:00:00Z');
+
+    for (let i = 0; i < AD_REWARD_DAILY_LIMIT; i++) await creditAdReward(db, watch(`tx-${i}`, late), late);
+
+    // Already 2 March in Tokyo, but the count runs to London's midnight
+    const status = getAdRewardStatus(row, 'Asia/Tokyo', late);
+    expect(status.remainingToday).toBe(0);
+    expect(status.resetsAt).toEqual(new Date('2026-03-02T00:00:00Z'));
+    expect(getAdRewardStatus(row, 'Asia/Tokyo', new Date('2026-03-02T00:00:00Z')).remainingToday).toBe(AD_REWARD_DAILY_LIMIT);
+  });
+
+  it('keeps the count going after moving west until the reset it started with', async () => {
+    const { db, row } = createFakeDb('Asia/Tokyo');
+    // 2 March in Tokyo, 1 March in Los Angeles
+    const tokyo = new Date('2026-03-01T16:00:00Z');
+
+    for (let i = 0; i < AD_REWARD_DAILY_LIMIT; i++) await creditAdReward(db, watch(`tx-${i}`, tokyo), tokyo);
+
+    const status = getAdRewardStatus(row, 'America/Los_Angeles', new Date('2026-03-02T01:00:00Z'));
+    expect(status.remainingToday).toBe(0);
+    expect(status.resetsAt).toEqual(new Date('2026-03-02T15:00:00Z'));
+  });
+});
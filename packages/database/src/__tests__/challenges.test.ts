@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { Challenge } from '../schema/gamification.js';
+import { getChallengeProgressUpdate, matchesChallengeCriteria, type ChallengePrediction } from '../services/challenges.js';
+
+const startsAt = new Date('2026-03-01T00:00:00Z');
+const expiresAt = new Date('2026-03-02T00:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function challenge(overrides: Partial<Challenge> = {}): Challenge {
+  return {
+    id: 'challenge-1',
+    type: 'win_predictions',
+    difficulty: 'easy',
+    title: 'Win 2 predictions',
+    description: 'Win 2 predictions today',
+    iconName: 'trophy',
+    targetValue: 2,
+    sportSlug: null,
+    marketType: null,
+    minOdds: null,
+    maxOdds: null,
+    requireLive: false,
+    requireAccumulator: false,
+    rewardCoins: 100,
+    rewardStars: 0,
+    rewardGems: 0,
+    startsAt,
+    expiresAt,
+    isWeekly: false,
+    sortOrder: 0,
+    ...overrides,
+  };
+}
+
+function prediction(placedAt: Date, overrides: Partial<ChallengePrediction> = {}): ChallengePrediction {
+  return {
+    id: 'prediction-1',
+    userId: 'user-1',
+    type: 'single',
+    status: 'won',
+    totalOdds: 2.5,
+    placedAt,
+    legs: [{ sportSlug: 'football', marketType: 'match_winner', isLive: false }],
+    ...overrides,
+  };
+}
+
+describe('matchesChallengeCriteria', () => {
+  it('counts a prediction placed at the start of the window but not one placed at its end', () => {
+    expect(matchesChallengeCriteria(challenge(), prediction(startsAt))).toBe(true);
+    expect(matchesChallengeCriteria(challenge(), prediction(new Date(startsAt.getTime() - 1)))).toBe(false);
+    expect(matchesChallengeCriteria(challenge(), prediction(expiresAt))).toBe(false);
+  });
+
+  it('needs every leg of an accumulator to match the sport', () => {
+    const acca = prediction(startsAt, {
+      type: 'accumulator',
+      legs: [
+        { sportSlug: 'football', marketType: 'match_winner', isLive: false },
+        { sportSlug: 'tennis', marketType: 'match_winner', isLive: false },
+      ],
+    });
+
+    expect(matchesChallengeCriteria(challenge({ sportSlug: 'football' }), acca)).toBe(false);
+  });
+
+  it('compares odds against limits stored as odds x 100', () => {
+    expect(matchesChallengeCriteria(challenge({ minOdds: 250 }), prediction(startsAt))).toBe(true);
+    expect(matchesChallengeCriteria(challenge({ minOdds: 251 }), prediction(startsAt))).toBe(false);
+    expect(matchesChallengeCriteria(challenge({ maxOdds: 249 }), prediction(startsAt))).toBe(false);
+  });
+});
+
+describe('getChallengeProgressUpdate', () => {
+  const placedAt = new Date(expiresAt.getTime() - HOUR);
+  const settledAfterExpiry = new Date(expiresAt.getTime() + 2 * HOUR);
+
+  it('credits a win on a prediction placed in the window and settled after it expired', () => {
+    expect(getChallengeProgressUpdate(challenge(), 'settled', prediction(placedAt), 1, settledAfterExpiry))
+      .toEqual({ mode: 'increment', amount: 1 });
+  });
+
+  it('ignores a win on a prediction placed before the window opened', () => {
+    const early = prediction(new Date(startsAt.getTime() - HOUR));
+    expect(getChallengeProgressUpdate(challenge(), 'settled', early, 1, placedAt)).toBeNull();
+  });
+
+  it('ignores losses and placement-only challenge types on settlement', () => {
+    expect(getChallengeProgressUpdate(challenge(), 'settled', prediction(placedAt, { status: 'lost' }), 0, placedAt)).toBeNull();
+    expect(getChallengeProgressUpdate(challenge({ type: 'place_predictions' }), 'settled', prediction(placedAt), 1, placedAt)).toBeNull();
+  });
+
+  it('records the current streak only while a win_streak challenge runs', () => {
+    const streak = challenge({ type: 'win_streak', targetValue: 3 });
+    const old = prediction(new Date(startsAt.getTime() - HOUR), { status: 'lost' });
+
+    expect(getChallengeProgressUpdate(streak, 'settled', old, 0, placedAt)).toEqual({ mode: 'set', value: 0 });
+    expect(getChallengeProgressUpdate(streak, 'settled', prediction(placedAt), 2, settledAfterExpiry)).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '../index.js';
+import { creditGemPurchase, calculatePackGems, type VerifiedGemPurchase } from '../services/gem-purchases.js';
+import { storeReceipts, type GemPack } from '../schema/shop.js';
+import { transactions } from '../schema/transactions.js';
+
+/**
+ * Just enough of a database for creditGemPurchase: store_receipts keeps its
+ * unique (platform, storeTransactionId) index, and user updates and ledger
+ * rows are counted.
+ */
+function createFakeDb() {
+  const receipts: Array<Record<string, unknown> & { id: string }> = [];
+  const ledger: Array<Record<string, unknown>> = [];
+  let userUpdates = 0;
+
+  const insert = (table: unknown) => ({
+    values: (values: Record<string, unknown>) => {
+      if (table === transactions) ledger.push(values);
+      return {
+        onConflictDoNothing: () => ({
+          returning: async () => {
+            if (table !== storeReceipts) return [];
+            const taken = receipts.some(
+              (r) => r.platform === values.platform && r.storeTransactionId === values.storeTransactionId
+            );
+            if (taken) return [];
+            const row = { id: `receipt-${receipts.length + 1}`, ...values };
+            receipts.push(row);
+            return [row];
+          },
+        }),
+      };
+    },
+  });
+
+  const update = () => ({
+    set: () => ({
+      where: () => ({
+        returning: async () => {
+          userUpdates++;
+          return [{ gems: 0 }];
+        },
+      }),
+    }),
+  });
+
+  const db = {
+    transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn({ insert, update }),
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => receipts.slice(0, 1) }) }) }),
+  };
+
+  return { db: db as unknown as Database, receipts, ledger, userUpdates: () => userUpdates };
+}
+
+const pack: GemPack = {
+  id: 'pack-1',
+  name: 'Sack of Gems',
+  gems: 500,
+  bonusPercent: 10,
+  priceGbp: '4.99',
+  priceUsd: '4.99',
+  appleProductId: 'gems_500',
+  googleProductId: 'gems_500',
+  isPopular: false,
+  isBestValue: false,
+  sortOrder: 0,
+  isActive: true,
+};
+
+const purchase: VerifiedGemPurchase = {
+  userId: '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b',
+  platform: 'apple',
+  storeTransactionId: '1000000123456789',
+  productId: 'gems_500',
+  purchasedAt: new Date('2026-01-15T12:00:00Z'),
+  isSandbox: false,
+};
+
+describe('creditGemPurchase', () => {
+  it('should credit the pack including its bonus', async () => {
+    const fake = createFakeDb();
+
+    const result = await creditGemPurchase(fake.db, purchase, pack);
+
+    expect(result).toMatchObject({ status: 'credited', receiptId: 'receipt-1', gemsCredited: 550 });
+    expect(calculatePackGems(pack)).toBe(550);
+    expect(fake.ledger).toHaveLength(1);
+    expect(fake.ledger[0]).toMatchObject({ amount: 550, referenceId: 'receipt-1', referenceType: 'store_receipt' });
+  });
+
+  it('should not credit the same store transaction twice', async () => {
+    const fake = createFakeDb();
+
+    await creditGemPurchase(fake.db, purchase, pack);
+    const replay = await creditGemPurchase(fake.db, purchase, pack);
+
+    expect(replay).toEqual({ status: 'duplicate', receiptId: 'receipt-1', userId: purchase.userId, gemsCredited: 550 });
+    expect(fake.receipts).toHaveLength(1);
+    expect(fake.userUpdates()).toBe(1);
+    expect(fake.ledger).toHaveLength(1);
+  });
+
+  it('should credit a different transaction for the same product', async () => {
+    const fake = createFakeDb();
+
+    await creditGemPurchase(fake.db, purchase, pack);
+    const second = await creditGemPurchase(fake.db, { ...purchase, storeTransactionId: '1000000123456790' }, pack);
+
+    expect(second.status).toBe('credited');
+    expect(fake.userUpdates()).toBe(2);
+    expect(fake.ledger).toHaveLength(2);
+  });
+});
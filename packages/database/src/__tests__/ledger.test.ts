@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { iterateLedger } from '../services/ledger.js';
+import type { Transaction } from '../schema/transactions.js';
+
+const dialect = new PgDialect();
+
+// Postgres text timestamps, all in the same millisecond
+const rows = [
+  { id: 'a', createdAt: '2026-03-01 12:00:00.123456+00' },
+  { id: 'c', createdAt: '2026-03-01 12:00:00.123456+00' },
+  { id: 'b', createdAt: '2026-03-01 12:00:00.123789+00' },
+];
+
+/**
+ * Serves the rows in (createdAt, id) order, after the cursor found in the
+ * query's parameters - as Postgres would with microsecond timestamps
+ */
+function createFakeDb() {
+  const cursors: unknown[][] = [];
+
+  const db = {
+    select: () => ({
+      from: () => ({
+        where: (condition: SQL) => ({
+          orderBy: () => ({
+            limit: async (limit: number) => {
+              const { params } = dialect.sqlToQuery(condition);
+              const at = params.find((p) => typeof p === 'string' && p.startsWith('2026-')) as string | undefined;
+              const id = at === undefined ? undefined : params[params.indexOf(at) + 2];
+              cursors.push(at === undefined ? [] : [at, id]);
+
+              return rows
+                .filter((row) => at === undefined || row.createdAt > at || (row.createdAt === at && row.id > (id as string)))
+                .slice(0, limit)
+                .map((row) => ({ transaction: { id: row.id } as Transaction, createdAt: row.createdAt }));
+            },
+          }),
+        }),
+      }),
+    }),
+  };
+
+  return { db: db as unknown as Database, cursors };
+}
+
+describe('iterateLedger', () => {
+  it('returns each row once when timestamps differ only in microseconds', async () => {
+    const { db, cursors } = createFakeDb();
+
+    const ids: string[] = [];
+    for await (const batch of iterateLedger(db, 'user-1', {}, 1)) {
+      ids.push(...batch.map((t) => t.id));
+    }
+
+    expect(ids).toEqual(['a', 'c', 'b']);
+    // The cursor carries Postgres' own text, microseconds included
+    expect(cursors[1]).toEqual(['2026-03-01 12:00:00.123456+00', 'a']);
+    expect(cursors[3]).toEqual(['2026-03-01 12:00:00.123789+00', 'b']);
+  });
+});
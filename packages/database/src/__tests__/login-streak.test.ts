@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '../index.js';
+import { checkInDailyLogin, getLocalDayNumber, getLoginStreakStatus } from '../services/login-streak.js';
+import { userStats, type UserStats } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+import { activityFeed } from '../schema/social.js';
+
+type StreakStats = Pick<UserStats, 'loginStreak' | 'bestLoginStreak' | 'lastLoginDate' | 'lastLoginLocalDay'>;
+
+function checkedIn(at: string, timeZone: string, loginStreak = 3): StreakStats {
+  const date = new Date(at);
+  return { loginStreak, bestLoginStreak: loginStreak, lastLoginDate: date, lastLoginLocalDay: getLocalDayNumber(date, timeZone) };
+}
+
+describe('getLoginStreakStatus', () => {
+  const stats = checkedIn('2026-03-01T08:00:00Z', 'Europe/London');
+
+  it('opens the next day at local midnight and keeps the streak alive through it', () => {
+    const sameDay = getLoginStreakStatus(stats, 'Europe/London', new Date('2026-03-01T22:00:00Z'));
+    expect(sameDay.checkedInToday).toBe(true);
+    expect(sameDay.nextCheckInAt).toEqual(new Date('2026-03-02T04:00:00Z'));
+
+    const nextDay = getLoginStreakStatus(stats, 'Europe/London', new Date('2026-03-02T09:00:00Z'));
+    expect(nextDay.checkedInToday).toBe(false);
+    expect(nextDay.currentStreak).toBe(3);
+    expect(nextDay.nextBonusCoins).toBe(125);
+  });
+
+  it('reports a streak that missed a day as 0', () => {
+    const status = getLoginStreakStatus(stats, 'Europe/London', new Date('2026-03-03T09:00:00Z'));
+    expect(status.currentStreak).toBe(0);
+    expect(status.bestStreak).toBe(3);
+  });
+
+  it('waits the minimum gap after a late check-in', () => {
+    const late = checkedIn('2026-03-01T23:30:00Z', 'Europe/London');
+
+    expect(getLoginStreakStatus(late, 'Europe/London', new Date('2026-03-02T00:30:00Z')).checkedInToday).toBe(true);
+    expect(getLoginStreakStatus(late, 'Europe/London', new Date('2026-03-02T19:30:00Z')).checkedInToday).toBe(false);
+  });
+
+  it('does not open a new day by moving east', () => {
+    const late = checkedIn('2026-03-01T23:30:00Z', 'Europe/London');
+    // Already 2 March in Tokyo
+    const status = getLoginStreakStatus(late, 'Asia/Tokyo', new Date('2026-03-02T00:30:00Z'));
+
+    expect(status.checkedInToday).toBe(true);
+    expect(status.nextCheckInAt).toEqual(new Date('2026-03-02T19:30:00Z'));
+  });
+
+  it('does not repeat the stored day by moving west', () => {
+    // 2 March in Tokyo, still 1 March in Los Angeles
+    const tokyo = checkedIn('2026-03-01T16:00:00Z', 'Asia/Tokyo');
+    const status = getLoginStreakStatus(tokyo, 'America/Los_Angeles', new Date('2026-03-02T13:00:00Z'));
+
+    expect(status.checkedInToday).toBe(true);
+    expect(status.nextCheckInAt).toEqual(new Date('2026-03-03T08:00:00Z'));
+  });
+});
+
+/**
+ * Just enough of a database for checkInDailyLogin: one userStats row, the
+ * user's balances, and the ledger and activity rows written. There are no
+ * achievements to evaluate.
+ */
+function createFakeDb(stats: StreakStats) {
+  const row = { userId: 'user-1', ...stats } as UserStats;
+  const balances = { coins: 1000, stars: 0, gems: 0 };
+  const ledger: Array<Record<string, unknown>> = [];
+  const activity: Array<Record<string, unknown>> = [];
+
+  const select = () => ({
+    from: (table: unknown) => {
+      if (table === userStats) return { where: () => ({ limit: () => ({ for: async () => [row] }) }) };
+      return Promise.resolve([]);
+    },
+  });
+
+  const update = (table: unknown) => ({
+    set: (values: Record<string, unknown>) => ({
+      where: () => ({
+        returning: async () => {
+          if (table === userStats) return [Object.assign(row, values)];
+          return [balances];
+        },
+      }),
+    }),
+  });
+
+  const insert = (table: unknown) => ({
+    values: async (values: Record<string, unknown>) => {
+      if (table === transactions) ledger.push(values);
+      if (table === activityFeed) activity.push(values);
+    },
+  });
+
+  const tx = { select, update, insert };
+  const db = { transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(tx) };
+
+  return { db: db as unknown as Database, row, ledger, activity };
+}
+
+describe('checkInDailyLogin', () => {
+  it('pays the day 7 bonus and the 7-day milestone once', async () => {
+    const { db, row, ledger, activity } = createFakeDb(checkedIn('2026-03-01T08:00:00Z', 'Europe/London', 6));
+    const at = new Date('2026-03-02T08:00:00Z');
+
+    const result = await checkInDailyLogin(db, 'user-1', 'Europe/London', at);
+
+    expect(result.status).toBe('checked_in');
+    if (result.status !== 'checked_in') return;
+    expect(result.bonusCoins).toBe(250);
+    expect(result.milestoneReward).toEqual({ coins: 500, stars: 50, gems: 0 });
+    expect(result.streak.currentStreak).toBe(7);
+    expect(row.lastLoginLocalDay).toBe(getLocalDayNumber(at, 'Europe/London'));
+    expect(ledger).toHaveLength(3);
+    expect(activity).toHaveLength(1);
+
+    const again = await checkInDailyLogin(db, 'user-1', 'Asia/Tokyo', new Date('2026-03-02T16:00:00Z'));
+    expect(again.status).toBe('already_checked_in');
+    expect(ledger).toHaveLength(3);
+  });
+});
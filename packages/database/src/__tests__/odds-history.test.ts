@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { downsampleOdds, detectSteamMove, STEAM_MOVE, type OddsPoint } from '../services/odds-history.js';
+
+const start = new Date('2026-03-01T12:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+function point(minutes: number, odds: number): OddsPoint {
+  return { at: new Date(start + minutes * MINUTE), odds };
+}
+
+describe('downsampleOdds', () => {
+  it('leaves a series that already fits alone', () => {
+    const points = [point(0, 2), point(10, 2.1), point(20, 2.2)];
+    expect(downsampleOdds(points, 3)).toBe(points);
+  });
+
+  it('keeps the opening point and the last price in each slice of time', () => {
+    // One price a minute for 100 minutes, sampled to 5 points: the opening and 4 slices of 25 minutes
+    const points = Array.from({ length: 101 }, (_, i) => point(i, 2 + i / 100));
+    const sampled = downsampleOdds(points, 5);
+
+    expect(sampled).toHaveLength(5);
+    expect(sampled[0]).toBe(points[0]);
+    expect(sampled[sampled.length - 1]).toBe(points[100]);
+    expect(sampled.map((p) => (p.at.getTime() - start) / MINUTE)).toEqual([0, 24, 49, 74, 100]);
+  });
+
+  it('never returns more points than asked for', () => {
+    const points = Array.from({ length: 1000 }, (_, i) => point(i * 7, 1.5 + (i % 13) / 10));
+    expect(downsampleOdds(points, 50).length).toBeLessThanOrEqual(50);
+  });
+});
+
+describe('detectSteamMove', () => {
+  const now = new Date(start + 60 * MINUTE);
+
+  it('finds a sharp shortening within the window', () => {
+    const move = detectSteamMove([point(0, 3), point(40, 3), point(50, 2.5), point(55, 2.6)], now);
+
+    expect(move).not.toBeNull();
+    expect(move!.from.odds).toBe(3);
+    expect(move!.to).toEqual(point(55, 2.6));
+    expect(move!.changePercent).toBe(-13.33);
+  });
+
+  it('ignores a shortening spread over longer than the window', () => {
+    const points = [point(0, 3), point(STEAM_MOVE.windowMinutes + 5, 2.5)];
+    expect(detectSteamMove(points, now)).toBeNull();
+  });
+
+  it('ignores a drift out or a small move', () => {
+    expect(detectSteamMove([point(40, 2.5), point(50, 3)], now)).toBeNull();
+    expect(detectSteamMove([point(40, 2.5), point(50, 2.4)], now)).toBeNull();
+  });
+
+  it('does not report a move that ended longer ago than recentMinutes', () => {
+    const points = [point(0, 3), point(10, 2.5)];
+    const later = new Date(start + (10 + STEAM_MOVE.recentMinutes + 1) * MINUTE);
+
+    expect(detectSteamMove(points, new Date(start + 30 * MINUTE))).not.toBeNull();
+    expect(detectSteamMove(points, later)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getFairProbabilities,
+  getHouseMargin,
+  getOverround,
+  priceMarket,
+  removeMarginProportional,
+  removeMarginShin,
+} from '../services/pricing.js';
+
+describe('removing the margin', () => {
+  it('leaves a book with no margin unchanged', () => {
+    const odds = [2, 4, 4];
+
+    for (const method of ['proportional', 'shin'] as const) {
+      const probabilities = getFairProbabilities(odds, method);
+      probabilities.forEach((p, i) => expect(p).toBeCloseTo(1 / odds[i]!, 10));
+    }
+  });
+
+  it('gives fair probabilities that add up to 1', () => {
+    const odds = [1.5, 4.0, 7.0];
+    expect(removeMarginShin(odds).reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+    expect(removeMarginProportional(odds).reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+  });
+
+  it('takes more of the margin off longshots with Shin than proportionally', () => {
+    const odds = [1.5, 4.0, 7.0];
+    const shin = removeMarginShin(odds);
+    const proportional = removeMarginProportional(odds);
+
+    // The longshot's fair chance is lower under Shin, so more margin came off it...
+    expect(shin[2]).toBeLessThan(proportional[2]!);
+    // ...and the favourite's is higher
+    expect(shin[0]).toBeGreaterThan(proportional[0]!);
+  });
+});
+
+describe('priceMarket', () => {
+  it("reprices a book to the sport's house margin, within rounding", () => {
+    const priced = priceMarket({ 'Home Win': 2.1, Draw: 3.4, 'Away Win': 3.6 }, 'football');
+    const margin = getHouseMargin('football');
+    const overround = getOverround(Object.values(priced));
+
+    // Odds are rounded down, so the book never carries less than the house margin
+    expect(overround).toBeGreaterThanOrEqual(margin - 1e-9);
+    expect(overround).toBeLessThan(margin + 0.01);
+  });
+
+  it('leaves a book it cannot price alone', () => {
+    expect(priceMarket({ Yes: 1.8 }, 'football')).toEqual({ Yes: 1.8 });
+    expect(priceMarket({ Yes: 1.8, No: 1 }, 'football')).toEqual({ Yes: 1.8, No: 1 });
+  });
+});
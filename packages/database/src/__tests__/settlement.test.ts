@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAccumulatorResult } from '../services/settlement.js';
+
+describe('calculateAccumulatorResult', () => {
+  it('pays the locked-in coins when every leg wins', () => {
+    const legs = [{ status: 'won', odds: '2.00' }, { status: 'won', odds: '1.50' }, { status: 'won', odds: '3.00' }];
+    expect(calculateAccumulatorResult(945, legs)).toEqual({ status: 'won', settledCoins: 945 });
+  });
+
+  it('loses if any leg loses', () => {
+    const legs = [{ status: 'won', odds: '2.00' }, { status: 'void', odds: '1.50' }, { status: 'lost', odds: '3.00' }];
+    expect(calculateAccumulatorResult(945, legs)).toEqual({ status: 'lost', settledCoins: 0 });
+  });
+
+  it('voids when every leg is void', () => {
+    const legs = [{ status: 'void', odds: '2.00' }, { status: 'void', odds: '1.50' }];
+    expect(calculateAccumulatorResult(300, legs)).toEqual({ status: 'void', settledCoins: 0 });
+  });
+
+  it('divides out void legs and pays the bonus for the legs left', () => {
+    // 5 legs at 2.00 with a 100 stake: 100 * 32 * 1.15 (5-fold bonus) = 3680
+    const legs = [
+      { status: 'won', odds: '2.00' },
+      { status: 'won', odds: '2.00' },
+      { status: 'void', odds: '2.00' },
+      { status: 'void', odds: '2.00' },
+      { status: 'void', odds: '2.00' },
+    ];
+
+    // A 2-fold at 2.00 x 2.00 has no bonus: 100 * 4 = 400
+    expect(calculateAccumulatorResult(3680, legs)).toEqual({ status: 'won', settledCoins: 400 });
+  });
+
+  it('keeps a bonus the remaining legs still earn', () => {
+    // 4 legs at 2.00: 100 * 16 * 1.10 = 1760. One void leaves a 3-fold: 100 * 8 * 1.05 = 840
+    const legs = [
+      { status: 'won', odds: '2.00' },
+      { status: 'won', odds: '2.00' },
+      { status: 'won', odds: '2.00' },
+      { status: 'void', odds: '2.00' },
+    ];
+
+    expect(calculateAccumulatorResult(1760, legs)).toEqual({ status: 'won', settledCoins: 840 });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { downgradeExpiredSubscriptions, paySubscriptionBonuses } from '../services/subscriptions.js';
+import { getActiveSubscriptionTier, getEntitlements } from '../services/entitlements.js';
+import { users, type User } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+
+const dialect = new PgDialect();
+const at = new Date('2026-03-31T10:00:00Z');
+
+describe('getActiveSubscriptionTier', () => {
+  it('keeps a paid tier until the moment it expires', () => {
+    const pro = { subscriptionTier: 'pro' as const, subscriptionExpiresAt: at };
+
+    expect(getActiveSubscriptionTier(pro, new Date(at.getTime() - 1))).toBe('pro');
+    expect(getActiveSubscriptionTier(pro, at)).toBe('free');
+    expect(getEntitlements(pro, at).adFree).toBe(false);
+  });
+
+  it('treats a paid tier without an expiry as active', () => {
+    expect(getActiveSubscriptionTier({ subscriptionTier: 'elite', subscriptionExpiresAt: null }, at)).toBe('elite');
+  });
+});
+
+describe('downgradeExpiredSubscriptions', () => {
+  it('moves expired subscriptions to free and turns ads back on', async () => {
+    let set: Record<string, unknown> = {};
+    let where: SQL | undefined;
+    const db = {
+      update: () => ({
+        set: (values: Record<string, unknown>) => {
+          set = values;
+          return {
+            where: (condition: SQL) => {
+              where = condition;
+              return { returning: async () => [{ id: 'user-1', username: 'lapsed' }] };
+            },
+          };
+        },
+      }),
+    } as unknown as Database;
+
+    expect(await downgradeExpiredSubscriptions(db, at)).toEqual([{ id: 'user-1', username: 'lapsed' }]);
+    expect(dialect.sqlToQuery(set.subscriptionTier as SQL).sql).toBe(`'free'::subscription_tier`);
+    expect(set.isAdsEnabled).toBe(true);
+    expect(dialect.sqlToQuery(where!).params).toContain(at.toISOString());
+  });
+});
+
+/**
+ * Just enough of a database for paySubscriptionBonuses: the candidates are
+ * served as given, and each claim returns the user unless an overlapping run
+ * already claimed them.
+ */
+function createFakeDb(subscribers: Array<Pick<User, 'id' | 'subscriptionTier'>>, claimedElsewhere: string[] = []) {
+  const conditions: SQL[] = [];
+  const ledger: Array<Record<string, unknown>> = [];
+  let claiming: string | null = null;
+
+  const tx = {
+    update: (table: unknown) => ({
+      set: () => ({
+        where: () => ({
+          returning: async () => {
+            if (table !== users) throw new Error('Unexpected table');
+            // The first update in each transaction is the claim, the second the credit
+            if (claiming === null) return [{ coins: 0, stars: 0, gems: 0 }];
+            const id = claiming;
+            claiming = null;
+            if (claimedElsewhere.includes(id)) return [];
+            return [subscribers.find((s) => s.id === id)];
+          },
+        }),
+      }),
+    }),
+    insert: (table: unknown) => ({
+      values: async (values: Record<string, unknown>) => {
+        if (table === transactions) ledger.push(values);
+      },
+    }),
+  };
+
+  let current = 0;
+  const db = {
+    select: () => ({
+      from: () => ({
+        where: async (condition: SQL) => {
+          conditions.push(condition);
+          return subscribers.map((s) => ({ id: s.id }));
+        },
+      }),
+    }),
+    transaction: async <T>(fn: (tx: unknown) => Promise<T>) => {
+      claiming = subscribers[current++]!.id;
+      return fn(tx);
+    },
+  };
+
+  return { db: db as unknown as Database, conditions, ledger };
+}
+
+describe('paySubscriptionBonuses', () => {
+  it('pays each tier its monthly bonus, once per claim', async () => {
+    const { db, ledger } = createFakeDb(
+      [
+        { id: 'pro-1', subscriptionTier: 'pro' },
+        { id: 'elite-1', subscriptionTier: 'elite' },
+        { id: 'pro-2', subscriptionTier: 'pro' },
+      ],
+      ['pro-2']
+    );
+
+    expect(await paySubscriptionBonuses(db, at)).toEqual({ usersPaid: 2, coinsPaid: 7500, gemsPaid: 200 });
+    // Pro pays coins and gems, Elite also pays stars
+    expect(ledger.map((row) => row.amount)).toEqual([2500, 50, 5000, 100, 150]);
+  });
+
+  it('looks back one calendar month, clamped to the end of a shorter month', async () => {
+    const { db, conditions } = createFakeDb([]);
+
+    await paySubscriptionBonuses(db, at);
+
+    expect(dialect.sqlToQuery(conditions[0]!).params).toContain('2026-02-28T10:00:00.000Z');
+  });
+});
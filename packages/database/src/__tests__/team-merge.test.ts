@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import type { Database } from '../index.js';
+import { mergeTeams } from '../utils/team-utils.js';
+import { teams, type Team } from '../schema/sports.js';
+
+const target: Team = {
+  id: '00000000-0000-4000-8000-00000000000a',
+  name: 'Manchester United',
+  shortName: 'Man Utd',
+  logoUrl: null,
+  externalFlashscoreId: null,
+  externalOddscheckerId: 'oc-man-utd',
+};
+
+const source: Team = {
+  id: '00000000-0000-4000-8000-00000000000b',
+  name: 'Man United',
+  shortName: null,
+  logoUrl: null,
+  externalFlashscoreId: 'fs-man-utd',
+  externalOddscheckerId: 'oc-man-united',
+};
+
+type Write = { kind: 'update' | 'insert' | 'delete'; table: unknown; values?: Record<string, unknown> };
+
+interface FakeQuery extends Promise<unknown[]> {
+  where(): FakeQuery;
+  orderBy(): FakeQuery;
+  limit(): FakeQuery;
+  for(): FakeQuery;
+}
+
+/**
+ * Just enough of a database for mergeTeams on two teams with no aliases,
+ * competitions or events: reads return the teams or nothing, and every write is
+ * recorded in order.
+ */
+function createFakeDb(teamRows: Team[]) {
+  const writes: Write[] = [];
+
+  // Every read resolves to the given rows, however the query is chained
+  const query = (rows: unknown[]): FakeQuery =>
+    Object.assign(Promise.resolve(rows), {
+      where: () => query(rows),
+      orderBy: () => query(rows),
+      limit: () => query(rows),
+      for: () => query(rows),
+    });
+
+  const tx = {
+    select: () => ({ from: (table: unknown) => query(table === teams ? teamRows : []) }),
+    update: (table: unknown) => ({
+      set: (values: Record<string, unknown>) => {
+        writes.push({ kind: 'update', table, values });
+        return { where: () => Object.assign(Promise.resolve(), { returning: async () => [] }) };
+      },
+    }),
+    insert: (table: unknown) => ({
+      values: async (values: Record<string, unknown>) => {
+        writes.push({ kind: 'insert', table, values });
+      },
+    }),
+    delete: (table: unknown) => ({
+      where: async () => {
+        writes.push({ kind: 'delete', table });
+      },
+    }),
+  };
+
+  const db = { transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(tx) };
+
+  return { db: db as unknown as Database, writes };
+}
+
+describe('mergeTeams', () => {
+  it('copies external IDs the target lacks before deleting the source', async () => {
+    const { db, writes } = createFakeDb([target, source]);
+
+    const result = await mergeTeams(db, target.id, source.id);
+
+    expect(result.status).toBe('merged');
+    const teamWrites = writes.filter((w) => w.table === teams);
+    expect(teamWrites).toEqual([
+      { kind: 'update', table: teams, values: { externalFlashscoreId: 'fs-man-utd', externalOddscheckerId: 'oc-man-utd' } },
+      { kind: 'delete', table: teams },
+    ]);
+  });
+
+  it('leaves the target alone when it already has both external IDs', async () => {
+    const complete = { ...target, externalFlashscoreId: 'fs-man-utd-1' };
+    const { db, writes } = createFakeDb([complete, source]);
+
+    await mergeTeams(db, complete.id, source.id);
+
+    expect(writes.filter((w) => w.table === teams && w.kind === 'update')).toEqual([]);
+  });
+
+  it('refuses to merge a team into itself', async () => {
+    const { db, writes } = createFakeDb([target]);
+
+    expect(await mergeTeams(db, target.id, target.id)).toEqual({ status: 'rejected', error: 'same_team' });
+    expect(writes).toEqual([]);
+  });
+});
@@ -10,6 +10,28 @@ export * from './schema/index.js';
 // Re-export team utilities
 export * from './utils/team-utils.js';
 
+// Re-export shared services
+export * from './services/achievements.js';
+export * from './services/ad-rewards.js';
+export * from './services/activity.js';
+export * from './services/cashout.js';
+export * from './services/challenges.js';
+export * from './services/entitlements.js';
+export * from './services/gem-purchases.js';
+export * from './services/leaderboards.js';
+export * from './services/leagues.js';
+export * from './services/ledger.js';
+export * from './services/login-streak.js';
+export * from './services/odds-history.js';
+export * from './services/pricing.js';
+export * from './services/referrals.js';
+export * from './services/rewards.js';
+export * from './services/settlement.js';
+export * from './services/social.js';
+export * from './services/stars-multiplier.js';
+export * from './services/streak-shields.js';
+export * from './services/subscriptions.js';
+
 // Database client singleton
 let db: ReturnType<typeof createDb> | null = null;
 
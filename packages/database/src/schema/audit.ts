@@ -28,6 +28,7 @@ export const auditActionEnum = pgEnum('audit_action', [
   'release',
   'settle',
   'void',
+  'merge',
 ]);
 
 // Event score history - tracks all score changes for audit trail
@@ -87,6 +88,8 @@ export const oddsHistory = pgTable(
     newOdds: varchar('new_odds', { length: 20 }).notNull(),
     changePercent: varchar('change_percent', { length: 20 }), // e.g. "+50%", "-30%"
     source: varchar('source', { length: 50 }).notNull(),
+    sources: jsonb('sources').$type<string[]>(), // Sources behind a consensus price
+    spread: varchar('spread', { length: 20 }), // Disagreement between those sources, (max - min) / consensus
     isFlagged: integer('is_flagged').notNull().default(0), // 1 if this change triggered a flag
     recordedAt: timestamp('recorded_at', { withTimezone: true }).notNull().defaultNow(),
   },
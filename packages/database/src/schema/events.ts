@@ -11,6 +11,7 @@ import {
   text,
   uniqueIndex,
   check,
+  jsonb,
 } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 import { sports, competitions, teams, players } from './sports.js';
@@ -135,6 +136,8 @@ export const outcomes = pgTable(
     name: varchar('name', { length: 100 }).notNull(),
     odds: numeric('odds', { precision: 8, scale: 2 }).notNull(),
     previousOdds: numeric('previous_odds', { precision: 8, scale: 2 }),
+    oddsSources: jsonb('odds_sources').$type<string[]>(), // Sources that agreed on the consensus price
+    oddsSpread: numeric('odds_spread', { precision: 6, scale: 4 }), // (max - min) / consensus across those sources
     isWinner: boolean('is_winner'),
     isSuspended: boolean('is_suspended').notNull().default(false),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -8,6 +8,7 @@ import {
   pgEnum,
   jsonb,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { users } from './users.js';
@@ -94,6 +95,7 @@ export const userAchievements = pgTable(
   (table) => [
     index('user_achievements_user_id_idx').on(table.userId),
     index('user_achievements_user_unlocked_idx').on(table.userId, table.isUnlocked),
+    uniqueIndex('user_achievements_user_achievement_idx').on(table.userId, table.achievementId),
   ]
 );
 
@@ -148,6 +150,87 @@ export const userChallenges = pgTable(
   (table) => [
     index('user_challenges_user_id_idx').on(table.userId),
     index('user_challenges_user_completed_idx').on(table.userId, table.isCompleted),
+    uniqueIndex('user_challenges_user_challenge_idx').on(table.userId, table.challengeId),
+  ]
+);
+
+// Final standings of a closed leaderboard period, with the prize paid for each rank
+export const leaderboardSnapshots = pgTable(
+  'leaderboard_snapshots',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    period: varchar('period', { length: 20 }).notNull(), // 'weekly', 'monthly', 'season'
+    periodKey: varchar('period_key', { length: 20 }).notNull(), // '2026-W03', '2026-01', '2026-Q1'
+    periodStart: timestamp('period_start', { withTimezone: true }).notNull(),
+    periodEnd: timestamp('period_end', { withTimezone: true }).notNull(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    rank: integer('rank').notNull(),
+    stars: integer('stars').notNull().default(0),
+    wins: integer('wins').notNull().default(0),
+    losses: integer('losses').notNull().default(0),
+    rewardCoins: integer('reward_coins').notNull().default(0),
+    rewardStars: integer('reward_stars').notNull().default(0),
+    rewardGems: integer('reward_gems').notNull().default(0),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('leaderboard_snapshots_period_user_idx').on(table.period, table.periodKey, table.userId),
+    index('leaderboard_snapshots_period_rank_idx').on(table.period, table.periodKey, table.rank),
+    index('leaderboard_snapshots_user_id_idx').on(table.userId),
+  ]
+);
+
+// Marks a leaderboard period as closed - written even when nobody played in it
+export const leaderboardPeriodClosures = pgTable(
+  'leaderboard_period_closures',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    period: varchar('period', { length: 20 }).notNull(),
+    periodKey: varchar('period_key', { length: 20 }).notNull(),
+    participants: integer('participants').notNull().default(0),
+    closedAt: timestamp('closed_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [uniqueIndex('leaderboard_period_closures_period_key_idx').on(table.period, table.periodKey)]
+);
+
+// Private leagues - invite-only leaderboards ranked from their start date
+export const leagues = pgTable(
+  'leagues',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 50 }).notNull(),
+    ownerId: uuid('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    inviteCode: varchar('invite_code', { length: 12 }).notNull(),
+    startsAt: timestamp('starts_at', { withTimezone: true }).notNull().defaultNow(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('leagues_invite_code_idx').on(table.inviteCode),
+    index('leagues_owner_id_idx').on(table.ownerId),
+  ]
+);
+
+// League members (the owner is a member too)
+export const leagueMembers = pgTable(
+  'league_members',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    leagueId: uuid('league_id')
+      .notNull()
+      .references(() => leagues.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    joinedAt: timestamp('joined_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('league_members_league_user_idx').on(table.leagueId, table.userId),
+    index('league_members_user_id_idx').on(table.userId),
   ]
 );
 
@@ -187,6 +270,32 @@ export const userChallengesRelations = relations(userChallenges, ({ one }) => ({
   }),
 }));
 
+export const leaderboardSnapshotsRelations = relations(leaderboardSnapshots, ({ one }) => ({
+  user: one(users, {
+    fields: [leaderboardSnapshots.userId],
+    references: [users.id],
+  }),
+}));
+
+export const leaguesRelations = relations(leagues, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [leagues.ownerId],
+    references: [users.id],
+  }),
+  members: many(leagueMembers),
+}));
+
+export const leagueMembersRelations = relations(leagueMembers, ({ one }) => ({
+  league: one(leagues, {
+    fields: [leagueMembers.leagueId],
+    references: [leagues.id],
+  }),
+  user: one(users, {
+    fields: [leagueMembers.userId],
+    references: [users.id],
+  }),
+}));
+
 // Type exports
 export type Achievement = typeof achievements.$inferSelect;
 export type NewAchievement = typeof achievements.$inferInsert;
@@ -196,3 +305,44 @@ export type Challenge = typeof challenges.$inferSelect;
 export type NewChallenge = typeof challenges.$inferInsert;
 export type UserChallenge = typeof userChallenges.$inferSelect;
 export type NewUserChallenge = typeof userChallenges.$inferInsert;
+export type LeaderboardSnapshot = typeof leaderboardSnapshots.$inferSelect;
+export type NewLeaderboardSnapshot = typeof leaderboardSnapshots.$inferInsert;
+export type LeaderboardPeriodClosure = typeof leaderboardPeriodClosures.$inferSelect;
+export type NewLeaderboardPeriodClosure = typeof leaderboardPeriodClosures.$inferInsert;
+export type League = typeof leagues.$inferSelect;
+export type NewLeague = typeof leagues.$inferInsert;
+export type LeagueMember = typeof leagueMembers.$inferSelect;
+export type NewLeagueMember = typeof leagueMembers.$inferInsert;
+
+// Leaderboard prizes, paid when a period closes. Ranks are inclusive; tied users share a rank.
+export interface LeaderboardPrizeTier {
+  fromRank: number;
+  toRank: number;
+  coins: number;
+  stars: number;
+  gems: number;
+}
+
+export const LEADERBOARD_PRIZE_TIERS: Record<'weekly' | 'monthly' | 'season', LeaderboardPrizeTier[]> = {
+  weekly: [
+    { fromRank: 1, toRank: 1, coins: 2000, stars: 250, gems: 10 },
+    { fromRank: 2, toRank: 3, coins: 1000, stars: 100, gems: 5 },
+    { fromRank: 4, toRank: 10, coins: 500, stars: 50, gems: 0 },
+  ],
+  monthly: [
+    { fromRank: 1, toRank: 1, coins: 10000, stars: 1000, gems: 50 },
+    { fromRank: 2, toRank: 3, coins: 5000, stars: 500, gems: 25 },
+    { fromRank: 4, toRank: 10, coins: 2000, stars: 200, gems: 10 },
+    { fromRank: 11, toRank: 50, coins: 750, stars: 50, gems: 0 },
+  ],
+  season: [
+    { fromRank: 1, toRank: 1, coins: 50000, stars: 5000, gems: 250 },
+    { fromRank: 2, toRank: 3, coins: 25000, stars: 2500, gems: 100 },
+    { fromRank: 4, toRank: 10, coins: 10000, stars: 1000, gems: 50 },
+    { fromRank: 11, toRank: 100, coins: 2500, stars: 250, gems: 10 },
+  ],
+};
+
+// Private league limits
+export const LEAGUE_MAX_MEMBERS = 50;
+export const LEAGUE_MAX_OWNED = 5;
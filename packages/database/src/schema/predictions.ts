@@ -7,7 +7,9 @@ import {
   timestamp,
   pgEnum,
   index,
+  uniqueIndex,
   text,
+  varchar,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { users } from './users.js';
@@ -58,6 +60,9 @@ export const predictions = pgTable(
     reviewedBy: uuid('reviewed_by').references(() => users.id),
     reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
 
+    // Client-supplied Idempotency-Key - retries of the same request return the original prediction
+    idempotencyKey: varchar('idempotency_key', { length: 100 }),
+
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [
@@ -68,6 +73,7 @@ export const predictions = pgTable(
     index('predictions_created_at_idx').on(table.createdAt),
     // Index for finding held predictions
     index('predictions_held_idx').on(table.isHeld),
+    uniqueIndex('predictions_user_idempotency_key_idx').on(table.userId, table.idempotencyKey),
   ]
 );
 
@@ -98,6 +104,29 @@ export const accumulatorSelections = pgTable(
   ]
 );
 
+// Cash-out quotes. A quote locks a cash-out value for a few seconds; accepting it settles the prediction.
+export const cashoutQuotes = pgTable(
+  'cashout_quotes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    predictionId: uuid('prediction_id')
+      .notNull()
+      .references(() => predictions.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    coins: integer('coins').notNull(),
+    currentOdds: numeric('current_odds', { precision: 8, scale: 2 }).notNull(), // Outcome odds when quoted
+    isLive: boolean('is_live').notNull().default(false),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('cashout_quotes_prediction_id_idx').on(table.predictionId),
+  ]
+);
+
 // Relations
 export const predictionsRelations = relations(predictions, ({ one, many }) => ({
   user: one(users, {
@@ -122,6 +151,18 @@ export const predictionsRelations = relations(predictions, ({ one, many }) => ({
     relationName: 'predictionReviewer',
   }),
   selections: many(accumulatorSelections),
+  cashoutQuotes: many(cashoutQuotes),
+}));
+
+export const cashoutQuotesRelations = relations(cashoutQuotes, ({ one }) => ({
+  prediction: one(predictions, {
+    fields: [cashoutQuotes.predictionId],
+    references: [predictions.id],
+  }),
+  user: one(users, {
+    fields: [cashoutQuotes.userId],
+    references: [users.id],
+  }),
 }));
 
 export const accumulatorSelectionsRelations = relations(accumulatorSelections, ({ one }) => ({
@@ -148,6 +189,8 @@ export type Prediction = typeof predictions.$inferSelect;
 export type NewPrediction = typeof predictions.$inferInsert;
 export type AccumulatorSelection = typeof accumulatorSelections.$inferSelect;
 export type NewAccumulatorSelection = typeof accumulatorSelections.$inferInsert;
+export type CashoutQuote = typeof cashoutQuotes.$inferSelect;
+export type NewCashoutQuote = typeof cashoutQuotes.$inferInsert;
 
 // Constants for accumulator bonuses
 export const ACCUMULATOR_BONUSES: Record<number, number> = {
@@ -168,3 +211,10 @@ export const ACCUMULATOR_LIMITS = {
   minStake: 10,
   maxStake: 500,
 } as const;
+
+// Cash-out pricing: the fair value at current odds, less a margin that's wider while the event is live
+export const CASHOUT_PRICING = {
+  quoteTtlSeconds: 10,
+  margin: 0.05,
+  liveMargin: 0.1,
+} as const;
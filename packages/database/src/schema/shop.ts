@@ -8,6 +8,7 @@ import {
   numeric,
   pgEnum,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { users } from './users.js';
@@ -100,6 +101,7 @@ export const userInventory = pgTable('user_inventory', {
   equippedVictoryAnimationId: uuid('equipped_victory_animation_id').references(() => cosmetics.id),
   equippedUsernameColorId: uuid('equipped_username_color_id').references(() => cosmetics.id),
   streakShields: integer('streak_shields').notNull().default(0),
+  autoUseStreakShields: boolean('auto_use_streak_shields').notNull().default(false), // Opt-in: burn a shield instead of losing a win streak
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
@@ -119,6 +121,29 @@ export const gemPacks = pgTable('gem_packs', {
   isActive: boolean('is_active').notNull().default(true),
 });
 
+// Verified app store receipts. One row per store transaction so a receipt can only be credited once.
+export const storeReceipts = pgTable(
+  'store_receipts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    platform: varchar('platform', { length: 20 }).notNull(), // 'apple', 'google'
+    storeTransactionId: varchar('store_transaction_id', { length: 255 }).notNull(),
+    productId: varchar('product_id', { length: 100 }).notNull(),
+    gemPackId: uuid('gem_pack_id').references(() => gemPacks.id),
+    gemsCredited: integer('gems_credited').notNull().default(0),
+    isSandbox: boolean('is_sandbox').notNull().default(false),
+    purchasedAt: timestamp('purchased_at', { withTimezone: true }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('store_receipts_platform_transaction_idx').on(table.platform, table.storeTransactionId),
+    index('store_receipts_user_id_idx').on(table.userId),
+  ]
+);
+
 // Relations
 export const cosmeticsRelations = relations(cosmetics, ({ many }) => ({
   userCosmetics: many(userCosmetics),
@@ -172,6 +197,17 @@ export const userInventoryRelations = relations(userInventory, ({ one }) => ({
   }),
 }));
 
+export const storeReceiptsRelations = relations(storeReceipts, ({ one }) => ({
+  user: one(users, {
+    fields: [storeReceipts.userId],
+    references: [users.id],
+  }),
+  gemPack: one(gemPacks, {
+    fields: [storeReceipts.gemPackId],
+    references: [gemPacks.id],
+  }),
+}));
+
 // Type exports
 export type Cosmetic = typeof cosmetics.$inferSelect;
 export type NewCosmetic = typeof cosmetics.$inferInsert;
@@ -181,6 +217,8 @@ export type UserInventory = typeof userInventory.$inferSelect;
 export type NewUserInventory = typeof userInventory.$inferInsert;
 export type GemPack = typeof gemPacks.$inferSelect;
 export type NewGemPack = typeof gemPacks.$inferInsert;
+export type StoreReceipt = typeof storeReceipts.$inferSelect;
+export type NewStoreReceipt = typeof storeReceipts.$inferInsert;
 
 // Constants for streak shields
 export const STREAK_SHIELD_PACKS = {
@@ -7,6 +7,7 @@ import {
   pgEnum,
   jsonb,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { users } from './users.js';
@@ -23,6 +24,7 @@ export const activityTypeEnum = pgEnum('activity_type', [
   'streak_milestone',
   'leaderboard_rank',
   'friend_joined',
+  'streak_shield_used',
 ]);
 
 export const referralStatusEnum = pgEnum('referral_status', ['pending', 'completed', 'rewarded']);
@@ -94,7 +96,8 @@ export const referrals = pgTable(
   },
   (table) => [
     index('referrals_referrer_id_idx').on(table.referrerId),
-    index('referrals_referred_user_id_idx').on(table.referredUserId),
+    // A user can only be referred once
+    uniqueIndex('referrals_referred_user_id_idx').on(table.referredUserId),
     index('referrals_referral_code_idx').on(table.referralCode),
     index('referrals_status_idx').on(table.status),
   ]
@@ -6,6 +6,7 @@ import {
   timestamp,
   pgEnum,
   index,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { users } from './users.js';
@@ -15,6 +16,7 @@ export const transactionTypeEnum = pgEnum('transaction_type', [
   'prediction_stake',
   'prediction_win',
   'prediction_refund',
+  'prediction_cashout',
   'daily_topup',
   'ad_bonus',
   'achievement_reward',
@@ -27,6 +29,7 @@ export const transactionTypeEnum = pgEnum('transaction_type', [
   'streak_bonus',
   'login_bonus',
   'welcome_bonus',
+  'streak_shield',
 ]);
 
 export const currencyTypeEnum = pgEnum('currency_type', ['coins', 'stars', 'gems']);
@@ -56,6 +59,27 @@ export const transactions = pgTable(
   ]
 );
 
+// Verified rewarded-ad callbacks. One row per ad network transaction so a callback can only be credited once.
+export const adRewards = pgTable(
+  'ad_rewards',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    network: varchar('network', { length: 50 }).notNull(), // 'admob', 'fake'
+    networkTransactionId: varchar('network_transaction_id', { length: 255 }).notNull(),
+    adUnit: varchar('ad_unit', { length: 255 }).notNull(),
+    coinsCredited: integer('coins_credited').notNull().default(0), // 0 when the daily cap was already reached
+    watchedAt: timestamp('watched_at', { withTimezone: true }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('ad_rewards_network_transaction_idx').on(table.network, table.networkTransactionId),
+    index('ad_rewards_user_id_idx').on(table.userId),
+  ]
+);
+
 // Relations
 export const transactionsRelations = relations(transactions, ({ one }) => ({
   user: one(users, {
@@ -64,14 +88,37 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   }),
 }));
 
+export const adRewardsRelations = relations(adRewards, ({ one }) => ({
+  user: one(users, {
+    fields: [adRewards.userId],
+    references: [users.id],
+  }),
+}));
+
 // Type exports
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
+export type AdReward = typeof adRewards.$inferSelect;
+export type NewAdReward = typeof adRewards.$inferInsert;
 
 // Constants
 export const DAILY_TOPUP_AMOUNT = 500;
+export const AD_REWARD_COINS = 100;
+export const AD_REWARD_DAILY_LIMIT = 5; // Resets at the user's local midnight
 export const WELCOME_BONUS_COINS = 1000;
 export const REFERRER_BONUS_COINS = 500;
 export const REFERRER_BONUS_STARS = 100;
 export const REFERRED_BONUS_COINS = 1000;
 export const REFERRED_BONUS_STARS = 50;
+
+// Daily login bonus in coins, by day of the streak. Days past the end keep the last amount.
+export const LOGIN_BONUS_SCHEDULE = [50, 75, 100, 125, 150, 200, 250];
+
+// One-off streak_bonus paid when the login streak reaches a milestone day
+export const LOGIN_STREAK_MILESTONES: Record<number, { coins: number; stars: number; gems: number }> = {
+  7: { coins: 500, stars: 50, gems: 0 },
+  14: { coins: 1000, stars: 100, gems: 5 },
+  30: { coins: 2500, stars: 250, gems: 10 },
+  60: { coins: 5000, stars: 500, gems: 25 },
+  100: { coins: 10000, stars: 1000, gems: 50 },
+};
@@ -27,10 +27,13 @@ export const users = pgTable(
     gems: integer('gems').notNull().default(0),
     subscriptionTier: subscriptionTierEnum('subscription_tier').notNull().default('free'),
     subscriptionExpiresAt: timestamp('subscription_expires_at', { withTimezone: true }),
+    subscriptionBonusPaidAt: timestamp('subscription_bonus_paid_at', { withTimezone: true }), // Last monthly subscription_bonus
     isAdsEnabled: boolean('is_ads_enabled').notNull().default(true),
     isOver18: boolean('is_over_18').notNull().default(true),
     showAffiliates: boolean('show_affiliates').notNull().default(false),
     avatarUrl: varchar('avatar_url', { length: 512 }),
+    timezone: varchar('timezone', { length: 64 }).notNull().default('UTC'), // IANA name, for the user's day boundaries
+    timezoneChangedAt: timestamp('timezone_changed_at', { withTimezone: true }), // Changes are rate-limited, see changeTimeZone
     referralCode: varchar('referral_code', { length: 20 }).unique(),
     referredById: uuid('referred_by_id'),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -61,8 +64,12 @@ export const userStats = pgTable(
     biggestWin: integer('biggest_win').notNull().default(0),
     lastTopupDate: timestamp('last_topup_date', { withTimezone: true }),
     loginStreak: integer('login_streak').notNull().default(0),
+    bestLoginStreak: integer('best_login_streak').notNull().default(0),
     lastLoginDate: timestamp('last_login_date', { withTimezone: true }),
+    lastLoginLocalDay: integer('last_login_local_day'), // lastLoginDate's calendar day where the user was, as days since the epoch
     adsWatchedToday: integer('ads_watched_today').notNull().default(0),
+    lastAdWatchedAt: timestamp('last_ad_watched_at', { withTimezone: true }),
+    adCountResetsAt: timestamp('ad_count_resets_at', { withTimezone: true }), // When adsWatchedToday goes back to 0
     hasPredictionBoost: boolean('has_prediction_boost').notNull().default(false),
     predictionBoostExpiresAt: timestamp('prediction_boost_expires_at', { withTimezone: true }),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
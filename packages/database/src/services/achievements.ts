@@ -0,0 +1,212 @@
+/**
+ * Achievement Evaluator
+ *
+ * Recomputes a user's achievement progress from their stats and prediction
+ * history, and unlocks anything they've reached. Runs inside the settlement
+ * transaction; progress is recomputed from scratch, so running it twice is harmless.
+ *
+ * - Tiers are chained with nextTierId; a tier is only tracked once the tier before it unlocks
+ * - Hidden achievements aren't shown until they're unlocked (see isAchievementVisible)
+ * - Requirement types without a metric below are left alone
+ */
+
+import { eq, and, or, gte, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { achievements, userAchievements, type Achievement } from '../schema/gamification.js';
+import { predictions } from '../schema/predictions.js';
+import { events } from '../schema/events.js';
+import { sports } from '../schema/sports.js';
+import { userStats, type UserStats } from '../schema/users.js';
+import { friendships } from '../schema/social.js';
+import { userCosmetics } from '../schema/shop.js';
+import { recordActivity } from './activity.js';
+
+type AchievementDb = Pick<Database, 'select' | 'insert' | 'update'>;
+
+export const ACHIEVEMENT_TIER_ORDER: Achievement['tier'][] = ['bronze', 'silver', 'gold', 'platinum', 'diamond'];
+
+interface AchievementCriteria {
+  minOdds?: number; // Decimal odds
+  predictionType?: 'single' | 'accumulator';
+}
+
+interface MetricContext {
+  db: AchievementDb;
+  userId: string;
+  stats: UserStats | null;
+  achievement: Achievement;
+}
+
+type AchievementMetric = (context: MetricContext) => Promise<number> | number;
+
+/**
+ * Count a user's predictions, optionally only wins, on one sport or above some odds.
+ * Sport filters look at single predictions, which have one event.
+ */
+async function countPredictions(
+  context: MetricContext,
+  filters: { wonOnly?: boolean; sportSlug?: string | null }
+): Promise<number> {
+  const criteria = (context.achievement.additionalCriteria || {}) as AchievementCriteria;
+  const conditions: SQL[] = [eq(predictions.userId, context.userId)];
+
+  if (filters.wonOnly) {
+    conditions.push(sql`${predictions.status}::text = 'won'`);
+  } else {
+    conditions.push(sql`${predictions.status}::text <> 'cashout'`);
+  }
+  if (criteria.minOdds) {
+    conditions.push(gte(predictions.totalOdds, criteria.minOdds.toFixed(2)));
+  }
+  if (criteria.predictionType) {
+    conditions.push(sql`${predictions.type}::text = ${criteria.predictionType}`);
+  }
+
+  let query = context.db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(predictions)
+    .$dynamic();
+
+  if (filters.sportSlug) {
+    query = query
+      .innerJoin(events, eq(predictions.eventId, events.id))
+      .innerJoin(sports, eq(events.sportId, sports.id));
+    conditions.push(sql`${sports.slug}::text = ${filters.sportSlug}`);
+  }
+
+  const [row] = await query.where(and(...conditions));
+  return row?.count ?? 0;
+}
+
+// How each requirementType is measured
+export const ACHIEVEMENT_METRICS: Record<string, AchievementMetric> = {
+  total_predictions: ({ stats }) => stats?.totalPredictions ?? 0,
+  total_wins: ({ stats }) => stats?.totalWins ?? 0,
+  win_streak: ({ stats }) => stats?.bestStreak ?? 0,
+  accumulators_won: ({ stats }) => stats?.totalAccumulatorsWon ?? 0,
+  biggest_win: ({ stats }) => stats?.biggestWin ?? 0,
+  stars_earned: ({ stats }) => stats?.totalStarsEarned ?? 0,
+  login_streak: ({ stats }) => stats?.loginStreak ?? 0,
+
+  sport_predictions: (context) =>
+    countPredictions(context, { sportSlug: context.achievement.requirementSportSlug }),
+  sport_wins: (context) =>
+    countPredictions(context, { wonOnly: true, sportSlug: context.achievement.requirementSportSlug }),
+  odds_wins: (context) => countPredictions(context, { wonOnly: true }),
+
+  friends: async ({ db, userId }) => {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(friendships)
+      .where(and(
+        or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId)),
+        sql`${friendships.status}::text = 'accepted'`
+      ));
+    return row?.count ?? 0;
+  },
+
+  cosmetics_owned: async ({ db, userId }) => {
+    const [row] = await db
+      .select({ count: sql<number>`count(distinct ${userCosmetics.cosmeticId})::int` })
+      .from(userCosmetics)
+      .where(eq(userCosmetics.userId, userId));
+    return row?.count ?? 0;
+  },
+};
+
+/**
+ * Hidden achievements only appear once they've been unlocked
+ */
+export function isAchievementVisible(achievement: Pick<Achievement, 'isHidden'>, isUnlocked: boolean): boolean {
+  return !achievement.isHidden || isUnlocked;
+}
+
+/**
+ * Map of achievement ID -> the tier that chains into it
+ */
+export function getPreviousTiers(all: Achievement[]): Map<string, string> {
+  const previous = new Map<string, string>();
+  for (const achievement of all) {
+    if (achievement.nextTierId) previous.set(achievement.nextTierId, achievement.id);
+  }
+  return previous;
+}
+
+/**
+ * Recompute progress for every achievement the user can currently work towards.
+ * Returns the IDs of achievements unlocked by this evaluation.
+ */
+export async function evaluateAchievements(db: AchievementDb, userId: string): Promise<string[]> {
+  const all = await db.select().from(achievements);
+  if (all.length === 0) return [];
+
+  const [stats] = await db.select().from(userStats).where(eq(userStats.userId, userId)).limit(1);
+  const existing = await db.select().from(userAchievements).where(eq(userAchievements.userId, userId));
+
+  const progressById = new Map(existing.map((row) => [row.achievementId, row]));
+  const unlockedIds = new Set(existing.filter((row) => row.isUnlocked).map((row) => row.achievementId));
+  const previousTiers = getPreviousTiers(all);
+
+  // Lower tiers first so a tier unlocked now opens the next one in the same pass
+  const ordered = [...all].sort(
+    (a, b) => ACHIEVEMENT_TIER_ORDER.indexOf(a.tier) - ACHIEVEMENT_TIER_ORDER.indexOf(b.tier) || a.sortOrder - b.sortOrder
+  );
+
+  const now = new Date();
+  const newlyUnlocked: string[] = [];
+
+  for (const achievement of ordered) {
+    if (unlockedIds.has(achievement.id)) continue;
+
+    const previousTierId = previousTiers.get(achievement.id);
+    if (previousTierId && !unlockedIds.has(previousTierId)) continue;
+
+    const metric = ACHIEVEMENT_METRICS[achievement.requirementType];
+    if (!metric) continue;
+
+    const value = await metric({ db, userId, stats: stats ?? null, achievement });
+    const progress = Math.min(value, achievement.requirementValue);
+    const isUnlocked = progress >= achievement.requirementValue;
+
+    const current = progressById.get(achievement.id);
+    if (current && current.currentProgress === progress && !isUnlocked) continue;
+
+    await db
+      .insert(userAchievements)
+      .values({ userId, achievementId: achievement.id, currentProgress: progress })
+      .onConflictDoUpdate({
+        target: [userAchievements.userId, userAchievements.achievementId],
+        set: { currentProgress: progress },
+        setWhere: eq(userAchievements.isUnlocked, false),
+      });
+
+    if (!isUnlocked) continue;
+
+    // Only the evaluation that flips the flag announces the unlock
+    const [unlocked] = await db
+      .update(userAchievements)
+      .set({ isUnlocked: true, unlockedAt: now })
+      .where(and(
+        eq(userAchievements.userId, userId),
+        eq(userAchievements.achievementId, achievement.id),
+        eq(userAchievements.isUnlocked, false)
+      ))
+      .returning();
+
+    unlockedIds.add(achievement.id);
+
+    if (unlocked) {
+      newlyUnlocked.push(achievement.id);
+      await recordActivity(db, {
+        userId,
+        type: 'achievement_unlocked',
+        title: `Unlocked ${achievement.name}`,
+        description: achievement.description,
+        achievementId: achievement.id,
+        metadata: { tier: achievement.tier, category: achievement.category },
+      });
+    }
+  }
+
+  return newlyUnlocked;
+}
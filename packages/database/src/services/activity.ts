@@ -0,0 +1,49 @@
+/**
+ * Activity Feed
+ *
+ * Every activityFeed entry is written through recordActivity so the enum cast
+ * and shape stay consistent across settlement, achievements, challenges and leaderboards.
+ */
+
+import { sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { activityFeed } from '../schema/social.js';
+
+export type ActivityType = (typeof activityFeed.$inferInsert)['type'];
+
+export interface NewActivity {
+  userId: string;
+  type: ActivityType;
+  title: string;
+  description?: string | null;
+  predictionId?: string | null;
+  achievementId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Win streaks that get announced to friends
+export const STREAK_MILESTONES = [3, 5, 10, 15, 20, 25, 50] as const;
+
+export function isStreakMilestone(streak: number): boolean {
+  return (STREAK_MILESTONES as readonly number[]).includes(streak);
+}
+
+/**
+ * Add an entry to a user's activity feed.
+ * Accepts a transaction so the entry commits with the change it describes.
+ */
+export async function recordActivity(
+  db: Pick<Database, 'insert'>,
+  activity: NewActivity
+): Promise<void> {
+  // Use raw SQL for enum values (Data API compatibility)
+  await db.insert(activityFeed).values({
+    userId: activity.userId,
+    type: sql`${activity.type}::activity_type` as unknown as ActivityType,
+    title: activity.title,
+    description: activity.description ?? null,
+    predictionId: activity.predictionId ?? null,
+    achievementId: activity.achievementId ?? null,
+    metadata: activity.metadata ?? null,
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Rewarded Ads
+ *
+ * Credits coins for a rewarded ad once the ad network's server-to-server
+ * callback has been verified. The callback row and the credit commit together,
+ * and the unique (network, networkTransactionId) index means a replayed callback
+ * credits nothing.
+ *
+ * - At most AD_REWARD_DAILY_LIMIT ads pay out per day, where "day" is the user's own calendar day
+ * - The count resets at the local midnight after its first ad, fixed when the count starts,
+ *   so changing timezone can't bring the reset forward
+ * - The userStats row is locked while the cap is checked, so parallel callbacks can't overshoot it
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users, userStats, type UserStats } from '../schema/users.js';
+import { adRewards, AD_REWARD_COINS, AD_REWARD_DAILY_LIMIT } from '../schema/transactions.js';
+import { creditReward, type RewardBalances } from './rewards.js';
+import { getLocalDayNumber, getNextLocalMidnight } from './login-streak.js';
+
+export interface VerifiedAdWatch {
+  userId: string;
+  network: string;
+  networkTransactionId: string;
+  adUnit: string;
+  watchedAt: Date;
+}
+
+export interface AdRewardStatus {
+  watchedToday: number;
+  dailyLimit: number;
+  remainingToday: number;
+  rewardCoins: number;
+  resetsAt: Date; // When the current count resets, otherwise the user's next midnight
+}
+
+export type AdRewardResult =
+  | { status: 'credited'; adRewardId: string; coinsCredited: number; balances: RewardBalances; ads: AdRewardStatus }
+  | { status: 'rejected'; error: AdRewardError };
+
+export type AdRewardError = 'user_not_found' | 'duplicate' | 'daily_limit';
+
+export const AD_REWARD_ERROR_MESSAGES: Record<AdRewardError, string> = {
+  user_not_found: 'User not found',
+  duplicate: 'This ad reward has already been credited',
+  daily_limit: `You can earn rewards from ${AD_REWARD_DAILY_LIMIT} ads per day`,
+};
+
+/**
+ * How many rewarded ads a user has been paid for today. A count from an earlier
+ * local day is reported as 0, since the next reward resets it.
+ */
+export function getAdRewardStatus(
+  stats: Pick<UserStats, 'adsWatchedToday' | 'lastAdWatchedAt' | 'adCountResetsAt'> | null,
+  timeZone: string,
+  at: Date = new Date()
+): AdRewardStatus {
+  // Counts from before the reset time was stored fall back to the current timezone's day
+  const isCurrent = stats?.adCountResetsAt
+    ? at < new Date(stats.adCountResetsAt)
+    : !!stats?.lastAdWatchedAt
+      && getLocalDayNumber(new Date(stats.lastAdWatchedAt), timeZone) === getLocalDayNumber(at, timeZone);
+  const watchedToday = isCurrent ? stats?.adsWatchedToday ?? 0 : 0;
+
+  return {
+    watchedToday,
+    dailyLimit: AD_REWARD_DAILY_LIMIT,
+    remainingToday: Math.max(0, AD_REWARD_DAILY_LIMIT - watchedToday),
+    rewardCoins: AD_REWARD_COINS,
+    resetsAt: isCurrent && stats?.adCountResetsAt ? new Date(stats.adCountResetsAt) : getNextLocalMidnight(at, timeZone),
+  };
+}
+
+/**
+ * Record a verified ad watch and pay its coins.
+ * Capped watches are still recorded (with 0 coins) so a retried callback is seen as a replay.
+ */
+export async function creditAdReward(
+  db: Database,
+  watch: VerifiedAdWatch,
+  at: Date = new Date()
+): Promise<AdRewardResult> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ id: users.id, timezone: users.timezone })
+      .from(users)
+      .where(eq(users.id, watch.userId))
+      .limit(1);
+
+    if (!user) return { status: 'rejected', error: 'user_not_found' };
+
+    // Lock the stats row so parallel callbacks for the same user serialise
+    const [stats] = await tx
+      .select()
+      .from(userStats)
+      .where(eq(userStats.userId, user.id))
+      .limit(1)
+      .for('update');
+
+    const before = getAdRewardStatus(stats ?? null, user.timezone, at);
+    const capped = before.remainingToday === 0;
+
+    const [adReward] = await tx
+      .insert(adRewards)
+      .values({
+        userId: user.id,
+        network: watch.network,
+        networkTransactionId: watch.networkTransactionId,
+        adUnit: watch.adUnit,
+        coinsCredited: capped ? 0 : AD_REWARD_COINS,
+        watchedAt: watch.watchedAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!adReward) return { status: 'rejected', error: 'duplicate' };
+    if (capped) return { status: 'rejected', error: 'daily_limit' };
+
+    const [updated] = await tx
+      .update(userStats)
+      .set({
+        adsWatchedToday: before.watchedToday + 1,
+        lastAdWatchedAt: at,
+        adCountResetsAt: before.resetsAt,
+        updatedAt: at,
+      })
+      .where(eq(userStats.userId, user.id))
+      .returning();
+
+    const balances = await creditReward(tx, user.id, { coins: AD_REWARD_COINS, stars: 0, gems: 0 }, {
+      type: 'ad_bonus',
+      description: 'Rewarded ad bonus',
+      referenceId: adReward.id,
+      referenceType: 'ad_reward',
+    });
+
+    return {
+      status: 'credited',
+      adRewardId: adReward.id,
+      coinsCredited: AD_REWARD_COINS,
+      balances,
+      ads: getAdRewardStatus(updated ?? null, user.timezone, at),
+    };
+  });
+}
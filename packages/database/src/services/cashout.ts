@@ -0,0 +1,202 @@
+/**
+ * Prediction Cash-out
+ *
+ * Lets a user settle a pending single early for a value based on the outcome's
+ * current odds. A quote locks that value for CASHOUT_PRICING.quoteTtlSeconds;
+ * accepting it settles the prediction as 'cashout' in one transaction.
+ *
+ * - Value is stake x placed odds / current odds, less a margin (wider while live)
+ * - Never more than the prediction would pay if it won
+ * - Refused while the market or outcome is suspended, or the event is flagged
+ * - Availability is checked again on accept, so a suspension after quoting still blocks it
+ */
+
+import { eq, and, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { predictions, cashoutQuotes, CASHOUT_PRICING, type Prediction, type CashoutQuote } from '../schema/predictions.js';
+import { events, markets, outcomes } from '../schema/events.js';
+import { users } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+
+export type CashoutError =
+  | 'not_found'
+  | 'accumulator'
+  | 'not_pending'
+  | 'held'
+  | 'event_closed'
+  | 'event_flagged'
+  | 'market_suspended'
+  | 'quote_not_found'
+  | 'quote_used'
+  | 'quote_expired';
+
+export const CASHOUT_ERROR_MESSAGES: Record<CashoutError, string> = {
+  not_found: 'Prediction not found',
+  accumulator: 'Cash-out is only available on single predictions',
+  not_pending: 'This prediction has already been settled',
+  held: 'This prediction is under review',
+  event_closed: 'This event is no longer open for cash-out',
+  event_flagged: 'Cash-out is unavailable for this event',
+  market_suspended: 'Cash-out is unavailable while the market is suspended',
+  quote_not_found: 'Cash-out quote not found',
+  quote_used: 'This cash-out quote has already been accepted',
+  quote_expired: 'This cash-out quote has expired - request a new one',
+};
+
+export type CashoutQuoteResult =
+  | { status: 'quoted'; quote: CashoutQuote }
+  | { status: 'rejected'; error: CashoutError };
+
+export type CashoutAcceptResult =
+  | { status: 'cashed_out'; prediction: Prediction; coins: number; coinsBalanceAfter: number }
+  | { status: 'rejected'; error: CashoutError };
+
+/**
+ * Cash-out value for a single at the outcome's current odds
+ */
+export function calculateCashoutValue(
+  prediction: Pick<Prediction, 'stake' | 'odds' | 'potentialCoins'>,
+  currentOdds: string | number,
+  isLive: boolean
+): number {
+  const placedOdds = parseFloat(prediction.odds);
+  const odds = typeof currentOdds === 'number' ? currentOdds : parseFloat(currentOdds);
+  if (!Number.isFinite(placedOdds) || !Number.isFinite(odds) || odds <= 1) return 0;
+
+  const margin = isLive ? CASHOUT_PRICING.liveMargin : CASHOUT_PRICING.margin;
+  const value = Math.floor((prediction.stake * placedOdds / odds) * (1 - margin));
+  return Math.max(0, Math.min(value, prediction.potentialCoins));
+}
+
+/**
+ * Load a user's prediction with its event, market and outcome, and check it can be cashed out
+ */
+async function getCashoutState(db: Pick<Database, 'select'>, userId: string, predictionId: string) {
+  const [prediction] = await db
+    .select()
+    .from(predictions)
+    .where(and(eq(predictions.id, predictionId), eq(predictions.userId, userId)))
+    .limit(1);
+
+  if (!prediction) return { error: 'not_found' as const };
+  if (prediction.type === 'accumulator' || !prediction.eventId || !prediction.outcomeId) {
+    return { error: 'accumulator' as const };
+  }
+  if (prediction.status !== 'pending') return { error: 'not_pending' as const };
+  if (prediction.isHeld) return { error: 'held' as const };
+
+  const [row] = await db
+    .select({ event: events, market: markets, outcome: outcomes })
+    .from(outcomes)
+    .innerJoin(markets, eq(outcomes.marketId, markets.id))
+    .innerJoin(events, eq(markets.eventId, events.id))
+    .where(eq(outcomes.id, prediction.outcomeId))
+    .limit(1);
+
+  if (!row) return { error: 'event_closed' as const };
+  if (row.event.isFlagged) return { error: 'event_flagged' as const };
+  if (row.event.status !== 'scheduled' && row.event.status !== 'live') return { error: 'event_closed' as const };
+  if (row.market.isSuspended || row.outcome.isSuspended) return { error: 'market_suspended' as const };
+
+  return { prediction, ...row, error: null };
+}
+
+/**
+ * Quote a cash-out value for a pending single
+ */
+export async function quoteCashout(
+  db: Database,
+  userId: string,
+  predictionId: string,
+  at: Date = new Date()
+): Promise<CashoutQuoteResult> {
+  const state = await getCashoutState(db, userId, predictionId);
+  if (state.error) return { status: 'rejected', error: state.error };
+
+  const isLive = state.event.status === 'live';
+  const [quote] = await db
+    .insert(cashoutQuotes)
+    .values({
+      predictionId,
+      userId,
+      coins: calculateCashoutValue(state.prediction, state.outcome.odds, isLive),
+      currentOdds: state.outcome.odds,
+      isLive,
+      expiresAt: new Date(at.getTime() + CASHOUT_PRICING.quoteTtlSeconds * 1000),
+    })
+    .returning();
+
+  if (!quote) throw new Error(`Failed to create cash-out quote for ${predictionId}`);
+
+  return { status: 'quoted', quote };
+}
+
+/**
+ * Accept a quote: settle the prediction as 'cashout' and pay the quoted coins
+ */
+export async function acceptCashout(
+  db: Database,
+  userId: string,
+  predictionId: string,
+  quoteId: string,
+  at: Date = new Date()
+): Promise<CashoutAcceptResult> {
+  return db.transaction(async (tx) => {
+    // Lock the quote so it can only be accepted once
+    const [quote] = await tx
+      .select()
+      .from(cashoutQuotes)
+      .where(and(
+        eq(cashoutQuotes.id, quoteId),
+        eq(cashoutQuotes.predictionId, predictionId),
+        eq(cashoutQuotes.userId, userId)
+      ))
+      .limit(1)
+      .for('update');
+
+    if (!quote) return { status: 'rejected', error: 'quote_not_found' };
+    if (quote.acceptedAt) return { status: 'rejected', error: 'quote_used' };
+    if (quote.expiresAt <= at) return { status: 'rejected', error: 'quote_expired' };
+
+    const state = await getCashoutState(tx, userId, predictionId);
+    if (state.error) return { status: 'rejected', error: state.error };
+
+    // Only a pending prediction can be cashed out - settlement may have got there first
+    // Use raw SQL for enum values (Data API compatibility)
+    const [updated] = await tx
+      .update(predictions)
+      .set({
+        status: sql`'cashout'::prediction_status` as unknown as 'cashout',
+        settledCoins: quote.coins,
+        settledStars: 0,
+        settledAt: at,
+      })
+      .where(and(eq(predictions.id, predictionId), sql`${predictions.status}::text = 'pending'`))
+      .returning();
+
+    if (!updated) return { status: 'rejected', error: 'not_pending' };
+
+    await tx.update(cashoutQuotes).set({ acceptedAt: at }).where(eq(cashoutQuotes.id, quote.id));
+
+    const [balance] = await tx
+      .update(users)
+      .set({ coins: sql`${users.coins} + ${quote.coins}`, updatedAt: at })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!balance) throw new Error(`User not found: ${userId}`);
+
+    await tx.insert(transactions).values({
+      userId,
+      type: sql`'prediction_cashout'::transaction_type` as unknown as 'prediction_cashout',
+      currency: sql`'coins'::currency_type` as unknown as 'coins',
+      amount: quote.coins,
+      balanceAfter: balance.coins,
+      description: `Prediction cashed out at ${quote.currentOdds}`,
+      referenceId: predictionId,
+      referenceType: 'prediction',
+    });
+
+    return { status: 'cashed_out', prediction: updated, coins: quote.coins, coinsBalanceAfter: balance.coins };
+  });
+}
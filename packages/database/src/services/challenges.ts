@@ -0,0 +1,258 @@
+/**
+ * Challenge Progress
+ *
+ * Moves daily and weekly challenge progress when a prediction is placed or settled.
+ * Called inside the placement and settlement transactions, so progress is
+ * counted exactly once per prediction.
+ *
+ * - Placement challenges count predictions placed during the challenge window
+ * - Win challenges count wins on predictions placed during the window
+ * - win_streak follows the user's current streak and resets on a loss
+ * - minOdds/maxOdds are stored as decimal odds x 100 (250 = 2.50)
+ */
+
+import { eq, and, or, gte, lte, gt, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { challenges, userChallenges, type Challenge } from '../schema/gamification.js';
+import { predictions, accumulatorSelections } from '../schema/predictions.js';
+import { events, markets } from '../schema/events.js';
+import { sports } from '../schema/sports.js';
+import { userStats } from '../schema/users.js';
+import { recordActivity } from './activity.js';
+
+type ChallengeDb = Pick<Database, 'select' | 'insert' | 'update'>;
+
+export type ChallengeTrigger = 'placed' | 'settled';
+
+export type ChallengeType = Challenge['type'];
+
+export interface ChallengeLeg {
+  sportSlug: string | null;
+  marketType: string | null;
+  isLive: boolean; // Placed after the event started
+}
+
+export interface ChallengePrediction {
+  id: string;
+  userId: string;
+  type: 'single' | 'accumulator';
+  status: string;
+  totalOdds: number;
+  placedAt: Date;
+  legs: ChallengeLeg[];
+}
+
+export type ChallengeProgressUpdate =
+  | { mode: 'increment'; amount: number }
+  | { mode: 'set'; value: number };
+
+// Which challenge types each trigger moves
+const PLACEMENT_CHALLENGES: ChallengeType[] = [
+  'place_predictions',
+  'predict_sport',
+  'predict_live',
+  'odds_range',
+  'specific_market',
+];
+const SETTLEMENT_CHALLENGES: ChallengeType[] = ['win_predictions', 'win_accumulator', 'win_streak'];
+
+function isWithinWindow(challenge: Challenge, at: Date): boolean {
+  const time = at.getTime();
+  return time >= new Date(challenge.startsAt).getTime() && time < new Date(challenge.expiresAt).getTime();
+}
+
+/**
+ * Whether a prediction meets a challenge's sport, market, odds, live and accumulator criteria
+ */
+export function matchesChallengeCriteria(challenge: Challenge, prediction: ChallengePrediction): boolean {
+  if (!isWithinWindow(challenge, prediction.placedAt)) return false;
+
+  if ((challenge.requireAccumulator || challenge.type === 'win_accumulator') && prediction.type !== 'accumulator') {
+    return false;
+  }
+
+  // Every leg has to qualify, so an accumulator can't ride on one matching selection
+  if (challenge.sportSlug && !prediction.legs.every((leg) => leg.sportSlug === challenge.sportSlug)) {
+    return false;
+  }
+  if (challenge.marketType && !prediction.legs.every((leg) => leg.marketType === challenge.marketType)) {
+    return false;
+  }
+  if ((challenge.requireLive || challenge.type === 'predict_live') && !prediction.legs.every((leg) => leg.isLive)) {
+    return false;
+  }
+
+  const odds = Math.round(prediction.totalOdds * 100);
+  if (challenge.minOdds !== null && odds < challenge.minOdds) return false;
+  if (challenge.maxOdds !== null && odds > challenge.maxOdds) return false;
+
+  return true;
+}
+
+/**
+ * How a placed or settled prediction moves a challenge, or null if it doesn't.
+ * `now` is when the prediction was placed or settled.
+ */
+export function getChallengeProgressUpdate(
+  challenge: Challenge,
+  trigger: ChallengeTrigger,
+  prediction: ChallengePrediction,
+  currentStreak: number,
+  now: Date
+): ChallengeProgressUpdate | null {
+  if (trigger === 'placed') {
+    if (!PLACEMENT_CHALLENGES.includes(challenge.type)) return null;
+    return matchesChallengeCriteria(challenge, prediction) ? { mode: 'increment', amount: 1 } : null;
+  }
+
+  if (!SETTLEMENT_CHALLENGES.includes(challenge.type)) return null;
+
+  // Streaks span every prediction, so the streak is only recorded while the challenge runs
+  if (challenge.type === 'win_streak') {
+    if (!isWithinWindow(challenge, now)) return null;
+    if (prediction.status !== 'won' && prediction.status !== 'lost') return null;
+    return { mode: 'set', value: currentStreak };
+  }
+
+  if (prediction.status !== 'won') return null;
+  return matchesChallengeCriteria(challenge, prediction) ? { mode: 'increment', amount: 1 } : null;
+}
+
+/**
+ * Load a prediction with the per-leg details challenges filter on
+ */
+async function loadChallengePrediction(db: ChallengeDb, predictionId: string): Promise<ChallengePrediction | null> {
+  const [prediction] = await db
+    .select()
+    .from(predictions)
+    .where(eq(predictions.id, predictionId))
+    .limit(1);
+
+  if (!prediction) return null;
+
+  const legColumns = {
+    sportSlug: sports.slug,
+    marketType: markets.type,
+    startTime: events.startTime,
+  };
+
+  const legs = prediction.type === 'accumulator'
+    ? await db
+        .select(legColumns)
+        .from(accumulatorSelections)
+        .innerJoin(events, eq(accumulatorSelections.eventId, events.id))
+        .innerJoin(sports, eq(events.sportId, sports.id))
+        .innerJoin(markets, eq(accumulatorSelections.marketId, markets.id))
+        .where(eq(accumulatorSelections.predictionId, predictionId))
+    : await db
+        .select(legColumns)
+        .from(predictions)
+        .innerJoin(events, eq(predictions.eventId, events.id))
+        .innerJoin(sports, eq(events.sportId, sports.id))
+        .innerJoin(markets, eq(predictions.marketId, markets.id))
+        .where(eq(predictions.id, predictionId));
+
+  return {
+    id: prediction.id,
+    userId: prediction.userId,
+    type: prediction.type,
+    status: prediction.status,
+    totalOdds: parseFloat(prediction.totalOdds),
+    placedAt: new Date(prediction.createdAt),
+    legs: legs.map((leg) => ({
+      sportSlug: leg.sportSlug,
+      marketType: leg.marketType,
+      isLive: new Date(prediction.createdAt).getTime() >= new Date(leg.startTime).getTime(),
+    })),
+  };
+}
+
+/**
+ * Apply a placed or settled prediction to the user's challenges. Settlement can
+ * land after a challenge expires, so challenges running when the prediction was
+ * placed are included as well as those running now.
+ * Returns the IDs of challenges it completed.
+ */
+export async function updateChallengeProgress(
+  db: ChallengeDb,
+  predictionId: string,
+  trigger: ChallengeTrigger
+): Promise<string[]> {
+  const prediction = await loadChallengePrediction(db, predictionId);
+  if (!prediction) return [];
+
+  const now = new Date();
+  const candidateChallenges = await db
+    .select()
+    .from(challenges)
+    .where(or(
+      and(lte(challenges.startsAt, prediction.placedAt), gt(challenges.expiresAt, prediction.placedAt)),
+      and(lte(challenges.startsAt, now), gt(challenges.expiresAt, now))
+    ));
+
+  if (candidateChallenges.length === 0) return [];
+
+  let currentStreak = 0;
+  if (trigger === 'settled') {
+    const [stats] = await db
+      .select({ currentStreak: userStats.currentStreak })
+      .from(userStats)
+      .where(eq(userStats.userId, prediction.userId))
+      .limit(1);
+    currentStreak = stats?.currentStreak ?? 0;
+  }
+
+  const completed: string[] = [];
+
+  for (const challenge of candidateChallenges) {
+    const update = getChallengeProgressUpdate(challenge, trigger, prediction, currentStreak, now);
+    if (!update) continue;
+
+    const initialValue = Math.min(
+      challenge.targetValue,
+      update.mode === 'increment' ? update.amount : update.value
+    );
+    const nextValue = update.mode === 'increment'
+      ? sql`LEAST(${challenge.targetValue}, ${userChallenges.currentValue} + ${update.amount})`
+      : sql`LEAST(${challenge.targetValue}, ${update.value})`;
+
+    // Completed challenges keep their final value
+    await db
+      .insert(userChallenges)
+      .values({
+        userId: prediction.userId,
+        challengeId: challenge.id,
+        currentValue: initialValue,
+      })
+      .onConflictDoUpdate({
+        target: [userChallenges.userId, userChallenges.challengeId],
+        set: { currentValue: nextValue },
+        setWhere: eq(userChallenges.isCompleted, false),
+      });
+
+    const [justCompleted] = await db
+      .update(userChallenges)
+      .set({ isCompleted: true, completedAt: now })
+      .where(and(
+        eq(userChallenges.userId, prediction.userId),
+        eq(userChallenges.challengeId, challenge.id),
+        eq(userChallenges.isCompleted, false),
+        gte(userChallenges.currentValue, challenge.targetValue)
+      ))
+      .returning();
+
+    if (justCompleted) {
+      completed.push(challenge.id);
+      await recordActivity(db, {
+        userId: prediction.userId,
+        type: 'challenge_completed',
+        title: `Completed "${challenge.title}"`,
+        description: challenge.description,
+        predictionId: prediction.id,
+        metadata: { challengeId: challenge.id, isWeekly: challenge.isWeekly },
+      });
+    }
+  }
+
+  return completed;
+}
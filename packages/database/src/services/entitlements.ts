@@ -0,0 +1,75 @@
+/**
+ * Subscription Entitlements
+ *
+ * What each subscription tier gets. Handlers and services read limits from here
+ * rather than keeping their own constants, so a tier's perks are changed in one place.
+ *
+ * A paid tier only counts while subscriptionExpiresAt is in the future (or unset);
+ * an expired subscription gets free entitlements even before the expiry job downgrades it.
+ */
+
+import type { User } from '../schema/users.js';
+import { DAILY_TOPUP_AMOUNT } from '../schema/transactions.js';
+import { ACCUMULATOR_LIMITS } from '../schema/predictions.js';
+import type { RewardBundle } from './rewards.js';
+
+export type SubscriptionTier = User['subscriptionTier'];
+
+export interface Entitlements {
+  tier: SubscriptionTier;
+  maxStake: number;
+  maxAccumulatorStake: number;
+  dailyTopupCoins: number;
+  adFree: boolean;
+  starsMultiplier: number;
+  monthlyBonus: RewardBundle; // Paid as a subscription_bonus each month the subscription is active
+}
+
+export const SUBSCRIPTION_ENTITLEMENTS: Record<SubscriptionTier, Entitlements> = {
+  free: {
+    tier: 'free',
+    maxStake: 1000,
+    maxAccumulatorStake: ACCUMULATOR_LIMITS.maxStake,
+    dailyTopupCoins: DAILY_TOPUP_AMOUNT,
+    adFree: false,
+    starsMultiplier: 1.0,
+    monthlyBonus: { coins: 0, stars: 0, gems: 0 },
+  },
+  pro: {
+    tier: 'pro',
+    maxStake: 2500,
+    maxAccumulatorStake: 1000,
+    dailyTopupCoins: 1000,
+    adFree: true,
+    starsMultiplier: 1.25,
+    monthlyBonus: { coins: 2500, stars: 0, gems: 50 },
+  },
+  elite: {
+    tier: 'elite',
+    maxStake: 5000,
+    maxAccumulatorStake: 2500,
+    dailyTopupCoins: 1000,
+    adFree: true,
+    starsMultiplier: 1.5,
+    monthlyBonus: { coins: 5000, stars: 100, gems: 150 },
+  },
+};
+
+/**
+ * The tier a user is entitled to right now - free once a paid subscription has expired
+ */
+export function getActiveSubscriptionTier(
+  user: Pick<User, 'subscriptionTier' | 'subscriptionExpiresAt'>,
+  at: Date = new Date()
+): SubscriptionTier {
+  if (user.subscriptionTier === 'free') return 'free';
+  const expiresAt = user.subscriptionExpiresAt;
+  return !expiresAt || new Date(expiresAt) > at ? user.subscriptionTier : 'free';
+}
+
+export function getEntitlements(
+  user: Pick<User, 'subscriptionTier' | 'subscriptionExpiresAt'>,
+  at: Date = new Date()
+): Entitlements {
+  return SUBSCRIPTION_ENTITLEMENTS[getActiveSubscriptionTier(user, at)];
+}
@@ -0,0 +1,110 @@
+/**
+ * Gem Purchases
+ *
+ * Credits gems for a store purchase that has already been verified with Apple or Google.
+ * The receipt row and the credit commit together, and the unique
+ * (platform, storeTransactionId) index means a replayed receipt credits nothing.
+ */
+
+import { eq, and, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+import { storeReceipts, type GemPack } from '../schema/shop.js';
+
+export interface VerifiedGemPurchase {
+  userId: string;
+  platform: string;
+  storeTransactionId: string;
+  productId: string;
+  purchasedAt: Date;
+  isSandbox: boolean;
+}
+
+export type GemPurchaseResult =
+  | { status: 'credited'; receiptId: string; gemsCredited: number; gemsBalanceAfter: number }
+  | { status: 'duplicate'; receiptId: string; userId: string; gemsCredited: number };
+
+/**
+ * Gems for a pack including its bonus, rounded down
+ */
+export function calculatePackGems(pack: Pick<GemPack, 'gems' | 'bonusPercent'>): number {
+  return pack.gems + Math.floor((pack.gems * pack.bonusPercent) / 100);
+}
+
+/**
+ * Record a verified receipt and credit the pack's gems.
+ * Returns 'duplicate' with the original receipt if this store transaction was already credited.
+ */
+export async function creditGemPurchase(
+  db: Database,
+  purchase: VerifiedGemPurchase,
+  pack: GemPack
+): Promise<GemPurchaseResult> {
+  const gemsCredited = calculatePackGems(pack);
+
+  const credited = await db.transaction(async (tx) => {
+    const [receipt] = await tx
+      .insert(storeReceipts)
+      .values({
+        userId: purchase.userId,
+        platform: purchase.platform,
+        storeTransactionId: purchase.storeTransactionId,
+        productId: purchase.productId,
+        gemPackId: pack.id,
+        gemsCredited,
+        isSandbox: purchase.isSandbox,
+        purchasedAt: purchase.purchasedAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!receipt) return null;
+
+    const [updated] = await tx
+      .update(users)
+      .set({ gems: sql`${users.gems} + ${gemsCredited}`, updatedAt: new Date() })
+      .where(eq(users.id, purchase.userId))
+      .returning();
+
+    if (!updated) throw new Error(`User not found: ${purchase.userId}`);
+
+    // Use raw SQL for enum values (Data API compatibility)
+    await tx.insert(transactions).values({
+      userId: purchase.userId,
+      type: sql`'gem_purchase'::transaction_type` as unknown as 'gem_purchase',
+      currency: sql`'gems'::currency_type` as unknown as 'gems',
+      amount: gemsCredited,
+      balanceAfter: updated.gems,
+      description: pack.bonusPercent > 0
+        ? `Purchased ${pack.name} (${pack.gems} + ${pack.bonusPercent}% bonus gems)`
+        : `Purchased ${pack.name} (${pack.gems} gems)`,
+      referenceId: receipt.id,
+      referenceType: 'store_receipt',
+    });
+
+    return { receiptId: receipt.id, gemsBalanceAfter: updated.gems };
+  });
+
+  if (credited) {
+    return { status: 'credited', gemsCredited, ...credited };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(storeReceipts)
+    .where(and(
+      eq(storeReceipts.platform, purchase.platform),
+      eq(storeReceipts.storeTransactionId, purchase.storeTransactionId)
+    ))
+    .limit(1);
+
+  if (!existing) throw new Error(`Store receipt not found: ${purchase.platform}/${purchase.storeTransactionId}`);
+
+  return {
+    status: 'duplicate',
+    receiptId: existing.id,
+    userId: existing.userId,
+    gemsCredited: existing.gemsCredited,
+  };
+}
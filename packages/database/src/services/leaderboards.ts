@@ -0,0 +1,321 @@
+/**
+ * Period Leaderboards
+ *
+ * Weekly, monthly and seasonal standings, built from predictions settled inside
+ * the period so new players start every period level. Periods run in UTC:
+ * weeks start Monday, seasons are calendar quarters.
+ *
+ * - Ranked by stars earned, then wins; tied users share a rank
+ * - Users who turned off showOnLeaderboard are left out
+ * - Friends and league boards rank a fixed set of users, so members start on zero
+ * - When a period closes its standings are snapshotted and prizes paid in one transaction
+ * - Every closed period gets a closure marker, so one nobody played in isn't closed again
+ */
+
+import { eq, and, gte, lt, asc, inArray, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { predictions } from '../schema/predictions.js';
+import { users, userSettings, userStats } from '../schema/users.js';
+import {
+  leaderboardSnapshots,
+  leaderboardPeriodClosures,
+  LEADERBOARD_PRIZE_TIERS,
+  type LeaderboardPrizeTier,
+} from '../schema/gamification.js';
+import { creditReward } from './rewards.js';
+import { recordActivity } from './activity.js';
+
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'season';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'season'];
+
+export interface LeaderboardWindow {
+  period: LeaderboardPeriod;
+  key: string;
+  startsAt: Date;
+  endsAt: Date; // Exclusive
+}
+
+export interface LeaderboardStanding {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  rank: number;
+  stars: number;
+  wins: number;
+  losses: number;
+  currentStreak: number; // The user's streaks now, not within the period
+  bestStreak: number;
+}
+
+export interface LeaderboardCloseResult {
+  participants: number;
+  prizesPaid: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isLeaderboardPeriod(value: unknown): value is LeaderboardPeriod {
+  return typeof value === 'string' && (LEADERBOARD_PERIODS as string[]).includes(value);
+}
+
+// ISO 8601 week number and week-year of a UTC Monday
+function isoWeek(monday: Date): { year: number; week: number } {
+  const thursday = new Date(monday.getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const firstThursday = new Date(Date.UTC(year, 0, 4));
+  const firstMonday = new Date(firstThursday.getTime() - ((firstThursday.getUTCDay() + 6) % 7) * DAY_MS);
+  return { year, week: Math.round((monday.getTime() - firstMonday.getTime()) / (7 * DAY_MS)) + 1 };
+}
+
+/**
+ * The period containing a moment
+ */
+export function getLeaderboardWindow(period: LeaderboardPeriod, at: Date = new Date()): LeaderboardWindow {
+  const year = at.getUTCFullYear();
+  const month = at.getUTCMonth();
+
+  if (period === 'weekly') {
+    const daysSinceMonday = (at.getUTCDay() + 6) % 7;
+    const startsAt = new Date(Date.UTC(year, month, at.getUTCDate() - daysSinceMonday));
+    const { year: weekYear, week } = isoWeek(startsAt);
+    return {
+      period,
+      key: `${weekYear}-W${String(week).padStart(2, '0')}`,
+      startsAt,
+      endsAt: new Date(startsAt.getTime() + 7 * DAY_MS),
+    };
+  }
+
+  if (period === 'monthly') {
+    return {
+      period,
+      key: `${year}-${String(month + 1).padStart(2, '0')}`,
+      startsAt: new Date(Date.UTC(year, month, 1)),
+      endsAt: new Date(Date.UTC(year, month + 1, 1)),
+    };
+  }
+
+  const quarter = Math.floor(month / 3);
+  return {
+    period,
+    key: `${year}-Q${quarter + 1}`,
+    startsAt: new Date(Date.UTC(year, quarter * 3, 1)),
+    endsAt: new Date(Date.UTC(year, quarter * 3 + 3, 1)),
+  };
+}
+
+/**
+ * The most recent period that has already ended
+ */
+export function getPreviousLeaderboardWindow(period: LeaderboardPeriod, at: Date = new Date()): LeaderboardWindow {
+  const current = getLeaderboardWindow(period, at);
+  return getLeaderboardWindow(period, new Date(current.startsAt.getTime() - 1));
+}
+
+export function getLeaderboardPrize(period: LeaderboardPeriod, rank: number): LeaderboardPrizeTier | null {
+  return LEADERBOARD_PRIZE_TIERS[period].find((tier) => rank >= tier.fromRank && rank <= tier.toRank) ?? null;
+}
+
+/**
+ * Standings for a window as a subquery. Pass userIds to rank a subset (friends, leagues);
+ * everyone in the subset is then ranked, including users with nothing settled yet.
+ */
+function standingsSubquery(db: Pick<Database, 'select'>, window: Pick<LeaderboardWindow, 'startsAt' | 'endsAt'>, userIds?: string[]) {
+  const settledInWindow = and(
+    eq(predictions.userId, users.id),
+    gte(predictions.settledAt, window.startsAt),
+    lt(predictions.settledAt, window.endsAt),
+    sql`${predictions.status}::text IN ('won', 'lost')`
+  );
+
+  const conditions: SQL[] = [sql`COALESCE(${userSettings.showOnLeaderboard}, true)`];
+  if (userIds) {
+    conditions.push(inArray(users.id, userIds));
+  }
+
+  const stars = sql`COALESCE(SUM(${predictions.settledStars}), 0)`;
+  const wins = sql`COUNT(*) FILTER (WHERE ${predictions.status}::text = 'won')`;
+
+  let query = db
+    .select({
+      userId: users.id,
+      username: users.username,
+      avatarUrl: users.avatarUrl,
+      rank: sql<number>`(RANK() OVER (ORDER BY ${stars} DESC, ${wins} DESC))::int`.as('rank'),
+      stars: sql<number>`(${stars})::int`.as('stars'),
+      wins: sql<number>`(${wins})::int`.as('wins'),
+      losses: sql<number>`(COUNT(*) FILTER (WHERE ${predictions.status}::text = 'lost'))::int`.as('losses'),
+      currentStreak: sql<number>`COALESCE(${userStats.currentStreak}, 0)::int`.as('current_streak'),
+      bestStreak: sql<number>`COALESCE(${userStats.bestStreak}, 0)::int`.as('best_streak'),
+    })
+    .from(users)
+    .$dynamic();
+
+  query = userIds
+    ? query.leftJoin(predictions, settledInWindow)
+    : query.innerJoin(predictions, settledInWindow);
+
+  return query
+    .leftJoin(userSettings, eq(userSettings.userId, users.id))
+    .leftJoin(userStats, eq(userStats.userId, users.id))
+    .where(and(...conditions))
+    .groupBy(users.id, users.username, users.avatarUrl, userStats.currentStreak, userStats.bestStreak)
+    .as('standings');
+}
+
+/**
+ * A page of standings for a window, plus how many users are ranked
+ */
+export async function getLeaderboardStandings(
+  db: Pick<Database, 'select'>,
+  window: Pick<LeaderboardWindow, 'startsAt' | 'endsAt'>,
+  options: { limit: number; offset: number; userIds?: string[] }
+): Promise<{ standings: LeaderboardStanding[]; total: number }> {
+  if (options.userIds && options.userIds.length === 0) {
+    return { standings: [], total: 0 };
+  }
+
+  const standings = standingsSubquery(db, window, options.userIds);
+
+  const rows = await db
+    .select()
+    .from(standings)
+    .orderBy(asc(standings.rank), asc(standings.username))
+    .limit(options.limit)
+    .offset(options.offset);
+
+  return { standings: rows, total: await countLeaderboardStandings(db, window, options.userIds) };
+}
+
+/**
+ * How many users are ranked in a window
+ */
+export async function countLeaderboardStandings(
+  db: Pick<Database, 'select'>,
+  window: Pick<LeaderboardWindow, 'startsAt' | 'endsAt'>,
+  userIds?: string[]
+): Promise<number> {
+  if (userIds && userIds.length === 0) return 0;
+
+  const standings = standingsSubquery(db, window, userIds);
+  const [count] = await db.select({ count: sql<number>`count(*)::int` }).from(standings);
+  return count?.count ?? 0;
+}
+
+/**
+ * One user's standing in a window, or null if they haven't settled anything in it
+ */
+export async function getLeaderboardStanding(
+  db: Pick<Database, 'select'>,
+  window: Pick<LeaderboardWindow, 'startsAt' | 'endsAt'>,
+  userId: string,
+  userIds?: string[]
+): Promise<LeaderboardStanding | null> {
+  const standings = standingsSubquery(db, window, userIds);
+  const [row] = await db.select().from(standings).where(eq(standings.userId, userId)).limit(1);
+  return row ?? null;
+}
+
+/**
+ * Snapshot a finished period and pay its prizes.
+ * Returns null if the period was already closed (or hasn't ended yet).
+ */
+export async function closeLeaderboardPeriod(
+  db: Database,
+  window: LeaderboardWindow
+): Promise<LeaderboardCloseResult | null> {
+  if (window.endsAt.getTime() > Date.now()) return null;
+
+  return db.transaction(async (tx) => {
+    const standings = standingsSubquery(tx, window);
+    const rows = await tx.select().from(standings).orderBy(asc(standings.rank));
+
+    // The unique (period, periodKey) index makes a second close a no-op
+    const [closure] = await tx
+      .insert(leaderboardPeriodClosures)
+      .values({ period: window.period, periodKey: window.key, participants: rows.length })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!closure) return null;
+    if (rows.length === 0) return { participants: 0, prizesPaid: 0 };
+
+    const snapshots = rows.map((row) => {
+      const prize = getLeaderboardPrize(window.period, row.rank);
+      return {
+        period: window.period,
+        periodKey: window.key,
+        periodStart: window.startsAt,
+        periodEnd: window.endsAt,
+        userId: row.userId,
+        rank: row.rank,
+        stars: row.stars,
+        wins: row.wins,
+        losses: row.losses,
+        rewardCoins: prize?.coins ?? 0,
+        rewardStars: prize?.stars ?? 0,
+        rewardGems: prize?.gems ?? 0,
+      };
+    });
+
+    // Periods closed before closure markers existed already have their snapshots
+    const inserted = await tx
+      .insert(leaderboardSnapshots)
+      .values(snapshots)
+      .onConflictDoNothing()
+      .returning();
+
+    if (inserted.length === 0) return null;
+
+    let prizesPaid = 0;
+
+    for (const snapshot of inserted) {
+      if (snapshot.rewardCoins + snapshot.rewardStars + snapshot.rewardGems === 0) continue;
+
+      await creditReward(tx, snapshot.userId, {
+        coins: snapshot.rewardCoins,
+        stars: snapshot.rewardStars,
+        gems: snapshot.rewardGems,
+      }, {
+        type: 'leaderboard_reward',
+        description: `Finished #${snapshot.rank} on the ${window.period} leaderboard (${window.key})`,
+        referenceId: snapshot.id,
+        referenceType: 'leaderboard_snapshot',
+      });
+
+      await recordActivity(tx, {
+        userId: snapshot.userId,
+        type: 'leaderboard_rank',
+        title: `Finished #${snapshot.rank} on the ${window.period} leaderboard`,
+        description: `${snapshot.stars} stars in ${window.key}`,
+        metadata: { period: window.period, periodKey: window.key, rank: snapshot.rank },
+      });
+
+      prizesPaid++;
+    }
+
+    return { participants: inserted.length, prizesPaid };
+  });
+}
+
+/**
+ * Whether a period has already been closed
+ */
+export async function isLeaderboardPeriodClosed(db: Database, window: LeaderboardWindow): Promise<boolean> {
+  const [closure] = await db
+    .select({ id: leaderboardPeriodClosures.id })
+    .from(leaderboardPeriodClosures)
+    .where(and(eq(leaderboardPeriodClosures.period, window.period), eq(leaderboardPeriodClosures.periodKey, window.key)))
+    .limit(1);
+  if (closure) return true;
+
+  // Closed before closure markers existed
+  const [snapshot] = await db
+    .select({ id: leaderboardSnapshots.id })
+    .from(leaderboardSnapshots)
+    .where(and(eq(leaderboardSnapshots.period, window.period), eq(leaderboardSnapshots.periodKey, window.key)))
+    .limit(1);
+
+  return !!snapshot;
+}
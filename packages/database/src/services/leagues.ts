@@ -0,0 +1,155 @@
+/**
+ * Private Leagues
+ *
+ * A league is an invite-only leaderboard. The owner names it and picks the date
+ * it starts counting from; anyone with the invite code can join, up to LEAGUE_MAX_MEMBERS.
+ * Standings come from getLeaderboardStandings, ranked over the league's members.
+ */
+
+import { eq, and, asc, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users } from '../schema/users.js';
+import {
+  leagues,
+  leagueMembers,
+  LEAGUE_MAX_MEMBERS,
+  LEAGUE_MAX_OWNED,
+  type League,
+} from '../schema/gamification.js';
+import type { LeaderboardWindow } from './leaderboards.js';
+
+export type LeagueError = 'invalid_code' | 'league_full' | 'already_member' | 'too_many_leagues';
+
+export type LeagueResult =
+  | { status: 'ok'; league: League }
+  | { status: 'rejected'; error: LeagueError };
+
+export const LEAGUE_ERROR_MESSAGES: Record<LeagueError, string> = {
+  invalid_code: 'League invite code not found',
+  league_full: `Leagues are limited to ${LEAGUE_MAX_MEMBERS} members`,
+  already_member: 'You are already in this league',
+  too_many_leagues: `You can own at most ${LEAGUE_MAX_OWNED} leagues`,
+};
+
+// Invite codes skip look-alike characters (0/O, 1/I) since they're typed in by hand
+const INVITE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+export function generateLeagueInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_CHARS.charAt(Math.floor(Math.random() * INVITE_CODE_CHARS.length));
+  }
+  return code;
+}
+
+export function normalizeLeagueInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * The window a league ranks over: from its start date until now
+ */
+export function getLeagueWindow(league: Pick<League, 'startsAt'>): Pick<LeaderboardWindow, 'startsAt' | 'endsAt'> {
+  return { startsAt: league.startsAt, endsAt: new Date() };
+}
+
+/**
+ * Create a league and add its owner as the first member
+ */
+export async function createLeague(
+  db: Database,
+  ownerId: string,
+  values: { name: string; startsAt?: Date }
+): Promise<LeagueResult> {
+  return db.transaction(async (tx): Promise<LeagueResult> => {
+    // Lock the owner so concurrent creates can't push them past the limit
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, ownerId)).for('update');
+
+    const [owned] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(leagues)
+      .where(eq(leagues.ownerId, ownerId));
+    if ((owned?.count ?? 0) >= LEAGUE_MAX_OWNED) {
+      return { status: 'rejected', error: 'too_many_leagues' };
+    }
+
+    // Retry the rare invite code collision rather than surfacing it
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const [created] = await tx
+        .insert(leagues)
+        .values({
+          name: values.name,
+          ownerId,
+          inviteCode: generateLeagueInviteCode(),
+          startsAt: values.startsAt ?? new Date(),
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (created) {
+        await tx.insert(leagueMembers).values({ leagueId: created.id, userId: ownerId });
+        return { status: 'ok', league: created };
+      }
+    }
+    throw new Error('Could not generate a unique league invite code');
+  });
+}
+
+/**
+ * Join a league by invite code
+ */
+export async function joinLeague(db: Database, userId: string, code: string): Promise<LeagueResult> {
+  return db.transaction(async (tx) => {
+    // Lock the league so concurrent joins can't push it past the member limit
+    const [league] = await tx
+      .select()
+      .from(leagues)
+      .where(eq(leagues.inviteCode, normalizeLeagueInviteCode(code)))
+      .limit(1)
+      .for('update');
+
+    if (!league) return { status: 'rejected', error: 'invalid_code' };
+
+    const [members] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(leagueMembers)
+      .where(eq(leagueMembers.leagueId, league.id));
+    if ((members?.count ?? 0) >= LEAGUE_MAX_MEMBERS) {
+      return { status: 'rejected', error: 'league_full' };
+    }
+
+    const [joined] = await tx
+      .insert(leagueMembers)
+      .values({ leagueId: league.id, userId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!joined) return { status: 'rejected', error: 'already_member' };
+
+    return { status: 'ok', league };
+  });
+}
+
+/**
+ * IDs of everyone in a league, owner included
+ */
+export async function getLeagueMemberIds(db: Pick<Database, 'select'>, leagueId: string): Promise<string[]> {
+  const rows = await db
+    .select({ userId: leagueMembers.userId })
+    .from(leagueMembers)
+    .where(eq(leagueMembers.leagueId, leagueId))
+    .orderBy(asc(leagueMembers.joinedAt));
+
+  return rows.map((row) => row.userId);
+}
+
+export async function isLeagueMember(db: Pick<Database, 'select'>, leagueId: string, userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: leagueMembers.id })
+    .from(leagueMembers)
+    .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, userId)))
+    .limit(1);
+
+  return !!row;
+}
@@ -0,0 +1,268 @@
+/**
+ * Wallet Ledger
+ *
+ * Read-side queries over a user's transactions: filtered history, summaries
+ * and a batched walk of the full ledger for CSV export. Players use these for
+ * their own history, and support uses the export when looking into disputes.
+ *
+ * - Filters are by type, currency and a createdAt range (from inclusive, to exclusive)
+ * - Weeks start on Monday in the user's own time zone
+ * - Winnings vs stakes is per sport; accumulators are reported on their own, as their legs can span sports
+ */
+
+import { eq, and, or, gt, gte, lt, asc, sql, type SQL } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { transactions, transactionTypeEnum, currencyTypeEnum, type Transaction } from '../schema/transactions.js';
+import { predictions } from '../schema/predictions.js';
+import { events } from '../schema/events.js';
+import { sports } from '../schema/sports.js';
+
+export type TransactionType = Transaction['type'];
+export type CurrencyType = Transaction['currency'];
+
+export const TRANSACTION_TYPES = transactionTypeEnum.enumValues;
+export const CURRENCY_TYPES = currencyTypeEnum.enumValues;
+
+export interface LedgerFilters {
+  type?: TransactionType;
+  currency?: CurrencyType;
+  from?: Date;
+  to?: Date;
+}
+
+export type LedgerFilterError = 'invalid_type' | 'invalid_currency' | 'invalid_date_range';
+
+export const LEDGER_FILTER_ERROR_MESSAGES: Record<LedgerFilterError, string> = {
+  invalid_type: `type must be one of: ${TRANSACTION_TYPES.join(', ')}`,
+  invalid_currency: `currency must be one of: ${CURRENCY_TYPES.join(', ')}`,
+  invalid_date_range: 'from and to must be ISO dates, with from before to',
+};
+
+export interface WeeklyNetCoins {
+  weekStart: string; // YYYY-MM-DD, the Monday in the user's time zone
+  credited: number;
+  debited: number;
+  net: number;
+}
+
+export interface SportStakesSummary {
+  sportId: string | null; // null for accumulators
+  sportName: string;
+  predictions: number;
+  staked: number;
+  won: number; // Winnings and cash-outs
+  refunded: number;
+  net: number; // won + refunded - staked
+}
+
+const PREDICTION_COIN_TYPES = ['prediction_stake', 'prediction_win', 'prediction_cashout', 'prediction_refund'] as const;
+
+export const LEDGER_CSV_HEADER = 'id,created_at,type,currency,amount,balance_after,description,reference_type,reference_id';
+
+function isTransactionType(value: string): value is TransactionType {
+  return (TRANSACTION_TYPES as readonly string[]).includes(value);
+}
+
+function isCurrencyType(value: string): value is CurrencyType {
+  return (CURRENCY_TYPES as readonly string[]).includes(value);
+}
+
+// A date-only `to` (YYYY-MM-DD) means "up to and including that day"
+function parseRangeEnd(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+/**
+ * Validate query-string filters. Blank values are treated as absent.
+ */
+export function parseLedgerFilters(
+  params: { type?: string; currency?: string; from?: string; to?: string }
+): { filters: LedgerFilters; error: null } | { filters: null; error: LedgerFilterError } {
+  const filters: LedgerFilters = {};
+
+  if (params.type) {
+    if (!isTransactionType(params.type)) return { filters: null, error: 'invalid_type' };
+    filters.type = params.type;
+  }
+
+  if (params.currency) {
+    if (!isCurrencyType(params.currency)) return { filters: null, error: 'invalid_currency' };
+    filters.currency = params.currency;
+  }
+
+  if (params.from) filters.from = new Date(params.from);
+  if (params.to) filters.to = parseRangeEnd(params.to);
+
+  if (
+    (filters.from && isNaN(filters.from.getTime())) ||
+    (filters.to && isNaN(filters.to.getTime())) ||
+    (filters.from && filters.to && filters.from >= filters.to)
+  ) {
+    return { filters: null, error: 'invalid_date_range' };
+  }
+
+  return { filters, error: null };
+}
+
+/**
+ * WHERE clause for a user's transactions matching the filters
+ */
+export function getLedgerCondition(userId: string, filters: LedgerFilters = {}): SQL {
+  const conditions: SQL[] = [eq(transactions.userId, userId)];
+
+  // Compare enums as text (Data API compatibility)
+  if (filters.type) conditions.push(sql`${transactions.type}::text = ${filters.type}`);
+  if (filters.currency) conditions.push(sql`${transactions.currency}::text = ${filters.currency}`);
+  if (filters.from) conditions.push(gte(transactions.createdAt, filters.from));
+  if (filters.to) conditions.push(lt(transactions.createdAt, filters.to));
+
+  return and(...conditions)!;
+}
+
+/**
+ * Coins credited and debited per week, most recent week first
+ */
+export async function getWeeklyNetCoins(
+  db: Pick<Database, 'select'>,
+  userId: string,
+  timeZone: string,
+  filters: Omit<LedgerFilters, 'currency'> = {}
+): Promise<WeeklyNetCoins[]> {
+  const weekStart = sql<string>`to_char(date_trunc('week', ${transactions.createdAt} AT TIME ZONE ${timeZone}), 'YYYY-MM-DD')`;
+
+  const rows = await db
+    .select({
+      weekStart,
+      credited: sql<number>`coalesce(sum(${transactions.amount}) filter (where ${transactions.amount} > 0), 0)::int`,
+      debited: sql<number>`coalesce(-sum(${transactions.amount}) filter (where ${transactions.amount} < 0), 0)::int`,
+      net: sql<number>`coalesce(sum(${transactions.amount}), 0)::int`,
+    })
+    .from(transactions)
+    .where(getLedgerCondition(userId, { ...filters, currency: 'coins' }))
+    // By position: the time zone is a bound parameter, so the expression can't be repeated
+    .groupBy(sql`1`)
+    .orderBy(sql`1 desc`);
+
+  return rows.map((row) => ({
+    weekStart: row.weekStart,
+    credited: Number(row.credited),
+    debited: Number(row.debited),
+    net: Number(row.net),
+  }));
+}
+
+/**
+ * Coins staked against coins won back, per sport, biggest stake first
+ */
+export async function getStakesBySport(
+  db: Pick<Database, 'select'>,
+  userId: string,
+  filters: Pick<LedgerFilters, 'from' | 'to'> = {}
+): Promise<SportStakesSummary[]> {
+  const amountFor = (types: readonly string[]) =>
+    sql<number>`coalesce(sum(${transactions.amount}) filter (where ${transactions.type}::text in (${sql.join(types.map((t) => sql`${t}`), sql`, `)})), 0)::int`;
+
+  const rows = await db
+    .select({
+      sportId: sports.id,
+      sportName: sports.name,
+      predictions: sql<number>`count(distinct ${predictions.id})::int`,
+      staked: amountFor(['prediction_stake']),
+      won: amountFor(['prediction_win', 'prediction_cashout']),
+      refunded: amountFor(['prediction_refund']),
+    })
+    .from(transactions)
+    .innerJoin(predictions, eq(transactions.referenceId, predictions.id))
+    .leftJoin(events, eq(predictions.eventId, events.id))
+    .leftJoin(sports, eq(events.sportId, sports.id))
+    .where(and(
+      getLedgerCondition(userId, { ...filters, currency: 'coins' }),
+      eq(transactions.referenceType, 'prediction'),
+      sql`${transactions.type}::text in (${sql.join(PREDICTION_COIN_TYPES.map((t) => sql`${t}`), sql`, `)})`
+    ))
+    .groupBy(sports.id, sports.name);
+
+  return rows
+    .map((row) => {
+      const staked = -Number(row.staked);
+      const won = Number(row.won);
+      const refunded = Number(row.refunded);
+      return {
+        sportId: row.sportId,
+        sportName: row.sportName ?? 'Accumulators',
+        predictions: Number(row.predictions),
+        staked,
+        won,
+        refunded,
+        net: won + refunded - staked,
+      };
+    })
+    .sort((a, b) => b.staked - a.staked);
+}
+
+/**
+ * Walk a user's ledger oldest first, one batch at a time, so an export never
+ * holds more than a batch of rows in memory. Pages by (createdAt, id) rather
+ * than offset so rows written mid-export don't shift the pages. The cursor keeps
+ * createdAt as Postgres text: a JS Date drops the microseconds, which would
+ * bring the last row of a batch back at the start of the next.
+ */
+export async function* iterateLedger(
+  db: Pick<Database, 'select'>,
+  userId: string,
+  filters: LedgerFilters = {},
+  batchSize = 500
+): AsyncGenerator<Transaction[]> {
+  let cursor: { createdAt: string; id: string } | null = null;
+
+  while (true) {
+    const condition = getLedgerCondition(userId, filters);
+    const batch: Array<{ transaction: Transaction; createdAt: string }> = await db
+      .select({ transaction: transactions, createdAt: sql<string>`${transactions.createdAt}::text` })
+      .from(transactions)
+      .where(cursor
+        ? and(condition, or(
+            sql`${transactions.createdAt} > ${cursor.createdAt}::timestamptz`,
+            and(sql`${transactions.createdAt} = ${cursor.createdAt}::timestamptz`, gt(transactions.id, cursor.id))
+          ))
+        : condition)
+      .orderBy(asc(transactions.createdAt), asc(transactions.id))
+      .limit(batchSize);
+
+    if (batch.length === 0) return;
+    yield batch.map((row) => row.transaction);
+    if (batch.length < batchSize) return;
+
+    const last = batch[batch.length - 1]!;
+    cursor = { createdAt: last.createdAt, id: last.transaction.id };
+  }
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  // Quote anything a spreadsheet could misread, and neutralise formula prefixes
+  const safe = /^[=+\-@]/.test(text) && typeof value === 'string' ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * One CSV line (with trailing newline) per transaction, matching LEDGER_CSV_HEADER
+ */
+export function formatLedgerCsv(rows: Transaction[]): string {
+  return rows
+    .map((t) => [
+      t.id,
+      new Date(t.createdAt).toISOString(),
+      t.type,
+      t.currency,
+      t.amount,
+      t.balanceAfter,
+      t.description,
+      t.referenceType,
+      t.referenceId,
+    ].map(csvField).join(',') + '\n')
+    .join('');
+}
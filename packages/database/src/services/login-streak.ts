@@ -0,0 +1,258 @@
+/**
+ * Daily Login Streak
+ *
+ * One check-in per day, where "day" is the user's own calendar day in their
+ * timezone. Checking in on consecutive days grows the streak; missing a day
+ * resets it to 1.
+ *
+ * - Every check-in pays a login_bonus from LOGIN_BONUS_SCHEDULE
+ * - Reaching a LOGIN_STREAK_MILESTONES day also pays a streak_bonus
+ * - The userStats row is locked for the check-in, so a day can't be paid twice
+ * - The local day of each check-in is stored, so moving timezone can't make the
+ *   same day count again; check-ins are also at least MIN_CHECK_IN_GAP_HOURS apart
+ *   and the timezone can only change once per TIMEZONE_CHANGE_COOLDOWN_HOURS
+ */
+
+import { eq, and, or, isNull, lte } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users, userStats, type UserStats } from '../schema/users.js';
+import { LOGIN_BONUS_SCHEDULE, LOGIN_STREAK_MILESTONES } from '../schema/transactions.js';
+import { creditReward, type RewardBalances, type RewardBundle } from './rewards.js';
+import { recordActivity } from './activity.js';
+import { evaluateAchievements } from './achievements.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MIN_CHECK_IN_GAP_HOURS = 20;
+export const TIMEZONE_CHANGE_COOLDOWN_HOURS = 24;
+
+export interface LoginStreakStatus {
+  currentStreak: number;
+  bestStreak: number;
+  checkedInToday: boolean;
+  lastCheckInAt: Date | null;
+  nextCheckInAt: Date; // The user's next midnight, or later if the last check-in was too recent
+  nextBonusCoins: number;
+  nextMilestone: { day: number; reward: RewardBundle } | null;
+  timezone: string;
+}
+
+export type LoginCheckIn =
+  | { status: 'checked_in'; streak: LoginStreakStatus; bonusCoins: number; milestoneReward: RewardBundle | null; balances: RewardBalances }
+  | { status: 'already_checked_in'; streak: LoginStreakStatus };
+
+export type TimeZoneChangeError = 'too_soon';
+
+export type TimeZoneChange =
+  | { status: 'ok'; timezone: string }
+  | { status: 'rejected'; error: TimeZoneChangeError };
+
+export const TIMEZONE_CHANGE_ERROR_MESSAGES: Record<TimeZoneChangeError, string> = {
+  too_soon: `Your timezone can only be changed once every ${TIMEZONE_CHANGE_COOLDOWN_HOURS} hours`,
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A moment's calendar date in a timezone, as days since the epoch
+ */
+export function getLocalDayNumber(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Math.floor(Date.UTC(part('year'), part('month') - 1, part('day')) / DAY_MS);
+}
+
+/**
+ * The next midnight in a timezone, as an instant (to the minute)
+ */
+export function getNextLocalMidnight(at: Date, timeZone: string): Date {
+  const today = getLocalDayNumber(at, timeZone);
+  // Search rather than apply an offset, so DST changes are handled
+  let low = at.getTime();
+  let high = low + 26 * 60 * 60 * 1000;
+  while (high - low > 60 * 1000) {
+    const mid = Math.floor((low + high) / 2);
+    if (getLocalDayNumber(new Date(mid), timeZone) > today) high = mid;
+    else low = mid;
+  }
+  return new Date(Math.floor(high / (60 * 1000)) * 60 * 1000);
+}
+
+export function getLoginBonusCoins(streakDay: number): number {
+  const index = Math.min(Math.max(streakDay, 1), LOGIN_BONUS_SCHEDULE.length) - 1;
+  return LOGIN_BONUS_SCHEDULE[index] ?? 0;
+}
+
+function getNextMilestone(afterDay: number): { day: number; reward: RewardBundle } | null {
+  const day = Object.keys(LOGIN_STREAK_MILESTONES)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .find((milestone) => milestone > afterDay);
+  const reward = day ? LOGIN_STREAK_MILESTONES[day] : undefined;
+  return day && reward ? { day, reward } : null;
+}
+
+/**
+ * Where a user's streak stands right now. A streak whose last check-in was
+ * before yesterday is reported as 0, since the next check-in will reset it.
+ */
+export function getLoginStreakStatus(
+  stats: Pick<UserStats, 'loginStreak' | 'bestLoginStreak' | 'lastLoginDate' | 'lastLoginLocalDay'> | null,
+  timeZone: string,
+  at: Date = new Date()
+): LoginStreakStatus {
+  const today = getLocalDayNumber(at, timeZone);
+  const lastCheckInAt = stats?.lastLoginDate ? new Date(stats.lastLoginDate) : null;
+  // Check-ins from before the local day was stored fall back to the current timezone
+  const lastDay = stats?.lastLoginLocalDay ?? (lastCheckInAt ? getLocalDayNumber(lastCheckInAt, timeZone) : null);
+  const earliestNext = lastCheckInAt ? new Date(lastCheckInAt.getTime() + MIN_CHECK_IN_GAP_HOURS * HOUR_MS) : null;
+
+  const checkedInToday = lastDay !== null && (today <= lastDay || (earliestNext !== null && at < earliestNext));
+  const isAlive = lastDay !== null && today - lastDay <= 1;
+  const currentStreak = isAlive ? stats?.loginStreak ?? 0 : 0;
+
+  // After moving west the stored day can still be ahead of the local one
+  let nextCheckInAt = getNextLocalMidnight(at, timeZone);
+  while (lastDay !== null && getLocalDayNumber(nextCheckInAt, timeZone) <= lastDay) {
+    nextCheckInAt = getNextLocalMidnight(nextCheckInAt, timeZone);
+  }
+  if (earliestNext && earliestNext > nextCheckInAt) nextCheckInAt = earliestNext;
+
+  return {
+    currentStreak,
+    bestStreak: stats?.bestLoginStreak ?? 0,
+    checkedInToday,
+    lastCheckInAt,
+    nextCheckInAt,
+    nextBonusCoins: getLoginBonusCoins(currentStreak + 1),
+    nextMilestone: getNextMilestone(currentStreak),
+    timezone: timeZone,
+  };
+}
+
+/**
+ * Move a user to another timezone, at most once per TIMEZONE_CHANGE_COOLDOWN_HOURS.
+ * Asking for the timezone they already have always succeeds.
+ */
+export async function changeTimeZone(
+  db: Pick<Database, 'select' | 'update'>,
+  userId: string,
+  timeZone: string,
+  at: Date = new Date()
+): Promise<TimeZoneChange> {
+  const [user] = await db
+    .select({ timezone: users.timezone })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    throw new Error(`User not found: ${userId}`);
+  }
+  if (user.timezone === timeZone) {
+    return { status: 'ok', timezone: timeZone };
+  }
+
+  // The cooldown is checked in the update itself, so parallel requests can't both change it
+  const cooldownStart = new Date(at.getTime() - TIMEZONE_CHANGE_COOLDOWN_HOURS * HOUR_MS);
+  const [updated] = await db
+    .update(users)
+    .set({ timezone: timeZone, timezoneChangedAt: at, updatedAt: at })
+    .where(and(
+      eq(users.id, userId),
+      or(isNull(users.timezoneChangedAt), lte(users.timezoneChangedAt, cooldownStart))
+    ))
+    .returning();
+
+  return updated ? { status: 'ok', timezone: timeZone } : { status: 'rejected', error: 'too_soon' };
+}
+
+/**
+ * Check a user in for today and pay the login bonus (plus any milestone bonus)
+ */
+export async function checkInDailyLogin(
+  db: Database,
+  userId: string,
+  timeZone: string,
+  at: Date = new Date()
+): Promise<LoginCheckIn> {
+  return db.transaction(async (tx) => {
+    // Lock the stats row so parallel check-ins for the same day serialise
+    const [stats] = await tx
+      .select()
+      .from(userStats)
+      .where(eq(userStats.userId, userId))
+      .limit(1)
+      .for('update');
+
+    const before = getLoginStreakStatus(stats ?? null, timeZone, at);
+    if (before.checkedInToday) {
+      return { status: 'already_checked_in', streak: before };
+    }
+
+    const loginStreak = before.currentStreak + 1;
+    const bestLoginStreak = Math.max(loginStreak, stats?.bestLoginStreak ?? 0);
+
+    const [updated] = await tx
+      .update(userStats)
+      .set({
+        loginStreak,
+        bestLoginStreak,
+        lastLoginDate: at,
+        lastLoginLocalDay: getLocalDayNumber(at, timeZone),
+        updatedAt: at,
+      })
+      .where(eq(userStats.userId, userId))
+      .returning();
+
+    if (!updated) {
+      throw new Error(`User stats not found for ${userId}`);
+    }
+
+    const bonusCoins = getLoginBonusCoins(loginStreak);
+    let balances = await creditReward(tx, userId, { coins: bonusCoins, stars: 0, gems: 0 }, {
+      type: 'login_bonus',
+      description: `Daily login bonus - day ${loginStreak}`,
+    });
+
+    const milestoneReward = LOGIN_STREAK_MILESTONES[loginStreak] ?? null;
+    if (milestoneReward) {
+      balances = await creditReward(tx, userId, milestoneReward, {
+        type: 'streak_bonus',
+        description: `${loginStreak}-day login streak bonus`,
+      });
+
+      await recordActivity(tx, {
+        userId,
+        type: 'streak_milestone',
+        title: `${loginStreak}-day login streak`,
+        description: `Checked in ${loginStreak} days in a row`,
+        metadata: { streakType: 'login', streak: loginStreak },
+      });
+    }
+
+    // login_streak achievements read from userStats
+    await evaluateAchievements(tx, userId);
+
+    return {
+      status: 'checked_in',
+      streak: getLoginStreakStatus(updated, timeZone, at),
+      bonusCoins,
+      milestoneReward,
+      balances,
+    };
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Odds History
+ *
+ * Price movement per outcome of an event, from the changes the odds sync
+ * records in odds_history, for charting before a prediction.
+ *
+ * - Flagged changes are left out - they're held for review, not prices we offered
+ * - Each outcome's series is downsampled to at most `points` buckets, keeping the
+ *   last price in each bucket and always the opening and current prices
+ * - A steam move is a sharp shortening in a short time: money coming in on an outcome.
+ *   It's only reported while it's recent, not for the rest of the event's life
+ */
+
+import { eq, and, asc } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { oddsHistory } from '../schema/audit.js';
+import { markets, outcomes } from '../schema/events.js';
+
+export const ODDS_HISTORY_LIMITS = {
+  defaultPoints: 50,
+  maxPoints: 200,
+} as const;
+
+// A drop of at least minShortening (as a fraction of the price) within windowMinutes,
+// ending no more than recentMinutes ago
+export const STEAM_MOVE = {
+  minShortening: 0.1,
+  windowMinutes: 30,
+  recentMinutes: 120,
+} as const;
+
+export interface OddsPoint {
+  at: Date;
+  odds: number;
+}
+
+export interface SteamMove {
+  from: OddsPoint;
+  to: OddsPoint;
+  changePercent: number; // Negative - the price shortened
+}
+
+export interface OutcomeOddsHistory {
+  marketId: string;
+  marketType: string;
+  line: number | null;
+  outcomeId: string;
+  name: string;
+  opening: number;
+  current: number;
+  high: number;
+  low: number;
+  changePercent: number; // Opening to current
+  steamMove: SteamMove | null; // One ending within STEAM_MOVE.recentMinutes, if any
+  points: OddsPoint[];
+}
+
+// Same format as the odds sync's market keys: the type, or type:line for lined markets
+function marketKey(type: string, line: string | null): string {
+  return line === null ? type : `${type}:${parseFloat(line)}`;
+}
+
+function roundPercent(from: number, to: number): number {
+  return Math.round(((to - from) / from) * 10000) / 100;
+}
+
+/**
+ * At most `maxPoints` points: the last price in each equal slice of time,
+ * plus the first and last points
+ */
+export function downsampleOdds(points: OddsPoint[], maxPoints: number): OddsPoint[] {
+  if (points.length <= maxPoints || maxPoints < 2) return points;
+
+  const start = points[0]!.at.getTime();
+  const end = points[points.length - 1]!.at.getTime();
+  const buckets = maxPoints - 1; // The opening point has a slot of its own
+  const width = (end - start) / buckets || 1;
+
+  const sampled: OddsPoint[] = [points[0]!];
+  let lastBucket = -1;
+  for (const point of points.slice(1)) {
+    const bucket = Math.min(buckets - 1, Math.floor((point.at.getTime() - start) / width));
+    if (bucket === lastBucket) sampled[sampled.length - 1] = point;
+    else sampled.push(point);
+    lastBucket = bucket;
+  }
+
+  return sampled;
+}
+
+/**
+ * The most recent steam move in a series (oldest first), if it ended recently
+ */
+export function detectSteamMove(points: OddsPoint[], now: Date = new Date()): SteamMove | null {
+  const windowMs = STEAM_MOVE.windowMinutes * 60 * 1000;
+  const recentSince = now.getTime() - STEAM_MOVE.recentMinutes * 60 * 1000;
+
+  for (let i = points.length - 1; i > 0; i--) {
+    const to = points[i]!;
+    if (to.at.getTime() < recentSince) break; // Everything before this is older still
+    // The highest price in the window before this one
+    let from: OddsPoint | null = null;
+    for (let j = i - 1; j >= 0 && to.at.getTime() - points[j]!.at.getTime() <= windowMs; j--) {
+      if (!from || points[j]!.odds > from.odds) from = points[j]!;
+    }
+
+    if (from && (from.odds - to.odds) / from.odds >= STEAM_MOVE.minShortening) {
+      return { from, to, changePercent: roundPercent(from.odds, to.odds) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Price history for every outcome of an event
+ */
+export async function getEventOddsHistory(
+  db: Pick<Database, 'select'>,
+  eventId: string,
+  maxPoints: number = ODDS_HISTORY_LIMITS.defaultPoints
+): Promise<OutcomeOddsHistory[]> {
+  const currentOutcomes = await db
+    .select({
+      marketId: markets.id,
+      marketType: markets.type,
+      line: markets.line,
+      outcomeId: outcomes.id,
+      name: outcomes.name,
+      odds: outcomes.odds,
+      updatedAt: outcomes.updatedAt,
+    })
+    .from(outcomes)
+    .innerJoin(markets, eq(outcomes.marketId, markets.id))
+    .where(eq(markets.eventId, eventId))
+    .orderBy(asc(markets.createdAt), asc(outcomes.name));
+
+  const changes = await db
+    .select({
+      marketType: oddsHistory.marketType,
+      outcomeName: oddsHistory.outcomeName,
+      newOdds: oddsHistory.newOdds,
+      recordedAt: oddsHistory.recordedAt,
+    })
+    .from(oddsHistory)
+    .where(and(eq(oddsHistory.eventId, eventId), eq(oddsHistory.isFlagged, 0)))
+    .orderBy(asc(oddsHistory.recordedAt));
+
+  // Group the changes by market key and outcome name
+  const byOutcome = new Map<string, OddsPoint[]>();
+  for (const change of changes) {
+    const odds = parseFloat(change.newOdds);
+    if (!Number.isFinite(odds)) continue;
+
+    const key = `${change.marketType}|${change.outcomeName.toLowerCase()}`;
+    const series = byOutcome.get(key) ?? [];
+    series.push({ at: change.recordedAt, odds });
+    byOutcome.set(key, series);
+  }
+
+  return currentOutcomes.map((outcome) => {
+    const current = parseFloat(outcome.odds);
+    const points = [...(byOutcome.get(`${marketKey(outcome.marketType, outcome.line)}|${outcome.name.toLowerCase()}`) ?? [])];
+
+    // The current price ends the series, in case it was set without a recorded change
+    const last = points[points.length - 1];
+    if (!last || last.odds !== current) {
+      points.push({ at: last && last.at > outcome.updatedAt ? last.at : outcome.updatedAt, odds: current });
+    }
+
+    const prices = points.map((p) => p.odds);
+    const opening = points[0]!.odds;
+
+    return {
+      marketId: outcome.marketId,
+      marketType: outcome.marketType,
+      line: outcome.line === null ? null : parseFloat(outcome.line),
+      outcomeId: outcome.outcomeId,
+      name: outcome.name,
+      opening,
+      current,
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      changePercent: roundPercent(opening, current),
+      steamMove: detectSteamMove(points),
+      points: downsampleOdds(points, maxPoints),
+    };
+  });
+}
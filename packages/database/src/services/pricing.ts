@@ -0,0 +1,122 @@
+/**
+ * Odds Pricing
+ *
+ * Turns a source's prices for a market into the odds we show and pay on. The
+ * bookmaker's margin is removed to get fair probabilities, then our own house
+ * margin for the sport is applied. An event's odds then carry the same margin
+ * whichever source priced it.
+ *
+ * - Proportional: every outcome's implied probability is scaled down by the same factor
+ * - Shin: assumes the margin guards against insider money, so longshots carry more of it
+ * - Only for complete markets, where the outcomes cover every result - a partial
+ *   book (correct score, first scorer) can't be normalised
+ */
+
+import type { Sport } from '../schema/sports.js';
+
+export type SportSlug = Sport['slug'];
+export type MarginMethod = 'proportional' | 'shin';
+
+// House margin (overround) applied to fair probabilities, e.g. 0.05 = book adds up to 105%
+export const HOUSE_MARGINS: Partial<Record<SportSlug, number>> = {
+  football: 0.05,
+  tennis: 0.05,
+  basketball: 0.045,
+  american_football: 0.045,
+  ice_hockey: 0.05,
+  baseball: 0.05,
+  cricket: 0.06,
+  rugby: 0.06,
+  darts: 0.06,
+};
+
+export const ODDS_PRICING = {
+  defaultHouseMargin: 0.06, // Sports without their own margin
+  method: 'shin' as MarginMethod,
+  minOdds: 1.01,
+} as const;
+
+export function getHouseMargin(sportSlug: string): number {
+  return HOUSE_MARGINS[sportSlug as SportSlug] ?? ODDS_PRICING.defaultHouseMargin;
+}
+
+/**
+ * Bookmaker margin in a set of prices: total implied probability less 1
+ */
+export function getOverround(odds: number[]): number {
+  return odds.reduce((sum, price) => sum + 1 / price, 0) - 1;
+}
+
+/**
+ * Fair probabilities with the margin spread proportionally across outcomes
+ */
+export function removeMarginProportional(odds: number[]): number[] {
+  const implied = odds.map((price) => 1 / price);
+  const total = implied.reduce((sum, p) => sum + p, 0);
+  return implied.map((p) => p / total);
+}
+
+// Shin probability for one outcome, given the share z of insider money
+function shinProbability(implied: number, total: number, z: number): number {
+  return (Math.sqrt(z * z + 4 * (1 - z) * (implied * implied) / total) - z) / (2 * (1 - z));
+}
+
+/**
+ * Fair probabilities by Shin's method
+ *
+ * Solves for the insider share z where the probabilities add up to 1. The sum
+ * falls as z rises, so a bisection finds it. A book with no margin has z = 0
+ * and comes back unchanged.
+ */
+export function removeMarginShin(odds: number[]): number[] {
+  const implied = odds.map((price) => 1 / price);
+  const total = implied.reduce((sum, p) => sum + p, 0);
+  if (total <= 1 || odds.length < 2) return removeMarginProportional(odds);
+
+  const sumAt = (z: number) => implied.reduce((sum, p) => sum + shinProbability(p, total, z), 0);
+
+  let low = 0;
+  let high = 0.999;
+  for (let i = 0; i < 100 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (sumAt(mid) > 1) low = mid;
+    else high = mid;
+  }
+
+  // Normalise away what's left of the bisection error
+  const probabilities = implied.map((p) => shinProbability(p, total, (low + high) / 2));
+  const sum = probabilities.reduce((s, p) => s + p, 0);
+  return probabilities.map((p) => p / sum);
+}
+
+export function getFairProbabilities(odds: number[], method: MarginMethod = ODDS_PRICING.method): number[] {
+  return method === 'shin' ? removeMarginShin(odds) : removeMarginProportional(odds);
+}
+
+/**
+ * Decimal odds from fair probabilities with a house margin added proportionally
+ */
+export function applyHouseMargin(probabilities: number[], margin: number): number[] {
+  return probabilities.map((p) => {
+    if (p <= 0) return 0;
+    // Rounded down, so the book never carries less than the house margin
+    const odds = Math.floor((1 / (p * (1 + margin))) * 100) / 100;
+    return Math.max(ODDS_PRICING.minOdds, odds);
+  });
+}
+
+/**
+ * Reprice a complete market (outcome name -> decimal odds) at the sport's house margin
+ */
+export function priceMarket(
+  outcomes: Record<string, number>,
+  sportSlug: string,
+  method: MarginMethod = ODDS_PRICING.method
+): Record<string, number> {
+  const names = Object.keys(outcomes);
+  const odds = names.map((name) => outcomes[name]!);
+  if (odds.length < 2 || odds.some((price) => !(price > 1))) return outcomes;
+
+  const priced = applyHouseMargin(getFairProbabilities(odds, method), getHouseMargin(sportSlug));
+  return Object.fromEntries(names.map((name, i) => [name, priced[i]!]));
+}
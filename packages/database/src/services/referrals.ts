@@ -0,0 +1,160 @@
+/**
+ * Referrals
+ *
+ * A referral code is redeemed once per user, at registration or shortly after.
+ * The referral completes when the referred user's first prediction settles,
+ * and both sides are then paid a referral_bonus in the same transaction.
+ */
+
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users, userStats } from '../schema/users.js';
+import { referrals, type Referral } from '../schema/social.js';
+import {
+  REFERRER_BONUS_COINS,
+  REFERRER_BONUS_STARS,
+  REFERRED_BONUS_COINS,
+  REFERRED_BONUS_STARS,
+} from '../schema/transactions.js';
+import { creditReward } from './rewards.js';
+
+export type ReferralRedemptionError =
+  | 'invalid_code'
+  | 'self_referral'
+  | 'already_referred'
+  | 'circular_referral'
+  | 'too_late';
+
+export type ReferralRedemption =
+  | { status: 'redeemed'; referral: Referral; referrerUsername: string }
+  | { status: 'rejected'; error: ReferralRedemptionError };
+
+export const REFERRAL_ERROR_MESSAGES: Record<ReferralRedemptionError, string> = {
+  invalid_code: 'Referral code not found',
+  self_referral: 'You cannot use your own referral code',
+  already_referred: 'You have already used a referral code',
+  circular_referral: 'You cannot use the code of someone you referred',
+  too_late: 'Referral codes must be used before your first prediction settles',
+};
+
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Find the user who owns a referral code
+ */
+export async function findReferrer(db: Database, code: string) {
+  const [referrer] = await db
+    .select({ id: users.id, username: users.username, referredById: users.referredById })
+    .from(users)
+    .where(eq(users.referralCode, normalizeReferralCode(code)))
+    .limit(1);
+
+  return referrer ?? null;
+}
+
+/**
+ * Redeem a referral code for a user. Rejects unknown codes, self-referral,
+ * a second code, referring your own referrer, and users who already have a settled prediction.
+ */
+export async function redeemReferralCode(
+  db: Database,
+  userId: string,
+  code: string
+): Promise<ReferralRedemption> {
+  const referrer = await findReferrer(db, code);
+  if (!referrer) return { status: 'rejected', error: 'invalid_code' };
+  if (referrer.id === userId) return { status: 'rejected', error: 'self_referral' };
+  if (referrer.referredById === userId) return { status: 'rejected', error: 'circular_referral' };
+
+  const [stats] = await db
+    .select({ totalWins: userStats.totalWins, totalLosses: userStats.totalLosses })
+    .from(userStats)
+    .where(eq(userStats.userId, userId))
+    .limit(1);
+  if (stats && stats.totalWins + stats.totalLosses > 0) {
+    return { status: 'rejected', error: 'too_late' };
+  }
+
+  const referral = await db.transaction(async (tx) => {
+    // Claim referredById first - a user can only ever be referred once
+    const [claimed] = await tx
+      .update(users)
+      .set({ referredById: referrer.id, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.referredById)))
+      .returning();
+
+    if (!claimed) return null;
+
+    const [created] = await tx
+      .insert(referrals)
+      .values({
+        referrerId: referrer.id,
+        referredUserId: userId,
+        referralCode: normalizeReferralCode(code),
+        referrerRewardCoins: REFERRER_BONUS_COINS,
+        referrerRewardStars: REFERRER_BONUS_STARS,
+        referredRewardCoins: REFERRED_BONUS_COINS,
+        referredRewardStars: REFERRED_BONUS_STARS,
+      })
+      .returning();
+
+    return created;
+  });
+
+  if (!referral) return { status: 'rejected', error: 'already_referred' };
+
+  return { status: 'redeemed', referral, referrerUsername: referrer.username };
+}
+
+/**
+ * Complete and pay a user's pending referral. Called when their prediction
+ * settles; only the first settlement finds a pending referral.
+ */
+export async function completeReferral(
+  db: Pick<Database, 'update' | 'insert'>,
+  referredUserId: string
+): Promise<Referral | null> {
+  // Use raw SQL for enum values (Data API compatibility)
+  const [completed] = await db
+    .update(referrals)
+    .set({
+      status: sql`'completed'::referral_status` as unknown as 'completed',
+      completedAt: new Date(),
+    })
+    .where(and(eq(referrals.referredUserId, referredUserId), sql`${referrals.status}::text = 'pending'`))
+    .returning();
+
+  if (!completed) return null;
+
+  await creditReward(db, completed.referrerId, {
+    coins: completed.referrerRewardCoins,
+    stars: completed.referrerRewardStars,
+    gems: 0,
+  }, {
+    type: 'referral_bonus',
+    description: 'Referral bonus - your friend made their first prediction',
+    referenceId: completed.id,
+    referenceType: 'referral',
+  });
+
+  await creditReward(db, completed.referredUserId, {
+    coins: completed.referredRewardCoins,
+    stars: completed.referredRewardStars,
+    gems: 0,
+  }, {
+    type: 'referral_bonus',
+    description: 'Referral bonus - thanks for joining with a friend\'s code',
+    referenceId: completed.id,
+    referenceType: 'referral',
+  });
+
+  const [rewarded] = await db
+    .update(referrals)
+    .set({ status: sql`'rewarded'::referral_status` as unknown as 'rewarded' })
+    .where(eq(referrals.id, completed.id))
+    .returning();
+
+  return rewarded ?? completed;
+}
@@ -0,0 +1,83 @@
+/**
+ * Reward Payouts
+ *
+ * Credits a coins/stars/gems reward bundle (challenges, achievements, referrals,
+ * leaderboard prizes, login bonuses, rewarded ads, subscription bonuses) and
+ * writes one ledger entry per currency with the real balance after it.
+ */
+
+import { eq, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+
+export type RewardTransactionType =
+  | 'challenge_reward'
+  | 'achievement_reward'
+  | 'leaderboard_reward'
+  | 'referral_bonus'
+  | 'login_bonus'
+  | 'streak_bonus'
+  | 'ad_bonus'
+  | 'subscription_bonus';
+
+export interface RewardBundle {
+  coins: number;
+  stars: number;
+  gems: number;
+}
+
+export interface RewardPayout {
+  type: RewardTransactionType;
+  description: string;
+  referenceId?: string | null;
+  referenceType?: string | null;
+}
+
+export interface RewardBalances {
+  coins: number;
+  stars: number;
+  gems: number;
+}
+
+/**
+ * Credit a reward to a user. Pass a transaction so the credit commits with
+ * whatever marks the reward as paid. Returns the balances after the credit.
+ */
+export async function creditReward(
+  db: Pick<Database, 'update' | 'insert'>,
+  userId: string,
+  reward: RewardBundle,
+  payout: RewardPayout
+): Promise<RewardBalances> {
+  const [balance] = await db
+    .update(users)
+    .set({
+      coins: sql`${users.coins} + ${reward.coins}`,
+      stars: sql`${users.stars} + ${reward.stars}`,
+      gems: sql`${users.gems} + ${reward.gems}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId))
+    .returning();
+
+  if (!balance) throw new Error(`User not found: ${userId}`);
+
+  for (const currency of ['coins', 'stars', 'gems'] as const) {
+    if (reward[currency] <= 0) continue;
+
+    // Use raw SQL for enum values (Data API compatibility)
+    await db.insert(transactions).values({
+      userId,
+      type: sql`${payout.type}::transaction_type` as unknown as RewardTransactionType,
+      currency: sql`${currency}::currency_type` as unknown as typeof currency,
+      amount: reward[currency],
+      balanceAfter: balance[currency],
+      description: payout.description,
+      referenceId: payout.referenceId ?? null,
+      referenceType: payout.referenceType ?? null,
+    });
+  }
+
+  return { coins: balance.coins, stars: balance.stars, gems: balance.gems };
+}
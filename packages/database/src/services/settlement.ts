@@ -0,0 +1,276 @@
+/**
+ * Prediction Settlement Service
+ *
+ * Single place that pays out (or refunds) a prediction. Used by the
+ * settlement Lambda and by every CMS settle action, so payouts, stars,
+ * streaks and the transaction ledger are always written the same way.
+ *
+ * - Payouts use the coins locked in at placement (potentialCoins), never the current odds
+ * - Stars are the profit multiplied by the prediction's starsMultiplier
+ * - Every credit writes a transaction with the real balance after it
+ * - Settlement only applies to pending predictions, so retries can't pay twice
+ * - A loss resets the win streak unless the user has a streak shield set to auto-use
+ * - Challenge and achievement progress move in the same transaction as the payout
+ */
+
+import { eq, and, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { predictions, accumulatorSelections, ACCUMULATOR_BONUSES } from '../schema/predictions.js';
+import { users, userStats } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+import { recordActivity, isStreakMilestone } from './activity.js';
+import { updateChallengeProgress } from './challenges.js';
+import { evaluateAchievements } from './achievements.js';
+import { completeReferral } from './referrals.js';
+import { useStreakShield } from './streak-shields.js';
+
+export type SettlementStatus = 'won' | 'lost' | 'void';
+
+export interface SettlementOptions {
+  // Override the payout for a win (e.g. accumulators with void legs)
+  settledCoins?: number;
+  // Admin who reviewed the prediction (CMS actions)
+  reviewedBy?: string | null;
+}
+
+export interface PredictionSettlement {
+  predictionId: string;
+  userId: string;
+  status: SettlementStatus;
+  settledCoins: number;
+  settledStars: number;
+  coinsBalanceAfter: number | null; // null when nothing was credited
+}
+
+/**
+ * Stars earned on a win: the profit, scaled by the multiplier locked in at placement
+ */
+export function calculateSettledStars(settledCoins: number, stake: number, starsMultiplier: string | number): number {
+  const multiplier = typeof starsMultiplier === 'number' ? starsMultiplier : parseFloat(starsMultiplier);
+  const profit = Math.max(0, settledCoins - stake);
+  return Math.floor(profit * (Number.isFinite(multiplier) ? multiplier : 1));
+}
+
+/**
+ * Payout for an accumulator once every leg has settled.
+ * Void legs count as odds of 1.0, so their odds are divided out of the locked-in payout,
+ * and the leg-count bonus is swapped for the one the remaining legs earn.
+ */
+export function calculateAccumulatorResult(
+  potentialCoins: number,
+  legs: Array<{ status: string; odds: string }>
+): { status: SettlementStatus; settledCoins: number } {
+  if (legs.some((leg) => leg.status === 'lost')) {
+    return { status: 'lost', settledCoins: 0 };
+  }
+  if (legs.every((leg) => leg.status === 'void')) {
+    return { status: 'void', settledCoins: 0 };
+  }
+
+  const voidLegs = legs.filter((leg) => leg.status === 'void');
+  const voidOdds = voidLegs.reduce((acc, leg) => acc * parseFloat(leg.odds), 1);
+  const placedBonus = ACCUMULATOR_BONUSES[legs.length] ?? 1.0;
+  const remainingBonus = ACCUMULATOR_BONUSES[legs.length - voidLegs.length] ?? 1.0;
+
+  // Rounded to two places before flooring, so float error can't cost a coin
+  const settledCoins = Math.floor(Math.round((potentialCoins / voidOdds / placedBonus) * remainingBonus * 100) / 100);
+  return { status: 'won', settledCoins };
+}
+
+/**
+ * Settle a pending prediction as won, lost or void.
+ * Returns null if the prediction doesn't exist or has already been settled.
+ */
+export async function settlePrediction(
+  db: Database,
+  predictionId: string,
+  status: SettlementStatus,
+  options: SettlementOptions = {}
+): Promise<PredictionSettlement | null> {
+  return db.transaction(async (tx) => {
+    const [prediction] = await tx
+      .select()
+      .from(predictions)
+      .where(eq(predictions.id, predictionId))
+      .limit(1);
+
+    if (!prediction) return null;
+
+    let settledCoins = 0;
+    let settledStars = 0;
+    if (status === 'won') {
+      settledCoins = options.settledCoins ?? prediction.potentialCoins;
+      settledStars = calculateSettledStars(settledCoins, prediction.stake, prediction.starsMultiplier);
+    } else if (status === 'void') {
+      settledCoins = prediction.stake;
+    }
+
+    const now = new Date();
+
+    // Only a pending prediction can be settled - guards against double payouts
+    // Use raw SQL for enum values (Data API compatibility)
+    const [updated] = await tx
+      .update(predictions)
+      .set({
+        status: sql`${status}::prediction_status` as unknown as SettlementStatus,
+        settledCoins,
+        settledStars,
+        settledAt: now,
+        isHeld: false,
+        ...(options.reviewedBy !== undefined ? { reviewedBy: options.reviewedBy, reviewedAt: now } : {}),
+      })
+      .where(and(eq(predictions.id, predictionId), sql`${predictions.status}::text = 'pending'`))
+      .returning();
+
+    if (!updated) return null;
+
+    const isAccumulator = prediction.type === 'accumulator';
+    let coinsBalanceAfter: number | null = null;
+
+    if (settledCoins > 0 || settledStars > 0) {
+      const [balance] = await tx
+        .update(users)
+        .set({
+          coins: sql`${users.coins} + ${settledCoins}`,
+          stars: sql`${users.stars} + ${settledStars}`,
+          updatedAt: now,
+        })
+        .where(eq(users.id, prediction.userId))
+        .returning();
+
+      if (balance) {
+        coinsBalanceAfter = balance.coins;
+
+        if (settledCoins > 0) {
+          const isWin = status === 'won';
+          await tx.insert(transactions).values({
+            userId: prediction.userId,
+            type: sql`${isWin ? 'prediction_win' : 'prediction_refund'}::transaction_type` as unknown as 'prediction_win',
+            currency: sql`'coins'::currency_type` as unknown as 'coins',
+            amount: settledCoins,
+            balanceAfter: balance.coins,
+            description: isWin
+              ? `${isAccumulator ? 'Accumulator' : 'Prediction'} won`
+              : 'Prediction void - stake returned',
+            referenceId: predictionId,
+            referenceType: 'prediction',
+          });
+        }
+
+        if (settledStars > 0) {
+          await tx.insert(transactions).values({
+            userId: prediction.userId,
+            type: sql`'prediction_win'::transaction_type` as unknown as 'prediction_win',
+            currency: sql`'stars'::currency_type` as unknown as 'stars',
+            amount: settledStars,
+            balanceAfter: balance.stars,
+            description: `${isAccumulator ? 'Accumulator' : 'Prediction'} won - stars earned`,
+            referenceId: predictionId,
+            referenceType: 'prediction',
+          });
+        }
+      }
+    }
+
+    // Streaks only move on a decided result - a void leaves them alone
+    if (status === 'won') {
+      const [stats] = await tx
+        .update(userStats)
+        .set({
+          totalWins: sql`${userStats.totalWins} + 1`,
+          totalAccumulatorsWon: isAccumulator
+            ? sql`${userStats.totalAccumulatorsWon} + 1`
+            : userStats.totalAccumulatorsWon,
+          currentStreak: sql`${userStats.currentStreak} + 1`,
+          bestStreak: sql`GREATEST(${userStats.bestStreak}, ${userStats.currentStreak} + 1)`,
+          totalStarsEarned: sql`${userStats.totalStarsEarned} + ${settledStars}`,
+          biggestWin: sql`GREATEST(${userStats.biggestWin}, ${settledCoins})`,
+          updatedAt: now,
+        })
+        .where(eq(userStats.userId, prediction.userId))
+        .returning();
+
+      await recordActivity(tx, {
+        userId: prediction.userId,
+        type: isAccumulator ? 'accumulator_won' : 'prediction_won',
+        title: isAccumulator ? 'Won an accumulator!' : 'Won a prediction!',
+        description: `Won ${settledCoins} coins`,
+        predictionId,
+        metadata: { coins: settledCoins, stars: settledStars },
+      });
+
+      if (stats && isStreakMilestone(stats.currentStreak)) {
+        await recordActivity(tx, {
+          userId: prediction.userId,
+          type: 'streak_milestone',
+          title: `${stats.currentStreak} wins in a row!`,
+          description: `On a ${stats.currentStreak}-prediction winning streak`,
+          predictionId,
+          metadata: { streak: stats.currentStreak },
+        });
+      }
+    } else if (status === 'lost') {
+      // An opted-in user with a shield keeps their streak through the loss
+      const shield = await useStreakShield(tx, prediction.userId, predictionId);
+
+      await tx
+        .update(userStats)
+        .set({
+          totalLosses: sql`${userStats.totalLosses} + 1`,
+          currentStreak: shield ? userStats.currentStreak : 0,
+          updatedAt: now,
+        })
+        .where(eq(userStats.userId, prediction.userId));
+    }
+
+    // A referral completes on the referred user's first decided result
+    if (status !== 'void') {
+      await completeReferral(tx, prediction.userId);
+    }
+
+    await updateChallengeProgress(tx, predictionId, 'settled');
+    await evaluateAchievements(tx, prediction.userId);
+
+    return {
+      predictionId,
+      userId: prediction.userId,
+      status,
+      settledCoins,
+      settledStars,
+      coinsBalanceAfter,
+    };
+  });
+}
+
+/**
+ * Settle an accumulator from the status of its legs.
+ * Returns null while any leg is still pending, or if it was already settled.
+ */
+export async function settleAccumulator(
+  db: Database,
+  predictionId: string,
+  options: Omit<SettlementOptions, 'settledCoins'> = {}
+): Promise<PredictionSettlement | null> {
+  const [prediction] = await db
+    .select({ potentialCoins: predictions.potentialCoins })
+    .from(predictions)
+    .where(eq(predictions.id, predictionId))
+    .limit(1);
+
+  if (!prediction) return null;
+
+  const legs = await db
+    .select({ status: accumulatorSelections.status, odds: accumulatorSelections.odds })
+    .from(accumulatorSelections)
+    .where(eq(accumulatorSelections.predictionId, predictionId));
+
+  if (legs.length === 0 || legs.some((leg) => leg.status === 'pending')) {
+    return null;
+  }
+
+  const result = calculateAccumulatorResult(prediction.potentialCoins, legs);
+  return settlePrediction(db, predictionId, result.status, {
+    ...options,
+    settledCoins: result.status === 'won' ? result.settledCoins : undefined,
+  });
+}
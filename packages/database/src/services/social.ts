@@ -0,0 +1,95 @@
+/**
+ * Social Graph Helpers
+ *
+ * Friendships are stored once per pair. The requester/addressee direction only
+ * matters while a request is pending, or for a block (requester = blocker).
+ */
+
+import { eq, or, and, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { friendships } from '../schema/social.js';
+import { recordActivity } from './activity.js';
+
+/**
+ * IDs of every user with an accepted friendship with this user
+ */
+export async function getFriendIds(db: Database, userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ requesterId: friendships.requesterId, addresseeId: friendships.addresseeId })
+    .from(friendships)
+    .where(and(
+      or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId)),
+      sql`${friendships.status}::text = 'accepted'`
+    ));
+
+  return rows.map((row) => (row.requesterId === userId ? row.addresseeId : row.requesterId));
+}
+
+/**
+ * The friendship row between two users, in either direction
+ */
+export async function findFriendship(db: Database, userId: string, otherUserId: string) {
+  const [row] = await db
+    .select()
+    .from(friendships)
+    .where(or(
+      and(eq(friendships.requesterId, userId), eq(friendships.addresseeId, otherUserId)),
+      and(eq(friendships.requesterId, otherUserId), eq(friendships.addresseeId, userId))
+    ))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Accept a pending friend request and announce the new friendship on both feeds
+ */
+export async function acceptFriendship(db: Database, friendshipId: string) {
+  return db.transaction(async (tx) => {
+    // Use raw SQL for enum values (Data API compatibility)
+    const [accepted] = await tx
+      .update(friendships)
+      .set({
+        status: sql`'accepted'::friendship_status` as unknown as 'accepted',
+        acceptedAt: new Date(),
+      })
+      .where(and(eq(friendships.id, friendshipId), sql`${friendships.status}::text = 'pending'`))
+      .returning();
+
+    if (!accepted) return null;
+
+    for (const [userId, friendId] of [
+      [accepted.requesterId, accepted.addresseeId],
+      [accepted.addresseeId, accepted.requesterId],
+    ] as const) {
+      await recordActivity(tx, {
+        userId,
+        type: 'friend_joined',
+        title: 'Made a new friend',
+        metadata: { friendId },
+      });
+    }
+
+    return accepted;
+  });
+}
+
+/**
+ * Block a user. The block replaces any friendship or pending request between the pair.
+ */
+export async function blockUser(db: Database, blockerId: string, blockedId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(friendships)
+      .where(or(
+        and(eq(friendships.requesterId, blockerId), eq(friendships.addresseeId, blockedId)),
+        and(eq(friendships.requesterId, blockedId), eq(friendships.addresseeId, blockerId))
+      ));
+
+    await tx.insert(friendships).values({
+      requesterId: blockerId,
+      addresseeId: blockedId,
+      status: sql`'blocked'::friendship_status` as unknown as 'blocked',
+    });
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Stars Multiplier
+ *
+ * Works out the multiplier locked onto a prediction when it's placed. Three
+ * sources stack multiplicatively and the product is capped:
+ *
+ * - Sponsor: the event's sponsored bonus, while the sponsorship window is open
+ * - Subscription: the user's tier entitlement, while the subscription hasn't expired
+ * - Boost: an active prediction boost
+ *
+ * Settlement pays stars with whatever multiplier was stored, so later changes
+ * to a sponsorship or subscription don't affect open predictions.
+ */
+
+import { and, inArray, lte, gte } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { sponsoredEvents } from '../schema/events.js';
+import type { User, UserStats } from '../schema/users.js';
+import { calculateSettledStars } from './settlement.js';
+import { getEntitlements } from './entitlements.js';
+
+export const PREDICTION_BOOST_STARS_MULTIPLIER = 1.5;
+
+export const MAX_STARS_MULTIPLIER = 3.0;
+
+export type StarsMultiplierSource = 'sponsor' | 'subscription' | 'boost';
+
+export interface StarsMultiplierComponent {
+  source: StarsMultiplierSource;
+  label: string;
+  multiplier: number;
+}
+
+export interface StarsMultiplier {
+  multiplier: number; // Applied (capped), 2 decimal places to fit the column
+  uncappedMultiplier: number;
+  isCapped: boolean;
+  components: StarsMultiplierComponent[];
+}
+
+export interface SponsorBonus {
+  sponsorName: string;
+  multiplier: number;
+}
+
+/**
+ * Active sponsor bonuses for a set of events, keyed by event ID
+ */
+export async function getActiveSponsorBonuses(
+  db: Pick<Database, 'select'>,
+  eventIds: string[],
+  at: Date = new Date()
+): Promise<Map<string, SponsorBonus>> {
+  if (eventIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      eventId: sponsoredEvents.eventId,
+      sponsorName: sponsoredEvents.sponsorName,
+      bonusStarsMultiplier: sponsoredEvents.bonusStarsMultiplier,
+    })
+    .from(sponsoredEvents)
+    .where(and(
+      inArray(sponsoredEvents.eventId, eventIds),
+      lte(sponsoredEvents.startDate, at),
+      gte(sponsoredEvents.endDate, at)
+    ));
+
+  return new Map(rows.map((row) => [
+    row.eventId,
+    { sponsorName: row.sponsorName, multiplier: parseFloat(row.bonusStarsMultiplier) },
+  ]));
+}
+
+/**
+ * Combine the sponsor bonus, subscription tier and boost into one capped multiplier.
+ * Sources that don't apply (or are worth 1x) are left out of the components.
+ */
+export function calculateStarsMultiplier(input: {
+  sponsor?: SponsorBonus | null;
+  user: Pick<User, 'subscriptionTier' | 'subscriptionExpiresAt'>;
+  stats?: Pick<UserStats, 'hasPredictionBoost' | 'predictionBoostExpiresAt'> | null;
+  at?: Date;
+}): StarsMultiplier {
+  const at = input.at ?? new Date();
+  const components: StarsMultiplierComponent[] = [];
+
+  if (input.sponsor && Number.isFinite(input.sponsor.multiplier) && input.sponsor.multiplier > 1) {
+    components.push({
+      source: 'sponsor',
+      label: `${input.sponsor.sponsorName} bonus`,
+      multiplier: input.sponsor.multiplier,
+    });
+  }
+
+  const { tier, starsMultiplier: tierMultiplier } = getEntitlements(input.user, at);
+  if (tierMultiplier > 1) {
+    components.push({
+      source: 'subscription',
+      label: `${tier.charAt(0).toUpperCase()}${tier.slice(1)} subscription`,
+      multiplier: tierMultiplier,
+    });
+  }
+
+  const boostExpiresAt = input.stats?.predictionBoostExpiresAt;
+  if (input.stats?.hasPredictionBoost && (!boostExpiresAt || new Date(boostExpiresAt) > at)) {
+    components.push({
+      source: 'boost',
+      label: 'Prediction boost',
+      multiplier: PREDICTION_BOOST_STARS_MULTIPLIER,
+    });
+  }
+
+  const uncapped = components.reduce((product, component) => product * component.multiplier, 1);
+  const uncappedMultiplier = Math.round(uncapped * 100) / 100;
+  const multiplier = Math.min(uncappedMultiplier, MAX_STARS_MULTIPLIER);
+
+  return {
+    multiplier,
+    uncappedMultiplier,
+    isCapped: uncappedMultiplier > MAX_STARS_MULTIPLIER,
+    components,
+  };
+}
+
+/**
+ * Stars a prediction would earn if it wins - the same sum settlement uses
+ */
+export function calculatePotentialStars(potentialCoins: number, stake: number, multiplier: number): number {
+  return calculateSettledStars(potentialCoins, stake, multiplier);
+}
@@ -0,0 +1,139 @@
+/**
+ * Streak Shields
+ *
+ * Shields are bought with gems in STREAK_SHIELD_PACKS and kept on userInventory.
+ * Users who turn on autoUseStreakShields have one shield burned when a prediction
+ * loses, and their win streak is kept instead of being reset.
+ *
+ * - A shield is only burned when there's a streak to save
+ * - The burn is a conditional decrement, so a shield can't be spent twice
+ * - Every burn writes a streak_shield transaction and a streak_shield_used activity
+ */
+
+import { eq, and, gt, gte, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users, userStats } from '../schema/users.js';
+import { transactions } from '../schema/transactions.js';
+import { userInventory, STREAK_SHIELD_PACKS } from '../schema/shop.js';
+import { recordActivity } from './activity.js';
+
+export type StreakShieldPack = keyof typeof STREAK_SHIELD_PACKS;
+
+export type StreakShieldPurchase =
+  | { status: 'purchased'; pack: StreakShieldPack; shields: number; gemsBalanceAfter: number }
+  | { status: 'rejected'; error: 'insufficient_gems' };
+
+export interface StreakShieldUse {
+  streak: number;
+  shieldsRemaining: number;
+}
+
+export function isStreakShieldPack(value: unknown): value is StreakShieldPack {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STREAK_SHIELD_PACKS, value);
+}
+
+/**
+ * Buy a pack of shields with gems. The debit, the shields and the ledger entry commit together.
+ */
+export async function purchaseStreakShields(
+  db: Database,
+  userId: string,
+  pack: StreakShieldPack
+): Promise<StreakShieldPurchase> {
+  const { shields, price } = STREAK_SHIELD_PACKS[pack];
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const [debited] = await tx
+      .update(users)
+      .set({ gems: sql`${users.gems} - ${price}`, updatedAt: now })
+      .where(and(eq(users.id, userId), gte(users.gems, price)))
+      .returning();
+
+    if (!debited) return { status: 'rejected', error: 'insufficient_gems' };
+
+    const [inventory] = await tx
+      .insert(userInventory)
+      .values({ userId, streakShields: shields, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userInventory.userId,
+        set: { streakShields: sql`${userInventory.streakShields} + ${shields}`, updatedAt: now },
+      })
+      .returning();
+
+    // Use raw SQL for enum values (Data API compatibility)
+    await tx.insert(transactions).values({
+      userId,
+      type: sql`'shop_purchase'::transaction_type` as unknown as 'shop_purchase',
+      currency: sql`'gems'::currency_type` as unknown as 'gems',
+      amount: -price,
+      balanceAfter: debited.gems,
+      description: `Purchased ${shields} streak shield${shields === 1 ? '' : 's'}`,
+      referenceType: 'streak_shield',
+    });
+
+    return {
+      status: 'purchased',
+      pack,
+      shields: inventory?.streakShields ?? shields,
+      gemsBalanceAfter: debited.gems,
+    };
+  });
+}
+
+/**
+ * Burn a shield to keep a user's win streak through a loss. Call from settlement,
+ * inside its transaction, before the streak is reset. Returns null (and burns
+ * nothing) if the user hasn't opted in, has no shields, or has no streak to save.
+ */
+export async function useStreakShield(
+  db: Pick<Database, 'select' | 'insert' | 'update'>,
+  userId: string,
+  predictionId: string
+): Promise<StreakShieldUse | null> {
+  const [stats] = await db
+    .select({ currentStreak: userStats.currentStreak })
+    .from(userStats)
+    .where(eq(userStats.userId, userId))
+    .limit(1);
+
+  const streak = stats?.currentStreak ?? 0;
+  if (streak === 0) return null;
+
+  const [inventory] = await db
+    .update(userInventory)
+    .set({ streakShields: sql`${userInventory.streakShields} - 1`, updatedAt: new Date() })
+    .where(and(
+      eq(userInventory.userId, userId),
+      eq(userInventory.autoUseStreakShields, true),
+      gt(userInventory.streakShields, 0)
+    ))
+    .returning();
+
+  if (!inventory) return null;
+
+  const [user] = await db.select({ gems: users.gems }).from(users).where(eq(users.id, userId)).limit(1);
+
+  // A zero-amount entry, so the ledger shows when a shield was spent
+  await db.insert(transactions).values({
+    userId,
+    type: sql`'streak_shield'::transaction_type` as unknown as 'streak_shield',
+    currency: sql`'gems'::currency_type` as unknown as 'gems',
+    amount: 0,
+    balanceAfter: user?.gems ?? 0,
+    description: `Streak shield used - kept your ${streak}-win streak`,
+    referenceId: predictionId,
+    referenceType: 'prediction',
+  });
+
+  await recordActivity(db, {
+    userId,
+    type: 'streak_shield_used',
+    title: 'Streak shield saved your streak!',
+    description: `Kept a ${streak}-win streak after a loss`,
+    predictionId,
+    metadata: { streak, shieldsRemaining: inventory.streakShields },
+  });
+
+  return { streak, shieldsRemaining: inventory.streakShields };
+}
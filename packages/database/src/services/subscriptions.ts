@@ -0,0 +1,117 @@
+/**
+ * Subscription Lifecycle
+ *
+ * Run on a schedule to act on subscriptions after they're granted:
+ *
+ * - Expired paid subscriptions are moved back to free, and ads are turned back on
+ * - Active paid subscriptions are paid their tier's monthly bonus, once per month
+ *
+ * Both steps claim rows with conditional updates, so overlapping runs can't
+ * downgrade or pay anyone twice.
+ */
+
+import { eq, and, or, gt, lte, isNull, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { users, type User } from '../schema/users.js';
+import { creditReward } from './rewards.js';
+import { SUBSCRIPTION_ENTITLEMENTS } from './entitlements.js';
+
+export interface SubscriptionBonusResult {
+  usersPaid: number;
+  coinsPaid: number;
+  gemsPaid: number;
+}
+
+// One calendar month before a moment (clamped, so 31 March goes back to 28/29 February)
+function oneMonthBefore(at: Date): Date {
+  const target = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() - 1, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    target.getUTCFullYear(),
+    target.getUTCMonth(),
+    Math.min(at.getUTCDate(), lastDay),
+    at.getUTCHours(),
+    at.getUTCMinutes(),
+    at.getUTCSeconds(),
+    at.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Move every expired paid subscription back to free. Returns the users downgraded.
+ */
+export async function downgradeExpiredSubscriptions(
+  db: Pick<Database, 'update'>,
+  at: Date = new Date()
+): Promise<Pick<User, 'id' | 'username'>[]> {
+  // Use raw SQL for enum values (Data API compatibility)
+  const downgraded = await db
+    .update(users)
+    .set({
+      subscriptionTier: sql`'free'::subscription_tier` as unknown as 'free',
+      isAdsEnabled: !SUBSCRIPTION_ENTITLEMENTS.free.adFree,
+      updatedAt: at,
+    })
+    .where(and(
+      sql`${users.subscriptionTier}::text != 'free'`,
+      lte(users.subscriptionExpiresAt, at)
+    ))
+    .returning();
+
+  return downgraded.map((user) => ({ id: user.id, username: user.username }));
+}
+
+/**
+ * Pay the monthly subscription_bonus to every active paid subscriber who
+ * hasn't had one in the last month. Each payout commits with its claim.
+ */
+export async function paySubscriptionBonuses(
+  db: Database,
+  at: Date = new Date()
+): Promise<SubscriptionBonusResult> {
+  const cutoff = oneMonthBefore(at);
+  const due = and(
+    sql`${users.subscriptionTier}::text != 'free'`,
+    or(isNull(users.subscriptionExpiresAt), gt(users.subscriptionExpiresAt, at)),
+    or(isNull(users.subscriptionBonusPaidAt), lte(users.subscriptionBonusPaidAt, cutoff))
+  );
+
+  const candidates = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(due);
+
+  const result: SubscriptionBonusResult = { usersPaid: 0, coinsPaid: 0, gemsPaid: 0 };
+
+  for (const candidate of candidates) {
+    const paid = await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(users)
+        .set({ subscriptionBonusPaidAt: at, updatedAt: at })
+        .where(and(eq(users.id, candidate.id), due))
+        .returning();
+
+      if (!claimed) return null;
+
+      const entitlements = SUBSCRIPTION_ENTITLEMENTS[claimed.subscriptionTier];
+      const bonus = entitlements.monthlyBonus;
+      if (bonus.coins + bonus.stars + bonus.gems === 0) return null;
+
+      const name = `${entitlements.tier.charAt(0).toUpperCase()}${entitlements.tier.slice(1)}`;
+      await creditReward(tx, claimed.id, bonus, {
+        type: 'subscription_bonus',
+        description: `${name} monthly subscription bonus`,
+      });
+
+      return bonus;
+    });
+
+    if (paid) {
+      result.usersPaid++;
+      result.coinsPaid += paid.coins;
+      result.gemsPaid += paid.gems;
+    }
+  }
+
+  return result;
+}
@@ -12,8 +12,12 @@
  * 5. Caching: In-memory cache for performance at scale
  */
 
-import { eq, and, ilike, sql } from 'drizzle-orm';
-import { teams, teamAliases } from '../schema/sports.js';
+import { eq, and, or, not, ilike, inArray, sql } from 'drizzle-orm';
+import type { Database } from '../index.js';
+import { teams, teamAliases, teamCompetitions, type Team } from '../schema/sports.js';
+import { events, markets, outcomes, sponsoredEvents, type Event } from '../schema/events.js';
+import { predictions, accumulatorSelections } from '../schema/predictions.js';
+import { auditLog, eventScoreHistory, oddsHistory } from '../schema/audit.js';
 
 // Generic type for any drizzle database instance
 type AnyDb = {
@@ -390,21 +394,383 @@ export async function addManualAlias(
   setAliasCache(alias, source, teamId);
 }
 
+// ============ TEAM MERGE ============
+
+// Two fixtures between the same teams are the same event if they kick off this close together
+export const TEAM_MERGE_DUPLICATE_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+export type TeamMergeError = 'same_team' | 'target_not_found' | 'source_not_found' | 'teams_played_each_other';
+
+export const TEAM_MERGE_ERROR_MESSAGES: Record<TeamMergeError, string> = {
+  same_team: 'A team cannot be merged into itself',
+  target_not_found: 'Team to merge into not found',
+  source_not_found: 'Team to merge not found',
+  teams_played_each_other: 'These teams have a fixture against each other, so they are not the same team',
+};
+
+export interface TeamMergeDuplicate {
+  removedEventId: string; // The source team's event, folded into keptEventId
+  keptEventId: string;
+  homeTeamName: string | null;
+  awayTeamName: string | null;
+  startTime: Date;
+  predictions: number; // Singles and accumulator legs moved to the kept event
+}
+
+export interface TeamMergePreview {
+  target: Team;
+  source: Team;
+  aliases: number;
+  competitions: number; // Competitions the target isn't already linked to
+  events: Pick<Event, 'id' | 'homeTeamName' | 'awayTeamName' | 'startTime' | 'status'>[];
+  duplicates: TeamMergeDuplicate[];
+}
+
+export type TeamMergeResult =
+  | {
+      status: 'merged';
+      aliasesMoved: number;
+      competitionsAdded: number;
+      eventsRepointed: number;
+      eventsCollapsed: number;
+    }
+  | { status: 'rejected'; error: TeamMergeError };
+
+type MergeDb = Pick<Database, 'select'>;
+
 /**
- * Merge duplicate teams - for admin use
- * Moves all aliases from source team to target team
+ * Load both teams and work out which of the source team's events will
+ * duplicate an event the target team already has once the merge repoints them.
+ * With lock set, both team rows are locked (in id order) for the rest of the transaction.
  */
-export async function mergeTeams(
-  db: AnyDb,
+async function getMergeState(db: MergeDb, targetTeamId: string, sourceTeamId: string, lock = false) {
+  if (targetTeamId === sourceTeamId) return { error: 'same_team' as const };
+
+  const teamsQuery = db.select().from(teams).where(inArray(teams.id, [targetTeamId, sourceTeamId])).orderBy(teams.id);
+  const bothTeams = lock ? await teamsQuery.for('update') : await teamsQuery;
+  const target = bothTeams.find((t) => t.id === targetTeamId);
+  if (!target) return { error: 'target_not_found' as const };
+  const source = bothTeams.find((t) => t.id === sourceTeamId);
+  if (!source) return { error: 'source_not_found' as const };
+
+  const involving = (teamId: string) => or(eq(events.homeTeamId, teamId), eq(events.awayTeamId, teamId))!;
+  const sourceEvents = await db.select().from(events).where(involving(sourceTeamId)).orderBy(events.startTime);
+
+  // A fixture between the two would become the target playing itself
+  const headToHead = (event: Event) => event.homeTeamId === targetTeamId || event.awayTeamId === targetTeamId;
+  if (sourceEvents.some(headToHead)) return { error: 'teams_played_each_other' as const };
+  const targetEvents = await db
+    .select()
+    .from(events)
+    .where(and(involving(targetTeamId), not(involving(sourceTeamId))));
+
+  const swap = (teamId: string | null) => (teamId === sourceTeamId ? targetTeamId : teamId);
+  const duplicates: Omit<TeamMergeDuplicate, 'predictions'>[] = [];
+
+  for (const event of sourceEvents) {
+    const kept = targetEvents.find((candidate) =>
+      candidate.homeTeamId === swap(event.homeTeamId) &&
+      candidate.awayTeamId === swap(event.awayTeamId) &&
+      Math.abs(candidate.startTime.getTime() - event.startTime.getTime()) <= TEAM_MERGE_DUPLICATE_WINDOW_MS
+    );
+    if (kept) {
+      duplicates.push({
+        removedEventId: event.id,
+        keptEventId: kept.id,
+        homeTeamName: event.homeTeamName,
+        awayTeamName: event.awayTeamName,
+        startTime: event.startTime,
+      });
+    }
+  }
+
+  return { target, source, sourceEvents, duplicates, error: null };
+}
+
+async function countEventPredictions(db: MergeDb, eventId: string): Promise<number> {
+  const [singles] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(predictions)
+    .where(eq(predictions.eventId, eventId));
+  const [legs] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(accumulatorSelections)
+    .where(eq(accumulatorSelections.eventId, eventId));
+  return Number(singles?.count ?? 0) + Number(legs?.count ?? 0);
+}
+
+/**
+ * What merging sourceTeamId into targetTeamId would change, without changing it
+ */
+export async function previewTeamMerge(
+  db: MergeDb,
   targetTeamId: string,
   sourceTeamId: string
-): Promise<void> {
-  // Move all aliases to target team
-  await db
-    .update(teamAliases)
-    .set({ teamId: targetTeamId })
+): Promise<{ status: 'ok'; preview: TeamMergePreview } | { status: 'rejected'; error: TeamMergeError }> {
+  const state = await getMergeState(db, targetTeamId, sourceTeamId);
+  if (state.error) return { status: 'rejected', error: state.error };
+
+  const [aliasCount] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(teamAliases)
     .where(eq(teamAliases.teamId, sourceTeamId));
 
-  // Invalidate cache
-  invalidateTeamCaches();
+  const [competitionCount] = await db
+    .select({ count: sql<number>`count(distinct ${teamCompetitions.competitionId})::int` })
+    .from(teamCompetitions)
+    .where(and(
+      eq(teamCompetitions.teamId, sourceTeamId),
+      sql`${teamCompetitions.competitionId} not in (select ${teamCompetitions.competitionId} from ${teamCompetitions} where ${teamCompetitions.teamId} = ${targetTeamId})`
+    ));
+
+  const duplicates: TeamMergeDuplicate[] = [];
+  for (const duplicate of state.duplicates) {
+    duplicates.push({ ...duplicate, predictions: await countEventPredictions(db, duplicate.removedEventId) });
+  }
+
+  return {
+    status: 'ok',
+    preview: {
+      target: state.target,
+      source: state.source,
+      aliases: Number(aliasCount?.count ?? 0),
+      competitions: Number(competitionCount?.count ?? 0),
+      events: state.sourceEvents.map((e) => ({
+        id: e.id,
+        homeTeamName: e.homeTeamName,
+        awayTeamName: e.awayTeamName,
+        startTime: e.startTime,
+        status: e.status,
+      })),
+      duplicates,
+    },
+  };
+}
+
+/**
+ * Fold a duplicate event into the one being kept. Markets and outcomes the kept
+ * event lacks are moved across; ones it already has are matched (market by type
+ * and line, outcome by name) and predictions are repointed onto them.
+ */
+async function collapseDuplicateEvent(
+  tx: Parameters<Parameters<Database['transaction']>[0]>[0],
+  removedEventId: string,
+  keptEventId: string,
+  reason: string,
+  changedBy: string | null
+): Promise<void> {
+  const [removed] = await tx.select().from(events).where(eq(events.id, removedEventId)).limit(1);
+  const [kept] = await tx.select().from(events).where(eq(events.id, keptEventId)).limit(1);
+  if (!removed || !kept) return;
+
+  const keptMarkets = await tx.select().from(markets).where(eq(markets.eventId, keptEventId));
+  const removedMarkets = await tx.select().from(markets).where(eq(markets.eventId, removedEventId));
+
+  const keptHasMainMarket = keptMarkets.some((m) => m.isMainMarket);
+
+  for (const market of removedMarkets) {
+    const match = keptMarkets.find((m) => m.type === market.type && m.line === market.line);
+    if (!match) {
+      await tx.update(markets).set({ eventId: keptEventId, isMainMarket: market.isMainMarket && !keptHasMainMarket }).where(eq(markets.id, market.id));
+      continue;
+    }
+
+    const keptOutcomes = await tx.select().from(outcomes).where(eq(outcomes.marketId, match.id));
+    const removedOutcomes = await tx.select().from(outcomes).where(eq(outcomes.marketId, market.id));
+
+    for (const outcome of removedOutcomes) {
+      const matchOutcome = keptOutcomes.find((o) => o.name.toLowerCase() === outcome.name.toLowerCase());
+      if (!matchOutcome) {
+        await tx.update(outcomes).set({ marketId: match.id }).where(eq(outcomes.id, outcome.id));
+        continue;
+      }
+      await tx.update(predictions).set({ outcomeId: matchOutcome.id }).where(eq(predictions.outcomeId, outcome.id));
+      await tx
+        .update(accumulatorSelections)
+        .set({ outcomeId: matchOutcome.id })
+        .where(eq(accumulatorSelections.outcomeId, outcome.id));
+    }
+
+    await tx.update(predictions).set({ marketId: match.id }).where(eq(predictions.marketId, market.id));
+    await tx
+      .update(accumulatorSelections)
+      .set({ marketId: match.id })
+      .where(eq(accumulatorSelections.marketId, market.id));
+  }
+
+  await tx.update(predictions).set({ eventId: keptEventId }).where(eq(predictions.eventId, removedEventId));
+  await tx
+    .update(accumulatorSelections)
+    .set({ eventId: keptEventId })
+    .where(eq(accumulatorSelections.eventId, removedEventId));
+  await tx.update(eventScoreHistory).set({ eventId: keptEventId }).where(eq(eventScoreHistory.eventId, removedEventId));
+  await tx.update(oddsHistory).set({ eventId: keptEventId }).where(eq(oddsHistory.eventId, removedEventId));
+
+  const [keptSponsorship] = await tx
+    .select({ id: sponsoredEvents.id })
+    .from(sponsoredEvents)
+    .where(eq(sponsoredEvents.eventId, keptEventId))
+    .limit(1);
+  if (!keptSponsorship) {
+    await tx.update(sponsoredEvents).set({ eventId: keptEventId }).where(eq(sponsoredEvents.eventId, removedEventId));
+  }
+
+  // Release the external IDs first - the Flashscore one is unique
+  await tx
+    .update(events)
+    .set({ externalFlashscoreId: null, externalOddscheckerId: null })
+    .where(eq(events.id, removedEventId));
+
+  await tx
+    .update(events)
+    .set({
+      externalFlashscoreId: kept.externalFlashscoreId ?? removed.externalFlashscoreId,
+      externalOddscheckerId: kept.externalOddscheckerId ?? removed.externalOddscheckerId,
+      predictionCount: kept.predictionCount + removed.predictionCount,
+      viewCount: kept.viewCount + removed.viewCount,
+      updatedAt: new Date(),
+    })
+    .where(eq(events.id, keptEventId));
+
+  await tx.delete(events).where(eq(events.id, removedEventId));
+
+  await tx.insert(auditLog).values({
+    tableName: 'events',
+    recordId: removedEventId,
+    action: sql`'delete'::audit_action` as unknown as 'delete',
+    oldValues: {
+      homeTeamName: removed.homeTeamName,
+      awayTeamName: removed.awayTeamName,
+      startTime: removed.startTime,
+      externalFlashscoreId: removed.externalFlashscoreId,
+      externalOddscheckerId: removed.externalOddscheckerId,
+    },
+    newValues: { mergedIntoEventId: keptEventId },
+    reason,
+    changedBy,
+  });
+}
+
+/**
+ * Merge a duplicate team into another, in one transaction:
+ *
+ * - Both teams are locked, and teams with a fixture against each other are refused
+ * - Aliases and competition links move to the target, and the source's name becomes an alias
+ * - Events are repointed to the target, with their denormalised team names rewritten
+ * - Events that now duplicate one of the target's fixtures are collapsed into it
+ * - External IDs the target lacks are taken from the source, so sources keyed on them still resolve
+ * - The source team is deleted and the merge is written to the audit log
+ */
+export async function mergeTeams(
+  db: Database,
+  targetTeamId: string,
+  sourceTeamId: string,
+  options: { reason?: string; changedBy?: string | null } = {}
+): Promise<TeamMergeResult> {
+  const result = await db.transaction(async (tx): Promise<TeamMergeResult> => {
+    const state = await getMergeState(tx, targetTeamId, sourceTeamId, true);
+    if (state.error) return { status: 'rejected', error: state.error };
+
+    const { target, source, duplicates } = state;
+    const reason = options.reason || `Merged team "${source.name}" into "${target.name}"`;
+    const changedBy = options.changedBy ?? null;
+
+    // Aliases - drop any the target already has, move the rest, and keep the source's name resolvable
+    const targetAliases = await tx.select().from(teamAliases).where(eq(teamAliases.teamId, targetTeamId));
+    const sourceAliases = await tx.select().from(teamAliases).where(eq(teamAliases.teamId, sourceTeamId));
+    const hasAlias = (alias: string, aliasSource: string) =>
+      targetAliases.some((a) => a.alias === alias && a.source === aliasSource);
+
+    let aliasesMoved = 0;
+    for (const alias of sourceAliases) {
+      if (hasAlias(alias.alias, alias.source)) continue;
+      await tx.update(teamAliases).set({ teamId: targetTeamId }).where(eq(teamAliases.id, alias.id));
+      targetAliases.push({ ...alias, teamId: targetTeamId });
+      aliasesMoved++;
+    }
+    if (!hasAlias(source.name, 'manual')) {
+      await tx.insert(teamAliases).values({ teamId: targetTeamId, alias: source.name, source: 'manual' });
+    }
+
+    // Competition links the target doesn't already have
+    const targetCompetitions = await tx
+      .select({ competitionId: teamCompetitions.competitionId })
+      .from(teamCompetitions)
+      .where(eq(teamCompetitions.teamId, targetTeamId));
+    const sourceCompetitions = await tx
+      .select({ competitionId: teamCompetitions.competitionId })
+      .from(teamCompetitions)
+      .where(eq(teamCompetitions.teamId, sourceTeamId));
+    const linked = new Set(targetCompetitions.map((c) => c.competitionId));
+    const competitionIds = [...new Set(sourceCompetitions.map((c) => c.competitionId))].filter((id) => !linked.has(id));
+    if (competitionIds.length > 0) {
+      await tx.insert(teamCompetitions).values(competitionIds.map((competitionId) => ({ teamId: targetTeamId, competitionId })));
+    }
+
+    // Repoint events and rewrite their denormalised names
+    const now = new Date();
+    const home = await tx
+      .update(events)
+      .set({ homeTeamId: targetTeamId, homeTeamName: target.name, updatedAt: now })
+      .where(eq(events.homeTeamId, sourceTeamId))
+      .returning();
+    const away = await tx
+      .update(events)
+      .set({ awayTeamId: targetTeamId, awayTeamName: target.name, updatedAt: now })
+      .where(eq(events.awayTeamId, sourceTeamId))
+      .returning();
+    const eventsRepointed = new Set([...home, ...away].map((e) => e.id)).size;
+
+    for (const duplicate of duplicates) {
+      await collapseDuplicateEvent(tx, duplicate.removedEventId, duplicate.keptEventId, reason, changedBy);
+    }
+
+    const externalIds = {
+      externalFlashscoreId: target.externalFlashscoreId ?? source.externalFlashscoreId,
+      externalOddscheckerId: target.externalOddscheckerId ?? source.externalOddscheckerId,
+    };
+    if (
+      externalIds.externalFlashscoreId !== target.externalFlashscoreId ||
+      externalIds.externalOddscheckerId !== target.externalOddscheckerId
+    ) {
+      await tx.update(teams).set(externalIds).where(eq(teams.id, targetTeamId));
+    }
+
+    await tx.delete(teams).where(eq(teams.id, sourceTeamId));
+
+    await tx.insert(auditLog).values({
+      tableName: 'teams',
+      recordId: sourceTeamId,
+      // Use raw SQL for enum values (Data API compatibility)
+      action: sql`'merge'::audit_action` as unknown as 'merge',
+      oldValues: {
+        name: source.name,
+        shortName: source.shortName,
+        externalFlashscoreId: source.externalFlashscoreId,
+        externalOddscheckerId: source.externalOddscheckerId,
+      },
+      newValues: {
+        mergedIntoTeamId: targetTeamId,
+        mergedIntoTeamName: target.name,
+        aliasesMoved,
+        competitionsAdded: competitionIds.length,
+        eventsRepointed,
+        collapsedEventIds: duplicates.map((d) => d.removedEventId),
+      },
+      reason,
+      changedBy,
+    });
+
+    return {
+      status: 'merged',
+      aliasesMoved,
+      competitionsAdded: competitionIds.length,
+      eventsRepointed,
+      eventsCollapsed: duplicates.length,
+    };
+  });
+
+  if (result.status === 'merged') invalidateTeamCaches();
+
+  return result;
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { NormalizedOdds, MarketOdds } from '../odds-sources/types.js';
+import { mergeOdds, swapHomeAway, matchWinnerMarket, toMarkets } from '../odds-sources/utils.js';
+
+function quote(source: string, homeTeam: string, awayTeam: string, ...markets: MarketOdds[]): NormalizedOdds {
+  return { homeTeam, awayTeam, source, markets: toMarkets(...markets), scrapedAt: new Date('2026-03-01T12:00:00Z') };
+}
+
+describe('mergeOdds', () => {
+  it('rejects a price far from the others by median absolute deviation', () => {
+    const [merged] = mergeOdds([
+      quote('a', 'Arsenal', 'Chelsea', matchWinnerMarket(2.0, 3.4, 3.8)),
+      quote('b', 'Arsenal', 'Chelsea', matchWinnerMarket(2.02, 3.4, 3.8)),
+      quote('c', 'Arsenal', 'Chelsea', matchWinnerMarket(1.98, 3.4, 3.8)),
+      quote('d', 'Arsenal', 'Chelsea', matchWinnerMarket(2.6, 3.4, 3.8)),
+    ], 'football');
+
+    const market = merged!.markets['match_winner']!;
+    expect(market.consensus!['Home Win']!.sources).toEqual(['a', 'b', 'c']);
+    expect(market.consensus!['Home Win']!.rejected).toEqual(['d']);
+    expect(market.outcomes['Home Win']).toBe(2);
+  });
+
+  it('keeps every price when too few sources agree to judge outliers', () => {
+    const [merged] = mergeOdds([
+      quote('a', 'Arsenal', 'Chelsea', matchWinnerMarket(2.0, 3.4, 3.8)),
+      quote('b', 'Arsenal', 'Chelsea', matchWinnerMarket(2.6, 3.4, 3.8)),
+    ], 'football');
+
+    expect(merged!.markets['match_winner']!.consensus!['Home Win']!.rejected).toEqual([]);
+  });
+
+  it('drops a football match_winner without a draw price', () => {
+    const merged = mergeOdds([quote('a', 'Arsenal', 'Chelsea', matchWinnerMarket(1.8, undefined, 2.1))], 'football');
+    expect(merged).toEqual([]);
+  });
+
+  it('turns a source listing the teams the other way round to match before merging', () => {
+    const merged = mergeOdds([
+      quote('a', 'Arsenal', 'Chelsea', matchWinnerMarket(1.8, 3.6, 4.5)),
+      quote('b', 'Chelsea', 'Arsenal', matchWinnerMarket(4.4, 3.6, 1.85)),
+    ], 'football');
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]!.homeTeam).toBe('Arsenal');
+    expect(merged[0]!.source).toBe('consensus');
+
+    const market = merged[0]!.markets['match_winner']!;
+    expect(market.outcomes['Home Win']).toBe(1.82);
+    expect(market.outcomes['Away Win']).toBe(4.45);
+    expect(market.outcomes['Draw']).toBe(3.6);
+    expect(market.consensus!['Home Win']!.sources).toEqual(['a', 'b']);
+  });
+});
+
+describe('swapHomeAway', () => {
+  it('swaps sides and negates handicap lines', () => {
+    const swapped = swapHomeAway(quote(
+      'a',
+      'Arsenal',
+      'Chelsea',
+      { type: 'handicap', line: -1.5, outcomes: { Home: 2.1, Away: 1.75 } },
+      { type: 'over_under_goals', line: 2.5, outcomes: { 'Over 2.5': 1.9, 'Under 2.5': 1.9 } }
+    ));
+
+    expect(swapped.homeTeam).toBe('Chelsea');
+    expect(swapped.awayTeam).toBe('Arsenal');
+    expect(swapped.markets['handicap:1.5']).toEqual({ type: 'handicap', line: 1.5, outcomes: { Away: 2.1, Home: 1.75 } });
+    expect(swapped.markets['over_under_goals:2.5']!.outcomes).toEqual({ 'Over 2.5': 1.9, 'Under 2.5': 1.9 });
+  });
+
+  it('drops markets that name a side it cannot swap', () => {
+    const swapped = swapHomeAway(quote(
+      'a',
+      'Arsenal',
+      'Chelsea',
+      matchWinnerMarket(1.8, 3.6, 4.5),
+      { type: 'correct_score', outcomes: { '1-0': 7, '0-1': 12 } }
+    ));
+
+    expect(Object.keys(swapped.markets)).toEqual(['match_winner']);
+  });
+});
@@ -4,10 +4,20 @@
  * Scrapes odds from multiple sources with intelligent rotation.
  * Sources: OddsPortal, BMBets, Odds Scanner, Nicer Odds, the-odds-api (fallback)
  *
+ * Sources return whichever markets they price; each is upserted as a market
+ * (matched on type and line) with its outcomes, created if the event lacks it.
+ *
+ * Each price is a consensus of every source that priced the match, weighted by
+ * how reliably each source agrees with the others. The sources behind it and
+ * their spread are stored with the outcome.
+ *
+ * Complete markets are then repriced: the bookmakers' margin is removed and the
+ * sport's house margin applied, so odds don't depend on which sources priced them.
+ *
  * Includes anomaly detection to flag suspicious odds before users can bet.
  */
 
-import { events, markets, outcomes } from '@sport-sage/database';
+import { events, markets, outcomes, priceMarket } from '@sport-sage/database';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import { getDb } from '../database/client.js';
 import { getBrowserPool } from '../browser/pool.js';
@@ -18,12 +28,21 @@ import {
   scrapeWithRotation,
   getSourcesStatus,
   mergeOdds,
-  getSourcePriorities,
+  getSourceReliabilities,
+  recordConsensusResults,
   normalizeTeamName,
   stringSimilarity,
+  getMarketKey,
+  toMarkets,
+  matchWinnerMarket,
+  getMatchWinnerOdds,
+  MATCH_WINNER_OUTCOMES,
+  FULL_BOOK_MARKETS,
   type NormalizedOdds,
+  type MarketOdds,
+  type OddsMarketType,
 } from '../odds-sources/index.js';
-import { validateAndProcessOdds } from '../validation/odds-anomaly.js';
+import { validateAndProcessOdds, recordOddsHistory } from '../validation/odds-anomaly.js';
 
 const logger = createJobLogger('sync-odds');
 
@@ -32,6 +51,28 @@ const ODDS_API_KEY = process.env.ODDS_API_KEY || '';
 
 const ODDS_API_BASE = 'https://api.the-odds-api.com/v4';
 
+// Sources scraped per sport - outliers can only be spotted once three sources price a match
+const CONSENSUS_SOURCES = 3;
+
+// Each market counts against the quota separately, so this can be trimmed back to 'h2h'
+const ODDS_API_MARKETS = process.env.ODDS_API_MARKETS || 'h2h,totals,spreads';
+
+// Names for markets the sync creates
+const MARKET_NAMES: Record<OddsMarketType, (line?: number) => string> = {
+  match_winner: () => 'Match Result',
+  double_chance: () => 'Double Chance',
+  both_teams_score: () => 'Both Teams to Score',
+  over_under_goals: (line) => (line === undefined ? 'Total Goals' : `Over/Under ${line} Goals`),
+  over_under_points: (line) => (line === undefined ? 'Total Points' : `Over/Under ${line} Points`),
+  correct_score: () => 'Correct Score',
+  first_scorer: () => 'First Goalscorer',
+  handicap: (line) => (line === undefined ? 'Handicap' : `Handicap ${line > 0 ? '+' : ''}${line}`),
+  set_winner: (line) => (line === undefined ? 'Set Winner' : `Set ${line} Winner`),
+  game_winner: (line) => (line === undefined ? 'Game Winner' : `Game ${line} Winner`),
+  frame_winner: (line) => (line === undefined ? 'Frame Winner' : `Frame ${line} Winner`),
+  to_qualify: () => 'To Qualify',
+};
+
 export async function runSyncOdds(): Promise<void> {
   logger.info('Starting odds sync with multi-source rotation');
   const startTime = Date.now();
@@ -88,8 +129,8 @@ export async function runSyncOdds(): Promise<void> {
         // Simulate human behavior before scraping
         await simulateHumanBehavior(page);
 
-        // Use the rotation system - try up to 2 sources
-        const results = await scrapeWithRotation(page, sportSlug, 2);
+        // Use the rotation system - enough sources for a consensus
+        const results = await scrapeWithRotation(page, sportSlug, CONSENSUS_SOURCES);
 
         // Collect odds from all successful sources (raw, unmerged)
         const rawOdds: NormalizedOdds[] = [];
@@ -141,8 +182,9 @@ export async function runSyncOdds(): Promise<void> {
         continue;
       }
 
-      // Merge and deduplicate odds with validation and priority handling
-      const mergedOdds = mergeOdds(allScrapedOdds, sportSlug, getSourcePriorities());
+      // Merge into consensus odds, weighted by each source's reliability so far
+      const mergedOdds = mergeOdds(allScrapedOdds, sportSlug, getSourceReliabilities());
+      recordConsensusResults(mergedOdds);
       logger.info(`Merged ${allScrapedOdds.length} raw odds into ${mergedOdds.length} validated matches for ${sportSlug}`);
 
       // Match merged odds to our events
@@ -150,7 +192,7 @@ export async function runSyncOdds(): Promise<void> {
         const matched = matchEventToOdds(evt, mergedOdds);
 
         if (matched) {
-          const updated = await updateEventOdds(db, evt, matched);
+          const updated = await updateEventOdds(db, evt, matched, sportSlug);
           if (updated) {
             totalUpdated++;
           }
@@ -189,9 +231,11 @@ async function fetchFromTheOddsApi(sportSlug: string): Promise<NormalizedOdds[]>
     return results;
   }
 
+  const totalsType: OddsMarketType = sportSlug === 'football' ? 'over_under_goals' : 'over_under_points';
+
   for (const sportKey of keys) {
     try {
-      const url = `${ODDS_API_BASE}/sports/${sportKey}/odds/?apiKey=${ODDS_API_KEY}&regions=uk,eu&markets=h2h&oddsFormat=decimal`;
+      const url = `${ODDS_API_BASE}/sports/${sportKey}/odds/?apiKey=${ODDS_API_KEY}&regions=uk,eu&markets=${ODDS_API_MARKETS}&oddsFormat=decimal`;
 
       const response = await fetch(url, {
         headers: {
@@ -222,37 +266,67 @@ async function fetchFromTheOddsApi(sportSlug: string): Promise<NormalizedOdds[]>
 
           if (!homeTeam || !awayTeam) continue;
 
-          // Get best odds from all bookmakers
-          let bestHome = 0;
-          let bestDraw = 0;
-          let bestAway = 0;
+          // Best price per outcome across bookmakers, per market and line,
+          // plus how many bookmakers offered each line
+          const best = new Map<string, { market: MarketOdds; bookmakers: number }>();
           let bookmakerCount = 0;
 
+          const offer = (type: OddsMarketType, line: number | undefined, name: string, price: number) => {
+            const key = getMarketKey(type, line);
+            const entry = best.get(key) ?? { market: { type, line, outcomes: {} }, bookmakers: 0 };
+            entry.market.outcomes[name] = Math.max(entry.market.outcomes[name] ?? 0, price);
+            best.set(key, entry);
+            return entry;
+          };
+
           for (const bookmaker of event.bookmakers || []) {
             for (const market of bookmaker.markets || []) {
-              if (market.key === 'h2h') {
-                for (const outcome of market.outcomes || []) {
-                  const price = outcome.price || 0;
-                  if (outcome.name === homeTeam) {
-                    bestHome = Math.max(bestHome, price);
-                  } else if (outcome.name === awayTeam) {
-                    bestAway = Math.max(bestAway, price);
-                  } else if (outcome.name === 'Draw') {
-                    bestDraw = Math.max(bestDraw, price);
-                  }
+              const offered = new Set<ReturnType<typeof offer>>();
+
+              for (const outcome of market.outcomes || []) {
+                const price = outcome.price || 0;
+                if (price <= 1) continue;
+
+                if (market.key === 'h2h') {
+                  const name = outcome.name === homeTeam ? 'Home Win'
+                    : outcome.name === awayTeam ? 'Away Win'
+                    : outcome.name === 'Draw' ? 'Draw'
+                    : null;
+                  if (name) offered.add(offer('match_winner', undefined, name, price));
+                } else if (market.key === 'totals' && typeof outcome.point === 'number') {
+                  offered.add(offer(totalsType, outcome.point, `${outcome.name} ${outcome.point}`, price));
+                } else if (market.key === 'spreads' && typeof outcome.point === 'number') {
+                  // The line is always the home side's handicap
+                  const isHome = outcome.name === homeTeam;
+                  if (!isHome && outcome.name !== awayTeam) continue;
+                  offered.add(offer('handicap', isHome ? outcome.point : -outcome.point, isHome ? 'Home' : 'Away', price));
                 }
-                bookmakerCount++;
               }
+
+              for (const entry of offered) entry.bookmakers++;
+              if (market.key === 'h2h') bookmakerCount++;
             }
           }
 
-          if (bestHome > 1 && bestAway > 1) {
+          // Keep one line per market type - the one most bookmakers offer.
+          // Quarter lines split the stake, which settlement can't do, so they're skipped.
+          const mainLines = new Map<OddsMarketType, { market: MarketOdds; bookmakers: number }>();
+          for (const entry of best.values()) {
+            const { type, line } = entry.market;
+            if (line !== undefined && Math.abs((Math.abs(line) * 4) % 2 - 1) < 1e-9) continue;
+            const current = mainLines.get(type);
+            if (!current || entry.bookmakers > current.bookmakers) mainLines.set(type, entry);
+          }
+
+          const markets = [...mainLines.values()]
+            .map((entry) => entry.market)
+            .filter((market) => Object.keys(market.outcomes).length >= 2);
+
+          if (markets.length > 0) {
             results.push({
               homeTeam,
               awayTeam,
-              homeWin: bestHome,
-              draw: bestDraw > 1 ? bestDraw : undefined,
-              awayWin: bestAway,
+              markets: toMarkets(...markets),
               source: 'the-odds-api',
               bookmakerCount,
               scrapedAt: new Date(),
@@ -305,101 +379,180 @@ function matchEventToOdds(event: any, scrapedOdds: NormalizedOdds[]): Normalized
 
 // normalizeTeamName, stringSimilarity, levenshteinDistance moved to odds-sources/utils.ts
 
-async function updateEventOdds(db: any, event: any, odds: NormalizedOdds): Promise<boolean> {
-  const mainMarket = event.markets.find((m: any) => m.type === 'match_winner');
+function isSameLine(dbLine: string | null, line: number | undefined): boolean {
+  if (dbLine === null || dbLine === undefined) return line === undefined;
+  return line !== undefined && Math.abs(parseFloat(dbLine) - line) < 1e-9;
+}
 
-  if (!mainMarket) {
-    logger.debug('No match_winner market found', { eventId: event.id });
-    return false;
-  }
+/**
+ * Reprice complete markets at the sport's house margin, in place of the sources' margins
+ */
+function applyHousePricing(odds: NormalizedOdds, sportSlug: string): NormalizedOdds {
+  const repriced = Object.fromEntries(
+    Object.entries(odds.markets).map(([key, market]) => [
+      key,
+      FULL_BOOK_MARKETS.has(market.type) ? { ...market, outcomes: priceMarket(market.outcomes, sportSlug) } : market,
+    ])
+  );
+  return { ...odds, markets: repriced };
+}
 
+async function updateEventOdds(db: any, event: any, scrapedOdds: NormalizedOdds, sportSlug: string): Promise<boolean> {
   // Skip if event is already flagged (don't update odds on flagged events)
   if (event.isFlagged) {
     logger.debug('Skipping flagged event', { eventId: event.id });
     return false;
   }
 
-  // Get previous odds for anomaly detection
-  const homeOutcome = mainMarket.outcomes.find((o: any) => o.name.toLowerCase() === 'home win');
-  const drawOutcome = mainMarket.outcomes.find((o: any) => o.name.toLowerCase() === 'draw');
-  const awayOutcome = mainMarket.outcomes.find((o: any) => o.name.toLowerCase() === 'away win');
-
-  const previousOdds = (homeOutcome || awayOutcome) ? {
-    homeWin: homeOutcome ? parseFloat(homeOutcome.odds) : undefined,
-    draw: drawOutcome ? parseFloat(drawOutcome.odds) : undefined,
-    awayWin: awayOutcome ? parseFloat(awayOutcome.odds) : undefined,
-    updatedAt: homeOutcome?.updatedAt || new Date(),
-  } : null;
-
-  // Validate odds and check for anomalies
-  const validation = await validateAndProcessOdds(
-    event.id,
-    {
-      homeWin: odds.homeWin,
-      draw: odds.draw,
-      awayWin: odds.awayWin,
-      source: odds.source,
-    },
-    previousOdds
-  );
-
-  // If validation failed (critical anomaly), don't apply odds
-  if (!validation.valid) {
-    logger.warn('Odds rejected due to critical anomaly', {
-      eventId: event.id,
-      flagged: validation.flagged,
-    });
-    return false;
+  // Everything below - anomaly checks, history and stored odds - uses our prices
+  const odds = applyHousePricing(scrapedOdds, sportSlug);
+
+  // Anomaly detection runs on the match result prices, which every source covers
+  const matchWinner = getMatchWinnerOdds(odds);
+  if (matchWinner.homeWin !== undefined || matchWinner.awayWin !== undefined) {
+    const mainMarket = event.markets.find((m: any) => m.type === 'match_winner');
+
+    // Get previous odds for anomaly detection
+    const homeOutcome = mainMarket?.outcomes.find((o: any) => o.name.toLowerCase() === 'home win');
+    const drawOutcome = mainMarket?.outcomes.find((o: any) => o.name.toLowerCase() === 'draw');
+    const awayOutcome = mainMarket?.outcomes.find((o: any) => o.name.toLowerCase() === 'away win');
+
+    const spreadOf = (outcome: any) => (outcome?.oddsSpread ? parseFloat(outcome.oddsSpread) : undefined);
+
+    const previousOdds = (homeOutcome || awayOutcome) ? {
+      homeWin: homeOutcome ? parseFloat(homeOutcome.odds) : undefined,
+      draw: drawOutcome ? parseFloat(drawOutcome.odds) : undefined,
+      awayWin: awayOutcome ? parseFloat(awayOutcome.odds) : undefined,
+      spread: {
+        homeWin: spreadOf(homeOutcome),
+        draw: spreadOf(drawOutcome),
+        awayWin: spreadOf(awayOutcome),
+      },
+      updatedAt: homeOutcome?.updatedAt || new Date(),
+    } : null;
+
+    // Validate odds and check for anomalies, against how well the sources agreed
+    const consensus = odds.markets[getMarketKey('match_winner')]?.consensus;
+    const validation = await validateAndProcessOdds(
+      event.id,
+      {
+        ...matchWinner,
+        source: odds.source,
+        consensus: consensus && {
+          homeWin: consensus[MATCH_WINNER_OUTCOMES.home],
+          draw: consensus[MATCH_WINNER_OUTCOMES.draw],
+          awayWin: consensus[MATCH_WINNER_OUTCOMES.away],
+        },
+      },
+      previousOdds
+    );
+
+    // If validation failed (critical anomaly), don't apply any of this source's odds
+    if (!validation.valid) {
+      logger.warn('Odds rejected due to critical anomaly', {
+        eventId: event.id,
+        flagged: validation.flagged,
+      });
+      return false;
+    }
   }
 
-  // Apply odds (event may be flagged but odds are still applied for non-critical)
-  if (odds.homeWin !== undefined || odds.awayWin !== undefined) {
-    await db
-      .update(markets)
-      .set({
-        homeOdds: odds.homeWin?.toString(),
-        drawOdds: odds.draw?.toString(),
-        awayOdds: odds.awayWin?.toString(),
-        updatedAt: new Date(),
-      })
-      .where(eq(markets.id, mainMarket.id));
-
-    // Update individual outcomes
-    const outcomeData = [
-      { name: 'Home Win', odds: odds.homeWin },
-      { name: 'Draw', odds: odds.draw },
-      { name: 'Away Win', odds: odds.awayWin },
-    ].filter((o) => o.odds !== undefined);
-
-    for (const outcomeInfo of outcomeData) {
-      const existingOutcome = mainMarket.outcomes.find(
-        (o: any) => o.name.toLowerCase() === outcomeInfo.name.toLowerCase()
+  // Upsert each market the source priced, matched on type and line.
+  // (The event may have just been flagged, but non-critical odds are still applied.)
+  const hasMainMarket = event.markets.some((m: any) => m.isMainMarket);
+  let marketsUpdated = 0;
+
+  for (const marketOdds of Object.values(odds.markets)) {
+    let market = event.markets.find(
+      (m: any) => m.type === marketOdds.type && isSameLine(m.line, marketOdds.line)
+    );
+
+    if (!market) {
+      // Use raw SQL for enum values (Data API compatibility)
+      const [created] = await db
+        .insert(markets)
+        .values({
+          eventId: event.id,
+          type: sql`${marketOdds.type}::market_type`,
+          name: MARKET_NAMES[marketOdds.type](marketOdds.line),
+          line: marketOdds.line?.toString(),
+          isMainMarket: marketOdds.type === 'match_winner' && !hasMainMarket,
+        })
+        .returning();
+
+      market = { ...created, outcomes: [] };
+      event.markets.push(market);
+      logger.info('Created market from scraped odds', {
+        eventId: event.id,
+        market: getMarketKey(marketOdds.type, marketOdds.line),
+        source: odds.source,
+      });
+    } else {
+      await db
+        .update(markets)
+        .set({ updatedAt: new Date() })
+        .where(eq(markets.id, market.id));
+    }
+
+    // Update individual outcomes, recording each price change for the odds history
+    const marketKey = getMarketKey(marketOdds.type, marketOdds.line);
+    for (const [name, price] of Object.entries(marketOdds.outcomes)) {
+      const existingOutcome = market.outcomes.find(
+        (o: any) => o.name.toLowerCase() === name.toLowerCase()
       );
+      const consensus = marketOdds.consensus?.[name];
+      const oddsSources = consensus?.sources ?? null;
+      const oddsSpread = consensus ? consensus.spread.toString() : null;
 
       if (existingOutcome) {
         await db
           .update(outcomes)
           .set({
-            odds: outcomeInfo.odds!.toString(),
+            odds: price.toString(),
             previousOdds: existingOutcome.odds,
+            oddsSources,
+            oddsSpread,
             updatedAt: new Date(),
           })
           .where(eq(outcomes.id, existingOutcome.id));
+
+        const previous = parseFloat(existingOutcome.odds);
+        if (previous !== price) {
+          const change = ((price - previous) / previous) * 100;
+          await recordOddsHistory(
+            event.id,
+            marketKey,
+            name,
+            existingOutcome.odds,
+            price.toString(),
+            `${change > 0 ? '+' : ''}${change.toFixed(0)}%`,
+            odds.source,
+            false,
+            consensus
+          );
+        }
       } else {
         await db.insert(outcomes).values({
-          marketId: mainMarket.id,
-          name: outcomeInfo.name,
-          odds: outcomeInfo.odds!.toString(),
+          marketId: market.id,
+          name,
+          odds: price.toString(),
+          oddsSources,
+          oddsSpread,
         });
+
+        // Opening price
+        await recordOddsHistory(event.id, marketKey, name, null, price.toString(), null, odds.source, false, consensus);
       }
     }
+
+    marketsUpdated++;
   }
 
   logger.debug('Updated odds for event', {
     eventId: event.id,
     source: odds.source,
-    flagged: validation.flagged,
+    markets: marketsUpdated,
   });
 
-  return true;
+  return marketsUpdated > 0;
 }
@@ -8,6 +8,7 @@
 import type { Page } from 'playwright';
 import type { OddsSource, OddsSourceConfig, NormalizedOdds } from './types.js';
 import { NoDataAvailableError, NO_DATA_PATTERNS, BotBlockedError, BOT_BLOCKED_PATTERNS } from './types.js';
+import { toMarkets, matchWinnerMarket } from './utils.js';
 import { createJobLogger } from '../logger.js';
 import { waitWithJitter } from '../browser/behavior.js';
 import { writeFile, mkdir } from 'fs/promises';
@@ -206,10 +207,10 @@ async function scrapeUrl(page: Page, url: string, sportSlug: string): Promise<No
       odds.push({
         homeTeam: event.homeTeam,
         awayTeam: event.awayTeam,
-        homeWin: event.homeOdds ?? undefined,
-        awayWin: event.awayOdds ?? undefined,
         // No draw for basketball
-        draw: undefined,
+        markets: event.homeOdds && event.awayOdds
+          ? toMarkets(matchWinnerMarket(event.homeOdds, undefined, event.awayOdds))
+          : {},
         source: 'covers',
         bookmakerCount: 1,
         scrapedAt: new Date(),
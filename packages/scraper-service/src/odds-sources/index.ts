@@ -7,6 +7,10 @@
  * - Failure tracking with backoff
  * - Priority-based selection
  * - Round-robin distribution to avoid detection
+ * - Reliability weighting for consensus odds
+ *
+ * Usage and reliability are kept in memory, so they only cover the current run:
+ * after a restart every source starts again from its priority-based reliability.
  */
 
 import type { Page } from 'playwright';
@@ -19,6 +23,7 @@ import { bmBetsSource } from './bmbets.js';
 import { nicerOddsSource } from './nicerodds.js';
 import { oddScannerSource } from './oddscanner.js';
 import { coversSource } from './covers.js';
+import { CONSENSUS_CONFIG } from './utils.js';
 import { createJobLogger } from '../logger.js';
 import { getRateLimitDetector } from '../rate-limit/detector.js';
 
@@ -52,6 +57,8 @@ for (const source of allSources) {
     failureCount: 0,
     consecutiveFailures: 0,
     lastError: undefined,
+    consensusPrices: 0,
+    consensusOutliers: 0,
   });
   sportSourceStats.set(source.config.name, new Map());
 }
@@ -295,7 +302,7 @@ function getNextRoundRobinSource(
  * @param page - Playwright page
  * @param sportSlug - Sport to scrape
  * @param maxSources - Maximum sources to try (default 2)
- * @returns Combined odds from all successful sources
+ * @returns Odds from every successful source - each one that prices a match adds to its consensus
  */
 export async function scrapeWithRotation(
   page: Page,
@@ -342,9 +349,6 @@ export async function scrapeWithRotation(
           duration,
         });
         logger.info(`${source.config.name}: Got ${odds.length} odds for ${sportSlug}`);
-
-        // If we got good results, we can stop
-        if (odds.length >= 10) break;
       } else {
         // No odds returned - this is NOT a failure if the page loaded successfully
         // It just means there's no data (e.g., tennis during off-season/holidays)
@@ -400,6 +404,58 @@ export async function scrapeWithRotation(
   return results;
 }
 
+// Weight of the priority-based starting reliability, in consensus prices
+const RELIABILITY_PRIOR_WEIGHT = 20;
+
+/**
+ * How often a source's prices agree with the consensus (0-1)
+ *
+ * Starts from the source's configured priority and moves towards its observed
+ * agreement rate as it contributes prices during this run.
+ */
+export function getSourceReliability(sourceName: string): number {
+  const source = allSources.find((s) => s.config.name === sourceName);
+  const usage = sourceUsage.get(sourceName);
+  // Priority 1 starts at 0.9, each step down loses 0.1
+  const prior = Math.max(0.5, 1 - 0.1 * (source?.config.priority ?? 5));
+  if (!usage) return prior;
+
+  const agreed = usage.consensusPrices - usage.consensusOutliers;
+  return (agreed + prior * RELIABILITY_PRIOR_WEIGHT) / (usage.consensusPrices + RELIABILITY_PRIOR_WEIGHT);
+}
+
+/**
+ * Reliability of every source, for weighting consensus odds
+ */
+export function getSourceReliabilities(): Record<string, number> {
+  return Object.fromEntries(allSources.map((s) => [s.config.name, getSourceReliability(s.config.name)]));
+}
+
+/**
+ * Count each source's consensus contributions and rejected outliers
+ *
+ * Only outcomes priced by enough sources to judge outliers are counted, so a
+ * source isn't credited for agreeing with itself.
+ */
+export function recordConsensusResults(mergedOdds: NormalizedOdds[]): void {
+  for (const odds of mergedOdds) {
+    for (const market of Object.values(odds.markets)) {
+      for (const consensus of Object.values(market.consensus ?? {})) {
+        if (consensus.sources.length + consensus.rejected.length < CONSENSUS_CONFIG.MIN_SOURCES_FOR_OUTLIERS) continue;
+
+        for (const name of [...consensus.sources, ...consensus.rejected]) {
+          const usage = sourceUsage.get(name);
+          if (usage) usage.consensusPrices++;
+        }
+        for (const name of consensus.rejected) {
+          const usage = sourceUsage.get(name);
+          if (usage) usage.consensusOutliers++;
+        }
+      }
+    }
+  }
+}
+
 /**
  * Get status of all sources including sport-specific performance
  */
@@ -409,6 +465,7 @@ export function getSourcesStatus(): Record<string, {
   onCooldown: boolean;
   cooldownRemaining?: number;
   usage: SourceUsage;
+  reliability: number;
   sportStats: Record<string, SportSourceStats>;
   avoidedSports: string[];
 }> {
@@ -447,6 +504,7 @@ export function getSourcesStatus(): Record<string, {
       onCooldown,
       cooldownRemaining,
       usage: { ...usage },
+      reliability: getSourceReliability(source.config.name),
       sportStats: sportStatsObj,
       avoidedSports,
     };
@@ -455,7 +513,7 @@ export function getSourcesStatus(): Record<string, {
   return status;
 }
 
-export { NormalizedOdds, OddsSourceResult } from './types.js';
+export { NormalizedOdds, OddsSourceResult, MarketOdds, OddsMarketType, OutcomeConsensus } from './types.js';
 export {
   normalizeTeamName,
   stringSimilarity,
@@ -463,5 +521,12 @@ export {
   validateOdds,
   mergeOdds,
   getSourcePriorities,
+  getMarketKey,
+  toMarkets,
+  matchWinnerMarket,
+  getMatchWinnerOdds,
+  MATCH_WINNER_OUTCOMES,
   SPORT_MARKET_TYPES,
+  FULL_BOOK_MARKETS,
+  CONSENSUS_CONFIG,
 } from './utils.js';
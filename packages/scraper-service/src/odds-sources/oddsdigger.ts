@@ -8,6 +8,7 @@
 import type { Page } from 'playwright';
 import type { OddsSource, OddsSourceConfig, NormalizedOdds } from './types.js';
 import { NoDataAvailableError, NO_DATA_PATTERNS, BotBlockedError, BOT_BLOCKED_PATTERNS } from './types.js';
+import { toMarkets, matchWinnerMarket } from './utils.js';
 import { createJobLogger } from '../logger.js';
 import { waitWithJitter } from '../browser/behavior.js';
 import { writeFile, mkdir } from 'fs/promises';
@@ -193,9 +194,7 @@ async function scrapeUrl(page: Page, url: string, sportSlug: string): Promise<No
         odds.push({
           homeTeam: event.homeTeam,
           awayTeam: event.awayTeam,
-          homeWin,
-          draw: draw && draw > 1 ? draw : undefined,
-          awayWin,
+          markets: toMarkets(matchWinnerMarket(homeWin, draw && draw > 1 ? draw : undefined, awayWin)),
           source: 'oddsdigger',
           bookmakerCount: 1,
           scrapedAt: new Date(),
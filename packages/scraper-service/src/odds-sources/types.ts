@@ -5,13 +5,34 @@
  */
 
 import type { Page } from 'playwright';
+import type { Market } from '@sport-sage/database';
+
+export type OddsMarketType = Market['type'];
+
+/**
+ * Prices for one market. Outcome names follow what settlement resolves:
+ * "Home Win"/"Draw"/"Away Win", "Over 2.5"/"Under 2.5", "Yes"/"No", "Home"/"Away" for handicaps.
+ */
+export interface MarketOdds {
+  type: OddsMarketType;
+  line?: number; // Total for over/under, the home side's handicap for handicaps
+  outcomes: Record<string, number>; // Outcome name -> decimal odds
+  consensus?: Record<string, OutcomeConsensus>; // Per outcome, set once odds are merged across sources
+}
+
+/**
+ * How a merged outcome price was reached
+ */
+export interface OutcomeConsensus {
+  sources: string[]; // Sources whose price went into the consensus
+  rejected: string[]; // Sources dropped as outliers
+  spread: number; // (highest - lowest) / consensus, across the contributing prices
+}
 
 export interface NormalizedOdds {
   homeTeam: string;
   awayTeam: string;
-  homeWin?: number;
-  draw?: number;
-  awayWin?: number;
+  markets: Record<string, MarketOdds>; // Keyed by getMarketKey(type, line); any subset of markets
   source: string;
   bookmakerCount?: number;
   scrapedAt: Date;
@@ -45,6 +66,8 @@ export interface SourceUsage {
   failureCount: number;
   consecutiveFailures: number;
   lastError?: string;
+  consensusPrices: number; // Prices compared against a multi-source consensus
+  consensusOutliers: number; // ...of which were rejected as outliers
 }
 
 // Track performance per sport
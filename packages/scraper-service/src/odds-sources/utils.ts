@@ -4,7 +4,7 @@
  * Common utilities for normalizing, validating, and deduplicating odds data.
  */
 
-import type { NormalizedOdds } from './types.js';
+import type { NormalizedOdds, MarketOdds, OddsMarketType, OutcomeConsensus } from './types.js';
 import { createJobLogger } from '../logger.js';
 
 const logger = createJobLogger('odds-utils');
@@ -24,6 +24,74 @@ export const SPORT_MARKET_TYPES: Record<string, '2way' | '3way'> = {
   american_football: '2way',
 };
 
+// Outcome names used for match_winner, matching the outcomes sync-fixtures creates
+export const MATCH_WINNER_OUTCOMES = {
+  home: 'Home Win',
+  draw: 'Draw',
+  away: 'Away Win',
+} as const;
+
+/**
+ * Markets whose outcomes cover every result, so their implied probabilities
+ * should add up to roughly 100% plus margin. Others (correct score, first
+ * scorer, double chance) are priced per outcome and aren't checked as a book.
+ */
+export const FULL_BOOK_MARKETS: ReadonlySet<OddsMarketType> = new Set<OddsMarketType>([
+  'match_winner',
+  'both_teams_score',
+  'over_under_goals',
+  'over_under_points',
+  'handicap',
+  'set_winner',
+  'game_winner',
+  'frame_winner',
+  'to_qualify',
+]);
+
+/**
+ * Key for a market within NormalizedOdds.markets: the type, plus the line when it has one
+ */
+export function getMarketKey(type: OddsMarketType, line?: number | null): string {
+  return line === undefined || line === null ? type : `${type}:${line}`;
+}
+
+/**
+ * Build a markets map from any number of markets
+ */
+export function toMarkets(...markets: MarketOdds[]): Record<string, MarketOdds> {
+  const result: Record<string, MarketOdds> = {};
+  for (const market of markets) {
+    result[getMarketKey(market.type, market.line)] = market;
+  }
+  return result;
+}
+
+/**
+ * A match_winner market from 1X2 (or moneyline, without a draw) prices
+ */
+export function matchWinnerMarket(homeWin: number, draw: number | undefined, awayWin: number): MarketOdds {
+  return {
+    type: 'match_winner',
+    outcomes: {
+      [MATCH_WINNER_OUTCOMES.home]: homeWin,
+      ...(draw !== undefined ? { [MATCH_WINNER_OUTCOMES.draw]: draw } : {}),
+      [MATCH_WINNER_OUTCOMES.away]: awayWin,
+    },
+  };
+}
+
+/**
+ * The match_winner prices in the shape anomaly detection works with
+ */
+export function getMatchWinnerOdds(odds: NormalizedOdds): { homeWin?: number; draw?: number; awayWin?: number } {
+  const outcomes = odds.markets[getMarketKey('match_winner')]?.outcomes ?? {};
+  return {
+    homeWin: outcomes[MATCH_WINNER_OUTCOMES.home],
+    draw: outcomes[MATCH_WINNER_OUTCOMES.draw],
+    awayWin: outcomes[MATCH_WINNER_OUTCOMES.away],
+  };
+}
+
 /**
  * Normalize team name for consistent matching across sources
  * Handles common variations: FC, United, City, punctuation, etc.
@@ -96,9 +164,13 @@ function levenshteinDistance(a: string, b: string): number {
 }
 
 /**
- * Check if two matches are the same (fuzzy matching)
+ * How b's teams line up with a's: the same way round, home and away swapped, or not the same match
  */
-export function isSameMatch(a: NormalizedOdds, b: NormalizedOdds, threshold = 0.75): boolean {
+export function getMatchOrientation(
+  a: NormalizedOdds,
+  b: NormalizedOdds,
+  threshold = 0.75
+): 'same' | 'swapped' | null {
   const aHome = normalizeTeamName(a.homeTeam);
   const aAway = normalizeTeamName(a.awayTeam);
   const bHome = normalizeTeamName(b.homeTeam);
@@ -109,19 +181,117 @@ export function isSameMatch(a: NormalizedOdds, b: NormalizedOdds, threshold = 0.
   const awaySim = stringSimilarity(aAway, bAway);
 
   if (homeSim >= threshold && awaySim >= threshold) {
-    return true;
+    return 'same';
   }
 
   // Check reversed (in case home/away are swapped between sources)
   const homeRevSim = stringSimilarity(aHome, bAway);
   const awayRevSim = stringSimilarity(aAway, bHome);
 
-  return homeRevSim >= threshold && awayRevSim >= threshold;
+  return homeRevSim >= threshold && awayRevSim >= threshold ? 'swapped' : null;
+}
+
+/**
+ * Check if two matches are the same (fuzzy matching), either way round
+ */
+export function isSameMatch(a: NormalizedOdds, b: NormalizedOdds, threshold = 0.75): boolean {
+  return getMatchOrientation(a, b, threshold) !== null;
+}
+
+// Markets whose outcomes don't name a side, so they read the same either way round
+const SIDE_NEUTRAL_MARKETS: ReadonlySet<OddsMarketType> = new Set<OddsMarketType>([
+  'both_teams_score',
+  'over_under_goals',
+  'over_under_points',
+]);
+
+// Outcome names that swap when home and away do
+const SWAPPED_OUTCOMES: Record<string, string> = {
+  [MATCH_WINNER_OUTCOMES.home]: MATCH_WINNER_OUTCOMES.away,
+  [MATCH_WINNER_OUTCOMES.away]: MATCH_WINNER_OUTCOMES.home,
+  Home: 'Away',
+  Away: 'Home',
+};
+
+/**
+ * A quote turned the other way round: home and away teams and their outcomes
+ * swapped, and handicap lines negated (the line is the home side's handicap).
+ * Other markets that name a side can't be turned round reliably, so they're dropped.
+ */
+export function swapHomeAway(odds: NormalizedOdds): NormalizedOdds {
+  const markets: MarketOdds[] = [];
+
+  for (const market of Object.values(odds.markets)) {
+    if (SIDE_NEUTRAL_MARKETS.has(market.type)) {
+      markets.push(market);
+    } else if (market.type === 'match_winner' || market.type === 'handicap') {
+      markets.push({
+        ...market,
+        line: market.type === 'handicap' && market.line !== undefined ? -market.line : market.line,
+        outcomes: Object.fromEntries(
+          Object.entries(market.outcomes).map(([name, price]) => [SWAPPED_OUTCOMES[name] ?? name, price])
+        ),
+      });
+    }
+  }
+
+  return { ...odds, homeTeam: odds.awayTeam, awayTeam: odds.homeTeam, markets: toMarkets(...markets) };
+}
+
+/**
+ * Validate one market's prices. Returns false if the market should be dropped.
+ */
+function validateMarket(market: MarketOdds, sportSlug: string): boolean {
+  const prices = Object.values(market.outcomes);
+
+  if (prices.length < 2) {
+    logger.debug('Invalid market: fewer than two outcomes', { market: market.type });
+    return false;
+  }
+
+  // Validate odds are in reasonable range (1.01 to 1000)
+  if (prices.some((price) => !Number.isFinite(price) || price < 1.01 || price > 1000)) {
+    logger.debug('Invalid market: odds out of range', { market: market.type, outcomes: market.outcomes });
+    return false;
+  }
+
+  if (market.type === 'match_winner') {
+    const hasSides = market.outcomes[MATCH_WINNER_OUTCOMES.home] !== undefined
+      && market.outcomes[MATCH_WINNER_OUTCOMES.away] !== undefined;
+    if (!hasSides) {
+      logger.debug('Invalid odds: missing home/away odds');
+      return false;
+    }
+
+    // Without its draw a 1X2 book would be repriced as if it were two-way
+    if (SPORT_MARKET_TYPES[sportSlug] === '3way' && market.outcomes[MATCH_WINNER_OUTCOMES.draw] === undefined) {
+      logger.debug('Invalid odds: missing draw odds for a 3-way market');
+      return false;
+    }
+  }
+
+  if (FULL_BOOK_MARKETS.has(market.type)) {
+    const impliedProb = prices.reduce((sum, price) => sum + 1 / price, 0);
+
+    // Validate implied probability isn't > 150% (accounting for margin)
+    if (impliedProb > 1.5) {
+      logger.debug('Invalid market: implied probability too high', { market: market.type, impliedProb });
+      return false;
+    }
+
+    // Validate implied probability isn't < 90% (suspicious)
+    if (impliedProb < 0.9) {
+      logger.debug('Invalid market: implied probability too low', { market: market.type, impliedProb });
+      return false;
+    }
+  }
+
+  return true;
 }
 
 /**
  * Validate odds data
- * Returns null if invalid, or the validated odds if valid
+ * Invalid markets are dropped; returns null if the match is invalid or no markets are left
  */
 export function validateOdds(odds: NormalizedOdds, sportSlug: string): NormalizedOdds | null {
   // Check team names
@@ -140,112 +310,172 @@ export function validateOdds(odds: NormalizedOdds, sportSlug: string): Normalize
     return null;
   }
 
-  // Check odds values
-  const marketType = SPORT_MARKET_TYPES[sportSlug] || '3way';
-
-  if (odds.homeWin === undefined || odds.awayWin === undefined) {
-    logger.debug('Invalid odds: missing home/away odds');
-    return null;
+  const markets: Record<string, MarketOdds> = {};
+  for (const [key, market] of Object.entries(odds.markets)) {
+    if (validateMarket(market, sportSlug)) markets[key] = market;
   }
 
-  // Validate odds are in reasonable range (1.01 to 1000)
-  if (odds.homeWin < 1.01 || odds.homeWin > 1000) {
-    logger.debug('Invalid odds: home odds out of range', { homeWin: odds.homeWin });
+  if (Object.keys(markets).length === 0) {
+    logger.debug('Invalid odds: no valid markets');
     return null;
   }
 
-  if (odds.awayWin < 1.01 || odds.awayWin > 1000) {
-    logger.debug('Invalid odds: away odds out of range', { awayWin: odds.awayWin });
-    return null;
-  }
+  return { ...odds, markets };
+}
 
-  // For 3-way markets (football), validate draw odds if present
-  if (marketType === '3way') {
-    if (odds.draw !== undefined && (odds.draw < 1.01 || odds.draw > 1000)) {
-      logger.debug('Invalid odds: draw odds out of range', { draw: odds.draw });
-      return null;
-    }
-  }
+/**
+ * Consensus tuning
+ * - Outliers are judged on implied probability, so a 1.50 vs 1.60 gap counts for
+ *   more than 15.0 vs 16.0
+ * - MAD is scaled by 1.4826 to estimate a standard deviation; prices more than
+ *   MAX_DEVIATIONS of those from the median are dropped
+ * - With fewer than MIN_SOURCES_FOR_OUTLIERS prices there's no majority, so none are dropped
+ */
+export const CONSENSUS_CONFIG = {
+  MAX_DEVIATIONS: 3,
+  MAD_SCALE: 1.4826,
+  MIN_SOURCES_FOR_OUTLIERS: 3,
+  // When every other source agrees exactly (MAD = 0), still allow this much probability difference
+  MIN_PROBABILITY_TOLERANCE: 0.02,
+  DEFAULT_RELIABILITY: 0.5,
+};
 
-  // Validate implied probability isn't > 150% (accounting for margin)
-  const impliedProb = (1 / odds.homeWin) + (1 / odds.awayWin) + (odds.draw ? 1 / odds.draw : 0);
-  if (impliedProb > 1.5) {
-    logger.debug('Invalid odds: implied probability too high', { impliedProb });
-    return null;
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+/**
+ * Consensus price for one outcome from each source's price
+ */
+function consensusPrice(
+  prices: Array<{ source: string; price: number }>,
+  reliabilities: Record<string, number>
+): { price: number; consensus: OutcomeConsensus } {
+  let kept = prices;
+  let rejected: typeof prices = [];
+
+  if (prices.length >= CONSENSUS_CONFIG.MIN_SOURCES_FOR_OUTLIERS) {
+    const probabilities = prices.map((p) => 1 / p.price);
+    const center = median(probabilities);
+    const mad = median(probabilities.map((q) => Math.abs(q - center)));
+    const tolerance = Math.max(
+      CONSENSUS_CONFIG.MAX_DEVIATIONS * CONSENSUS_CONFIG.MAD_SCALE * mad,
+      CONSENSUS_CONFIG.MIN_PROBABILITY_TOLERANCE
+    );
+
+    kept = prices.filter((_, i) => Math.abs(probabilities[i]! - center) <= tolerance);
+    rejected = prices.filter((_, i) => Math.abs(probabilities[i]! - center) > tolerance);
   }
 
-  // Validate implied probability isn't < 90% (suspicious)
-  if (impliedProb < 0.9) {
-    logger.debug('Invalid odds: implied probability too low', { impliedProb });
-    return null;
+  // Weighted mean of implied probabilities, turned back into odds
+  const weightOf = (source: string) => reliabilities[source] ?? CONSENSUS_CONFIG.DEFAULT_RELIABILITY;
+  const totalWeight = kept.reduce((sum, p) => sum + weightOf(p.source), 0);
+  const probability = kept.reduce((sum, p) => sum + weightOf(p.source) / p.price, 0) / totalWeight;
+  const price = Math.round((1 / probability) * 100) / 100;
+
+  const keptPrices = kept.map((p) => p.price);
+  return {
+    price,
+    consensus: {
+      sources: kept.map((p) => p.source),
+      rejected: rejected.map((p) => p.source),
+      spread: Math.round(((Math.max(...keptPrices) - Math.min(...keptPrices)) / price) * 10000) / 10000,
+    },
+  };
+}
+
+/**
+ * Consensus markets for one match from every source that priced it
+ */
+function buildConsensusMarkets(
+  quotes: NormalizedOdds[],
+  reliabilities: Record<string, number>
+): Record<string, MarketOdds> {
+  const markets: Record<string, MarketOdds> = {};
+  const keys = new Set(quotes.flatMap((q) => Object.keys(q.markets)));
+
+  for (const key of keys) {
+    const priced = quotes.filter((q) => q.markets[key]);
+    const first = priced[0]!.markets[key]!;
+    const names = new Set(priced.flatMap((q) => Object.keys(q.markets[key]!.outcomes)));
+
+    const market: MarketOdds = { type: first.type, line: first.line, outcomes: {}, consensus: {} };
+    for (const name of names) {
+      const prices = priced
+        .filter((q) => q.markets[key]!.outcomes[name] !== undefined)
+        .map((q) => ({ source: q.source, price: q.markets[key]!.outcomes[name]! }));
+
+      const { price, consensus } = consensusPrice(prices, reliabilities);
+      market.outcomes[name] = price;
+      market.consensus![name] = consensus;
+    }
+    markets[key] = market;
   }
 
-  return odds;
+  return markets;
 }
 
 /**
- * Merge and deduplicate odds from multiple sources
- * Higher priority sources take precedence for duplicate matches
+ * Merge and deduplicate odds from multiple sources into a consensus per match
+ *
+ * Every source that priced a match contributes, turned round to the first source's
+ * home and away if it lists them the other way. For each outcome, prices that sit
+ * far from the others (by median absolute deviation) are rejected, and the rest are
+ * averaged weighted by each source's reliability. Which sources contributed, which
+ * were rejected, and how far apart they were is kept in each market's `consensus`.
  */
 export function mergeOdds(
   allOdds: NormalizedOdds[],
   sportSlug: string,
-  sourcePriorities: Record<string, number> = {}
+  reliabilities: Record<string, number> = {}
 ): NormalizedOdds[] {
-  const merged: NormalizedOdds[] = [];
+  // Group each source's validated odds by match - one quote per source per match
+  const groups: NormalizedOdds[][] = [];
 
-  // Sort by source priority (lower number = higher priority)
-  const sorted = [...allOdds].sort((a, b) => {
-    const aPriority = sourcePriorities[a.source] ?? 10;
-    const bPriority = sourcePriorities[b.source] ?? 10;
-    return aPriority - bPriority;
-  });
-
-  for (const odds of sorted) {
+  for (const odds of allOdds) {
     // Validate first
     const validated = validateOdds(odds, sportSlug);
     if (!validated) continue;
 
-    // Check for duplicates
-    const existingIndex = merged.findIndex((existing) => isSameMatch(existing, validated));
-
-    if (existingIndex === -1) {
-      // No duplicate, add it
-      merged.push(validated);
-    } else {
-      // Duplicate found - keep the one from higher priority source
-      const existing = merged[existingIndex]!;
-      const existingPriority = sourcePriorities[existing.source] ?? 10;
-      const newPriority = sourcePriorities[validated.source] ?? 10;
-
-      if (newPriority < existingPriority) {
-        // New one has higher priority, replace
-        merged[existingIndex] = validated;
-        logger.debug('Replaced duplicate with higher priority source', {
-          match: `${validated.homeTeam} vs ${validated.awayTeam}`,
-          oldSource: existing.source,
-          newSource: validated.source,
-        });
-      } else if (newPriority === existingPriority) {
-        // Same priority - merge odds (take best odds for each outcome)
-        merged[existingIndex] = {
-          ...existing,
-          homeWin: Math.max(existing.homeWin ?? 0, validated.homeWin ?? 0),
-          draw: existing.draw !== undefined || validated.draw !== undefined
-            ? Math.max(existing.draw ?? 0, validated.draw ?? 0) || undefined
-            : undefined,
-          awayWin: Math.max(existing.awayWin ?? 0, validated.awayWin ?? 0),
-          bookmakerCount: (existing.bookmakerCount ?? 1) + (validated.bookmakerCount ?? 1),
-        };
-        logger.debug('Merged odds from same priority sources', {
-          match: `${validated.homeTeam} vs ${validated.awayTeam}`,
-          sources: [existing.source, validated.source],
-        });
+    let group: NormalizedOdds[] | undefined;
+    let orientation: ReturnType<typeof getMatchOrientation> = null;
+    for (const candidate of groups) {
+      orientation = getMatchOrientation(candidate[0]!, validated);
+      if (orientation) {
+        group = candidate;
+        break;
       }
-      // If new has lower priority, just skip it
+    }
+
+    if (!group) {
+      groups.push([validated]);
+    } else if (!group.some((q) => q.source === validated.source)) {
+      // Prices are merged by outcome name, so a source listing the teams the other way round is turned to match
+      group.push(orientation === 'swapped' ? swapHomeAway(validated) : validated);
     }
   }
 
+  const merged = groups.map((quotes): NormalizedOdds => {
+    const first = quotes[0]!;
+    if (quotes.length > 1) {
+      logger.debug('Building consensus odds', {
+        match: `${first.homeTeam} vs ${first.awayTeam}`,
+        sources: quotes.map((q) => q.source),
+      });
+    }
+
+    return {
+      homeTeam: first.homeTeam,
+      awayTeam: first.awayTeam,
+      markets: buildConsensusMarkets(quotes, reliabilities),
+      source: quotes.length === 1 ? first.source : 'consensus',
+      bookmakerCount: quotes.reduce((sum, q) => sum + (q.bookmakerCount ?? 1), 0),
+      scrapedAt: new Date(Math.max(...quotes.map((q) => q.scrapedAt.getTime()))),
+    };
+  });
+
   logger.info(`Merged ${allOdds.length} odds into ${merged.length} unique matches for ${sportSlug}`);
   return merged;
 }
@@ -13,6 +13,7 @@ import { getDb } from '../database/client.js';
 import { events, oddsHistory } from '@sport-sage/database';
 import { eq, sql } from 'drizzle-orm';
 import { createJobLogger } from '../logger.js';
+import type { OutcomeConsensus } from '../odds-sources/types.js';
 
 const logger = createJobLogger('odds-anomaly');
 
@@ -22,20 +23,30 @@ export interface OddsAnomalyResult {
   severity: 'low' | 'medium' | 'high' | 'critical';
 }
 
+type MatchWinnerKey = 'homeWin' | 'draw' | 'awayWin';
+
 interface OddsValues {
   homeWin?: number;
   draw?: number;
   awayWin?: number;
   source: string;
+  consensus?: Partial<Record<MatchWinnerKey, OutcomeConsensus>>; // How the sources agreed on each price
 }
 
 interface PreviousOdds {
   homeWin?: number;
   draw?: number;
   awayWin?: number;
+  spread?: Partial<Record<MatchWinnerKey, number>>; // Consensus spread behind each previous price
   updatedAt: Date;
 }
 
+const OUTCOME_LABELS: Record<MatchWinnerKey, string> = {
+  homeWin: 'Home',
+  draw: 'Draw',
+  awayWin: 'Away',
+};
+
 // Configuration thresholds
 const THRESHOLDS = {
   // Odds value limits
@@ -52,6 +63,11 @@ const THRESHOLDS = {
 
   // Similar odds detection (all outcomes too close = likely error)
   SIMILAR_ODDS_THRESHOLD: 0.15, // Max 15% difference between all odds
+
+  // Consensus checks
+  MAX_CONSENSUS_SPREAD: 0.25, // Sources more than 25% apart after outliers are dropped
+  MIN_CORROBORATING_SOURCES: 2, // A rapid move this many sources agree on is a real market move
+  MAX_CORROBORATED_SPREAD: 0.10, // ...as long as they agree to within 10%
 };
 
 /**
@@ -147,36 +163,41 @@ export function detectOddsAnomalies(
   }
 
   // Check 3: Rapid change detection
+  // A price that was already disputed between sources is allowed to move by as much as
+  // they disagreed. A move the sources agree on is still flagged, but not as high severity.
   if (previousOdds && previousOdds.updatedAt) {
     const timeSinceUpdate = Date.now() - previousOdds.updatedAt.getTime();
 
     if (timeSinceUpdate < THRESHOLDS.CHANGE_TIME_WINDOW_MS) {
       const changes: string[] = [];
-
-      if (newOdds.homeWin && previousOdds.homeWin) {
-        const change = percentChange(previousOdds.homeWin, newOdds.homeWin);
-        if (change > THRESHOLDS.MAX_CHANGE_PERCENT) {
-          changes.push(`Home odds changed ${(change * 100).toFixed(0)}%`);
-        }
-      }
-
-      if (newOdds.draw && previousOdds.draw) {
-        const change = percentChange(previousOdds.draw, newOdds.draw);
-        if (change > THRESHOLDS.MAX_CHANGE_PERCENT) {
-          changes.push(`Draw odds changed ${(change * 100).toFixed(0)}%`);
-        }
-      }
-
-      if (newOdds.awayWin && previousOdds.awayWin) {
-        const change = percentChange(previousOdds.awayWin, newOdds.awayWin);
-        if (change > THRESHOLDS.MAX_CHANGE_PERCENT) {
-          changes.push(`Away odds changed ${(change * 100).toFixed(0)}%`);
+      let corroborated = true;
+
+      for (const key of Object.keys(OUTCOME_LABELS) as MatchWinnerKey[]) {
+        const next = newOdds[key];
+        const previous = previousOdds[key];
+        if (!next || !previous) continue;
+
+        const change = percentChange(previous, next);
+        const allowed = Math.max(THRESHOLDS.MAX_CHANGE_PERCENT, previousOdds.spread?.[key] ?? 0);
+        if (change > allowed) {
+          changes.push(`${OUTCOME_LABELS[key]} odds changed ${(change * 100).toFixed(0)}%`);
+
+          const consensus = newOdds.consensus?.[key];
+          corroborated = corroborated &&
+            !!consensus &&
+            consensus.sources.length >= THRESHOLDS.MIN_CORROBORATING_SOURCES &&
+            consensus.spread <= THRESHOLDS.MAX_CORROBORATED_SPREAD;
         }
       }
 
       if (changes.length > 0) {
-        reasons.push(`Rapid odds change in ${Math.round(timeSinceUpdate / 1000)}s: ${changes.join(', ')}`);
-        severity = severity === 'critical' ? 'critical' : 'high';
+        if (corroborated) {
+          reasons.push(`Rapid odds change in ${Math.round(timeSinceUpdate / 1000)}s, agreed by sources: ${changes.join(', ')}`);
+          severity = severity === 'low' ? 'medium' : severity;
+        } else {
+          reasons.push(`Rapid odds change in ${Math.round(timeSinceUpdate / 1000)}s: ${changes.join(', ')}`);
+          severity = severity === 'critical' ? 'critical' : 'high';
+        }
       }
     }
   }
@@ -193,6 +214,18 @@ export function detectOddsAnomalies(
     severity = severity === 'critical' ? 'critical' : 'high';
   }
 
+  // Check 6: Sources disagree on the consensus price
+  const disputed = (Object.keys(OUTCOME_LABELS) as MatchWinnerKey[]).filter(
+    (key) => (newOdds.consensus?.[key]?.spread ?? 0) > THRESHOLDS.MAX_CONSENSUS_SPREAD
+  );
+  if (disputed.length > 0) {
+    const detail = disputed
+      .map((key) => `${OUTCOME_LABELS[key]} ${(newOdds.consensus![key]!.spread * 100).toFixed(0)}% (${newOdds.consensus![key]!.sources.join(', ')})`)
+      .join(', ');
+    reasons.push(`Sources disagree on odds: ${detail}`);
+    severity = severity === 'low' ? 'medium' : severity;
+  }
+
   return {
     isAnomalous: reasons.length > 0,
     reasons,
@@ -242,7 +275,8 @@ export async function recordOddsHistory(
   newOdds: string,
   changePercent: string | null,
   source: string,
-  isFlagged: boolean
+  isFlagged: boolean,
+  consensus?: OutcomeConsensus
 ): Promise<void> {
   const db = getDb();
 
@@ -255,6 +289,8 @@ export async function recordOddsHistory(
       newOdds,
       changePercent,
       source,
+      sources: consensus?.sources ?? null,
+      spread: consensus ? consensus.spread.toString() : null,
       isFlagged: isFlagged ? 1 : 0,
     });
   } catch (error) {
@@ -289,7 +325,8 @@ export async function validateAndProcessOdds(
           ? `${percentChange(previousOdds.homeWin, newOdds.homeWin) > 0 ? '+' : ''}${(percentChange(previousOdds.homeWin, newOdds.homeWin) * 100).toFixed(0)}%`
           : null,
         newOdds.source,
-        true
+        true,
+        newOdds.consensus?.homeWin
       );
     }
 
@@ -306,22 +343,6 @@ export async function validateAndProcessOdds(
     return { valid: true, flagged: true };
   }
 
-  // No anomalies detected - record normal odds change for history
-  if (newOdds.homeWin !== undefined && previousOdds?.homeWin !== undefined) {
-    const change = percentChange(previousOdds.homeWin, newOdds.homeWin);
-    if (change > 0.05) { // Only record if change > 5%
-      await recordOddsHistory(
-        eventId,
-        'match_winner',
-        'Home Win',
-        previousOdds.homeWin.toString(),
-        newOdds.homeWin.toString(),
-        `${change > 0 ? '+' : ''}${(change * 100).toFixed(0)}%`,
-        newOdds.source,
-        false
-      );
-    }
-  }
-
+  // No anomalies detected - the sync records the applied prices in the history
   return { valid: true, flagged: false };
 }
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveMarket,
+  MARKET_RESOLVERS,
+  type MarketType,
+  type ResolvableMarket,
+  type SettlementResult,
+} from '../settlement/market-resolvers';
+
+const event = {
+  homeTeamName: 'Arsenal',
+  awayTeamName: 'Chelsea',
+  player1Name: null,
+  player2Name: null,
+};
+
+function market(type: MarketType, outcomeNames: string[], line: string | null = null, name: string | null = null): ResolvableMarket {
+  return {
+    type,
+    name,
+    line,
+    outcomes: outcomeNames.map((n) => ({ id: n, name: n })),
+  };
+}
+
+function results(m: ResolvableMarket, result: SettlementResult): Record<string, string> {
+  const resolution = resolveMarket(m, result, event);
+  if (resolution.status !== 'resolved') {
+    throw new Error(`Expected resolved, got unresolvable: ${resolution.reason}`);
+  }
+  return Object.fromEntries(resolution.results);
+}
+
+describe('Market Resolvers', () => {
+  it('should register a resolver for every market type', () => {
+    expect(Object.keys(MARKET_RESOLVERS).sort()).toEqual([
+      'both_teams_score',
+      'correct_score',
+      'double_chance',
+      'first_scorer',
+      'frame_winner',
+      'game_winner',
+      'handicap',
+      'match_winner',
+      'over_under_goals',
+      'over_under_points',
+      'set_winner',
+      'to_qualify',
+    ]);
+  });
+
+  describe('match_winner', () => {
+    it('should match home/draw/away by label or team name', () => {
+      expect(results(market('match_winner', ['Arsenal', 'Draw', 'Chelsea']), { homeScore: 2, awayScore: 1 }))
+        .toEqual({ Arsenal: 'won', Draw: 'lost', Chelsea: 'lost' });
+      expect(results(market('match_winner', ['1', 'X', '2']), { homeScore: 1, awayScore: 1 }))
+        .toEqual({ '1': 'lost', X: 'won', '2': 'lost' });
+    });
+  });
+
+  describe('double_chance', () => {
+    it('should cover two of the three results', () => {
+      expect(results(market('double_chance', ['1X', '12', 'X2']), { homeScore: 0, awayScore: 0 }))
+        .toEqual({ '1X': 'won', '12': 'lost', X2: 'won' });
+      expect(results(market('double_chance', ['Home or Draw', 'Home or Away', 'Draw or Away']), { homeScore: 0, awayScore: 3 }))
+        .toEqual({ 'Home or Draw': 'lost', 'Home or Away': 'won', 'Draw or Away': 'won' });
+    });
+  });
+
+  describe('over/under', () => {
+    it('should settle half lines', () => {
+      expect(results(market('over_under_goals', ['Over 2.5', 'Under 2.5'], '2.5'), { homeScore: 2, awayScore: 1 }))
+        .toEqual({ 'Over 2.5': 'won', 'Under 2.5': 'lost' });
+    });
+
+    it('should push on an exact whole line', () => {
+      expect(results(market('over_under_goals', ['Over 3.0', 'Under 3.0'], '3.00'), { homeScore: 2, awayScore: 1 }))
+        .toEqual({ 'Over 3.0': 'void', 'Under 3.0': 'void' });
+    });
+
+    it('should hold quarter lines', () => {
+      const resolution = resolveMarket(market('over_under_goals', ['Over', 'Under'], '2.25'), { homeScore: 2, awayScore: 0 }, event);
+      expect(resolution.status).toBe('unresolvable');
+    });
+
+    it('should require a line for points totals', () => {
+      const resolution = resolveMarket(market('over_under_points', ['Over', 'Under']), { homeScore: 101, awayScore: 99 }, event);
+      expect(resolution.status).toBe('unresolvable');
+    });
+  });
+
+  describe('handicap', () => {
+    it('should apply the line to the home side', () => {
+      expect(results(market('handicap', ['Arsenal -1.5', 'Chelsea +1.5'], '-1.5'), { homeScore: 2, awayScore: 1 }))
+        .toEqual({ 'Arsenal -1.5': 'lost', 'Chelsea +1.5': 'won' });
+    });
+
+    it('should push a two-way handicap on an exact line', () => {
+      expect(results(market('handicap', ['Home', 'Away'], '0'), { homeScore: 1, awayScore: 1 }))
+        .toEqual({ Home: 'void', Away: 'void' });
+    });
+
+    it('should settle a three-way handicap on the draw', () => {
+      expect(results(market('handicap', ['Home -1', 'Draw -1', 'Away +1'], '-1'), { homeScore: 2, awayScore: 1 }))
+        .toEqual({ 'Home -1': 'lost', 'Draw -1': 'won', 'Away +1': 'lost' });
+    });
+  });
+
+  describe('correct_score', () => {
+    it('should match the exact score and fall back to "any other"', () => {
+      expect(results(market('correct_score', ['1-0', '2-1', 'Any Other']), { homeScore: 2, awayScore: 1 }))
+        .toEqual({ '1-0': 'lost', '2-1': 'won', 'Any Other': 'lost' });
+      expect(results(market('correct_score', ['1-0', '2-1', 'Any Other']), { homeScore: 4, awayScore: 4 }))
+        .toEqual({ '1-0': 'lost', '2-1': 'lost', 'Any Other': 'won' });
+    });
+  });
+
+  describe('unmatched outcome names', () => {
+    it('should hold a market with a team alias instead of marking it lost', () => {
+      const resolution = resolveMarket(market('match_winner', ['Man Utd', 'Draw', 'Chelsea']), { homeScore: 2, awayScore: 1 }, event);
+      expect(resolution).toEqual({ status: 'unresolvable', reason: 'Cannot match outcome "Man Utd" to a result' });
+    });
+
+    it('should not match a name that only starts with or contains a team or label', () => {
+      expect(resolveMarket(market('match_winner', ['Arsenal Women', 'Draw', 'Chelsea']), { homeScore: 1, awayScore: 0 }, event).status)
+        .toBe('unresolvable');
+      expect(resolveMarket(market('to_qualify', ['Homestead', 'Chelsea']), { homeScore: 1, awayScore: 0, qualifier: 'home' }, event).status)
+        .toBe('unresolvable');
+    });
+
+    it('should hold other markets with an unrecognised outcome', () => {
+      const final = { homeScore: 2, awayScore: 1 };
+      expect(resolveMarket(market('handicap', ['Gunners -1.5', 'Chelsea +1.5'], '-1.5'), final, event).status).toBe('unresolvable');
+      expect(resolveMarket(market('double_chance', ['Home or Man Utd', 'X2']), final, event).status).toBe('unresolvable');
+      expect(resolveMarket(market('both_teams_score', ['Yes', 'Maybe']), final, event).status).toBe('unresolvable');
+      expect(resolveMarket(market('over_under_goals', ['Over 2.5', 'Exactly 3'], '2.5'), final, event).status).toBe('unresolvable');
+      expect(resolveMarket(market('correct_score', ['2-1', 'Home by 1']), final, event).status).toBe('unresolvable');
+    });
+  });
+
+  describe('markets needing extra data', () => {
+    it('should hold first scorer unless the match was goalless', () => {
+      const m = market('first_scorer', ['Saka', 'No Goalscorer']);
+      expect(resolveMarket(m, { homeScore: 1, awayScore: 0 }, event).status).toBe('unresolvable');
+      expect(results(m, { homeScore: 0, awayScore: 0 })).toEqual({ Saka: 'lost', 'No Goalscorer': 'won' });
+      expect(results(m, { homeScore: 1, awayScore: 0, firstScorer: 'Saka' })).toEqual({ Saka: 'won', 'No Goalscorer': 'lost' });
+    });
+
+    it('should hold set winner without period scores', () => {
+      const m = market('set_winner', ['Arsenal', 'Chelsea'], null, '2nd Set Winner');
+      expect(resolveMarket(m, { homeScore: 2, awayScore: 1 }, event).status).toBe('unresolvable');
+      expect(results(m, {
+        homeScore: 2,
+        awayScore: 1,
+        periodScores: [{ home: 6, away: 3 }, { home: 4, away: 6 }, { home: 6, away: 2 }],
+      })).toEqual({ Arsenal: 'lost', Chelsea: 'won' });
+    });
+
+    it('should hold to_qualify without a qualifier', () => {
+      const m = market('to_qualify', ['Arsenal', 'Chelsea']);
+      expect(resolveMarket(m, { homeScore: 1, awayScore: 0 }, event).status).toBe('unresolvable');
+      expect(results(m, { homeScore: 1, awayScore: 1, qualifier: 'away' })).toEqual({ Arsenal: 'lost', Chelsea: 'won' });
+    });
+  });
+});
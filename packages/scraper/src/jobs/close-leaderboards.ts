@@ -0,0 +1,45 @@
+import type { ScheduledHandler } from 'aws-lambda';
+import {
+  getDb,
+  LEADERBOARD_PERIODS,
+  getPreviousLeaderboardWindow,
+  isLeaderboardPeriodClosed,
+  closeLeaderboardPeriod,
+} from '@sport-sage/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Closes weekly, monthly and season leaderboards once their period has ended:
+ * snapshots the final standings and pays the prize tiers.
+ *
+ * Runs hourly; a period that's already been closed is skipped, even if nobody played in it.
+ */
+export const handler: ScheduledHandler = async () => {
+  logger.setContext({ job: 'close-leaderboards' });
+
+  const db = getDb();
+
+  try {
+    for (const period of LEADERBOARD_PERIODS) {
+      const window = getPreviousLeaderboardWindow(period);
+
+      if (await isLeaderboardPeriodClosed(db, window)) {
+        continue;
+      }
+
+      try {
+        const result = await closeLeaderboardPeriod(db, window);
+        if (result) {
+          logger.info(`Closed ${period} leaderboard ${window.key}: ${result.participants} ranked, ${result.prizesPaid} prizes paid`);
+        }
+      } catch (error) {
+        logger.error(`Failed to close ${period} leaderboard ${window.key}`, error);
+      }
+    }
+  } catch (error) {
+    logger.error('Close leaderboards job failed', error);
+    throw error;
+  } finally {
+    logger.clearContext();
+  }
+};
@@ -5,22 +5,30 @@ import {
   outcomes,
   predictions,
   accumulatorSelections,
-  users,
-  userStats,
-  transactions,
-  activityFeed,
+  settlePrediction,
+  settleAccumulator,
 } from '@sport-sage/database';
 import { eq, and, sql } from 'drizzle-orm';
 import { logger } from '../utils/logger';
+import {
+  resolveMarket,
+  type OutcomeResult,
+  type SettlementResult,
+} from '../settlement/market-resolvers';
 
 interface SettlementMessage {
   type: 'event_finished';
   eventId: string;
   externalId: string;
-  result: {
-    homeScore: number;
-    awayScore: number;
-  };
+  result: SettlementResult;
+}
+
+/**
+ * Outcome results for one event, plus markets we couldn't resolve
+ */
+interface EventResolution {
+  outcomeResults: Map<string, OutcomeResult>;
+  unresolvableMarkets: Map<string, string>; // marketId -> reason
 }
 
 export const handler: SQSHandler = async (event: SQSEvent) => {
@@ -59,16 +67,32 @@ async function processRecord(record: SQSRecord): Promise<void> {
       return;
     }
 
-    // Determine winners for each market
+    // Resolve every market with its registered resolver
+    const resolution: EventResolution = {
+      outcomeResults: new Map(),
+      unresolvableMarkets: new Map(),
+    };
+
     for (const market of event.markets) {
-      const winners = determineWinners(market, message.result, event);
+      const marketResolution = resolveMarket(market, message.result, event);
+
+      if (marketResolution.status === 'unresolvable') {
+        resolution.unresolvableMarkets.set(market.id, marketResolution.reason);
+        logger.warn('Market cannot be resolved automatically', {
+          marketId: market.id,
+          type: market.type,
+          reason: marketResolution.reason,
+        });
+        continue;
+      }
 
-      for (const outcome of market.outcomes) {
-        const isWinner = winners.includes(outcome.id);
+      for (const [outcomeId, outcomeResult] of marketResolution.results) {
+        resolution.outcomeResults.set(outcomeId, outcomeResult);
+        // Void outcomes have no winner
         await db
           .update(outcomes)
-          .set({ isWinner })
-          .where(eq(outcomes.id, outcome.id));
+          .set({ isWinner: outcomeResult === 'void' ? null : outcomeResult === 'won' })
+          .where(eq(outcomes.id, outcomeId));
       }
     }
 
@@ -89,11 +113,27 @@ async function processRecord(record: SQSRecord): Promise<void> {
 
     // Settle each prediction
     for (const prediction of pendingPredictions) {
-      await settleSinglePrediction(db, prediction, message.result);
+      const holdReason = prediction.marketId
+        ? resolution.unresolvableMarkets.get(prediction.marketId)
+        : undefined;
+      if (holdReason) {
+        await holdPrediction(db, prediction.id, holdReason);
+        continue;
+      }
+
+      const outcomeResult = prediction.outcomeId
+        ? resolution.outcomeResults.get(prediction.outcomeId)
+        : undefined;
+      if (!outcomeResult) {
+        await holdPrediction(db, prediction.id, 'Outcome missing from settlement result');
+        continue;
+      }
+
+      await settleSinglePrediction(db, prediction, outcomeResult);
     }
 
     // Handle accumulator selections
-    await settleAccumulatorSelections(db, message.eventId);
+    await settleAccumulatorSelections(db, message.eventId, resolution);
 
     logger.info('Settlement completed', { eventId: message.eventId });
   } catch (error) {
@@ -104,134 +144,42 @@ async function processRecord(record: SQSRecord): Promise<void> {
   }
 }
 
-function determineWinners(
-  market: any,
-  result: { homeScore: number; awayScore: number },
-  event: any
-): string[] {
-  const winners: string[] = [];
-  const { homeScore, awayScore } = result;
-
-  switch (market.type) {
-    case 'match_winner':
-      // Find the winning outcome
-      for (const outcome of market.outcomes) {
-        const name = outcome.name.toLowerCase();
-        if (homeScore > awayScore && (name.includes('home') || name === event.homeTeamName?.toLowerCase() || name === '1')) {
-          winners.push(outcome.id);
-        } else if (awayScore > homeScore && (name.includes('away') || name === event.awayTeamName?.toLowerCase() || name === '2')) {
-          winners.push(outcome.id);
-        } else if (homeScore === awayScore && (name.includes('draw') || name === 'x')) {
-          winners.push(outcome.id);
-        }
-      }
-      break;
-
-    case 'both_teams_score':
-      const btts = homeScore > 0 && awayScore > 0;
-      for (const outcome of market.outcomes) {
-        if ((btts && outcome.name.toLowerCase() === 'yes') ||
-            (!btts && outcome.name.toLowerCase() === 'no')) {
-          winners.push(outcome.id);
-        }
-      }
-      break;
-
-    case 'over_under_goals':
-      const totalGoals = homeScore + awayScore;
-      const line = parseFloat(market.line) || 2.5;
-      for (const outcome of market.outcomes) {
-        const name = outcome.name.toLowerCase();
-        if ((name.includes('over') && totalGoals > line) ||
-            (name.includes('under') && totalGoals < line)) {
-          winners.push(outcome.id);
-        }
-      }
-      break;
-
-    // Add more market types as needed
-  }
-
-  return winners;
+/**
+ * Hold a prediction for manual review instead of settling it
+ */
+async function holdPrediction(db: any, predictionId: string, reason: string): Promise<void> {
+  await db
+    .update(predictions)
+    .set({
+      isHeld: true,
+      holdReason: reason,
+      heldAt: new Date(),
+    })
+    .where(eq(predictions.id, predictionId));
+
+  logger.info(`Held prediction: ${predictionId}`, { reason });
 }
 
-async function settleSinglePrediction(db: any, prediction: any, result: any): Promise<void> {
-  const isWinner = prediction.outcome?.isWinner === true;
-  const status = isWinner ? 'won' : 'lost';
+async function settleSinglePrediction(db: any, prediction: any, outcomeResult: OutcomeResult): Promise<void> {
+  const settlement = await settlePrediction(db, prediction.id, outcomeResult);
 
-  const settledCoins = isWinner ? prediction.potentialCoins : 0;
-  const settledStars = isWinner ? prediction.potentialStars : 0;
+  if (!settlement) {
+    logger.info(`Prediction already settled: ${prediction.id}`);
+    return;
+  }
 
-  await db.transaction(async (tx: any) => {
-    // Update prediction
-    await tx
-      .update(predictions)
-      .set({
-        status,
-        settledCoins,
-        settledStars,
-        settledAt: new Date(),
-      })
-      .where(eq(predictions.id, prediction.id));
-
-    if (isWinner) {
-      // Credit user
-      await tx
-        .update(users)
-        .set({
-          coins: sql`coins + ${settledCoins}`,
-          stars: sql`stars + ${settledStars}`,
-        })
-        .where(eq(users.id, prediction.userId));
-
-      // Create transaction
-      await tx.insert(transactions).values({
-        userId: prediction.userId,
-        type: 'prediction_win',
-        currency: 'coins',
-        amount: settledCoins,
-        balanceAfter: 0, // Will be recalculated
-        description: 'Prediction won',
-        referenceId: prediction.id,
-        referenceType: 'prediction',
-      });
-
-      // Update stats
-      await tx
-        .update(userStats)
-        .set({
-          totalWins: sql`total_wins + 1`,
-          currentStreak: sql`current_streak + 1`,
-          bestStreak: sql`GREATEST(best_streak, current_streak + 1)`,
-          totalStarsEarned: sql`total_stars_earned + ${settledStars}`,
-        })
-        .where(eq(userStats.userId, prediction.userId));
-
-      // Create activity feed entry
-      await tx.insert(activityFeed).values({
-        userId: prediction.userId,
-        type: 'prediction_won',
-        title: 'Won a prediction!',
-        description: `Won ${settledCoins} coins`,
-        predictionId: prediction.id,
-        metadata: { coins: settledCoins, stars: settledStars },
-      });
-    } else {
-      // Update stats for loss
-      await tx
-        .update(userStats)
-        .set({
-          totalLosses: sql`total_losses + 1`,
-          currentStreak: 0,
-        })
-        .where(eq(userStats.userId, prediction.userId));
-    }
+  logger.info(`Settled prediction: ${prediction.id}`, {
+    status: settlement.status,
+    settledCoins: settlement.settledCoins,
+    settledStars: settlement.settledStars,
   });
-
-  logger.info(`Settled prediction: ${prediction.id}`, { status, settledCoins, settledStars });
 }
 
-async function settleAccumulatorSelections(db: any, eventId: string): Promise<void> {
+async function settleAccumulatorSelections(
+  db: any,
+  eventId: string,
+  resolution: EventResolution
+): Promise<void> {
   // Get all pending accumulator selections for this event
   // Use raw SQL for enum comparison (Data API compatibility)
   const pendingSelections = await db.query.accumulatorSelections.findMany({
@@ -240,7 +188,6 @@ async function settleAccumulatorSelections(db: any, eventId: string): Promise<vo
       sql`${accumulatorSelections.status}::text = 'pending'`
     ),
     with: {
-      outcome: true,
       prediction: {
         with: { selections: true },
       },
@@ -248,122 +195,50 @@ async function settleAccumulatorSelections(db: any, eventId: string): Promise<vo
   });
 
   for (const selection of pendingSelections) {
-    const isWinner = selection.outcome?.isWinner === true;
+    // Leave the leg pending and hold the whole accumulator
+    const holdReason = resolution.unresolvableMarkets.get(selection.marketId);
+    if (holdReason) {
+      await holdPrediction(db, selection.prediction.id, holdReason);
+      continue;
+    }
+
+    const legResult = resolution.outcomeResults.get(selection.outcomeId);
+    if (!legResult) {
+      await holdPrediction(db, selection.prediction.id, 'Outcome missing from settlement result');
+      continue;
+    }
 
     // Update selection status
     await db
       .update(accumulatorSelections)
       .set({
-        status: isWinner ? 'won' : 'lost',
+        status: legResult,
         settledAt: new Date(),
       })
       .where(eq(accumulatorSelections.id, selection.id));
 
     // Check if all selections in the accumulator are settled
-    const allSelections = selection.prediction.selections;
-    const allSettled = allSelections.every((s: any) =>
-      s.id === selection.id ? true : s.status !== 'pending'
+    const allSettled = selection.prediction.selections.every((s: any) =>
+      s.id === selection.id || s.status !== 'pending'
     );
 
     if (allSettled) {
-      // Determine overall accumulator result
-      const updatedSelections = allSelections.map((s: any) =>
-        s.id === selection.id ? { ...s, status: isWinner ? 'won' : 'lost' } : s
-      );
-
-      const allWon = updatedSelections.every((s: any) => s.status === 'won');
-      const anyLost = updatedSelections.some((s: any) => s.status === 'lost');
-
-      let accStatus: 'won' | 'lost' | 'partial';
-      if (allWon) {
-        accStatus = 'won';
-      } else if (anyLost) {
-        accStatus = 'lost';
-      } else {
-        accStatus = 'partial';
-      }
-
-      // Settle the accumulator prediction
-      await settleAccumulator(db, selection.prediction.id, accStatus);
+      await settleAccumulatorPrediction(db, selection.prediction.id);
     }
   }
 }
 
-async function settleAccumulator(
-  db: any,
-  predictionId: string,
-  status: 'won' | 'lost' | 'partial'
-): Promise<void> {
-  const prediction = await db.query.predictions.findFirst({
-    where: eq(predictions.id, predictionId),
-    with: { user: true },
-  });
-
-  if (!prediction) return;
+async function settleAccumulatorPrediction(db: any, predictionId: string): Promise<void> {
+  const settlement = await settleAccumulator(db, predictionId);
 
-  const settledCoins = status === 'won' ? prediction.potentialCoins : 0;
-  const settledStars = status === 'won' ? prediction.potentialStars : 0;
+  if (!settlement) {
+    logger.info(`Accumulator not ready or already settled: ${predictionId}`);
+    return;
+  }
 
-  await db.transaction(async (tx: any) => {
-    await tx
-      .update(predictions)
-      .set({
-        status,
-        settledCoins,
-        settledStars,
-        settledAt: new Date(),
-      })
-      .where(eq(predictions.id, predictionId));
-
-    if (status === 'won') {
-      await tx
-        .update(users)
-        .set({
-          coins: sql`coins + ${settledCoins}`,
-          stars: sql`stars + ${settledStars}`,
-        })
-        .where(eq(users.id, prediction.userId));
-
-      await tx.insert(transactions).values({
-        userId: prediction.userId,
-        type: 'prediction_win',
-        currency: 'coins',
-        amount: settledCoins,
-        balanceAfter: 0,
-        description: 'Accumulator won',
-        referenceId: predictionId,
-        referenceType: 'prediction',
-      });
-
-      await tx
-        .update(userStats)
-        .set({
-          totalWins: sql`total_wins + 1`,
-          totalAccumulatorsWon: sql`total_accumulators_won + 1`,
-          currentStreak: sql`current_streak + 1`,
-          bestStreak: sql`GREATEST(best_streak, current_streak + 1)`,
-          totalStarsEarned: sql`total_stars_earned + ${settledStars}`,
-        })
-        .where(eq(userStats.userId, prediction.userId));
-
-      await tx.insert(activityFeed).values({
-        userId: prediction.userId,
-        type: 'accumulator_won',
-        title: 'Won an accumulator!',
-        description: `Won ${settledCoins} coins`,
-        predictionId,
-        metadata: { coins: settledCoins, stars: settledStars },
-      });
-    } else {
-      await tx
-        .update(userStats)
-        .set({
-          totalLosses: sql`total_losses + 1`,
-          currentStreak: 0,
-        })
-        .where(eq(userStats.userId, prediction.userId));
-    }
+  logger.info(`Settled accumulator: ${predictionId}`, {
+    status: settlement.status,
+    settledCoins: settlement.settledCoins,
+    settledStars: settlement.settledStars,
   });
-
-  logger.info(`Settled accumulator: ${predictionId}`, { status, settledCoins, settledStars });
 }
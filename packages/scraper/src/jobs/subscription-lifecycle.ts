@@ -0,0 +1,32 @@
+import type { ScheduledHandler } from 'aws-lambda';
+import { getDb, downgradeExpiredSubscriptions, paySubscriptionBonuses } from '@sport-sage/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Acts on subscriptions after they're granted: downgrades expired Pro/Elite
+ * subscriptions to free, then pays each active subscriber's monthly bonus.
+ *
+ * Runs hourly; users already downgraded or paid this month are skipped.
+ */
+export const handler: ScheduledHandler = async () => {
+  logger.setContext({ job: 'subscription-lifecycle' });
+
+  const db = getDb();
+
+  try {
+    const downgraded = await downgradeExpiredSubscriptions(db);
+    if (downgraded.length > 0) {
+      logger.info(`Downgraded ${downgraded.length} expired subscriptions: ${downgraded.map((u) => u.username).join(', ')}`);
+    }
+
+    const bonuses = await paySubscriptionBonuses(db);
+    if (bonuses.usersPaid > 0) {
+      logger.info(`Paid ${bonuses.usersPaid} subscription bonuses (${bonuses.coinsPaid} coins, ${bonuses.gemsPaid} gems)`);
+    }
+  } catch (error) {
+    logger.error('Subscription lifecycle job failed', error);
+    throw error;
+  } finally {
+    logger.clearContext();
+  }
+};
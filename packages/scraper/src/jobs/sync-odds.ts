@@ -1,5 +1,6 @@
 import type { ScheduledHandler, Context } from 'aws-lambda';
-import { getDb, events, markets, outcomes } from '@sport-sage/database';
+import { getDb, events, markets, outcomes, oddsHistory, priceMarket } from '@sport-sage/database';
+import type { Database, Event, Market, Outcome, NewOddsHistory } from '@sport-sage/database';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import { launchBrowser } from '../utils/browser';
 import { logger } from '../utils/logger';
@@ -76,7 +77,7 @@ export const handler: ScheduledHandler = async (event, context: Context) => {
           const matched = matchEventToScrapedOdds(evt, scrapedOdds);
 
           if (matched) {
-            await updateEventOdds(db, evt, matched.odds);
+            await updateEventOdds(db, evt, matched.odds, sportSlug);
             totalUpdated++;
           }
         }
@@ -174,36 +175,78 @@ function logMatchStats() {
   }
 }
 
-async function updateEventOdds(db: any, event: any, odds: NormalizedOdds): Promise<void> {
+type EventWithMarkets = Event & { markets: (Market & { outcomes: Outcome[] })[] };
+
+/**
+ * A match_winner price change for odds_history, for the price charts
+ */
+function toOddsChange(
+  eventId: string,
+  outcomeName: string,
+  previousOdds: string | null,
+  newOdds: number,
+  source: string
+): NewOddsHistory {
+  const previous = previousOdds === null ? null : parseFloat(previousOdds);
+  // A previous price of 0 is junk rather than a baseline to measure against
+  const change = previous === null || previous === 0 ? null : ((newOdds - previous) / previous) * 100;
+
+  return {
+    eventId,
+    marketType: 'match_winner',
+    outcomeName,
+    previousOdds,
+    newOdds: newOdds.toString(),
+    changePercent: change === null ? null : `${change > 0 ? '+' : ''}${change.toFixed(0)}%`,
+    source,
+  };
+}
+
+async function updateEventOdds(db: Database, event: EventWithMarkets, scraped: NormalizedOdds, sportSlug: string): Promise<void> {
   // Find the match_winner market
-  const mainMarket = event.markets.find((m: any) => m.type === 'match_winner');
+  const mainMarket = event.markets.find((m) => m.type === 'match_winner');
 
   if (!mainMarket) {
     logger.debug('No match_winner market found', { eventId: event.id });
     return;
   }
 
-  // Update market with odds
+  // A 1X2 book missing its draw price would be repriced as if it were two-way
+  const isThreeWay = sportSlug === 'football'
+    || mainMarket.outcomes.some((o) => o.name.toLowerCase() === 'draw');
+  if (isThreeWay && scraped.draw === undefined) {
+    logger.debug('Skipping odds without a draw price for a 3-way market', { eventId: event.id, source: scraped.source });
+    return;
+  }
+
+  // Our prices: the source's margin is removed and the sport's house margin applied
+  const priced = priceMarket(
+    Object.fromEntries(
+      [['Home Win', scraped.homeWin], ['Draw', scraped.draw], ['Away Win', scraped.awayWin]]
+        .filter((entry): entry is [string, number] => entry[1] !== undefined)
+    ),
+    sportSlug
+  );
+  const odds = { ...scraped, homeWin: priced['Home Win'], draw: priced['Draw'], awayWin: priced['Away Win'] };
+
+  // Prices live on the outcomes; the market only records that it changed
   if (odds.homeWin !== undefined || odds.awayWin !== undefined) {
     await db
       .update(markets)
-      .set({
-        homeOdds: odds.homeWin?.toString(),
-        drawOdds: odds.draw?.toString(),
-        awayOdds: odds.awayWin?.toString(),
-        updatedAt: new Date(),
-      })
+      .set({ updatedAt: new Date() })
       .where(eq(markets.id, mainMarket.id));
 
-    // Also update or create individual outcomes
+    // Update or create individual outcomes
     const outcomeData = [
       { name: 'Home Win', odds: odds.homeWin },
       { name: 'Draw', odds: odds.draw },
       { name: 'Away Win', odds: odds.awayWin },
-    ].filter(o => o.odds !== undefined);
+    ].filter((o): o is { name: string; odds: number } => o.odds !== undefined);
+
+    const changes: NewOddsHistory[] = [];
 
     for (const outcomeInfo of outcomeData) {
-      const existingOutcome = mainMarket.outcomes.find((o: any) =>
+      const existingOutcome = mainMarket.outcomes.find((o) =>
         o.name.toLowerCase() === outcomeInfo.name.toLowerCase()
       );
 
@@ -211,19 +254,30 @@ async function updateEventOdds(db: any, event: any, odds: NormalizedOdds): Promi
         await db
           .update(outcomes)
           .set({
-            odds: outcomeInfo.odds!.toString(),
+            odds: outcomeInfo.odds.toString(),
             previousOdds: existingOutcome.odds,
             updatedAt: new Date(),
           })
           .where(eq(outcomes.id, existingOutcome.id));
+
+        if (parseFloat(existingOutcome.odds) !== outcomeInfo.odds) {
+          changes.push(toOddsChange(event.id, outcomeInfo.name, existingOutcome.odds, outcomeInfo.odds, odds.source));
+        }
       } else {
         await db.insert(outcomes).values({
           marketId: mainMarket.id,
           name: outcomeInfo.name,
-          odds: outcomeInfo.odds!.toString(),
+          odds: outcomeInfo.odds.toString(),
         });
+
+        // Opening price
+        changes.push(toOddsChange(event.id, outcomeInfo.name, null, outcomeInfo.odds, odds.source));
       }
     }
+
+    if (changes.length > 0) {
+      await db.insert(oddsHistory).values(changes);
+    }
   }
 
   logger.debug('Updated odds for event', {
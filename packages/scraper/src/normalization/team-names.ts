@@ -1,4 +1,4 @@
-import { getDb, teams, teamAliases } from '@sport-sage/database';
+import { getDb, teams, teamAliases, mergeTeams as mergeTeamsInDb, TEAM_MERGE_ERROR_MESSAGES } from '@sport-sage/database';
 import { eq, and, ilike, sql } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 
@@ -379,20 +379,17 @@ export async function addManualAlias(
 
 /**
  * Merge duplicate teams - for admin use
- * Moves all aliases from source team to target team
+ * Repoints events and aliases to the target team and deletes the source (see mergeTeams in @sport-sage/database)
  */
 export async function mergeTeams(
   targetTeamId: string,
   sourceTeamId: string
 ): Promise<void> {
-  const db = getDb();
+  const result = await mergeTeamsInDb(getDb(), targetTeamId, sourceTeamId);
 
-  // Move all aliases to target team
-  await db
-    .update(teamAliases)
-    .set({ teamId: targetTeamId })
-    .where(eq(teamAliases.teamId, sourceTeamId));
+  if (result.status === 'rejected') {
+    throw new Error(TEAM_MERGE_ERROR_MESSAGES[result.error]);
+  }
 
-  // Note: Events and other references need to be updated separately
-  logger.info(`Merged team ${sourceTeamId} into ${targetTeamId}`);
+  logger.info(`Merged team ${sourceTeamId} into ${targetTeamId}`, result);
 }
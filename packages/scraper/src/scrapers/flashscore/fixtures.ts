@@ -358,7 +358,7 @@ export class FlashscoreFixturesScraper {
       // Use known competition if provided, otherwise try to parse from DOM
       let competition = knownCompetition;
       if (!competition) {
-        competition = await this.getCompetitionName(element);
+        competition = (await this.getCompetitionName(element)) ?? undefined;
       }
 
       return {
@@ -385,7 +385,7 @@ export class OddsPortalScraper {
 
             if (homeTeam && awayTeam && homeTeam.length > 2 && awayTeam.length > 2) {
               // Look for odds - decimal numbers like 1.50, 2.00
-              const oddsMatches = rowText.match(/\d+\.\d{1,2}/g) || [];
+              const oddsMatches: string[] = rowText.match(/\d+\.\d{1,2}/g) || [];
               let odds: { home: string; draw: string; away: string; bookmakerCount: number } | null = null;
 
               if (oddsMatches.length >= 2) {
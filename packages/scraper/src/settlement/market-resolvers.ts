@@ -0,0 +1,324 @@
+/**
+ * Market Resolvers
+ *
+ * Turns a final result into per-outcome results for every market type.
+ * Each market type has one resolver, registered in MARKET_RESOLVERS.
+ *
+ * Resolvers return one of:
+ * - resolved: every outcome is 'won', 'lost' or 'void' (push / dead heat on an exact line)
+ * - unresolvable: the market needs data we don't have (e.g. first scorer, per-set scores),
+ *   or has an outcome we can't match to a result (e.g. a team alias), so its
+ *   predictions must be held for review rather than marked lost
+ */
+
+export type MarketType =
+  | 'match_winner'
+  | 'double_chance'
+  | 'both_teams_score'
+  | 'over_under_goals'
+  | 'over_under_points'
+  | 'correct_score'
+  | 'first_scorer'
+  | 'handicap'
+  | 'set_winner'
+  | 'game_winner'
+  | 'frame_winner'
+  | 'to_qualify';
+
+export type OutcomeResult = 'won' | 'lost' | 'void';
+
+export interface SettlementResult {
+  homeScore: number;
+  awayScore: number;
+  // Optional detail - only some sources provide these
+  periodScores?: Array<{ home: number; away: number }>; // Per set/frame/game, in order
+  firstScorer?: string | null; // null = no goalscorer
+  qualifier?: 'home' | 'away';
+}
+
+export interface ResolvableMarket {
+  type: MarketType;
+  name: string | null;
+  line: string | null;
+  outcomes: Array<{ id: string; name: string }>;
+}
+
+export interface ResolvableEvent {
+  homeTeamName: string | null;
+  awayTeamName: string | null;
+  player1Name: string | null;
+  player2Name: string | null;
+}
+
+export type MarketResolution =
+  | { status: 'resolved'; results: Map<string, OutcomeResult> }
+  | { status: 'unresolvable'; reason: string };
+
+export type MarketResolver = (
+  market: ResolvableMarket,
+  result: SettlementResult,
+  event: ResolvableEvent
+) => MarketResolution;
+
+type Side = 'home' | 'draw' | 'away';
+
+// ============ HELPERS ============
+
+/**
+ * Settle every outcome with `decide`. It returns null for an outcome name it
+ * can't interpret, and then the whole market is held - one unreadable outcome
+ * means we can't be sure the others are right either.
+ */
+function resolved(
+  market: ResolvableMarket,
+  decide: (outcomeName: string) => OutcomeResult | null
+): MarketResolution {
+  const results = new Map<string, OutcomeResult>();
+  for (const outcome of market.outcomes) {
+    const result = decide(outcome.name.trim().toLowerCase());
+    if (result === null) {
+      return unresolvable(`Cannot match outcome "${outcome.name}" to a result`);
+    }
+    results.set(outcome.id, result);
+  }
+  return { status: 'resolved', results };
+}
+
+function unresolvable(reason: string): MarketResolution {
+  return { status: 'unresolvable', reason };
+}
+
+function parseLine(line: string | null): number | null {
+  if (line === null || line === undefined) return null;
+  const value = parseFloat(line);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Quarter lines (2.25, -0.75) split the stake across two lines.
+ * A single outcome flag can't express a half win, so they're held.
+ */
+function isQuarterLine(line: number): boolean {
+  return Math.abs((Math.abs(line) * 4) % 2 - 1) < 1e-9;
+}
+
+/**
+ * Work out which side an outcome name refers to.
+ * Accepts "Home"/"Away"/"Draw" (optionally "... Win"), "1"/"X"/"2" and the event's
+ * exact team or player names, each optionally followed by a handicap ("Arsenal -1.5").
+ * Anything else - including aliases like "Man Utd" - is null.
+ */
+function outcomeSide(name: string, event: ResolvableEvent): Side | null {
+  const home = (event.homeTeamName || event.player1Name)?.trim().toLowerCase();
+  const away = (event.awayTeamName || event.player2Name)?.trim().toLowerCase();
+  // Try the name as it is first, so a team name ending in a number ("Schalke 04") still matches
+  const labels = [name, name.replace(/\s+[+-]?\d+(?:\.\d+)?$/, '')].map((label) => label.replace(/\s+win$/, '').trim());
+
+  for (const label of labels) {
+    if (label === '1' || label === 'home' || (home && label === home)) return 'home';
+    if (label === '2' || label === 'away' || (away && label === away)) return 'away';
+    if (label === 'x' || label === 'draw' || label === 'tie') return 'draw';
+  }
+  return null;
+}
+
+// Won or lost by whether the outcome is the winning side; null if it isn't a side at all
+function sideResult(name: string, event: ResolvableEvent, winner: Side | undefined): OutcomeResult | null {
+  const side = outcomeSide(name, event);
+  if (side === null) return null;
+  return side === winner ? 'won' : 'lost';
+}
+
+function sideOf(home: number, away: number): Side {
+  if (home > away) return 'home';
+  if (away > home) return 'away';
+  return 'draw';
+}
+
+/**
+ * Settle an over/under market on a total. An exact whole line is a push.
+ */
+function resolveTotal(market: ResolvableMarket, total: number, defaultLine: number | null): MarketResolution {
+  const line = parseLine(market.line) ?? defaultLine;
+  if (line === null) {
+    return unresolvable('Over/under market has no line');
+  }
+  if (isQuarterLine(line)) {
+    return unresolvable(`Quarter line ${line} needs split settlement`);
+  }
+
+  return resolved(market, (name) => {
+    const isOver = name.startsWith('over');
+    if (!isOver && !name.startsWith('under')) return null;
+    if (total === line) return 'void';
+    return (isOver ? total > line : total < line) ? 'won' : 'lost';
+  });
+}
+
+/**
+ * Which period a set/frame/game market refers to: the market line,
+ * or an ordinal in its name ("2nd Set Winner").
+ */
+function periodIndex(market: ResolvableMarket): number | null {
+  const line = parseLine(market.line);
+  if (line !== null && Number.isInteger(line) && line >= 1) return line;
+
+  const match = market.name?.match(/(\d+)(?:st|nd|rd|th)?\s*(?:set|frame|game)/i)
+    ?? market.name?.match(/(?:set|frame|game)\s*(\d+)/i);
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+function resolvePeriodWinner(label: string): MarketResolver {
+  return (market, result, event) => {
+    const index = periodIndex(market);
+    if (index === null) {
+      return unresolvable(`Cannot tell which ${label} this market is for`);
+    }
+
+    const period = result.periodScores?.[index - 1];
+    if (!period) {
+      return unresolvable(`No score available for ${label} ${index}`);
+    }
+
+    const winner = sideOf(period.home, period.away);
+    return resolved(market, (name) => sideResult(name, event, winner));
+  };
+}
+
+// ============ RESOLVERS ============
+
+const resolveMatchWinner: MarketResolver = (market, result, event) => {
+  const winner = sideOf(result.homeScore, result.awayScore);
+  return resolved(market, (name) => sideResult(name, event, winner));
+};
+
+const resolveDoubleChance: MarketResolver = (market, result, event) => {
+  const winner = sideOf(result.homeScore, result.awayScore);
+
+  // "1X" / "X2" / "12", or "Home or Draw" style names - null if any part isn't a side
+  const coveredSides = (name: string): Set<Side> | null => {
+    const compact = name.replace(/\s+/g, '');
+    if (/^[12x]{2}$/.test(compact)) {
+      return new Set([...compact].map((c) => (c === '1' ? 'home' : c === '2' ? 'away' : 'draw')));
+    }
+    const sides = name.split(/\s+or\s+|\s*\/\s*/).map((part) => outcomeSide(part.trim(), event));
+    if (sides.length < 2 || sides.some((side) => side === null)) return null;
+    return new Set(sides as Side[]);
+  };
+
+  return resolved(market, (name) => {
+    const sides = coveredSides(name);
+    if (!sides) return null;
+    return sides.has(winner) ? 'won' : 'lost';
+  });
+};
+
+const resolveBothTeamsScore: MarketResolver = (market, result) => {
+  const btts = result.homeScore > 0 && result.awayScore > 0;
+  return resolved(market, (name) => {
+    if (name === 'yes') return btts ? 'won' : 'lost';
+    if (name === 'no') return btts ? 'lost' : 'won';
+    return null;
+  });
+};
+
+const resolveCorrectScore: MarketResolver = (market, result) => {
+  const parseScore = (name: string): [number, number] | null => {
+    const match = name.match(/^(\d+)\s*[-:]\s*(\d+)$/);
+    return match ? [parseInt(match[1]!, 10), parseInt(match[2]!, 10)] : null;
+  };
+
+  // "Any other score" only wins when no listed score matched
+  const listedScoreHit = market.outcomes.some((o) => {
+    const score = parseScore(o.name.trim());
+    return score !== null && score[0] === result.homeScore && score[1] === result.awayScore;
+  });
+
+  return resolved(market, (name) => {
+    const score = parseScore(name);
+    if (score) {
+      return score[0] === result.homeScore && score[1] === result.awayScore ? 'won' : 'lost';
+    }
+    if (name.includes('other')) return listedScoreHit ? 'lost' : 'won';
+    return null;
+  });
+};
+
+/**
+ * Handicap markets carry the home side's handicap as the line.
+ * Two-way (Asian) handicaps push on an exact line; three-way (European)
+ * handicaps have a draw outcome instead.
+ */
+const resolveHandicap: MarketResolver = (market, result, event) => {
+  const line = parseLine(market.line);
+  if (line === null) {
+    return unresolvable('Handicap market has no line');
+  }
+  if (isQuarterLine(line)) {
+    return unresolvable(`Quarter handicap ${line} needs split settlement`);
+  }
+
+  const adjustedWinner = sideOf(result.homeScore + line, result.awayScore);
+  const hasDrawOutcome = market.outcomes.some((o) => outcomeSide(o.name.trim().toLowerCase(), event) === 'draw');
+
+  return resolved(market, (name) => {
+    const result = sideResult(name, event, adjustedWinner);
+    if (result !== null && adjustedWinner === 'draw' && !hasDrawOutcome) return 'void';
+    return result;
+  });
+};
+
+const resolveFirstScorer: MarketResolver = (market, result) => {
+  const noScorer = (name: string) => name.includes('no goalscorer') || name.includes('no scorer') || name === 'none';
+
+  // A goalless match settles without scorer data
+  if (result.homeScore + result.awayScore === 0) {
+    return resolved(market, (name) => (noScorer(name) ? 'won' : 'lost'));
+  }
+
+  if (!result.firstScorer) {
+    return unresolvable('First scorer not available from result data');
+  }
+
+  const scorer = result.firstScorer.trim().toLowerCase();
+  return resolved(market, (name) => (name === scorer ? 'won' : 'lost'));
+};
+
+const resolveToQualify: MarketResolver = (market, result, event) => {
+  // Aggregate scores, extra time and penalties aren't in the final score
+  if (!result.qualifier) {
+    return unresolvable('Qualifying team not available from result data');
+  }
+
+  return resolved(market, (name) => sideResult(name, event, result.qualifier));
+};
+
+export const MARKET_RESOLVERS: Record<MarketType, MarketResolver> = {
+  match_winner: resolveMatchWinner,
+  double_chance: resolveDoubleChance,
+  both_teams_score: resolveBothTeamsScore,
+  over_under_goals: (market, result) => resolveTotal(market, result.homeScore + result.awayScore, 2.5),
+  over_under_points: (market, result) => resolveTotal(market, result.homeScore + result.awayScore, null),
+  correct_score: resolveCorrectScore,
+  first_scorer: resolveFirstScorer,
+  handicap: resolveHandicap,
+  set_winner: resolvePeriodWinner('set'),
+  game_winner: resolvePeriodWinner('game'),
+  frame_winner: resolvePeriodWinner('frame'),
+  to_qualify: resolveToQualify,
+};
+
+/**
+ * Resolve a market using its registered resolver
+ */
+export function resolveMarket(
+  market: ResolvableMarket,
+  result: SettlementResult,
+  event: ResolvableEvent
+): MarketResolution {
+  const resolver = MARKET_RESOLVERS[market.type];
+  if (!resolver) {
+    return unresolvable(`No resolver for market type ${market.type}`);
+  }
+  return resolver(market, result, event);
+}
@@ -22,7 +22,7 @@ class ScraperLogger {
       level,
       message,
       ...this.context,
-      ...(data && { data }),
+      ...(data ? { data } : {}),
     };
     return JSON.stringify(logEntry);
   }